@@ -1,4 +1,4 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, useRoute } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
@@ -17,13 +17,26 @@ import RadioStations from "@/pages/radio-stations";
 import Users from "@/pages/users";
 import { AnalyticsPage } from "@/pages/AnalyticsPage";
 import OnboardingPage from "@/pages/onboarding";
+import Jobs from "@/pages/jobs";
+import Quarantine from "@/pages/quarantine";
+import Trash from "@/pages/trash";
+import Judging from "@/pages/judging";
+import JoinTeam from "@/pages/join-team";
 import AuthPage from "@/pages/AuthPage";
+import SharedFilePage from "@/pages/shared-file";
+import ShowcasePage from "@/pages/showcase";
 import NotFound from "@/pages/not-found";
 
 function Router() {
-  const { isAuthenticated, isLoading, isAdmin, user } = useAuth();
-  const canAccessAdvancedFeatures = user?.role === 'organizer' || user?.role === 'analyzer';
+  const { isAuthenticated, isLoading, user, can } = useAuth();
   const { notifications, dismissNotification } = useWebSocket();
+  const [isSharedFile] = useRoute("/share/:token");
+  const [isShowcaseIndex] = useRoute("/showcase");
+  const [isShowcaseHackathon] = useRoute("/showcase/:id");
+
+  // Share links and showcase pages are opened by people without an account
+  if (isSharedFile) return <SharedFilePage />;
+  if (isShowcaseIndex || isShowcaseHackathon) return <ShowcasePage />;
 
   return (
     <div className="min-h-screen bg-background text-foreground">
@@ -53,6 +66,11 @@ function Router() {
               <Route path="/users" component={AuthPage} />
               <Route path="/analytics" component={AuthPage} />
               <Route path="/onboarding" component={AuthPage} />
+              <Route path="/jobs" component={AuthPage} />
+              <Route path="/quarantine" component={AuthPage} />
+              <Route path="/trash" component={AuthPage} />
+              <Route path="/judging" component={AuthPage} />
+              <Route path="/join/:token" component={AuthPage} />
               <Route path="/" component={AuthPage} />
             </>
           ) : (
@@ -61,11 +79,16 @@ function Router() {
               <Route path="/dashboard" component={Dashboard} />
               <Route path="/projects" component={Projects} />
               <Route path="/radio-stations" component={RadioStations} />
-              {canAccessAdvancedFeatures && <Route path="/episodes" component={Episodes} />}
-              {canAccessAdvancedFeatures && <Route path="/scripts" component={Scripts} />}
-              {isAdmin && <Route path="/users" component={Users} />}
-              {isAdmin && <Route path="/analytics" component={AnalyticsPage} />}
-              {isAdmin && <Route path="/onboarding" component={OnboardingPage} />}
+              {can('teams.join') && <Route path="/episodes" component={Episodes} />}
+              {can('submissions.create') && <Route path="/scripts" component={Scripts} />}
+              {can('users.manage') && <Route path="/users" component={Users} />}
+              {can('analytics.view') && <Route path="/analytics" component={AnalyticsPage} />}
+              {can('forms.manage') && <Route path="/onboarding" component={OnboardingPage} />}
+              {can('jobs.manage') && <Route path="/jobs" component={Jobs} />}
+              {can('files.reviewQuarantine') && <Route path="/quarantine" component={Quarantine} />}
+              {can('trash.manage') && <Route path="/trash" component={Trash} />}
+              {can('submissions.evaluate') && <Route path="/judging" component={Judging} />}
+              {can('teams.join') && <Route path="/join/:token" component={JoinTeam} />}
             </OnboardingCheck>
           )}
           <Route component={NotFound} />
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Bell, X, User, UserCheck, UserPlus, ExternalLink, Trash2 } from 'lucide-react';
+import { Bell, X, User, UserCheck, UserPlus, ExternalLink, Trash2, ClipboardCheck, Scale, Users, CalendarClock, Languages } from 'lucide-react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -28,8 +28,8 @@ interface NotificationBellProps {
 }
 
 export function NotificationBell({ userRole }: NotificationBellProps) {
-  // Only show for admin users - check before any hooks
-  if (userRole !== 'admin') {
+  // Every signed-in user gets their own notifications - check before any hooks
+  if (!userRole) {
     return null;
   }
 
@@ -225,6 +225,16 @@ export function NotificationBell({ userRole }: NotificationBellProps) {
         return <UserCheck className="h-4 w-4 text-blue-500" />;
       case 'user_registered':
         return <UserPlus className="h-4 w-4 text-green-500" />;
+      case 'submission_review':
+        return <ClipboardCheck className="h-4 w-4 text-purple-500" />;
+      case 'judging':
+        return <Scale className="h-4 w-4 text-amber-500" />;
+      case 'team_invitation':
+        return <Users className="h-4 w-4 text-sky-500" />;
+      case 'registration':
+        return <CalendarClock className="h-4 w-4 text-emerald-500" />;
+      case 'translation_outdated':
+        return <Languages className="h-4 w-4 text-amber-500" />;
       default:
         return <Bell className="h-4 w-4 text-gray-500 dark:text-gray-400" />;
     }
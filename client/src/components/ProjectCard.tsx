@@ -2,6 +2,7 @@ import { useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { can } from "@/lib/permissions";
 import { 
   FolderOpen, 
   Eye,
@@ -9,7 +10,8 @@ import {
   Trash2, 
   Clock,
   Mic,
-  FileText
+  FileText,
+  Globe
 } from "lucide-react";
 import type { Hackathon } from "@shared/schema";
 import { useProjectStats } from "@/hooks/useProjectStats";
@@ -27,9 +29,10 @@ interface HackathonCardProps {
   onView: (project: Hackathon) => void;
   onEdit: (project: Hackathon) => void;
   onDelete: (projectId: string) => void;
+  onShowcase?: (project: Hackathon) => void;
 }
 
-export function HackathonCard({ project, theme, user, onView, onEdit, onDelete }: HackathonCardProps) {
+export function HackathonCard({ project, theme, user, onView, onEdit, onDelete, onShowcase }: HackathonCardProps) {
   const { episodeCount, scriptCount } = useProjectStats(project.id);
 
   return (
@@ -55,6 +58,12 @@ export function HackathonCard({ project, theme, user, onView, onEdit, onDelete }
                 {theme.name}
               </Badge>
             )}
+            {project.isPublic && (
+              <Badge variant="outline" className="text-xs px-2 py-1 gap-1">
+                <Globe className="h-3 w-3" />
+                Public
+              </Badge>
+            )}
           </div>
           <div className="flex space-x-1">
             <Button 
@@ -65,7 +74,18 @@ export function HackathonCard({ project, theme, user, onView, onEdit, onDelete }
             >
               <Eye className="h-4 w-4 text-emerald-600" />
             </Button>
-            {(user?.role === 'organizer' || user?.role === 'analyzer') && (
+            {onShowcase && can(user, 'showcase.manage') && (
+              <Button 
+                variant="ghost" 
+                size="sm"
+                onClick={() => onShowcase(project)}
+                title="Showcase settings"
+                className="opacity-0 group-hover:opacity-100 transition-all duration-300 hover:bg-sky-50 dark:hover:bg-sky-900/20 hover:scale-110 h-7 w-7 p-0"
+              >
+                <Globe className="h-4 w-4 text-sky-600" />
+              </Button>
+            )}
+            {can(user, 'hackathons.edit') && (
               <>
                 <Button 
                   variant="ghost" 
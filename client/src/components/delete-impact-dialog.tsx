@@ -0,0 +1,125 @@
+import { useQueries } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { formatStorageSize } from "@/components/storage-usage-meter";
+
+// Confirmation for deleting hackathons or teams that first asks the server
+// what the delete would take along (GET /api/{projects,episodes}/:id/deletion-impact)
+
+interface DeletionImpact {
+  name: string;
+  hackathons: number;
+  teams: number;
+  submissions: number;
+  folders: number;
+  files: number;
+  fileBytes: number;
+  freeAccessGrants: number;
+  activeShareLinks: number;
+}
+
+type ImpactCount = Exclude<keyof DeletionImpact, "name" | "fileBytes">;
+
+const IMPACT_LABELS: [ImpactCount, string, string][] = [
+  ["teams", "team", "teams"],
+  ["submissions", "submission", "submissions"],
+  ["folders", "folder", "folders"],
+  ["files", "file", "files"],
+  ["freeAccessGrants", "free access grant", "free access grants"],
+  ["activeShareLinks", "active share link", "active share links"],
+];
+
+export function DeleteImpactDialog({
+  entityType,
+  ids,
+  noun,
+  onConfirm,
+  onCancel,
+  isPending,
+}: {
+  entityType: "projects" | "episodes";
+  ids: string[];
+  noun: [string, string]; // Singular and plural, e.g. ["hackathon", "hackathons"]
+  onConfirm: () => void;
+  onCancel: () => void;
+  isPending?: boolean;
+}) {
+  const results = useQueries({
+    queries: ids.map((id) => ({
+      queryKey: [`/api/${entityType}`, id, "deletion-impact"],
+      queryFn: async (): Promise<DeletionImpact> => {
+        const response = await fetch(`/api/${entityType}/${id}/deletion-impact`, { credentials: "include" });
+        if (!response.ok) throw new Error("Failed to fetch deletion impact");
+        return response.json();
+      },
+      staleTime: 0,
+    })),
+  });
+
+  const isLoading = results.some((result) => result.isLoading);
+  const failed = results.some((result) => result.isError);
+  const impacts = results.flatMap((result) => (result.data ? [result.data] : []));
+  const total = (key: ImpactCount | "fileBytes") => impacts.reduce((sum, impact) => sum + impact[key], 0);
+  const affected = IMPACT_LABELS
+    .filter(([key]) => total(key) > 0)
+    .map(([key, singular, plural]) => `${total(key)} ${total(key) === 1 ? singular : plural}`);
+
+  const subject = ids.length === 1
+    ? `${noun[0]} "${impacts[0]?.name ?? "…"}"`
+    : `${ids.length} ${noun[1]}`;
+
+  return (
+    <AlertDialog open={ids.length > 0} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete {subject}?</AlertDialogTitle>
+          <AlertDialogDescription asChild>
+            <div className="space-y-2 text-sm text-muted-foreground">
+              {isLoading ? (
+                <span className="flex items-center gap-2">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Checking what else would be deleted…
+                </span>
+              ) : failed ? (
+                <p>Could not check what else would be deleted.</p>
+              ) : affected.length > 0 ? (
+                <>
+                  <p>This also deletes:</p>
+                  <ul className="list-disc pl-5">
+                    {affected.map((line) => <li key={line}>{line}</li>)}
+                  </ul>
+                  {total("fileBytes") > 0 && <p>{formatStorageSize(total("fileBytes"))} of files in total.</p>}
+                </>
+              ) : (
+                <p>Nothing else is attached to it.</p>
+              )}
+              <p>Everything goes to the trash, where an organizer can restore it until it is purged.</p>
+            </div>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            className="bg-red-600 hover:bg-red-700"
+            onClick={(event) => {
+              event.preventDefault();
+              onConfirm();
+            }}
+            disabled={isLoading || isPending}
+          >
+            Delete
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,158 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Archive, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+// Entities with a /files/archive endpoint, keyed by the entity types file
+// lists are opened with (including the legacy names)
+const ARCHIVE_ROUTES: Record<string, string> = {
+  hackathons: "hackathons",
+  projects: "hackathons",
+  teams: "teams",
+  episodes: "teams",
+  submissions: "submissions",
+  scripts: "submissions",
+};
+
+// Archives bigger than this get a progress dialog instead of a spinner
+const LARGE_ARCHIVE_BYTES = 25 * 1024 * 1024;
+
+interface DownloadArchiveButtonProps {
+  entityType: string;
+  entityId: string;
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes === 0) return "0 Bytes";
+  const k = 1024;
+  const sizes = ["Bytes", "KB", "MB", "GB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+}
+
+function getArchiveFileName(response: Response): string {
+  const disposition = response.headers.get("Content-Disposition") || "";
+  const match = disposition.match(/filename="([^"]+)"/);
+  return match ? decodeURIComponent(match[1]) : "files.zip";
+}
+
+export function hasFileArchive(entityType: string): boolean {
+  return entityType in ARCHIVE_ROUTES;
+}
+
+export function DownloadArchiveButton({ entityType, entityId }: DownloadArchiveButtonProps) {
+  const { toast } = useToast();
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [progress, setProgress] = useState<{ received: number; total: number; fileCount: number } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const isLarge = !!progress && progress.total > LARGE_ARCHIVE_BYTES;
+  // The ZIP has no Content-Length; the uncompressed total is close enough,
+  // since most large files (media) are stored without compression
+  const percent = progress && progress.total > 0
+    ? Math.min(99, Math.round((progress.received / progress.total) * 100))
+    : 0;
+
+  const handleDownload = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsDownloading(true);
+    try {
+      const response = await fetch(`/api/${ARCHIVE_ROUTES[entityType]}/${entityId}/files/archive`, {
+        credentials: "include",
+        signal: controller.signal,
+      });
+      if (!response.ok || !response.body) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to download archive");
+      }
+
+      const total = parseInt(response.headers.get("X-Archive-Total-Bytes") || "0");
+      const fileCount = parseInt(response.headers.get("X-Archive-File-Count") || "0");
+      setProgress({ received: 0, total, fileCount });
+
+      const reader = response.body.getReader();
+      const chunks: Uint8Array[] = [];
+      let received = 0;
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+        received += value.length;
+        setProgress({ received, total, fileCount });
+      }
+
+      const url = window.URL.createObjectURL(new Blob(chunks, { type: "application/zip" }));
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = getArchiveFileName(response);
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        toast({
+          title: "Failed to download archive",
+          description: (error as Error).message,
+          variant: "destructive",
+        });
+      }
+    } finally {
+      abortRef.current = null;
+      setIsDownloading(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleDownload}
+        disabled={isDownloading}
+        className="h-6 px-2 text-xs"
+      >
+        {isDownloading ? (
+          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+        ) : (
+          <Archive className="h-3 w-3 mr-1" />
+        )}
+        {isDownloading && progress && !isLarge ? `${percent}%` : "Download all"}
+      </Button>
+
+      <Dialog open={isDownloading && isLarge} onOpenChange={(open) => !open && abortRef.current?.abort()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Archive className="h-5 w-5" />
+              Preparing ZIP archive
+            </DialogTitle>
+            <DialogDescription>
+              {progress?.fileCount} file{progress?.fileCount === 1 ? "" : "s"}, about {formatFileSize(progress?.total ?? 0)}
+            </DialogDescription>
+          </DialogHeader>
+          <Progress value={percent} />
+          <p className="text-sm text-muted-foreground">
+            {formatFileSize(progress?.received ?? 0)} received ({percent}%)
+          </p>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => abortRef.current?.abort()}>
+              Cancel
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
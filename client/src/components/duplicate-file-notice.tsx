@@ -0,0 +1,83 @@
+import { Link } from "wouter";
+import { decodeFileName } from "@/utils/textUtils";
+
+// Mirrors DuplicateFile in server/file-duplicates.ts
+export interface DuplicateFile {
+  id: string;
+  originalName: string;
+  entityType: string;
+  entityId: string | null;
+  fileSize: number;
+  uploadedBy: string | null;
+  createdAt: string | null;
+  downloadUrl: string;
+  pageUrl: string;
+}
+
+export interface DuplicateUploadResponse {
+  message?: string;
+  duplicates?: DuplicateFile[];
+  duplicateWarning?: string;
+}
+
+interface DuplicateFileNoticeProps {
+  message?: string;
+  duplicates: DuplicateFile[];
+}
+
+// Toast body listing where identical content already lives
+export function DuplicateFileNotice({ message, duplicates }: DuplicateFileNoticeProps) {
+  return (
+    <div className="space-y-1">
+      {message && <p>{message}</p>}
+      <ul className="space-y-1 text-xs">
+        {duplicates.slice(0, 5).map((duplicate) => (
+          <li key={duplicate.id} className="flex items-center gap-2">
+            <span className="truncate">{decodeFileName(duplicate.originalName)}</span>
+            <Link href={duplicate.pageUrl} className="underline whitespace-nowrap">
+              {duplicate.entityType}
+            </Link>
+            <a href={duplicate.downloadUrl} className="underline whitespace-nowrap">
+              download
+            </a>
+          </li>
+        ))}
+        {duplicates.length > 5 && <li>and {duplicates.length - 5} more</li>}
+      </ul>
+    </div>
+  );
+}
+
+// Toast for an upload response: a duplicate warning when the server found
+// identical content, otherwise the plain success message
+export function uploadResultToast(result: DuplicateUploadResponse) {
+  if (result.duplicates && result.duplicates.length > 0) {
+    return {
+      title: "Uploaded, but this file already exists",
+      description: <DuplicateFileNotice duplicates={result.duplicates} />,
+    };
+  }
+  return {
+    title: "Upload successful",
+    description: result.message,
+  };
+}
+
+// Toast for a 409 from an upload endpoint that refuses duplicates
+export function duplicateBlockedToast(result: DuplicateUploadResponse) {
+  return {
+    title: "Duplicate file",
+    description: <DuplicateFileNotice message={result.message} duplicates={result.duplicates || []} />,
+    variant: "destructive" as const,
+  };
+}
+
+// Toast for an upload the server turned away: wrong content type, not
+// allowed for this entity, or quarantined by the malware scan
+export function uploadRefusedToast(result: { message: string }) {
+  return {
+    title: "Upload not accepted",
+    description: result.message,
+    variant: "destructive" as const,
+  };
+}
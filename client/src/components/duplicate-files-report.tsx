@@ -0,0 +1,90 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Copy } from "lucide-react";
+import { format } from "date-fns";
+import { decodeFileName } from "@/utils/textUtils";
+import type { DuplicateFile } from "@/components/duplicate-file-notice";
+
+interface DuplicateCluster {
+  checksum: string;
+  fileSize: number;
+  copies: number;
+  wastedBytes: number;
+  files: DuplicateFile[];
+}
+
+interface DuplicateReport {
+  policy: "warn" | "block";
+  totalClusters: number;
+  totalDuplicateFiles: number;
+  totalWastedBytes: number;
+  clusters: DuplicateCluster[];
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+}
+
+export function DuplicateFilesReport() {
+  const { data: report, isLoading } = useQuery<DuplicateReport>({
+    queryKey: ["/api/admin/files/duplicates"],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Copy className="h-5 w-5" />
+          Duplicate Files
+        </CardTitle>
+        <CardDescription>
+          Files uploaded more than once with identical content
+          {report && ` • ${report.totalDuplicateFiles} extra copies wasting ${formatFileSize(report.totalWastedBytes)}`}
+          {report && ` • new duplicates are ${report.policy === "block" ? "blocked" : "allowed with a warning"}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8 text-gray-500">Loading...</div>
+        ) : !report || report.clusters.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">No duplicate files found</div>
+        ) : (
+          <div className="space-y-4">
+            {report.clusters.map((cluster) => (
+              <div key={cluster.checksum} className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary">{cluster.copies} copies</Badge>
+                    <span className="text-sm text-gray-500">{formatFileSize(cluster.fileSize)} each</span>
+                  </div>
+                  <span className="text-sm font-semibold text-red-600 dark:text-red-400">
+                    {formatFileSize(cluster.wastedBytes)} wasted
+                  </span>
+                </div>
+                <ul className="space-y-1 text-sm">
+                  {cluster.files.map((file) => (
+                    <li key={file.id} className="flex items-center justify-between gap-2">
+                      <span className="truncate">{decodeFileName(file.originalName)}</span>
+                      <span className="flex items-center gap-2 text-xs text-gray-500 whitespace-nowrap">
+                        <Link href={file.pageUrl} className="capitalize underline">{file.entityType}</Link>
+                        {file.createdAt && format(new Date(file.createdAt), 'MMM dd, yyyy')}
+                        <a href={file.downloadUrl} className="underline">download</a>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                <p className="text-xs text-gray-400 font-mono truncate">sha256 {cluster.checksum}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
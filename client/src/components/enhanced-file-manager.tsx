@@ -1,12 +1,15 @@
-import { useState } from "react";
+import { useMemo, useState, type DragEvent } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { 
   Dialog, 
   DialogContent, 
+  DialogDescription,
+  DialogFooter,
   DialogHeader, 
   DialogTitle, 
   DialogTrigger 
@@ -28,10 +31,28 @@ import {
   Trash2,
   Upload,
   Tag,
-  Archive
+  Archive,
+  History,
+  ChevronRight,
+  GripVertical,
+  Pencil,
+  RefreshCw,
+  ShieldCheck
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { useFilePermissions } from "@/hooks/useFilePermissions";
+import { usePermissions } from "@/hooks/useFilePermissions";
+import { FileVersionHistory } from "@/components/file-version-history";
+import {
+  FolderTree,
+  setDraggedItems,
+  useDropTarget,
+  type DraggedItems,
+} from "@/components/folder-tree";
+import { cn } from "@/lib/utils";
+import { getFolderSubtreeIds } from "@shared/file-folders";
+import { FileThumbnail, describeMediaMetadata, isMediaProcessing, type MediaPreviewFile } from "@/components/media-preview";
+import { QuarantineBadge, useReleaseQuarantine } from "@/components/quarantine-badge";
+import { StorageUsageMeter } from "@/components/storage-usage-meter";
 
 interface EnhancedFileManagerProps {
   entityType: string;
@@ -43,7 +64,7 @@ interface FileFolder {
   id: string;
   name: string;
   description?: string;
-  parentFolderId?: string;
+  parentFolderId?: string | null;
   entityType: string;
   entityId: string;
   folderPath: string;
@@ -53,7 +74,7 @@ interface FileFolder {
   updatedAt: string;
 }
 
-interface EnhancedFile {
+interface EnhancedFile extends MediaPreviewFile {
   id: string;
   filename: string;
   originalName: string;
@@ -61,7 +82,7 @@ interface EnhancedFile {
   fileSize: number;
   entityType: string;
   entityId: string;
-  folderId?: string;
+  folderId?: string | null;
   uploadedBy: string;
   tags?: string[];
   description?: string;
@@ -70,10 +91,46 @@ interface EnhancedFile {
   filePath?: string;
   accessLevel: string;
   downloadCount: number;
+  quarantinedAt?: string | null;
+  quarantineReason?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+interface FolderRowProps {
+  folder: FileFolder;
+  fileCount: number;
+  canEdit: boolean;
+  onOpen: () => void;
+  onMove: (items: DraggedItems) => void;
+}
+
+// Subfolder in the file list: opens on click, takes drops like tree nodes
+function FolderRow({ folder, fileCount, canEdit, onOpen, onMove }: FolderRowProps) {
+  const { isOver, dropProps } = useDropTarget(onMove, canEdit);
+  return (
+    <div
+      draggable={canEdit}
+      onDragStart={(event) => setDraggedItems(event, { fileIds: [], folderIds: [folder.id] })}
+      className={cn(
+        "flex items-center gap-3 p-3 border rounded-lg hover:bg-muted/50 cursor-pointer",
+        isOver && "ring-2 ring-primary",
+      )}
+      onClick={onOpen}
+      {...dropProps}
+    >
+      <Folder className="h-5 w-5 text-blue-500" />
+      <div className="flex-1">
+        <p className="font-medium">{folder.name}</p>
+        {folder.description && (
+          <p className="text-sm text-muted-foreground">{folder.description}</p>
+        )}
+      </div>
+      <span className="text-sm text-muted-foreground">{fileCount} file{fileCount === 1 ? "" : "s"}</span>
+    </div>
+  );
+}
+
 export function EnhancedFileManager({ entityType, entityId, title = "Files" }: EnhancedFileManagerProps) {
   const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
@@ -81,10 +138,16 @@ export function EnhancedFileManager({ entityType, entityId, title = "Files" }: E
   const [newFolderName, setNewFolderName] = useState("");
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isUploadOpen, setIsUploadOpen] = useState(false);
+  const [historyFile, setHistoryFile] = useState<EnhancedFile | null>(null);
+  const [checkedFileIds, setCheckedFileIds] = useState<Set<string>>(new Set());
+  const [renamingFolder, setRenamingFolder] = useState<FileFolder | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const [deletingFolder, setDeletingFolder] = useState<FileFolder | null>(null);
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const { permissions } = useFilePermissions();
+  const { permissions, can } = usePermissions();
+  const releaseMutation = useReleaseQuarantine();
 
   // Get folders for this entity
   const { data: folders = [] } = useQuery<FileFolder[]>({
@@ -98,17 +161,14 @@ export function EnhancedFileManager({ entityType, entityId, title = "Files" }: E
     },
   });
 
-  // Get files for this entity/folder
+  // Get every file for this entity; the tree needs counts for all folders
   const { data: files = [] } = useQuery<EnhancedFile[]>({
-    queryKey: ["/api/files", entityType, entityId, selectedFolderId],
+    queryKey: ["/api/files", entityType, entityId],
     queryFn: async () => {
       let url = `/api/files?entityType=${entityType}`;
       if (entityId) {
         url += `&entityId=${entityId}`;
       }
-      if (selectedFolderId) {
-        url += `&folderId=${selectedFolderId}`;
-      }
       const response = await fetch(url, {
         credentials: "include",
       });
@@ -116,6 +176,8 @@ export function EnhancedFileManager({ entityType, entityId, title = "Files" }: E
       const data = await response.json();
       return data.files || data;
     },
+    // Poll while previews are being generated
+    refetchInterval: (query) => (query.state.data?.some(isMediaProcessing) ? 3000 : false),
   });
 
   // Search files
@@ -132,6 +194,176 @@ export function EnhancedFileManager({ entityType, entityId, title = "Files" }: E
     enabled: searchQuery.length > 2,
   });
 
+  // Files whose folder no longer exists show up at the root
+  const folderIds = useMemo(() => new Set(folders.map((folder) => folder.id)), [folders]);
+  const folderOf = (file: EnhancedFile) => (file.folderId && folderIds.has(file.folderId) ? file.folderId : null);
+  const fileCounts = useMemo(() => {
+    const counts = new Map<string | null, number>();
+    for (const file of files) {
+      const folderId = file.folderId && folderIds.has(file.folderId) ? file.folderId : null;
+      counts.set(folderId, (counts.get(folderId) ?? 0) + 1);
+    }
+    return counts;
+  }, [files, folderIds]);
+  const currentFolderId = selectedFolderId && folderIds.has(selectedFolderId) ? selectedFolderId : null;
+  const subfolders = folders
+    .filter((folder) => (folder.parentFolderId && folderIds.has(folder.parentFolderId) ? folder.parentFolderId : null) === currentFolderId)
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+
+  // Current folder and its ancestors, root first
+  const breadcrumb: FileFolder[] = [];
+  for (let folder = folders.find((f) => f.id === currentFolderId); folder && !breadcrumb.includes(folder);) {
+    breadcrumb.unshift(folder);
+    folder = folders.find((f) => f.id === folder!.parentFolderId);
+  }
+
+  const invalidateFileQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+  };
+
+  const readError = async (response: Response, fallback: string) => {
+    const error = await response.json().catch(() => ({}));
+    return new Error(error.message || fallback);
+  };
+
+  // Move files and folders into a folder (null = root)
+  const moveMutation = useMutation({
+    mutationFn: async ({ items, targetFolderId }: { items: DraggedItems; targetFolderId: string | null }) => {
+      const response = await fetch("/api/files/move", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ entityType, entityId, targetFolderId, ...items }),
+      });
+      if (!response.ok) throw await readError(response, "Failed to move files");
+      return response.json() as Promise<{ movedFiles: number; movedFolders: number }>;
+    },
+    onSuccess: () => {
+      invalidateFileQueries();
+      setCheckedFileIds(new Set());
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to move files",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const renameFolderMutation = useMutation({
+    mutationFn: async ({ folderId, name }: { folderId: string; name: string }) => {
+      const response = await fetch(`/api/folders/${folderId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ name }),
+      });
+      if (!response.ok) throw await readError(response, "Failed to rename folder");
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateFileQueries();
+      setRenamingFolder(null);
+      toast({ title: "Folder renamed" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to rename folder",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteFolderMutation = useMutation({
+    mutationFn: async ({ folderId, recursive }: { folderId: string; recursive: boolean }) => {
+      const response = await fetch(`/api/folders/${folderId}?recursive=${recursive}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!response.ok) throw await readError(response, "Failed to delete folder");
+    },
+    onSuccess: (_, { folderId, recursive }) => {
+      invalidateFileQueries();
+      if (selectedFolderId && getFolderSubtreeIds(folders, folderId).has(selectedFolderId)) {
+        setSelectedFolderId(null);
+      }
+      setDeletingFolder(null);
+      toast({ title: recursive ? "Folder moved to the trash" : "Folder deleted" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete folder",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reprocessMutation = useMutation({
+    mutationFn: async (fileId: string) => {
+      const response = await fetch(`/api/files/${fileId}/reprocess`, {
+        method: "POST",
+        credentials: "include",
+      });
+      if (!response.ok) throw await readError(response, "Failed to regenerate preview");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+      toast({ title: "Preview is being regenerated" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to regenerate preview",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleMove = (items: DraggedItems, targetFolderId: string | null) => {
+    const fileIds = items.fileIds.filter((id) => {
+      const file = files.find((f) => f.id === id);
+      return file && folderOf(file) !== targetFolderId;
+    });
+    const folderIdsToMove = items.folderIds.filter((id) => {
+      const folder = folders.find((f) => f.id === id);
+      return folder && (folder.parentFolderId ?? null) !== targetFolderId;
+    });
+    if (targetFolderId && folderIdsToMove.some((id) => getFolderSubtreeIds(folders, id).has(targetFolderId))) {
+      toast({ title: "A folder cannot be moved into itself", variant: "destructive" });
+      return;
+    }
+    if (fileIds.length + folderIdsToMove.length === 0) return;
+    moveMutation.mutate({ items: { fileIds, folderIds: folderIdsToMove }, targetFolderId });
+  };
+
+  // Dragging a checked file takes the other checked files along
+  const handleFileDragStart = (event: DragEvent, file: EnhancedFile) => {
+    const fileIds = checkedFileIds.has(file.id) ? Array.from(checkedFileIds) : [file.id];
+    setDraggedItems(event, { fileIds, folderIds: [] });
+  };
+
+  const toggleChecked = (fileId: string, checked: boolean) => {
+    setCheckedFileIds((current) => {
+      const next = new Set(current);
+      checked ? next.add(fileId) : next.delete(fileId);
+      return next;
+    });
+  };
+
+  const openRename = (folder: FileFolder) => {
+    setRenamingFolder(folder);
+    setRenameValue(folder.name);
+  };
+
+  const handleRename = () => {
+    if (!renamingFolder || !renameValue.trim()) return;
+    renameFolderMutation.mutate({ folderId: renamingFolder.id, name: renameValue.trim() });
+  };
+
   // Create folder mutation
   const createFolderMutation = useMutation({
     mutationFn: async (folderData: { name: string; description?: string; parentFolderId?: string }) => {
@@ -170,18 +402,20 @@ export function EnhancedFileManager({ entityType, entityId, title = "Files" }: E
         credentials: "include",
         body: formData,
       });
-      if (!response.ok) throw new Error("Failed to upload file");
+      if (!response.ok) throw await readError(response, "Failed to upload file");
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/storage/usage"] });
       setIsUploadOpen(false);
       setSelectedFile(null);
       toast({ title: "File uploaded successfully" });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({ 
         title: "Failed to upload file", 
+        description: error.message,
         variant: "destructive" 
       });
     },
@@ -198,7 +432,7 @@ export function EnhancedFileManager({ entityType, entityId, title = "Files" }: E
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/files"] });
-      toast({ title: "File deleted successfully" });
+      toast({ title: "File moved to the trash" });
     },
     onError: () => {
       toast({ 
@@ -212,7 +446,7 @@ export function EnhancedFileManager({ entityType, entityId, title = "Files" }: E
     if (!newFolderName.trim()) return;
     createFolderMutation.mutate({
       name: newFolderName.trim(),
-      parentFolderId: selectedFolderId || undefined,
+      parentFolderId: currentFolderId || undefined,
     });
   };
 
@@ -223,8 +457,8 @@ export function EnhancedFileManager({ entityType, entityId, title = "Files" }: E
     formData.append("file", selectedFile);
     formData.append("entityType", entityType);
     formData.append("entityId", entityId);
-    if (selectedFolderId) {
-      formData.append("folderId", selectedFolderId);
+    if (currentFolderId) {
+      formData.append("folderId", currentFolderId);
     }
     
     uploadFileMutation.mutate(formData);
@@ -270,7 +504,9 @@ export function EnhancedFileManager({ entityType, entityId, title = "Files" }: E
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
   };
 
-  const displayFiles = searchQuery.length > 2 ? searchResults : files;
+  const isSearching = searchQuery.length > 2;
+  const displayFiles = isSearching ? searchResults : files.filter((file) => folderOf(file) === currentFolderId);
+  const canMove = !!permissions?.canEdit && !isSearching;
 
   return (
     <Card>
@@ -329,11 +565,12 @@ export function EnhancedFileManager({ entityType, entityId, title = "Files" }: E
                         type="file"
                         onChange={(e) => setSelectedFile(e.target.files?.[0] || null)}
                       />
-                      {selectedFolderId && (
+                      {currentFolderId && (
                         <p className="text-sm text-muted-foreground">
-                          Uploading to folder: {folders.find(f => f.id === selectedFolderId)?.name}
+                          Uploading to folder: {breadcrumb.map((folder) => folder.name).join(" / ")}
                         </p>
                       )}
+                      <StorageUsageMeter entityType={entityType} entityId={entityId} />
                       <div className="flex justify-end gap-2">
                         <Button variant="outline" onClick={() => setIsUploadOpen(false)}>
                           Cancel
@@ -362,66 +599,109 @@ export function EnhancedFileManager({ entityType, entityId, title = "Files" }: E
         </div>
       </CardHeader>
 
-      <CardContent className="space-y-4">
-        {/* Folder breadcrumb and navigation */}
-        {selectedFolderId && (
-          <div className="flex items-center gap-2 p-2 bg-muted rounded">
-            <Button 
-              variant="ghost" 
-              size="sm" 
-              onClick={() => setSelectedFolderId(null)}
-            >
-              ← Back to root
+      <CardContent className="grid gap-4 md:grid-cols-[14rem_1fr]">
+        {/* Folder tree; files and folders can be dropped on any node */}
+        <div className="md:border-r md:pr-3">
+          <FolderTree
+            folders={folders}
+            selectedFolderId={currentFolderId}
+            fileCounts={fileCounts}
+            canEdit={canMove}
+            canDelete={!!permissions?.canDelete}
+            onSelect={setSelectedFolderId}
+            onMove={handleMove}
+            onRename={(folder) => openRename(folder as FileFolder)}
+            onDelete={(folder) => setDeletingFolder(folder as FileFolder)}
+          />
+        </div>
+
+        <div className="space-y-4 min-w-0">
+        {/* Folder breadcrumb */}
+        {!isSearching && currentFolderId && (
+          <div className="flex items-center gap-1 p-2 bg-muted rounded text-sm flex-wrap">
+            <Button variant="ghost" size="sm" onClick={() => setSelectedFolderId(null)}>
+              Root
             </Button>
-            <span className="text-sm text-muted-foreground">
-              Current folder: {folders.find(f => f.id === selectedFolderId)?.name}
-            </span>
+            {breadcrumb.map((folder) => (
+              <span key={folder.id} className="flex items-center gap-1">
+                <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                <Button variant="ghost" size="sm" onClick={() => setSelectedFolderId(folder.id)}>
+                  {folder.name}
+                </Button>
+              </span>
+            ))}
           </div>
         )}
 
-        {/* Folders list */}
-        {!searchQuery && folders.filter(f => f.parentFolderId === selectedFolderId).length > 0 && (
+        {/* Subfolders */}
+        {!isSearching && subfolders.length > 0 && (
           <div className="space-y-2">
             <h4 className="text-sm font-medium text-muted-foreground">Folders</h4>
             <div className="grid gap-2">
-              {folders
-                .filter(folder => folder.parentFolderId === selectedFolderId)
-                .map((folder) => (
-                  <div
-                    key={folder.id}
-                    className="flex items-center gap-3 p-3 border rounded-lg hover:bg-muted/50 cursor-pointer"
-                    onClick={() => setSelectedFolderId(folder.id)}
-                  >
-                    <Folder className="h-5 w-5 text-blue-500" />
-                    <div className="flex-1">
-                      <p className="font-medium">{folder.name}</p>
-                      {folder.description && (
-                        <p className="text-sm text-muted-foreground">{folder.description}</p>
-                      )}
-                    </div>
-                  </div>
-                ))}
+              {subfolders.map((folder) => (
+                <FolderRow
+                  key={folder.id}
+                  folder={folder}
+                  fileCount={fileCounts.get(folder.id) ?? 0}
+                  canEdit={canMove}
+                  onOpen={() => setSelectedFolderId(folder.id)}
+                  onMove={(items) => handleMove(items, folder.id)}
+                />
+              ))}
             </div>
           </div>
         )}
 
         {/* Files list */}
         <div className="space-y-2">
-          <h4 className="text-sm font-medium text-muted-foreground">Files</h4>
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-muted-foreground">Files</h4>
+            {canMove && checkedFileIds.size > 0 && (
+              <span className="text-xs text-muted-foreground">
+                {checkedFileIds.size} selected, drag onto a folder to move
+              </span>
+            )}
+          </div>
           {displayFiles.length === 0 ? (
             <p className="text-center text-muted-foreground py-8">
-              {searchQuery ? "No files found matching your search" : "No files uploaded yet"}
+              {searchQuery ? "No files found matching your search" : currentFolderId ? "This folder is empty" : "No files uploaded yet"}
             </p>
           ) : (
             <div className="grid gap-2">
               {displayFiles.map((file) => (
-                <div key={file.id} className="flex items-center gap-3 p-3 border rounded-lg">
-                  <File className="h-5 w-5 text-gray-500" />
+                <div
+                  key={file.id}
+                  draggable={canMove}
+                  onDragStart={(event) => handleFileDragStart(event, file)}
+                  className={cn(
+                    "flex items-center gap-3 p-3 border rounded-lg",
+                    checkedFileIds.has(file.id) && "bg-muted/50",
+                  )}
+                >
+                  {canMove && (
+                    <>
+                      <GripVertical className="h-4 w-4 text-muted-foreground cursor-grab" />
+                      <Checkbox
+                        checked={checkedFileIds.has(file.id)}
+                        onCheckedChange={(checked) => toggleChecked(file.id, checked === true)}
+                        aria-label={`Select ${file.originalName}`}
+                      />
+                    </>
+                  )}
+                  <FileThumbnail
+                    file={file}
+                    fallback={<File className="h-5 w-5 text-gray-500" />}
+                    className="h-12 w-12 shrink-0"
+                  />
                   <div className="flex-1 min-w-0">
                     <p className="font-medium truncate">{file.originalName}</p>
                     <div className="flex items-center gap-2 text-sm text-muted-foreground">
                       <span>{formatFileSize(file.fileSize)}</span>
+                      {describeMediaMetadata(file.mediaMetadata).map((fact) => (
+                        <span key={fact}>{fact}</span>
+                      ))}
                       <span>v{file.version}</span>
+                      <QuarantineBadge file={file} />
                       {file.downloadCount > 0 && (
                         <Badge variant="outline" className="text-xs flex items-center gap-1">
                           <Download className="h-3 w-3" />
@@ -456,6 +736,22 @@ export function EnhancedFileManager({ entityType, entityId, title = "Files" }: E
                           Download
                         </DropdownMenuItem>
                       )}
+                      <DropdownMenuItem onClick={() => setHistoryFile(file)}>
+                        <History className="h-4 w-4 mr-2" />
+                        Version history
+                      </DropdownMenuItem>
+                      {permissions?.canEdit && (file.processingStatus === "failed" || file.processingStatus === "skipped") && (
+                        <DropdownMenuItem onClick={() => reprocessMutation.mutate(file.id)}>
+                          <RefreshCw className="h-4 w-4 mr-2" />
+                          Regenerate preview
+                        </DropdownMenuItem>
+                      )}
+                      {file.quarantinedAt && can("files.reviewQuarantine") && (
+                        <DropdownMenuItem onClick={() => releaseMutation.mutate(file.id)}>
+                          <ShieldCheck className="h-4 w-4 mr-2" />
+                          Release from quarantine
+                        </DropdownMenuItem>
+                      )}
                       {permissions?.canDelete && (
                         <DropdownMenuItem 
                           onClick={() => deleteFileMutation.mutate(file.id)}
@@ -472,7 +768,66 @@ export function EnhancedFileManager({ entityType, entityId, title = "Files" }: E
             </div>
           )}
         </div>
+        </div>
       </CardContent>
+      <FileVersionHistory file={historyFile} onOpenChange={(open) => !open && setHistoryFile(null)} />
+
+      <Dialog open={!!renamingFolder} onOpenChange={(open) => !open && setRenamingFolder(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename Folder</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={renameValue}
+            onChange={(e) => setRenameValue(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleRename()}
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenamingFolder(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleRename}
+              disabled={!renameValue.trim() || renameFolderMutation.isPending}
+            >
+              <Pencil className="h-4 w-4 mr-2" />
+              Rename
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deletingFolder} onOpenChange={(open) => !open && setDeletingFolder(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete "{deletingFolder?.name}"?</DialogTitle>
+            <DialogDescription>
+              Keep the contents by moving them up a level, or move the folder to the trash together with every file and folder inside it.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setDeletingFolder(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="secondary"
+              disabled={deleteFolderMutation.isPending}
+              onClick={() => deletingFolder && deleteFolderMutation.mutate({ folderId: deletingFolder.id, recursive: false })}
+            >
+              Keep contents
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={deleteFolderMutation.isPending}
+              onClick={() => deletingFolder && deleteFolderMutation.mutate({ folderId: deletingFolder.id, recursive: true })}
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Move everything to trash
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 }
\ No newline at end of file
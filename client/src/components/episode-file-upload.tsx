@@ -1,9 +1,10 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Upload, Music } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Upload, Music, X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import {
   Select,
@@ -14,6 +15,9 @@ import {
 } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useFilePermissions } from "@/hooks/useFilePermissions";
+import { uploadFileResumable, cancelResumableUpload, UploadError, type UploadProgress, type UploadTarget } from "@/lib/resumableUpload";
+import { uploadResultToast, duplicateBlockedToast, uploadRefusedToast } from "@/components/duplicate-file-notice";
+import { StorageUsageMeter } from "@/components/storage-usage-meter";
 import type { Hackathon, Team } from "@shared/schema";
 
 export function TeamFileUpload() {
@@ -22,6 +26,8 @@ export function TeamFileUpload() {
   const [selectedTeam, setSelectedTeam] = useState<string>("none");
 
   const [isUploading, setIsUploading] = useState(false);
+  const [progress, setProgress] = useState<UploadProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { permissions, isLoading: permissionsLoading } = useFilePermissions();
@@ -42,6 +48,13 @@ export function TeamFileUpload() {
     setFile(selectedFile || null);
   };
 
+  const getUploadTarget = (): UploadTarget => {
+    if (selectedTeam && selectedTeam !== "none") {
+      return { targetType: "episodes", targetId: selectedTeam };
+    }
+    return { targetType: "projects", targetId: selectedHackathon };
+  };
+
   const handleUpload = async () => {
     if (!file) {
       toast({
@@ -62,33 +75,17 @@ export function TeamFileUpload() {
     }
 
     setIsUploading(true);
-    const formData = new FormData();
-    formData.append("file", file);
-    formData.append("projectId", selectedHackathon);
-    if (selectedTeam && selectedTeam !== "none") {
-      formData.append("episodeId", selectedTeam);
-    }
+    setProgress(null);
+    const target = getUploadTarget();
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      let endpoint = `/api/projects/${selectedHackathon}/upload`;
-      if (selectedTeam && selectedTeam !== "none") {
-        endpoint = `/api/episodes/${selectedTeam}/upload`;
-      }
-
-      const response = await fetch(endpoint, {
-        method: "POST",
-        body: formData,
-      });
-
-      if (!response.ok) {
-        throw new Error("Upload failed");
-      }
-
-      const result = await response.json();
-      toast({
-        title: "Upload successful",
-        description: result.message,
+      const result = await uploadFileResumable(file, target, {
+        onProgress: setProgress,
+        signal: controller.signal,
       });
+      toast(uploadResultToast(result));
 
       setFile(null);
       setSelectedHackathon("");
@@ -99,19 +96,43 @@ export function TeamFileUpload() {
       queryClient.invalidateQueries({ queryKey: ['/api/episodes'] });
       queryClient.invalidateQueries({ queryKey: ['/api/scripts'] });
       queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/storage/usage'] });
       
       // Reset the file input
       const fileInput = document.querySelector('input[type="file"]') as HTMLInputElement;
       if (fileInput) fileInput.value = '';
     } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        toast({ title: "Upload cancelled" });
+        return;
+      }
+      if (error instanceof UploadError && error.duplicates) {
+        toast(duplicateBlockedToast({ message: error.message, duplicates: error.duplicates }));
+        return;
+      }
+      if (error instanceof UploadError && error.status === 413) {
+        toast(uploadRefusedToast(error));
+        return;
+      }
       console.error("Upload error:", error);
       toast({
         title: "Upload failed",
-        description: "There was an error uploading your file. Please try again.",
+        description: error instanceof Error
+          ? `${error.message}. Select the same file again to resume.`
+          : "There was an error uploading your file. Please try again.",
         variant: "destructive",
       });
     } finally {
+      abortRef.current = null;
       setIsUploading(false);
+      setProgress(null);
+    }
+  };
+
+  const handleCancel = async () => {
+    abortRef.current?.abort();
+    if (file && selectedHackathon) {
+      await cancelResumableUpload(file, getUploadTarget());
     }
   };
 
@@ -199,6 +220,11 @@ export function TeamFileUpload() {
           </p>
         </div>
 
+        <StorageUsageMeter
+          entityType={selectedTeam !== "none" ? "episodes" : selectedHackathon ? "projects" : undefined}
+          entityId={selectedTeam !== "none" ? selectedTeam : selectedHackathon}
+        />
+
         {file && (
           <div className="flex items-center gap-2 p-2 border border-gray-200 dark:border-gray-600 rounded bg-gray-50 dark:bg-gray-700">
             <Music className="h-4 w-4 text-gray-700 dark:text-gray-300" />
@@ -209,13 +235,35 @@ export function TeamFileUpload() {
           </div>
         )}
 
-        <Button 
-          onClick={handleUpload} 
-          disabled={!file || !selectedHackathon || isUploading}
-          className="w-full"
-        >
-          {isUploading ? "Uploading..." : "Upload Team File"}
-        </Button>
+        {isUploading && progress && (
+          <div className="space-y-1">
+            <Progress value={progress.percent} />
+            <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+              <span>
+                {(progress.uploadedBytes / 1024 / 1024).toFixed(2)} / {(progress.totalBytes / 1024 / 1024).toFixed(2)} MB
+                {progress.resumed && " (resumed)"}
+                {progress.retrying && " - connection lost, retrying..."}
+              </span>
+              <span>{progress.percent}%</span>
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button 
+            onClick={handleUpload} 
+            disabled={!file || !selectedHackathon || isUploading}
+            className="flex-1"
+          >
+            {isUploading ? "Uploading..." : "Upload Team File"}
+          </Button>
+          {isUploading && (
+            <Button variant="outline" onClick={handleCancel}>
+              <X className="h-4 w-4 mr-1" />
+              Cancel
+            </Button>
+          )}
+        </div>
       </CardContent>
     </Card>
   );
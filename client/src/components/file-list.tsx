@@ -3,11 +3,24 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Trash2, Download, Eye, FileText, Image, Music, Video, File as FileIcon, GripVertical, ArrowUp, ArrowDown, RotateCcw } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Trash2, Download, Eye, FileText, Image, Music, Video, File as FileIcon, GripVertical, ArrowUp, ArrowDown, RotateCcw, Play, Lock, Link2, Folder, ShieldCheck } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { useFilePermissions } from "@/hooks/useFilePermissions";
+import { usePermissions, useAccessScope } from "@/hooks/useFilePermissions";
+import { canAccessFile } from "@/lib/permissions";
 import { decodeFileName } from "@/utils/textUtils";
+import { MediaPlayerDialog, isPlayableMedia } from "@/components/media-player-dialog";
+import { ShareLinksDialog } from "@/components/share-links-dialog";
+import { DownloadArchiveButton, hasFileArchive } from "@/components/download-archive-button";
+import { FileThumbnail, describeMediaMetadata, type MediaPreviewFile } from "@/components/media-preview";
+import { QuarantineBadge, useReleaseQuarantine } from "@/components/quarantine-badge";
 
 interface FileListProps {
   entityType: string;
@@ -15,7 +28,7 @@ interface FileListProps {
   title?: string;
 }
 
-interface FileData {
+interface FileData extends MediaPreviewFile {
   id: string;
   filename: string;
   originalName: string;
@@ -24,9 +37,23 @@ interface FileData {
   entityType: string;
   entityId: string | null;
   uploadedBy: string | null;
+  accessLevel: string | null;
+  folderId?: string | null;
+  sortOrder?: number | null;
+  quarantinedAt?: string | null;
+  quarantineReason?: string | null;
   createdAt: string;
 }
 
+interface FolderData {
+  id: string;
+  name: string;
+  folderPath: string | null;
+}
+
+// Sentinel for the root in the folder picker; Select values can't be empty
+const ROOT_FOLDER = "__root__";
+
 function getFileIcon(mimeType: string) {
   if (mimeType.startsWith('image/')) return <Image className="h-4 w-4" />;
   if (mimeType.startsWith('audio/')) return <Music className="h-4 w-4" />;
@@ -55,12 +82,17 @@ function canPreview(mimeType: string): boolean {
 export function FileList({ entityType, entityId, title = "Files" }: FileListProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const { permissions, isLoading: permissionsLoading } = useFilePermissions();
+  const { permissions, can, isLoading: permissionsLoading } = usePermissions();
+  const { scope } = useAccessScope();
   const [isReordering, setIsReordering] = useState(false);
-  const [draggedItem, setDraggedItem] = useState<number | null>(null);
   const [localFiles, setLocalFiles] = useState<FileData[]>([]);
+  // Order token the reorder started from; the server rejects the save if it changed
+  const [reorderToken, setReorderToken] = useState<string | null>(null);
+  const [playingFile, setPlayingFile] = useState<FileData | null>(null);
+  const [sharingFile, setSharingFile] = useState<FileData | null>(null);
+  const releaseMutation = useReleaseQuarantine();
 
-  const { data: filesResponse = { files: [] }, isLoading, refetch } = useQuery({
+  const { data: filesResponse = { files: [] }, isLoading, refetch } = useQuery<{ files: FileData[]; orderToken?: string }>({
     queryKey: ['/api/files', entityType, entityId],
     queryFn: async () => {
       const url = `/api/files?entityType=${entityType}${entityId ? `&entityId=${entityId}` : ''}`;
@@ -73,6 +105,16 @@ export function FileList({ entityType, entityId, title = "Files" }: FileListProp
     refetchInterval: 2000,
   });
 
+  const { data: folders = [] } = useQuery<FolderData[]>({
+    queryKey: ['/api/folders', entityType, entityId],
+    queryFn: async () => {
+      const response = await fetch(`/api/folders?entityType=${entityType}&entityId=${entityId}`);
+      if (!response.ok) throw new Error('Failed to fetch folders');
+      return response.json();
+    },
+    enabled: !!entityId,
+  });
+
   const deleteMutation = useMutation({
     mutationFn: async (fileId: string) => {
       const response = await fetch(`/api/files/${fileId}`, { method: 'DELETE' });
@@ -86,7 +128,7 @@ export function FileList({ entityType, entityId, title = "Files" }: FileListProp
       queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
       toast({
         title: "Success",
-        description: "File deleted successfully",
+        description: "File moved to the trash",
       });
     },
     onError: () => {
@@ -99,15 +141,24 @@ export function FileList({ entityType, entityId, title = "Files" }: FileListProp
   });
 
   const reorderMutation = useMutation({
-    mutationFn: async ({ entityType, entityId, fileIds }: { entityType: string; entityId: string | null; fileIds: string[] }) => {
+    mutationFn: async (body: {
+      entityType: string;
+      entityId: string | null;
+      fileIds: string[];
+      folderIds: Record<string, string | null>;
+      orderToken: string | null;
+    }) => {
       const response = await fetch('/api/files/reorder', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ entityType, entityId, fileIds }),
+        body: JSON.stringify(body),
       });
-      if (!response.ok) throw new Error('Failed to reorder files');
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw Object.assign(new Error(error.message || 'Failed to reorder files'), { status: response.status });
+      }
       return response.json();
     },
     onSuccess: () => {
@@ -117,11 +168,18 @@ export function FileList({ entityType, entityId, title = "Files" }: FileListProp
         description: "Files reordered successfully",
       });
       setIsReordering(false);
+      setLocalFiles([]);
     },
-    onError: () => {
+    onError: (error: Error & { status?: number }) => {
+      // Someone else changed the files since the reorder started; start over from theirs
+      if (error.status === 409) {
+        queryClient.invalidateQueries({ queryKey: ['/api/files'] });
+        setIsReordering(false);
+        setLocalFiles([]);
+      }
       toast({
         title: "Error",
-        description: "Failed to reorder files",
+        description: error.message,
         variant: "destructive",
       });
     },
@@ -168,28 +226,57 @@ export function FileList({ entityType, entityId, title = "Files" }: FileListProp
     }
   };
 
-  // Reordering functions
-  const handleMoveUp = (index: number) => {
-    if (index === 0) return;
-    const newFiles = [...(localFiles.length > 0 ? localFiles : files)];
-    [newFiles[index], newFiles[index - 1]] = [newFiles[index - 1], newFiles[index]];
+  const files: FileData[] = filesResponse.files || [];
+  const displayFiles = isReordering ? localFiles : files;
+
+  // Files are grouped by folder when the entity has any; positions are per folder
+  const folderIds = new Set(folders.map(folder => folder.id));
+  const folderOf = (file: FileData) => (file.folderId && folderIds.has(file.folderId) ? file.folderId : null);
+  const sortedFolders = [...folders].sort((a, b) => (a.folderPath || a.name).localeCompare(b.folderPath || b.name));
+  const fileGroups = [null, ...sortedFolders.map(folder => folder.id)]
+    .map(folderId => ({
+      folder: sortedFolders.find(folder => folder.id === folderId) ?? null,
+      files: displayFiles.filter(file => folderOf(file) === folderId),
+    }))
+    .filter(group => group.files.length > 0 || (isReordering && folders.length > 0));
+
+  // Reordering functions: swap with the neighbour in the same folder
+  const handleMove = (fileId: string, direction: -1 | 1) => {
+    const file = localFiles.find(f => f.id === fileId);
+    if (!file) return;
+    const sameFolder = localFiles.filter(f => folderOf(f) === folderOf(file));
+    const neighbour = sameFolder[sameFolder.indexOf(file) + direction];
+    if (!neighbour) return;
+    const newFiles = [...localFiles];
+    const a = newFiles.indexOf(file);
+    const b = newFiles.indexOf(neighbour);
+    [newFiles[a], newFiles[b]] = [newFiles[b], newFiles[a]];
     setLocalFiles(newFiles);
   };
 
-  const handleMoveDown = (index: number) => {
-    const fileArray = localFiles.length > 0 ? localFiles : files;
-    if (index === fileArray.length - 1) return;
-    const newFiles = [...fileArray];
-    [newFiles[index], newFiles[index + 1]] = [newFiles[index + 1], newFiles[index]];
-    setLocalFiles(newFiles);
+  // Moving to another folder puts the file at the end of that folder
+  const handleChangeFolder = (fileId: string, value: string) => {
+    const folderId = value === ROOT_FOLDER ? null : value;
+    const file = localFiles.find(f => f.id === fileId);
+    if (!file || folderOf(file) === folderId) return;
+    setLocalFiles([...localFiles.filter(f => f.id !== fileId), { ...file, folderId }]);
   };
 
   const handleSaveOrder = () => {
-    const fileIds = localFiles.map(file => file.id);
+    const original = new Map(files.map(file => [file.id, file]));
+    const movedFolders: Record<string, string | null> = {};
+    for (const file of localFiles) {
+      const before = original.get(file.id);
+      if (before && folderOf(before) !== folderOf(file)) {
+        movedFolders[file.id] = folderOf(file);
+      }
+    }
     reorderMutation.mutate({
       entityType,
       entityId: entityId || null,
-      fileIds
+      fileIds: fileGroups.flatMap(group => group.files.map(file => file.id)),
+      folderIds: movedFolders,
+      orderToken: reorderToken,
     });
   };
 
@@ -200,12 +287,10 @@ export function FileList({ entityType, entityId, title = "Files" }: FileListProp
 
   const handleStartReorder = () => {
     setLocalFiles([...files]);
+    setReorderToken(filesResponse.orderToken ?? null);
     setIsReordering(true);
   };
 
-  const files = filesResponse.files || [];
-  const displayFiles = isReordering ? localFiles : files;
-
   if (isLoading) {
     return (
       <Card className="bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700">
@@ -239,7 +324,10 @@ export function FileList({ entityType, entityId, title = "Files" }: FileListProp
           {title}
           <div className="flex items-center space-x-2">
             <Badge variant="secondary">{displayFiles.length} file{displayFiles.length !== 1 ? 's' : ''}</Badge>
-            {permissions.canEdit && displayFiles.length > 1 && (
+            {entityId && hasFileArchive(entityType) && permissions.canDownload && !isReordering && (
+              <DownloadArchiveButton entityType={entityType} entityId={entityId} />
+            )}
+            {permissions.canEdit && (displayFiles.length > 1 || folders.length > 0) && (
               <>
                 {!isReordering ? (
                   <Button
@@ -278,29 +366,64 @@ export function FileList({ entityType, entityId, title = "Files" }: FileListProp
         </CardTitle>
       </CardHeader>
       <CardContent>
-        <div className="space-y-3">
-          {displayFiles && displayFiles.map((file: FileData, index: number) => (
+        <div className="space-y-4">
+          {fileGroups.map(({ folder, files: groupFiles }) => (
+          <div key={folder?.id ?? ROOT_FOLDER} className="space-y-3">
+          {folders.length > 0 && (
+            <p className="flex items-center gap-1 text-xs font-medium text-gray-500 dark:text-gray-400">
+              <Folder className="h-3 w-3" />
+              {folder ? folder.folderPath || folder.name : 'Root'}
+            </p>
+          )}
+          {isReordering && groupFiles.length === 0 && (
+            <p className="text-xs text-gray-400 dark:text-gray-500 pl-4">Empty</p>
+          )}
+          {groupFiles.map((file: FileData, index: number) => (
             <div key={file.id} className={`flex items-center justify-between p-3 border border-gray-200 dark:border-gray-600 rounded-lg ${isReordering ? 'bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-700' : 'bg-gray-50 dark:bg-gray-700/50'}`}>
               <div className="flex items-center space-x-3">
-                <div className="text-gray-600 dark:text-gray-400">
-                  {getFileIcon(file.mimeType)}
-                </div>
+                <FileThumbnail
+                  file={file}
+                  fallback={getFileIcon(file.mimeType)}
+                  className="h-10 w-10 shrink-0 text-gray-600 dark:text-gray-400"
+                />
                 <div>
-                  <p className="font-medium text-sm text-gray-900 dark:text-gray-100" style={{ fontFamily: 'system-ui, -apple-system, sans-serif' }}>
+                  <p className="font-medium text-sm text-gray-900 dark:text-gray-100 flex items-center gap-1" style={{ fontFamily: 'system-ui, -apple-system, sans-serif' }}>
                     {decodeFileName(file.originalName)}
+                    {file.accessLevel === 'private' && (
+                      <Lock className="h-3 w-3 text-gray-500" aria-label="Private: visible to the uploader and organizers" />
+                    )}
+                    <QuarantineBadge file={file} />
                   </p>
                   <p className="text-xs text-gray-500 dark:text-gray-400">
-                    {formatFileSize(file.fileSize)} • {new Date(file.createdAt).toLocaleDateString()}
+                    {[formatFileSize(file.fileSize), ...describeMediaMetadata(file.mediaMetadata), new Date(file.createdAt).toLocaleDateString()].join(' • ')}
                   </p>
                 </div>
               </div>
               <div className="flex items-center space-x-2">
                 {isReordering && (
                   <div className="flex items-center space-x-1">
+                    {folders.length > 0 && (
+                      <Select
+                        value={folderOf(file) ?? ROOT_FOLDER}
+                        onValueChange={(value) => handleChangeFolder(file.id, value)}
+                      >
+                        <SelectTrigger className="h-7 w-40 text-xs" aria-label="Move to folder">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ROOT_FOLDER}>Root</SelectItem>
+                          {sortedFolders.map((option) => (
+                            <SelectItem key={option.id} value={option.id}>
+                              {option.folderPath || option.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => handleMoveUp(index)}
+                      onClick={() => handleMove(file.id, -1)}
                       disabled={index === 0}
                       className="h-7 w-7 p-0"
                     >
@@ -309,17 +432,38 @@ export function FileList({ entityType, entityId, title = "Files" }: FileListProp
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => handleMoveDown(index)}
-                      disabled={index === displayFiles.length - 1}
+                      onClick={() => handleMove(file.id, 1)}
+                      disabled={index === groupFiles.length - 1}
                       className="h-7 w-7 p-0"
                     >
                       <ArrowDown className="h-3 w-3" />
                     </Button>
                   </div>
                 )}
-                {!isReordering && (
+                {!isReordering && canAccessFile(scope, file) && (
                   <>
-                    {canPreview(file.mimeType) && permissions.canView && (
+                    {file.quarantinedAt && can('files.reviewQuarantine') && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => releaseMutation.mutate(file.id)}
+                        disabled={releaseMutation.isPending}
+                      >
+                        <ShieldCheck className="h-3 w-3 mr-1" />
+                        Release
+                      </Button>
+                    )}
+                    {isPlayableMedia(file.mimeType) && permissions.canDownload && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setPlayingFile(file)}
+                      >
+                        <Play className="h-3 w-3 mr-1" />
+                        Play
+                      </Button>
+                    )}
+                    {canPreview(file.mimeType) && !isPlayableMedia(file.mimeType) && permissions.canView && (
                       <Button
                         variant="outline"
                         size="sm"
@@ -339,6 +483,16 @@ export function FileList({ entityType, entityId, title = "Files" }: FileListProp
                         Download
                       </Button>
                     )}
+                    {can('files.share') && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setSharingFile(file)}
+                      >
+                        <Link2 className="h-3 w-3 mr-1" />
+                        Share
+                      </Button>
+                    )}
                     {permissions.canDelete && (
                       <Button
                         variant="outline"
@@ -355,8 +509,12 @@ export function FileList({ entityType, entityId, title = "Files" }: FileListProp
               </div>
             </div>
           ))}
+          </div>
+          ))}
         </div>
       </CardContent>
+      <MediaPlayerDialog file={playingFile} onOpenChange={(open) => !open && setPlayingFile(null)} />
+      <ShareLinksDialog file={sharingFile} onOpenChange={(open) => !open && setSharingFile(null)} />
     </Card>
   );
 }
\ No newline at end of file
@@ -1,9 +1,12 @@
 import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Upload, FileText } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { uploadResultToast, duplicateBlockedToast, uploadRefusedToast } from "@/components/duplicate-file-notice";
+import { StorageUsageMeter } from "@/components/storage-usage-meter";
 
 interface FileUploadProps {
   endpoint: string;
@@ -16,6 +19,7 @@ export function FileUpload({ endpoint, onUploadSuccess, acceptedTypes = "*", tit
   const [file, setFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = event.target.files?.[0];
@@ -42,17 +46,24 @@ export function FileUpload({ endpoint, onUploadSuccess, acceptedTypes = "*", tit
         body: formData,
       });
 
+      if (response.status === 409) {
+        toast(duplicateBlockedToast(await response.json()));
+        return;
+      }
       if (!response.ok) {
+        const refusal = await response.json().catch(() => null);
+        if (refusal?.message) {
+          toast(uploadRefusedToast(refusal));
+          return;
+        }
         throw new Error("Upload failed");
       }
 
       const result = await response.json();
-      toast({
-        title: "Upload successful",
-        description: result.message,
-      });
+      toast(uploadResultToast(result));
 
       setFile(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/storage/usage'] });
       onUploadSuccess();
       
       // Reset the file input
@@ -91,6 +102,8 @@ export function FileUpload({ endpoint, onUploadSuccess, acceptedTypes = "*", tit
         </p>
       </div>
 
+      <StorageUsageMeter />
+
       {file && (
         <div className="flex items-center gap-2 p-2 border rounded bg-muted">
           <FileText className="h-4 w-4" />
@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { History, Download, RotateCcw, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useFilePermissions } from "@/hooks/useFilePermissions";
+import { DuplicateFileNotice } from "@/components/duplicate-file-notice";
+
+interface FileVersion {
+  id: string;
+  version: number;
+  originalName: string;
+  mimeType: string;
+  fileSize: number;
+  checksum: string | null;
+  uploadedBy: string | null;
+  versionNote: string | null;
+  isCurrent: boolean;
+  createdAt: string;
+  changes: {
+    fromVersion: number;
+    sizeDelta: number;
+    contentChanged: boolean | null;
+    renamed: boolean;
+    typeChanged: boolean;
+  } | null;
+}
+
+interface FileVersionHistoryProps {
+  file: { id: string; originalName: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes === 0) return "0 Bytes";
+  const k = 1024;
+  const sizes = ["Bytes", "KB", "MB", "GB"];
+  const i = Math.floor(Math.log(Math.abs(bytes)) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+}
+
+function describeChanges(changes: FileVersion["changes"]): string {
+  if (!changes) return "Original upload";
+  const parts: string[] = [];
+  if (changes.sizeDelta !== 0) {
+    parts.push(`${changes.sizeDelta > 0 ? "+" : "-"}${formatFileSize(Math.abs(changes.sizeDelta))}`);
+  }
+  if (changes.renamed) parts.push("renamed");
+  if (changes.typeChanged) parts.push("file type changed");
+  if (changes.contentChanged === false) parts.push("identical content");
+  return parts.length > 0 ? parts.join(", ") : "No metadata changes";
+}
+
+export function FileVersionHistory({ file, onOpenChange }: FileVersionHistoryProps) {
+  const [newVersion, setNewVersion] = useState<File | null>(null);
+  const [versionNote, setVersionNote] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { permissions } = useFilePermissions();
+
+  const { data: versions = [], isLoading } = useQuery<FileVersion[]>({
+    queryKey: ["/api/files", file?.id, "versions"],
+    queryFn: async () => {
+      const response = await fetch(`/api/files/${file!.id}/versions`, {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to fetch versions");
+      return response.json();
+    },
+    enabled: !!file,
+  });
+
+  const current = versions.find((v) => v.isCurrent);
+
+  const replaceMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("file", newVersion!);
+      if (versionNote.trim()) formData.append("note", versionNote.trim());
+      const response = await fetch(`/api/files/${current?.id ?? file!.id}/versions`, {
+        method: "POST",
+        credentials: "include",
+        body: formData,
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to upload new version");
+      }
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+      setNewVersion(null);
+      setVersionNote("");
+      toast({
+        title: result.message,
+        description: result.duplicates?.length > 0
+          ? <DuplicateFileNotice message="This content already exists elsewhere:" duplicates={result.duplicates} />
+          : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to upload new version",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: number) => {
+      const response = await fetch(`/api/files/${file!.id}/versions/${version}/restore`, {
+        method: "POST",
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to restore version");
+      }
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+      toast({ title: result.message });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to restore version",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDownload = async (version: FileVersion) => {
+    try {
+      const response = await fetch(`/api/files/${version.id}/download`, {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to download file");
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = version.originalName;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      toast({
+        title: "Failed to download file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!file} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Version history
+          </DialogTitle>
+          <DialogDescription className="truncate">{file?.originalName}</DialogDescription>
+        </DialogHeader>
+
+        {permissions?.canEdit && (
+          <div className="space-y-2 p-3 border rounded-lg">
+            <p className="text-sm font-medium">Upload a new version</p>
+            <Input
+              type="file"
+              onChange={(e) => setNewVersion(e.target.files?.[0] || null)}
+            />
+            <Input
+              placeholder="What changed? (optional)"
+              value={versionNote}
+              onChange={(e) => setVersionNote(e.target.value)}
+            />
+            <div className="flex justify-end">
+              <Button
+                size="sm"
+                onClick={() => replaceMutation.mutate()}
+                disabled={!newVersion || replaceMutation.isPending}
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                {replaceMutation.isPending ? "Uploading..." : "Replace file"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+          {isLoading ? (
+            <p className="text-center text-muted-foreground py-4">Loading versions...</p>
+          ) : (
+            versions.map((version) => (
+              <div key={version.id} className="flex items-start gap-3 p-3 border rounded-lg">
+                <Badge variant={version.isCurrent ? "default" : "outline"}>v{version.version}</Badge>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium truncate">{version.originalName}</p>
+                    {version.isCurrent && <Badge variant="secondary" className="text-xs">Current</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {formatFileSize(version.fileSize)} • {new Date(version.createdAt).toLocaleString()} • {describeChanges(version.changes)}
+                  </p>
+                  {version.versionNote && (
+                    <p className="text-sm mt-1">{version.versionNote}</p>
+                  )}
+                </div>
+                <div className="flex gap-1">
+                  {permissions?.canDownload && (
+                    <Button variant="ghost" size="sm" onClick={() => handleDownload(version)}>
+                      <Download className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {permissions?.canEdit && !version.isCurrent && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => restoreMutation.mutate(version.version)}
+                      disabled={restoreMutation.isPending}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
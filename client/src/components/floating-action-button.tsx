@@ -6,14 +6,14 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { QuickCreateModals } from '@/components/quick-create-modals';
 
 export function FloatingActionButton() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [isExpanded, setIsExpanded] = useState(false);
   const [isHackathonModalOpen, setIsHackathonModalOpen] = useState(false);
   const [isTeamModalOpen, setIsTeamModalOpen] = useState(false);
   const [isSubmissionModalOpen, setIsSubmissionModalOpen] = useState(false);
 
-  // Only show for organizer and analyzer roles
-  if (!user || (user.role !== 'organizer' && user.role !== 'analyzer')) {
+  // Only show to users who can create hackathons
+  if (!user || !can('hackathons.create')) {
     return null;
   }
 
@@ -0,0 +1,236 @@
+import { useState, type DragEvent, type ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ChevronRight, Folder, FolderOpen, Home, MoreVertical, Pencil, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export interface TreeFolder {
+  id: string;
+  name: string;
+  parentFolderId?: string | null;
+  sortOrder: number;
+}
+
+// What is being dragged between the file list and the tree
+export interface DraggedItems {
+  fileIds: string[];
+  folderIds: string[];
+}
+
+const DRAG_TYPE = "application/x-file-manager-items";
+
+export function setDraggedItems(event: DragEvent, items: DraggedItems) {
+  event.dataTransfer.setData(DRAG_TYPE, JSON.stringify(items));
+  event.dataTransfer.effectAllowed = "move";
+}
+
+export function getDraggedItems(event: DragEvent): DraggedItems | null {
+  const data = event.dataTransfer.getData(DRAG_TYPE);
+  if (!data) return null;
+  try {
+    return JSON.parse(data) as DraggedItems;
+  } catch {
+    return null;
+  }
+}
+
+function isItemDrag(event: DragEvent): boolean {
+  return event.dataTransfer.types.includes(DRAG_TYPE);
+}
+
+// Drop target highlighting shared by tree nodes and folder rows in the file list
+export function useDropTarget(onDrop: (items: DraggedItems) => void, enabled: boolean) {
+  const [isOver, setIsOver] = useState(false);
+  if (!enabled) {
+    return { isOver: false, dropProps: {} };
+  }
+  return {
+    isOver,
+    dropProps: {
+      onDragOver: (event: DragEvent) => {
+        if (!isItemDrag(event)) return;
+        event.preventDefault();
+        event.dataTransfer.dropEffect = "move";
+        setIsOver(true);
+      },
+      onDragLeave: () => setIsOver(false),
+      onDrop: (event: DragEvent) => {
+        setIsOver(false);
+        const items = getDraggedItems(event);
+        if (!items) return;
+        event.preventDefault();
+        onDrop(items);
+      },
+    },
+  };
+}
+
+interface FolderTreeProps {
+  folders: TreeFolder[];
+  selectedFolderId: string | null;
+  fileCounts: Map<string | null, number>;
+  canEdit: boolean;
+  canDelete: boolean;
+  onSelect: (folderId: string | null) => void;
+  onMove: (items: DraggedItems, targetFolderId: string | null) => void;
+  onRename: (folder: TreeFolder) => void;
+  onDelete: (folder: TreeFolder) => void;
+}
+
+export function FolderTree(props: FolderTreeProps) {
+  const { folders, selectedFolderId, fileCounts, canEdit, onSelect, onMove } = props;
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const { isOver, dropProps } = useDropTarget((items) => onMove(items, null), canEdit);
+
+  const folderIds = new Set(folders.map((folder) => folder.id));
+  const childrenOf = (parentId: string | null) =>
+    folders
+      .filter((folder) => (folder.parentFolderId && folderIds.has(folder.parentFolderId) ? folder.parentFolderId : null) === parentId)
+      .sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+
+  const toggle = (folderId: string) => {
+    setCollapsed((current) => {
+      const next = new Set(current);
+      next.has(folderId) ? next.delete(folderId) : next.add(folderId);
+      return next;
+    });
+  };
+
+  const renderChildren = (parentId: string | null, depth: number): ReactNode =>
+    childrenOf(parentId).map((folder) => (
+      <FolderTreeNode
+        key={folder.id}
+        {...props}
+        folder={folder}
+        depth={depth}
+        hasChildren={childrenOf(folder.id).length > 0}
+        isExpanded={!collapsed.has(folder.id)}
+        onToggle={() => toggle(folder.id)}
+      >
+        {!collapsed.has(folder.id) && renderChildren(folder.id, depth + 1)}
+      </FolderTreeNode>
+    ));
+
+  return (
+    <div className="space-y-0.5 text-sm" role="tree">
+      <div
+        role="treeitem"
+        aria-selected={selectedFolderId === null}
+        className={cn(
+          "flex items-center gap-2 px-2 py-1.5 rounded cursor-pointer hover:bg-muted/50",
+          selectedFolderId === null && "bg-muted font-medium",
+          isOver && "ring-2 ring-primary",
+        )}
+        onClick={() => onSelect(null)}
+        {...dropProps}
+      >
+        <Home className="h-4 w-4 text-muted-foreground" />
+        <span className="flex-1">Root</span>
+        <span className="text-xs text-muted-foreground">{fileCounts.get(null) ?? 0}</span>
+      </div>
+      {renderChildren(null, 1)}
+    </div>
+  );
+}
+
+interface FolderTreeNodeProps extends FolderTreeProps {
+  folder: TreeFolder;
+  depth: number;
+  hasChildren: boolean;
+  isExpanded: boolean;
+  onToggle: () => void;
+  children: ReactNode;
+}
+
+function FolderTreeNode({
+  folder,
+  depth,
+  hasChildren,
+  isExpanded,
+  onToggle,
+  children,
+  selectedFolderId,
+  fileCounts,
+  canEdit,
+  canDelete,
+  onSelect,
+  onMove,
+  onRename,
+  onDelete,
+}: FolderTreeNodeProps) {
+  const { isOver, dropProps } = useDropTarget((items) => onMove(items, folder.id), canEdit);
+  const isSelected = selectedFolderId === folder.id;
+
+  return (
+    <>
+      <div
+        role="treeitem"
+        aria-selected={isSelected}
+        aria-expanded={hasChildren ? isExpanded : undefined}
+        draggable={canEdit}
+        onDragStart={(event) => setDraggedItems(event, { fileIds: [], folderIds: [folder.id] })}
+        className={cn(
+          "group flex items-center gap-1 pr-1 py-1 rounded cursor-pointer hover:bg-muted/50",
+          isSelected && "bg-muted font-medium",
+          isOver && "ring-2 ring-primary",
+        )}
+        style={{ paddingLeft: depth * 12 }}
+        onClick={() => onSelect(folder.id)}
+        {...dropProps}
+      >
+        <button
+          type="button"
+          className={cn("h-4 w-4 shrink-0", !hasChildren && "invisible")}
+          onClick={(event) => {
+            event.stopPropagation();
+            onToggle();
+          }}
+          aria-label={isExpanded ? "Collapse folder" : "Expand folder"}
+        >
+          <ChevronRight className={cn("h-4 w-4 transition-transform", isExpanded && "rotate-90")} />
+        </button>
+        {isSelected ? (
+          <FolderOpen className="h-4 w-4 shrink-0 text-blue-500" />
+        ) : (
+          <Folder className="h-4 w-4 shrink-0 text-blue-500" />
+        )}
+        <span className="flex-1 truncate">{folder.name}</span>
+        <span className="text-xs text-muted-foreground">{fileCounts.get(folder.id) ?? 0}</span>
+        {(canEdit || canDelete) && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                onClick={(event) => event.stopPropagation()}
+              >
+                <MoreVertical className="h-3 w-3" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {canEdit && (
+                <DropdownMenuItem onClick={() => onRename(folder)}>
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Rename
+                </DropdownMenuItem>
+              )}
+              {canDelete && (
+                <DropdownMenuItem onClick={() => onDelete(folder)} className="text-destructive">
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </DropdownMenuItem>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+      {children}
+    </>
+  );
+}
@@ -0,0 +1,236 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Search, FileText, File as FileIcon } from "lucide-react";
+import { getLanguageOptions, getLanguageName } from "@shared/languages";
+import { decodeFileName } from "@/utils/textUtils";
+import type { Category } from "@shared/schema";
+
+interface HighlightSegment {
+  text: string;
+  highlight: boolean;
+}
+
+// Mirrors the /api/search response built in server/routes-search.ts
+interface SearchResult {
+  entityType: "submissions" | "files";
+  entityId: string;
+  hackathonId: string | null;
+  categoryId: string | null;
+  language: string | null;
+  title: string;
+  rank: number;
+  titleHighlight: HighlightSegment[];
+  snippet: HighlightSegment[];
+  pageUrl: string;
+  downloadUrl?: string;
+  mimeType?: string;
+  parentEntityType?: string;
+}
+
+interface SearchResponse {
+  query: string;
+  total: number;
+  results: SearchResult[];
+}
+
+const ALL = "all";
+const MIN_QUERY_LENGTH = 2;
+
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.highlight ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-700 text-inherit rounded-sm px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export function GlobalSearch() {
+  const [, setLocation] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [type, setType] = useState(ALL);
+  const [categoryId, setCategoryId] = useState(ALL);
+  const [language, setLanguage] = useState(ALL);
+
+  // Ctrl+K / Cmd+K opens the palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen((isOpen) => !isOpen);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), 250);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ["/api/themes"],
+    enabled: open,
+  });
+
+  const { data, isFetching } = useQuery<SearchResponse>({
+    queryKey: ["/api/search", debouncedQuery, type, categoryId, language],
+    queryFn: async () => {
+      const params = new URLSearchParams({ q: debouncedQuery, limit: "20" });
+      if (type !== ALL) params.set("type", type);
+      if (categoryId !== ALL) params.set("categoryId", categoryId);
+      if (language !== ALL) params.set("language", language);
+      const response = await fetch(`/api/search?${params}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Search failed");
+      return response.json();
+    },
+    enabled: open && debouncedQuery.length >= MIN_QUERY_LENGTH,
+    placeholderData: (previous) => previous,
+  });
+
+  const results = debouncedQuery.length >= MIN_QUERY_LENGTH ? data?.results ?? [] : [];
+  const submissions = results.filter((result) => result.entityType === "submissions");
+  const files = results.filter((result) => result.entityType === "files");
+
+  const handleSelect = (result: SearchResult) => {
+    setOpen(false);
+    setLocation(result.pageUrl);
+  };
+
+  const renderResult = (result: SearchResult) => (
+    <CommandItem
+      key={`${result.entityType}-${result.entityId}`}
+      value={`${result.entityType}-${result.entityId}`}
+      onSelect={() => handleSelect(result)}
+      className="flex items-start gap-3"
+    >
+      {result.entityType === "submissions" ? (
+        <FileText className="mt-0.5 shrink-0 text-muted-foreground" />
+      ) : (
+        <FileIcon className="mt-0.5 shrink-0 text-muted-foreground" />
+      )}
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center gap-2">
+          <p className="truncate font-medium">
+            {result.entityType === "files" ? decodeFileName(result.title) : <Highlighted segments={result.titleHighlight} />}
+          </p>
+          {result.language && (
+            <Badge variant="outline" className="text-xs">{getLanguageName(result.language)}</Badge>
+          )}
+          {result.parentEntityType && (
+            <Badge variant="secondary" className="text-xs capitalize">{result.parentEntityType}</Badge>
+          )}
+        </div>
+        {result.snippet.length > 0 && (
+          <p className="line-clamp-2 text-xs text-muted-foreground">
+            <Highlighted segments={result.snippet} />
+          </p>
+        )}
+      </div>
+    </CommandItem>
+  );
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="hidden md:flex items-center gap-2 text-muted-foreground"
+        onClick={() => setOpen(true)}
+      >
+        <Search className="h-4 w-4" />
+        <span className="text-sm">Search...</span>
+        <kbd className="pointer-events-none rounded border bg-muted px-1.5 font-mono text-[10px]">⌘K</kbd>
+      </Button>
+      <Button variant="ghost" size="sm" className="md:hidden" onClick={() => setOpen(true)}>
+        <Search className="h-4 w-4" />
+      </Button>
+
+      <CommandDialog open={open} onOpenChange={setOpen} shouldFilter={false}>
+        <CommandInput
+          placeholder="Search submissions, files and document text..."
+          value={query}
+          onValueChange={setQuery}
+        />
+        <div className="flex gap-2 border-b p-2">
+          <Select value={type} onValueChange={setType}>
+            <SelectTrigger className="h-8 w-36 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Everything</SelectItem>
+              <SelectItem value="submissions">Submissions</SelectItem>
+              <SelectItem value="files">Files</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={categoryId} onValueChange={setCategoryId}>
+            <SelectTrigger className="h-8 w-40 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All categories</SelectItem>
+              {categories.map((category) => (
+                <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={language} onValueChange={setLanguage}>
+            <SelectTrigger className="h-8 w-36 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All languages</SelectItem>
+              {getLanguageOptions().map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <CommandList className="max-h-[400px]">
+          {debouncedQuery.length >= MIN_QUERY_LENGTH && !isFetching && (
+            <CommandEmpty>No results for "{debouncedQuery}"</CommandEmpty>
+          )}
+          {submissions.length > 0 && (
+            <CommandGroup heading="Submissions">{submissions.map(renderResult)}</CommandGroup>
+          )}
+          {files.length > 0 && (
+            <CommandGroup heading="Files">{files.map(renderResult)}</CommandGroup>
+          )}
+        </CommandList>
+        {data && data.total > results.length && results.length > 0 && (
+          <p className="border-t px-3 py-2 text-xs text-muted-foreground">
+            Showing the top {results.length} of {data.total} results
+          </p>
+        )}
+      </CommandDialog>
+    </>
+  );
+}
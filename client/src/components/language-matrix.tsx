@@ -0,0 +1,100 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Check, Minus } from "lucide-react";
+import { getLanguageFlag, getLanguageName } from "@shared/languages";
+
+// Which languages each submission of a hackathon exists in. Mirrors
+// buildLanguageMatrix in server/translations.ts
+
+interface LanguageMatrixCell {
+  submissionId: string;
+  title: string;
+  status: string;
+  isOriginal: boolean;
+  outdated: boolean;
+}
+
+interface LanguageMatrix {
+  languages: string[];
+  rows: {
+    submissionGroup: string;
+    originalId: string | null;
+    title: string;
+    languages: Partial<Record<string, LanguageMatrixCell>>;
+  }[];
+}
+
+async function fetchMatrix(hackathonId: string): Promise<LanguageMatrix> {
+  const response = await fetch(`/api/projects/${hackathonId}/language-matrix`, { credentials: "include" });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.message || "Failed to load the language matrix");
+  return data;
+}
+
+export function LanguageMatrixTable({ hackathonId }: { hackathonId: string }) {
+  const { data: matrix, error, isLoading } = useQuery<LanguageMatrix>({
+    queryKey: ["/api/projects", hackathonId, "language-matrix"],
+    queryFn: () => fetchMatrix(hackathonId),
+  });
+
+  if (isLoading) return <p className="text-sm text-muted-foreground">Loading...</p>;
+  if (error || !matrix) {
+    return <p className="text-sm text-destructive">{(error as Error | null)?.message || "Failed to load the language matrix"}</p>;
+  }
+  if (matrix.rows.length === 0) {
+    return <p className="text-sm text-muted-foreground">No submissions yet</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto border rounded-lg">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Submission</TableHead>
+            {matrix.languages.map((language) => (
+              <TableHead key={language} className="text-center whitespace-nowrap" title={getLanguageName(language)}>
+                {getLanguageFlag(language)} {language.toUpperCase()}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {matrix.rows.map((row) => (
+            <TableRow key={row.submissionGroup}>
+              <TableCell className="font-medium">{row.title}</TableCell>
+              {matrix.languages.map((language) => {
+                const cell = row.languages[language];
+                return (
+                  <TableCell key={language} className="text-center">
+                    {cell ? (
+                      <div className="flex flex-col items-center gap-1" title={`${cell.title} (${cell.status})`}>
+                        <Check className="h-4 w-4 text-emerald-600" />
+                        {cell.isOriginal ? (
+                          <Badge variant="secondary" className="text-[10px]">Original</Badge>
+                        ) : cell.outdated ? (
+                          <Badge variant="outline" className="text-[10px] border-amber-300 text-amber-600">Outdated</Badge>
+                        ) : (
+                          <span className="text-[10px] text-muted-foreground">{cell.status}</span>
+                        )}
+                      </div>
+                    ) : (
+                      <Minus className="h-4 w-4 text-muted-foreground mx-auto" />
+                    )}
+                  </TableCell>
+                );
+              })}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
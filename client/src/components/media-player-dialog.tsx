@@ -0,0 +1,56 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { decodeFileName } from "@/utils/textUtils";
+
+interface MediaPlayerDialogProps {
+  file: { id: string; originalName: string; mimeType: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function isPlayableMedia(mimeType: string): boolean {
+  return mimeType.startsWith('audio/') || mimeType.startsWith('video/');
+}
+
+// Streams straight from the download endpoint, which answers Range requests,
+// so seeking works without fetching the whole file first
+export function MediaPlayerDialog({ file, onOpenChange }: MediaPlayerDialogProps) {
+  const src = file ? `/api/files/${file.id}/download?inline=true` : undefined;
+
+  return (
+    <Dialog open={!!file} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="truncate">
+            {file ? decodeFileName(file.originalName) : ""}
+          </DialogTitle>
+          <DialogDescription>{file?.mimeType}</DialogDescription>
+        </DialogHeader>
+        {file && file.mimeType.startsWith('video/') && (
+          <video
+            key={file.id}
+            src={src}
+            controls
+            autoPlay
+            preload="metadata"
+            className="w-full max-h-[70vh] rounded bg-black"
+          />
+        )}
+        {file && file.mimeType.startsWith('audio/') && (
+          <audio
+            key={file.id}
+            src={src}
+            controls
+            autoPlay
+            preload="metadata"
+            className="w-full"
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
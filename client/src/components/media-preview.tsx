@@ -0,0 +1,140 @@
+import { useState, type ReactNode } from "react";
+import { Loader2 } from "lucide-react";
+import type { MediaMetadata } from "@shared/schema";
+import { cn } from "@/lib/utils";
+import { decodeFileName } from "@/utils/textUtils";
+
+// Previews from the background media pipeline (server/media-processing.ts).
+// The fields arrive with every file row; the thumbnail image is fetched
+// separately from /api/files/:id/thumbnail.
+export interface MediaPreviewFile {
+  id: string;
+  originalName: string;
+  mimeType: string;
+  thumbnailStorageKey?: string | null;
+  mediaMetadata?: MediaMetadata | null;
+  waveformPeaks?: number[] | null;
+  processingStatus?: string | null;
+  processedAt?: string | null;
+}
+
+export function formatDuration(totalSeconds: number): string {
+  const seconds = Math.round(totalSeconds);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = (seconds % 60).toString().padStart(2, "0");
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, "0")}:${rest}` : `${minutes}:${rest}`;
+}
+
+// Short facts for the line under the file name, e.g. ["3:25", "1920×1080", "128 kbps"]
+export function describeMediaMetadata(metadata?: MediaMetadata | null): string[] {
+  if (!metadata) return [];
+  const parts: string[] = [];
+  if (metadata.durationSeconds !== undefined) parts.push(formatDuration(metadata.durationSeconds));
+  if (metadata.width && metadata.height) parts.push(`${metadata.width}×${metadata.height}`);
+  if (metadata.pageCount !== undefined) parts.push(`${metadata.pageCount} page${metadata.pageCount === 1 ? "" : "s"}`);
+  if (metadata.bitrate) parts.push(`${Math.round(metadata.bitrate / 1000)} kbps`);
+  return parts;
+}
+
+export function isMediaProcessing(file: MediaPreviewFile): boolean {
+  return file.processingStatus === "pending" || file.processingStatus === "processing";
+}
+
+function thumbnailUrl(file: MediaPreviewFile): string {
+  // processedAt busts the browser cache when a file is reprocessed
+  return `/api/files/${file.id}/thumbnail${file.processedAt ? `?v=${encodeURIComponent(file.processedAt)}` : ""}`;
+}
+
+interface WaveformProps {
+  peaks: number[];
+  className?: string;
+}
+
+export function Waveform({ peaks, className }: WaveformProps) {
+  // Scale to the loudest peak so quiet recordings are still readable
+  const loudest = Math.max(...peaks, 0.01);
+  return (
+    <svg
+      viewBox={`0 0 ${peaks.length} 100`}
+      preserveAspectRatio="none"
+      className={cn("text-primary", className)}
+      aria-hidden="true"
+    >
+      {peaks.map((peak, index) => {
+        const height = Math.max(2, (peak / loudest) * 100);
+        return (
+          <rect key={index} x={index + 0.15} y={(100 - height) / 2} width={0.7} height={height} fill="currentColor" />
+        );
+      })}
+    </svg>
+  );
+}
+
+interface FileThumbnailProps {
+  file: MediaPreviewFile;
+  fallback: ReactNode;
+  className?: string;
+}
+
+// Thumbnail, else waveform, else the fallback icon; shows a spinner while the
+// pipeline is still working on the file
+export function FileThumbnail({ file, fallback, className }: FileThumbnailProps) {
+  const [failed, setFailed] = useState(false);
+
+  if (file.thumbnailStorageKey && !failed) {
+    return (
+      <img
+        src={thumbnailUrl(file)}
+        alt=""
+        loading="lazy"
+        onError={() => setFailed(true)}
+        className={cn("object-cover rounded bg-muted", className)}
+      />
+    );
+  }
+  if (file.waveformPeaks && file.waveformPeaks.length > 0) {
+    return (
+      <div className={cn("rounded bg-muted p-1", className)}>
+        <Waveform peaks={file.waveformPeaks} className="h-full w-full" />
+      </div>
+    );
+  }
+  return (
+    <div className={cn("flex items-center justify-center rounded bg-muted text-muted-foreground", className)}>
+      {isMediaProcessing(file) ? <Loader2 className="h-4 w-4 animate-spin" aria-label="Generating preview" /> : fallback}
+    </div>
+  );
+}
+
+interface MediaPreviewGridProps {
+  files: MediaPreviewFile[];
+  fallback: (file: MediaPreviewFile) => ReactNode;
+}
+
+// Card grid for the media in a file set, used above file lists that are
+// mostly audio, video and images
+export function MediaPreviewGrid({ files, fallback }: MediaPreviewGridProps) {
+  const previewable = files.filter(
+    (file) => file.thumbnailStorageKey || file.waveformPeaks?.length || isMediaProcessing(file),
+  );
+  if (previewable.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+      {previewable.map((file) => (
+        <div key={file.id} className="rounded-lg border bg-white dark:bg-gray-800 overflow-hidden">
+          <FileThumbnail file={file} fallback={fallback(file)} className="h-24 w-full rounded-none" />
+          <div className="p-2">
+            <p className="text-xs font-medium truncate" title={decodeFileName(file.originalName)}>
+              {decodeFileName(file.originalName)}
+            </p>
+            <p className="text-xs text-muted-foreground truncate">
+              {isMediaProcessing(file) ? "Processing..." : describeMediaMetadata(file.mediaMetadata).join(" • ")}
+            </p>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
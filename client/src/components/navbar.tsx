@@ -14,32 +14,39 @@ import {
   RadioTower,
   Users,
   TrendingUp,
-  FormInput
+  FormInput,
+  Cog,
+  ShieldAlert,
+  Trash2,
+  Scale
 } from "lucide-react";
 import { ProfileDropdown } from "@/components/profile-dropdown";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { NotificationBell } from "@/components/NotificationBell";
+import { GlobalSearch } from "@/components/global-search";
 import { useAuth } from "@/hooks/useAuth";
 import { useState } from "react";
 
 export function Navbar() {
   const [location] = useLocation();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
-  const { user, isLoading, isAuthenticated, isAdmin } = useAuth();
-
-  const canAccessAdvancedFeatures = user?.role === 'organizer' || user?.role === 'analyzer';
+  const { user, isLoading, isAuthenticated, can } = useAuth();
 
 
 
   const navItems = [
     { href: "/", label: "Dashboard", icon: Home },
     { href: "/projects", label: "Hackathons", icon: FolderOpen },
-    ...(canAccessAdvancedFeatures ? [{ href: "/episodes", label: "Teams", icon: Play }] : []),
-    ...(canAccessAdvancedFeatures ? [{ href: "/scripts", label: "Submissions", icon: FileText }] : []),
+    ...(can('teams.join') ? [{ href: "/episodes", label: "Teams", icon: Play }] : []),
+    ...(can('submissions.create') ? [{ href: "/scripts", label: "Submissions", icon: FileText }] : []),
+    ...(can('submissions.evaluate') ? [{ href: "/judging", label: "Judging", icon: Scale }] : []),
     { href: "/radio-stations", label: "Colleges", icon: RadioTower },
-    ...(isAdmin ? [{ href: "/users", label: "Users", icon: Users }] : []),
-    ...(isAdmin ? [{ href: "/analytics", label: "Analytics", icon: TrendingUp }] : []),
-    ...(isAdmin ? [{ href: "/onboarding", label: "Onboarding", icon: FormInput }] : []),
+    ...(can('users.manage') ? [{ href: "/users", label: "Users", icon: Users }] : []),
+    ...(can('analytics.view') ? [{ href: "/analytics", label: "Analytics", icon: TrendingUp }] : []),
+    ...(can('forms.manage') ? [{ href: "/onboarding", label: "Onboarding", icon: FormInput }] : []),
+    ...(can('jobs.manage') ? [{ href: "/jobs", label: "Jobs", icon: Cog }] : []),
+    ...(can('files.reviewQuarantine') ? [{ href: "/quarantine", label: "Quarantine", icon: ShieldAlert }] : []),
+    ...(can('trash.manage') ? [{ href: "/trash", label: "Trash", icon: Trash2 }] : []),
   ];
 
   return (
@@ -92,6 +99,9 @@ export function Navbar() {
           </div>
 
           <div className="flex items-center space-x-3">
+            {/* Global search palette (Ctrl/Cmd+K) */}
+            <GlobalSearch />
+
             {/* Theme Toggle */}
             <ThemeToggle />
 
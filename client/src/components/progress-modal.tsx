@@ -1,4 +1,6 @@
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
@@ -10,8 +12,12 @@ import {
   Podcast,
   BookOpen,
   CheckCircle,
-  ArrowUp
+  ArrowUp,
+  Loader2,
+  XCircle,
+  Clock
 } from "lucide-react";
+import { format } from "date-fns";
 
 interface ProgressModalProps {
   isOpen: boolean;
@@ -140,4 +146,103 @@ export function ProgressModal({ isOpen, onClose, currentLevel, currentProgress,
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
+
+// A background job (server/job-queue.ts) as returned by GET /api/jobs/:id
+export interface JobProgress {
+  id: string;
+  type: string;
+  status: "queued" | "running" | "completed" | "failed" | "cancelled";
+  progress: number;
+  progressMessage?: string | null;
+  result?: unknown;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string | null;
+  runAt?: string | null;
+}
+
+export function isJobFinished(job?: Pick<JobProgress, "status"> | null): boolean {
+  return job?.status === "completed" || job?.status === "failed" || job?.status === "cancelled";
+}
+
+interface JobProgressModalProps {
+  jobId: string | null; // The modal is open while this is set
+  title: string;
+  onClose: () => void;
+  onComplete?: (job: JobProgress) => void;
+  describeResult?: (result: unknown) => string;
+}
+
+// Follows a background job until it finishes. Closing the dialog only stops
+// watching; the job keeps running on the server.
+export function JobProgressModal({ jobId, title, onClose, onComplete, describeResult }: JobProgressModalProps) {
+  const { data: job } = useQuery<JobProgress>({
+    queryKey: [`/api/jobs/${jobId}`],
+    enabled: !!jobId,
+    staleTime: 0,
+    refetchInterval: (query) => (isJobFinished(query.state.data) ? false : 1000),
+  });
+
+  // Once per job, even if the dialog re-renders after completion
+  const completedJobId = useRef<string | null>(null);
+  useEffect(() => {
+    if (job?.status === "completed" && job.id === jobId && completedJobId.current !== job.id) {
+      completedJobId.current = job.id;
+      onComplete?.(job);
+    }
+  }, [job, jobId, onComplete]);
+
+  const current = job?.id === jobId ? job : undefined;
+  const finished = isJobFinished(current);
+  const retrying = current?.status === "queued" && current.attempts > 0;
+
+  return (
+    <Dialog open={!!jobId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            {!current || !finished ? (
+              <Loader2 className="h-5 w-5 animate-spin text-indigo-600" />
+            ) : current.status === "completed" ? (
+              <CheckCircle className="h-5 w-5 text-green-600" />
+            ) : (
+              <XCircle className="h-5 w-5 text-red-600" />
+            )}
+            <span>{title}</span>
+          </DialogTitle>
+          <DialogDescription>
+            {!current && "Starting..."}
+            {current?.status === "queued" && !retrying && "Waiting for a worker..."}
+            {current?.status === "running" && (current.progressMessage || "Working...")}
+            {current?.status === "completed" && "Finished"}
+            {current?.status === "failed" && `Failed after ${current.attempts} attempt${current.attempts === 1 ? "" : "s"}`}
+            {current?.status === "cancelled" && "Cancelled"}
+            {retrying && `Attempt ${current.attempts} of ${current.maxAttempts} failed, trying again shortly`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Progress value={current?.progress ?? 0} className="h-3" />
+
+          {retrying && current.runAt && (
+            <p className="flex items-center text-sm text-gray-600">
+              <Clock className="h-4 w-4 mr-1" />
+              Next attempt at {format(new Date(current.runAt), "HH:mm:ss")}
+            </p>
+          )}
+          {current?.lastError && (current.status === "failed" || retrying) && (
+            <p className="text-sm text-red-600 break-words">{current.lastError}</p>
+          )}
+          {current?.status === "completed" && describeResult && (
+            <p className="text-sm text-gray-600">{describeResult(current.result)}</p>
+          )}
+
+          <Button onClick={onClose} variant={finished ? "default" : "outline"} className="w-full">
+            {finished ? "Close" : "Continue in background"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
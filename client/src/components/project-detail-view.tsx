@@ -19,7 +19,9 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { FileList } from "@/components/file-list";
 import { EnhancedFileManager } from "@/components/enhanced-file-manager";
+import { MediaPreviewGrid } from "@/components/media-preview";
 import { LanguageBadge } from "@/components/language-selector";
+import { LanguageMatrixTable } from "@/components/language-matrix";
 import { 
   Plus, 
   FileText, 
@@ -30,7 +32,8 @@ import {
   ChevronDown,
   Eye,
   Download,
-  Globe
+  Globe,
+  File as FileIcon
 } from "lucide-react";
 import { getLanguageName, getLanguageFlag } from "@shared/languages";
 import type { Hackathon, Team, Submission } from "@shared/schema";
@@ -66,20 +69,20 @@ export function HackathonDetailView({ project }: HackathonDetailViewProps) {
 
   const { data: episodes = [] } = useQuery<Team[]>({
     queryKey: ["/api/episodes"],
-    select: (data) => data.filter(episode => episode.projectId === project.id)
+    select: (data) => data.filter(episode => episode.hackathonId === project.id)
   });
 
   const { data: scripts = [] } = useQuery<Submission[]>({
     queryKey: ["/api/scripts"],
-    select: (data) => data.filter(script => script.projectId === project.id)
+    select: (data) => data.filter(script => script.hackathonId === project.id)
   });
 
   // Get available languages for filtering
   const availableLanguages = Array.from(new Set(scripts.map(script => script.language).filter(Boolean)));
 
-  // Group scripts by title (name) - this is the key change for the requested feature
+  // An original and its translations share a submission group
   const groupedSubmissions = scripts.reduce((acc, script) => {
-    const key = script.title;
+    const key = script.submissionGroup || script.id;
     if (!acc[key]) {
       acc[key] = [];
     }
@@ -98,12 +101,6 @@ export function HackathonDetailView({ project }: HackathonDetailViewProps) {
         return acc;
       }, {} as Record<string, Submission[]>);
 
-  // Get all script language versions for a specific title
-  const getSubmissionLanguageVersions = (script: Submission) => {
-    if (!script.languageGroup) return [script];
-    return scripts.filter(s => s.languageGroup === script.languageGroup);
-  };
-
   // Get project-level files to count episodes and scripts
   const { data: projectTeamFilesResponse = { files: [] } } = useQuery({
     queryKey: ['/api/files', 'episodes', project.id],
@@ -163,9 +160,10 @@ export function HackathonDetailView({ project }: HackathonDetailViewProps) {
       </div>
 
       <Tabs defaultValue="scripts" className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="scripts">Submissions</TabsTrigger>
           <TabsTrigger value="episodes">Teams</TabsTrigger>
+          <TabsTrigger value="languages">Languages</TabsTrigger>
         </TabsList>
 
 
@@ -204,8 +202,11 @@ export function HackathonDetailView({ project }: HackathonDetailViewProps) {
           </div>
           
           <div className="grid gap-6">
-            {Object.entries(filteredGroupedSubmissions).map(([scriptTitle, scriptVersions]) => {
-              const script = selectedSubmissionVersions[scriptTitle] || scriptVersions[0];
+            {Object.entries(filteredGroupedSubmissions).map(([submissionGroup, scriptVersions]) => {
+              const script = selectedSubmissionVersions[submissionGroup]
+                || scriptVersions.find(version => version.isOriginal !== false)
+                || scriptVersions[0];
+              const scriptTitle = script.title;
               const hasMultipleLanguages = scriptVersions.length > 1;
               
               // Get status color
@@ -220,7 +221,7 @@ export function HackathonDetailView({ project }: HackathonDetailViewProps) {
               };
 
               return (
-                <div key={scriptTitle} className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm hover:shadow-md transition-shadow overflow-hidden">
+                <div key={submissionGroup} className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm hover:shadow-md transition-shadow overflow-hidden">
                   <div className="p-6">
                     <div className="flex justify-between items-start mb-4">
                       <div className="flex-1">
@@ -239,7 +240,7 @@ export function HackathonDetailView({ project }: HackathonDetailViewProps) {
                                 if (selectedSubmission) {
                                   setSelectedSubmissionVersions(prev => ({
                                     ...prev,
-                                    [scriptTitle]: selectedSubmission
+                                    [submissionGroup]: selectedSubmission
                                   }));
                                 }
                               }}
@@ -325,6 +326,9 @@ export function HackathonDetailView({ project }: HackathonDetailViewProps) {
                     <p className="text-sm text-gray-600 dark:text-gray-400">Document files uploaded to this project</p>
                   </div>
                 </div>
+                <div className="mb-4">
+                  <MediaPreviewGrid files={projectSubmissionFiles} fallback={() => <FileText className="h-6 w-6" />} />
+                </div>
                 <FileList 
                   entityType="scripts" 
                   entityId={project.id}
@@ -413,6 +417,9 @@ export function HackathonDetailView({ project }: HackathonDetailViewProps) {
                     <p className="text-sm text-gray-600 dark:text-gray-400">Audio/video files uploaded to this project</p>
                   </div>
                 </div>
+                <div className="mb-4">
+                  <MediaPreviewGrid files={projectTeamFiles} fallback={() => <FileIcon className="h-6 w-6" />} />
+                </div>
                 <FileList 
                   entityType="episodes" 
                   entityId={project.id}
@@ -433,6 +440,16 @@ export function HackathonDetailView({ project }: HackathonDetailViewProps) {
           </div>
         </TabsContent>
 
+        <TabsContent value="languages" className="space-y-6">
+          <div className="flex items-center gap-3 mb-6">
+            <div className="p-2 bg-violet-100 dark:bg-violet-900/30 rounded-lg">
+              <Languages className="h-5 w-5 text-violet-600 dark:text-violet-400" />
+            </div>
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-gray-100">Languages</h3>
+          </div>
+          <LanguageMatrixTable hackathonId={project.id} />
+        </TabsContent>
+
       </Tabs>
     </div>
   );
@@ -1,8 +1,10 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Upload, FileText } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Upload, FileText, X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import {
   Select,
@@ -11,6 +13,9 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { uploadFileResumable, cancelResumableUpload, UploadError, type UploadProgress, type UploadTarget } from "@/lib/resumableUpload";
+import { uploadResultToast, duplicateBlockedToast, uploadRefusedToast } from "@/components/duplicate-file-notice";
+import { StorageUsageMeter } from "@/components/storage-usage-meter";
 
 interface HackathonFileUploadProps {
   projectId?: string;
@@ -31,18 +36,21 @@ export function HackathonFileUpload({
 }: HackathonFileUploadProps) {
   const [file, setFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  const [progress, setProgress] = useState<UploadProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = event.target.files?.[0];
     setFile(selectedFile || null);
   };
 
-  const getUploadEndpoint = () => {
-    if (scriptId) return `/api/scripts/${scriptId}/upload`;
-    if (episodeId) return `/api/episodes/${episodeId}/upload`;
-    if (projectId) return `/api/projects/${projectId}/upload`;
-    return "/api/files/upload";
+  const getUploadTarget = (): UploadTarget | null => {
+    if (scriptId) return { targetType: "scripts", targetId: scriptId };
+    if (episodeId) return { targetType: "episodes", targetId: episodeId };
+    if (projectId) return { targetType: "projects", targetId: projectId };
+    return null;
   };
 
   const handleUpload = async () => {
@@ -55,7 +63,8 @@ export function HackathonFileUpload({
       return;
     }
 
-    if (!projectId && !episodeId && !scriptId) {
+    const target = getUploadTarget();
+    if (!target) {
       toast({
         title: "Invalid upload target",
         description: "Please select a project, episode, or script to upload to",
@@ -65,49 +74,57 @@ export function HackathonFileUpload({
     }
 
     setIsUploading(true);
-    const formData = new FormData();
-    formData.append("file", file);
-    
-    // Add entity IDs to form data for proper organization
-    if (projectId) formData.append("projectId", projectId);
-    if (episodeId) formData.append("episodeId", episodeId);
-    if (scriptId) formData.append("scriptId", scriptId);
+    setProgress(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      const response = await fetch(getUploadEndpoint(), {
-        method: "POST",
-        body: formData,
-      });
-
-      if (!response.ok) {
-        throw new Error("Upload failed");
-      }
-
-      const result = await response.json();
-      toast({
-        title: "Upload successful",
-        description: result.message,
+      const result = await uploadFileResumable(file, target, {
+        onProgress: setProgress,
+        signal: controller.signal,
       });
+      toast(uploadResultToast(result));
 
       setFile(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/storage/usage'] });
       onUploadSuccess();
       
       // Reset the file input
       const fileInput = document.querySelector('input[type="file"]') as HTMLInputElement;
       if (fileInput) fileInput.value = '';
-      
-      // Reset the file input
-      const fileInput = document.querySelector('input[type="file"]') as HTMLInputElement;
-      if (fileInput) fileInput.value = '';
     } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        toast({ title: "Upload cancelled" });
+        return;
+      }
+      if (error instanceof UploadError && error.duplicates) {
+        toast(duplicateBlockedToast({ message: error.message, duplicates: error.duplicates }));
+        return;
+      }
+      if (error instanceof UploadError && error.status === 413) {
+        toast(uploadRefusedToast(error));
+        return;
+      }
       console.error("Upload error:", error);
       toast({
         title: "Upload failed",
-        description: "There was an error uploading your file. Please try again.",
+        description: error instanceof Error
+          ? `${error.message}. Select the same file again to resume.`
+          : "There was an error uploading your file. Please try again.",
         variant: "destructive",
       });
     } finally {
+      abortRef.current = null;
       setIsUploading(false);
+      setProgress(null);
+    }
+  };
+
+  const handleCancel = async () => {
+    abortRef.current?.abort();
+    const target = getUploadTarget();
+    if (file && target) {
+      await cancelResumableUpload(file, target);
     }
   };
 
@@ -132,6 +149,8 @@ export function HackathonFileUpload({
         </p>
       </div>
 
+      <StorageUsageMeter entityType={getUploadTarget()?.targetType} entityId={getUploadTarget()?.targetId} />
+
       {file && (
         <div className="flex items-center gap-2 p-2 border rounded bg-muted">
           <FileText className="h-4 w-4" />
@@ -142,13 +161,35 @@ export function HackathonFileUpload({
         </div>
       )}
 
-      <Button 
-        onClick={handleUpload} 
-        disabled={!file || isUploading}
-        className="w-full"
-      >
-        {isUploading ? "Uploading..." : "Upload File"}
-      </Button>
+      {isUploading && progress && (
+        <div className="space-y-1">
+          <Progress value={progress.percent} />
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>
+              {(progress.uploadedBytes / 1024 / 1024).toFixed(2)} / {(progress.totalBytes / 1024 / 1024).toFixed(2)} MB
+              {progress.resumed && " (resumed)"}
+              {progress.retrying && " - connection lost, retrying..."}
+            </span>
+            <span>{progress.percent}%</span>
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button 
+          onClick={handleUpload} 
+          disabled={!file || isUploading}
+          className="flex-1"
+        >
+          {isUploading ? "Uploading..." : "Upload File"}
+        </Button>
+        {isUploading && (
+          <Button variant="outline" onClick={handleCancel}>
+            <X className="h-4 w-4 mr-1" />
+            Cancel
+          </Button>
+        )}
+      </div>
     </div>
   );
 }
\ No newline at end of file
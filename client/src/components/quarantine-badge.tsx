@@ -0,0 +1,46 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { ShieldAlert } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+// Uploads the malware scan flagged (server/upload-screening.ts). Only
+// organizers ever see these rows; they can release false positives.
+export interface QuarantinableFile {
+  quarantinedAt?: string | null;
+  quarantineReason?: string | null;
+}
+
+export function QuarantineBadge({ file }: { file: QuarantinableFile }) {
+  if (!file.quarantinedAt) return null;
+  return (
+    <Badge
+      variant="destructive"
+      className="text-xs flex items-center gap-1"
+      title={file.quarantineReason ? `Flagged as ${file.quarantineReason}` : "Flagged by the upload scan"}
+    >
+      <ShieldAlert className="h-3 w-3" />
+      Quarantined
+    </Badge>
+  );
+}
+
+export function useReleaseQuarantine() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (fileId: string) => {
+      const response = await apiRequest("POST", `/api/files/${fileId}/release-quarantine`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/files/quarantined"] });
+      toast({ title: "File released", description: "The file is visible to everyone with access again." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to release file", description: error.message, variant: "destructive" });
+    },
+  });
+}
@@ -46,7 +46,6 @@ const scriptSchema = z.object({
   title: z.string().min(1, "Title is required"),
   content: z.string().optional(),
   projectId: z.string().min(1, "Hackathon is required"),
-  status: z.enum(["Draft", "Under Review", "Approved", "Needs Revision"]).default("Draft"),
   language: z.string().default("en"),
 });
 
@@ -106,7 +105,6 @@ export function QuickCreateModals({
       title: "",
       content: "",
       projectId: "",
-      status: "Draft",
       language: "en",
     },
   });
@@ -442,35 +440,11 @@ export function QuickCreateModals({
                     <LanguageSelector
                       value={field.value}
                       onChange={field.onChange}
-                      allowCustom={true}
                     />
                     <FormMessage />
                   </FormItem>
                 )}
               />
-              <FormField
-                control={scriptForm.control}
-                name="status"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Status</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select status" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        <SelectItem value="Draft">Draft</SelectItem>
-                        <SelectItem value="Under Review">Under Review</SelectItem>
-                        <SelectItem value="Approved">Approved</SelectItem>
-                        <SelectItem value="Needs Revision">Needs Revision</SelectItem>
-                      </SelectContent>
-                    </Select>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
               <div className="flex justify-end space-x-2">
                 <Button type="button" variant="outline" onClick={onSubmissionClose}>
                   Cancel
@@ -32,7 +32,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/api";
-import { FileText, Sparkles, CheckCircle, AlertCircle, PlayCircle, Edit as EditIcon } from "lucide-react";
+import { FileText, Sparkles, CheckCircle, AlertCircle, PlayCircle, RefreshCw, Edit as EditIcon } from "lucide-react";
 import type { Submission, Team, Hackathon } from "@shared/schema";
 
 const scriptFormSchema = z.object({
@@ -41,7 +41,6 @@ const scriptFormSchema = z.object({
   projectId: z.string().min(1, "Hackathon is required"),
   episodeId: z.string().optional(),
   content: z.string().min(1, "Content is required"),
-  status: z.enum(["Draft", "Under Review", "Approved", "Published"]).default("Draft"),
 });
 
 type SubmissionFormData = z.infer<typeof scriptFormSchema>;
@@ -57,6 +56,7 @@ interface SubmissionEditorProps {
 const statusColors = {
   "Draft": "bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-700",
   "Under Review": "bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300 border-yellow-200 dark:border-yellow-700",
+  "Needs Revision": "bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300 border-orange-200 dark:border-orange-700",
   "Approved": "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 border-green-200 dark:border-green-700", 
   "Published": "bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 border-blue-200 dark:border-blue-700"
 };
@@ -64,6 +64,7 @@ const statusColors = {
 const statusIcons = {
   "Draft": EditIcon,
   "Under Review": AlertCircle,
+  "Needs Revision": RefreshCw,
   "Approved": CheckCircle,
   "Published": PlayCircle
 };
@@ -90,14 +91,12 @@ export function SubmissionEditor({ isOpen, onClose, script, readOnly = false, on
       description: script.description || "",
       episodeId: script.episodeId || "none",
       content: script.content || "",
-      status: script.status as "Draft" | "Under Review" | "Approved" | "Published",
     } : {
       projectId: "",
       title: "",
       description: "",
       episodeId: "none",
       content: "",
-      status: "Draft",
     },
   });
 
@@ -122,8 +121,7 @@ export function SubmissionEditor({ isOpen, onClose, script, readOnly = false, on
         projectId: script.projectId || "",
         episodeId: script.episodeId || "none",
         content: script.content || "",
-        status: script.status as "Draft" | "Under Review" | "Approved" | "Published",
-      };
+        };
       form.reset(scriptData);
       setContent(script.content || "");
       setSelectedHackathon(script.projectId || "");
@@ -134,7 +132,6 @@ export function SubmissionEditor({ isOpen, onClose, script, readOnly = false, on
         projectId: "",
         episodeId: "none",
         content: "",
-        status: "Draft" as const,
       };
       form.reset(defaultData);
       setContent("");
@@ -291,8 +288,8 @@ export function SubmissionEditor({ isOpen, onClose, script, readOnly = false, on
         <div className="overflow-y-auto max-h-[calc(90vh-120px)]">
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6 p-1">
-              {/* Title and Status */}
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {/* Title; the status only changes through the review workflow */}
+              <div className="grid grid-cols-1 gap-6">
                 <FormField
                   control={form.control}
                   name="title"
@@ -306,30 +303,6 @@ export function SubmissionEditor({ isOpen, onClose, script, readOnly = false, on
                     </FormItem>
                   )}
                 />
-
-                <FormField
-                  control={form.control}
-                  name="status"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Status</FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
-                        <FormControl>
-                          <SelectTrigger>
-                            <SelectValue placeholder="Select status" />
-                          </SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          <SelectItem value="Draft">Draft</SelectItem>
-                          <SelectItem value="Under Review">Under Review</SelectItem>
-                          <SelectItem value="Approved">Approved</SelectItem>
-                          <SelectItem value="Published">Published</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
               </div>
 
               {/* Hackathon and Team */}
@@ -7,6 +7,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Upload, FileText, Download, Trash2, File as FileIcon } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { uploadResultToast, duplicateBlockedToast, uploadRefusedToast } from "@/components/duplicate-file-notice";
+import { StorageUsageMeter } from "@/components/storage-usage-meter";
 import { useFilePermissions } from "@/hooks/useFilePermissions";
 import type { Submission } from "@shared/schema";
 
@@ -82,19 +84,26 @@ export function SubmissionFileManager({ script }: SubmissionFileManagerProps) {
         body: formData,
       });
 
+      if (response.status === 409) {
+        toast(duplicateBlockedToast(await response.json()));
+        return;
+      }
       if (!response.ok) {
+        const refusal = await response.json().catch(() => null);
+        if (refusal?.message) {
+          toast(uploadRefusedToast(refusal));
+          return;
+        }
         throw new Error("Upload failed");
       }
 
       const result = await response.json();
-      toast({
-        title: "Upload successful",
-        description: result.message,
-      });
+      toast(uploadResultToast(result));
 
       setFile(null);
       queryClient.invalidateQueries({ queryKey: ['/api/files'] });
       queryClient.invalidateQueries({ queryKey: ['/api/files', 'scripts', script.id] });
+      queryClient.invalidateQueries({ queryKey: ['/api/storage/usage'] });
       
       // Reset the file input
       const fileInput = document.querySelector('input[type="file"]') as HTMLInputElement;
@@ -124,6 +133,7 @@ export function SubmissionFileManager({ script }: SubmissionFileManagerProps) {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/files'] });
       queryClient.invalidateQueries({ queryKey: ['/api/files', 'scripts', script.id] });
+      queryClient.invalidateQueries({ queryKey: ['/api/storage/usage'] });
       toast({
         title: "File deleted",
         description: "File has been successfully deleted",
@@ -165,6 +175,8 @@ export function SubmissionFileManager({ script }: SubmissionFileManagerProps) {
               </p>
             </div>
 
+            <StorageUsageMeter entityType="scripts" entityId={script.id} />
+
             {file && (
               <div className="flex items-center gap-2 p-2 border rounded bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600">
                 <FileText className="h-4 w-4 text-gray-600 dark:text-gray-400" />
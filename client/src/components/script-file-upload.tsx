@@ -5,6 +5,8 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Upload, FileText } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { uploadResultToast, duplicateBlockedToast, uploadRefusedToast } from "@/components/duplicate-file-notice";
+import { StorageUsageMeter } from "@/components/storage-usage-meter";
 import {
   Select,
   SelectContent,
@@ -92,15 +94,21 @@ export function SubmissionFileUpload() {
         body: formData,
       });
 
+      if (response.status === 409) {
+        toast(duplicateBlockedToast(await response.json()));
+        return;
+      }
       if (!response.ok) {
+        const refusal = await response.json().catch(() => null);
+        if (refusal?.message) {
+          toast(uploadRefusedToast(refusal));
+          return;
+        }
         throw new Error("Upload failed");
       }
 
       const result = await response.json();
-      toast({
-        title: "Upload successful",
-        description: result.message,
-      });
+      toast(uploadResultToast(result));
 
       setFile(null);
       setSelectedHackathon("");
@@ -112,6 +120,7 @@ export function SubmissionFileUpload() {
       queryClient.invalidateQueries({ queryKey: ['/api/episodes'] });
       queryClient.invalidateQueries({ queryKey: ['/api/scripts'] });
       queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/storage/usage'] });
       
       // Reset the file input
       const fileInput = document.querySelector('input[type="file"]') as HTMLInputElement;
@@ -234,6 +243,11 @@ export function SubmissionFileUpload() {
           </p>
         </div>
 
+        <StorageUsageMeter
+          entityType={selectedSubmission !== "none" ? "scripts" : selectedHackathon ? "projects" : undefined}
+          entityId={selectedSubmission !== "none" ? selectedSubmission : selectedHackathon}
+        />
+
         {file && (
           <div className="flex items-center gap-2 p-2 border rounded bg-gray-50 dark:bg-gray-800 border-gray-300 dark:border-gray-600">
             <FileText className="h-4 w-4 text-gray-600 dark:text-gray-400" />
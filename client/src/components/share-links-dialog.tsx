@@ -0,0 +1,271 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Link2, Copy, Ban, Lock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { decodeFileName } from "@/utils/textUtils";
+
+// Mirrors toShareLinkResponse in server/routes-share-links.ts
+interface ShareLink {
+  id: string;
+  fileId: string;
+  label: string | null;
+  hasPassword: boolean;
+  expiresAt: string;
+  maxDownloads: number | null;
+  downloadCount: number;
+  revokedAt: string | null;
+  createdAt: string;
+  lastAccessedAt: string | null;
+  status: "active" | "expired" | "revoked" | "exhausted";
+  url: string;
+}
+
+interface ShareLinksDialogProps {
+  file: { id: string; originalName: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: "24", label: "1 day" },
+  { value: "72", label: "3 days" },
+  { value: "168", label: "1 week" },
+  { value: "720", label: "30 days" },
+];
+
+const STATUS_VARIANTS: Record<ShareLink["status"], "default" | "secondary" | "outline" | "destructive"> = {
+  active: "default",
+  expired: "secondary",
+  exhausted: "secondary",
+  revoked: "destructive",
+};
+
+function absoluteUrl(link: ShareLink): string {
+  return `${window.location.origin}${link.url}`;
+}
+
+export function ShareLinksDialog({ file, onOpenChange }: ShareLinksDialogProps) {
+  const [label, setLabel] = useState("");
+  const [password, setPassword] = useState("");
+  const [expiresInHours, setExpiresInHours] = useState("72");
+  const [maxDownloads, setMaxDownloads] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const queryKey = ["/api/files", file?.id, "share-links"];
+  const { data: links = [], isLoading } = useQuery<ShareLink[]>({
+    queryKey,
+    queryFn: async () => {
+      const response = await fetch(`/api/files/${file!.id}/share-links`, {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to fetch share links");
+      return response.json();
+    },
+    enabled: !!file,
+  });
+
+  const copyLink = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(absoluteUrl(link));
+      toast({ title: "Link copied to clipboard" });
+    } catch {
+      toast({ title: "Could not copy link", description: absoluteUrl(link) });
+    }
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/files/${file!.id}/share-links`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          label: label.trim() || undefined,
+          password: password || undefined,
+          expiresInHours: parseInt(expiresInHours),
+          maxDownloads: maxDownloads ? parseInt(maxDownloads) : undefined,
+        }),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to create share link");
+      }
+      return response.json() as Promise<ShareLink>;
+    },
+    onSuccess: (link) => {
+      queryClient.invalidateQueries({ queryKey });
+      setLabel("");
+      setPassword("");
+      setMaxDownloads("");
+      copyLink(link);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create share link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (linkId: string) => {
+      const response = await fetch(`/api/share-links/${linkId}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to revoke share link");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Share link revoked" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to revoke share link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!file} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Link2 className="h-5 w-5" />
+            Share links
+          </DialogTitle>
+          <DialogDescription className="truncate">
+            {file && decodeFileName(file.originalName)}: anyone with a link can download this file, no account needed
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 p-3 border rounded-lg">
+          <p className="text-sm font-medium">Create a link</p>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="share-label">For (optional)</Label>
+              <Input
+                id="share-label"
+                placeholder="e.g. Partner college"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="share-password">Password (optional)</Label>
+              <Input
+                id="share-password"
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Expires after</Label>
+              <Select value={expiresInHours} onValueChange={setExpiresInHours}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="share-max-downloads">Max downloads (optional)</Label>
+              <Input
+                id="share-max-downloads"
+                type="number"
+                min={1}
+                placeholder="Unlimited"
+                value={maxDownloads}
+                onChange={(e) => setMaxDownloads(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              onClick={() => createMutation.mutate()}
+              disabled={createMutation.isPending || (password.length > 0 && password.length < 4)}
+            >
+              <Link2 className="h-4 w-4 mr-2" />
+              {createMutation.isPending ? "Creating..." : "Create and copy link"}
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2 max-h-[40vh] overflow-y-auto">
+          {isLoading ? (
+            <p className="text-center text-muted-foreground py-4">Loading share links...</p>
+          ) : links.length === 0 ? (
+            <p className="text-center text-muted-foreground py-4">No share links yet</p>
+          ) : (
+            links.map((link) => (
+              <div key={link.id} className="flex items-start gap-3 p-3 border rounded-lg">
+                <Badge variant={STATUS_VARIANTS[link.status]} className="capitalize">{link.status}</Badge>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate flex items-center gap-1">
+                    {link.label || "Untitled link"}
+                    {link.hasPassword && <Lock className="h-3 w-3 text-muted-foreground" aria-label="Password protected" />}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {link.downloadCount}{link.maxDownloads !== null ? ` / ${link.maxDownloads}` : ""} downloads
+                    {" • "}
+                    {link.status === "revoked" && link.revokedAt
+                      ? `revoked ${new Date(link.revokedAt).toLocaleString()}`
+                      : `expires ${new Date(link.expiresAt).toLocaleString()}`}
+                  </p>
+                </div>
+                {link.status === "active" && (
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => copyLink(link)}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate(link.id)}
+                      disabled={revokeMutation.isPending}
+                    >
+                      <Ban className="h-4 w-4 mr-1" />
+                      Revoke
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
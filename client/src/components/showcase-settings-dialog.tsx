@@ -0,0 +1,157 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ExternalLink, Globe, Trophy } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { Hackathon } from "@shared/schema";
+
+// Organizers choose whether a hackathon has a public page, whether it shows
+// the leaderboard, and which published submissions stay off it
+// (GET/PUT /api/projects/:id/showcase, PUT /api/scripts/:id/showcase)
+
+interface ShowcaseSettings {
+  isPublic: boolean;
+  showLeaderboard: boolean;
+  scoringClosed: boolean;
+  submissions: { id: string; title: string; hiddenFromShowcase: boolean }[];
+}
+
+async function sendShowcaseRequest(url: string, method: "GET" | "PUT", body?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+    credentials: "include",
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.message || "Failed to update the showcase");
+  return data;
+}
+
+export function ShowcaseSettingsDialog({
+  hackathon,
+  onOpenChange,
+}: {
+  hackathon: Hackathon | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const settingsKey = ["/api/projects", hackathon?.id, "showcase"];
+
+  const { data: settings, isLoading } = useQuery<ShowcaseSettings>({
+    queryKey: settingsKey,
+    queryFn: () => sendShowcaseRequest(`/api/projects/${hackathon!.id}/showcase`, "GET"),
+    enabled: !!hackathon,
+  });
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: settingsKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Failed to update the showcase", description: error.message, variant: "destructive" });
+  };
+
+  const settingsMutation = useMutation({
+    mutationFn: (changes: Partial<Pick<ShowcaseSettings, "isPublic" | "showLeaderboard">>) =>
+      sendShowcaseRequest(`/api/projects/${hackathon!.id}/showcase`, "PUT", changes),
+    onSuccess,
+    onError,
+  });
+
+  const visibilityMutation = useMutation({
+    mutationFn: ({ id, hidden }: { id: string; hidden: boolean }) =>
+      sendShowcaseRequest(`/api/scripts/${id}/showcase`, "PUT", { hidden }),
+    onSuccess,
+    onError,
+  });
+
+  return (
+    <Dialog open={!!hackathon} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Globe className="h-5 w-5" />
+            Showcase
+          </DialogTitle>
+          <DialogDescription>
+            What the public page for {hackathon?.name} shows to people without an account
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !settings ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-3 p-3 border rounded-lg">
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="showcase-public">Public page</Label>
+                <Switch
+                  id="showcase-public"
+                  checked={settings.isPublic}
+                  disabled={settingsMutation.isPending}
+                  onCheckedChange={(checked) => settingsMutation.mutate({ isPublic: checked })}
+                />
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="showcase-leaderboard" className="flex items-center gap-2">
+                  <Trophy className="h-4 w-4" />
+                  Leaderboard
+                </Label>
+                <Switch
+                  id="showcase-leaderboard"
+                  checked={settings.showLeaderboard}
+                  disabled={settingsMutation.isPending}
+                  onCheckedChange={(checked) => settingsMutation.mutate({ showLeaderboard: checked })}
+                />
+              </div>
+              {settings.showLeaderboard && !settings.scoringClosed && (
+                <p className="text-xs text-muted-foreground">The leaderboard appears once scoring is closed</p>
+              )}
+            </div>
+
+            <div className="space-y-2 p-3 border rounded-lg">
+              <Label>Published submissions</Label>
+              {settings.submissions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No submissions have been published yet</p>
+              ) : (
+                <div className="max-h-64 overflow-y-auto space-y-2">
+                  {settings.submissions.map((submission) => (
+                    <div key={submission.id} className="flex items-center justify-between gap-4">
+                      <span className="text-sm truncate">{submission.title}</span>
+                      <Switch
+                        checked={!submission.hiddenFromShowcase}
+                        disabled={visibilityMutation.isPending}
+                        onCheckedChange={(checked) => visibilityMutation.mutate({ id: submission.id, hidden: !checked })}
+                        aria-label={`Show ${submission.title}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {hackathon && (
+              <Link href={`/showcase/${hackathon.id}`}>
+                <Button variant="outline" className="w-full">
+                  <ExternalLink className="h-4 w-4 mr-2" />
+                  {settings.isPublic ? "Open public page" : "Preview public page"}
+                </Button>
+              </Link>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,98 @@
+import { useQuery } from "@tanstack/react-query";
+import { HardDrive } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+
+// How much of each storage quota an upload to the given entity would count
+// against (server/storage-quotas.ts). Without an entity only the uploader's
+// own quota is shown.
+export type QuotaScope = "user" | "team" | "hackathon";
+
+export interface QuotaUsage {
+  scope: QuotaScope;
+  scopeId: string;
+  name: string;
+  usedBytes: number;
+  fileCount: number;
+  limitBytes: number | null;
+  isOverride: boolean;
+}
+
+interface StorageUsageResponse {
+  usage: QuotaUsage[];
+  unlimited: boolean;
+}
+
+export function formatStorageSize(bytes: number): string {
+  if (bytes === 0) return "0 Bytes";
+  const k = 1024;
+  const sizes = ["Bytes", "KB", "MB", "GB", "TB"];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1);
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + " " + sizes[i];
+}
+
+function scopeLabel(usage: QuotaUsage): string {
+  if (usage.scope === "user") return "Your storage";
+  return `${usage.scope === "team" ? "Team" : "Hackathon"}: ${usage.name}`;
+}
+
+export function StorageUsageMeter({
+  entityType,
+  entityId,
+  className,
+}: {
+  entityType?: string;
+  entityId?: string | null;
+  className?: string;
+}) {
+  const { data } = useQuery<StorageUsageResponse>({
+    queryKey: ["/api/storage/usage", entityType ?? "", entityId ?? ""],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (entityType) params.set("entityType", entityType);
+      if (entityId) params.set("entityId", entityId);
+      const response = await fetch(`/api/storage/usage?${params}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch storage usage");
+      return response.json();
+    },
+  });
+
+  if (!data || data.unlimited) return null;
+
+  const limited = data.usage.filter((usage) => usage.limitBytes !== null);
+  if (limited.length === 0) {
+    const own = data.usage.find((usage) => usage.scope === "user");
+    if (!own) return null;
+    return (
+      <div className={cn("flex items-center gap-2 text-xs text-muted-foreground", className)}>
+        <HardDrive className="h-3 w-3" />
+        {formatStorageSize(own.usedBytes)} uploaded across {own.fileCount} file{own.fileCount !== 1 ? "s" : ""}
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      {limited.map((usage) => {
+        const percent = Math.min(100, (usage.usedBytes / Math.max(usage.limitBytes!, 1)) * 100);
+        return (
+          <div key={`${usage.scope}:${usage.scopeId}`} className="space-y-1">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span className="flex items-center gap-1 truncate">
+                <HardDrive className="h-3 w-3 shrink-0" />
+                {scopeLabel(usage)}
+              </span>
+              <span className={cn("shrink-0", percent >= 90 && "text-red-600 dark:text-red-400 font-medium")}>
+                {formatStorageSize(usage.usedBytes)} of {formatStorageSize(usage.limitBytes!)}
+              </span>
+            </div>
+            <Progress
+              value={percent}
+              className={cn("h-1.5", percent >= 90 && "[&>div]:bg-red-500")}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
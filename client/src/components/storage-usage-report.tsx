@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { HardDrive, Pencil } from "lucide-react";
+import { formatStorageSize, type QuotaScope } from "@/components/storage-usage-meter";
+
+interface StorageConsumer {
+  scope: QuotaScope;
+  scopeId: string;
+  name: string;
+  usedBytes: number;
+  fileCount: number;
+  limitBytes: number | null;
+  isOverride: boolean;
+}
+
+interface StorageConsumersReport {
+  scope: QuotaScope;
+  defaultLimits: Record<QuotaScope, number | null>;
+  consumers: StorageConsumer[];
+}
+
+const SCOPE_LABELS: Record<QuotaScope, string> = {
+  user: "Users",
+  team: "Teams",
+  hackathon: "Hackathons",
+};
+
+const BYTES_PER_MB = 1024 * 1024;
+
+// Organizer ranking of the biggest storage consumers per scope, with
+// per-entity quota overrides (server/routes-storage-quotas.ts)
+export function StorageUsageReport() {
+  const [scope, setScope] = useState<QuotaScope>("user");
+  const [editing, setEditing] = useState<StorageConsumer | null>(null);
+  const [limitMb, setLimitMb] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: report, isLoading } = useQuery<StorageConsumersReport>({
+    queryKey: ["/api/admin/storage/consumers", scope],
+    queryFn: async () => {
+      const response = await fetch(`/api/admin/storage/consumers?scope=${scope}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch storage consumers");
+      return response.json();
+    },
+  });
+
+  const quotaMutation = useMutation({
+    mutationFn: async ({ consumer, limitBytes }: { consumer: StorageConsumer; limitBytes: number | null }) => {
+      const response = await apiRequest(
+        "PUT",
+        `/api/admin/storage/quotas/${consumer.scope}/${consumer.scopeId}`,
+        { limitBytes },
+      );
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/storage/consumers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/storage/usage"] });
+      setEditing(null);
+      toast({ title: "Storage quota updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update quota", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openEditor = (consumer: StorageConsumer) => {
+    setEditing(consumer);
+    setLimitMb(consumer.limitBytes !== null ? String(Math.round(consumer.limitBytes / BYTES_PER_MB)) : "");
+  };
+
+  const saveLimit = () => {
+    if (!editing) return;
+    const megabytes = parseFloat(limitMb);
+    if (!(megabytes >= 0)) {
+      toast({ title: "Enter a limit in MB", variant: "destructive" });
+      return;
+    }
+    quotaMutation.mutate({ consumer: editing, limitBytes: Math.round(megabytes * BYTES_PER_MB) });
+  };
+
+  const defaultLimit = report?.defaultLimits[scope] ?? null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <HardDrive className="h-5 w-5" />
+          Storage Usage
+        </CardTitle>
+        <CardDescription>
+          Biggest consumers of file storage, including older versions
+          {report && ` • default ${SCOPE_LABELS[scope].toLowerCase()} quota: ${defaultLimit !== null ? formatStorageSize(defaultLimit) : "unlimited"}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Tabs value={scope} onValueChange={(value) => setScope(value as QuotaScope)}>
+          <TabsList>
+            {(Object.keys(SCOPE_LABELS) as QuotaScope[]).map((value) => (
+              <TabsTrigger key={value} value={value}>{SCOPE_LABELS[value]}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-gray-500">Loading...</div>
+        ) : !report || report.consumers.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">No files stored yet</div>
+        ) : (
+          <div className="space-y-3">
+            {report.consumers.map((consumer, index) => {
+              const percent = consumer.limitBytes
+                ? Math.min(100, (consumer.usedBytes / consumer.limitBytes) * 100)
+                : null;
+              return (
+                <div key={consumer.scopeId} className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="text-sm text-gray-400 w-6">{index + 1}.</span>
+                      <span className="font-medium truncate">{consumer.name}</span>
+                      <span className="text-xs text-gray-500 whitespace-nowrap">
+                        {consumer.fileCount} file{consumer.fileCount !== 1 ? "s" : ""}
+                      </span>
+                      {consumer.isOverride && <Badge variant="outline">Custom quota</Badge>}
+                    </div>
+                    <div className="flex items-center gap-2 whitespace-nowrap">
+                      <span className={cn("text-sm", percent !== null && percent >= 90 && "text-red-600 dark:text-red-400 font-semibold")}>
+                        {formatStorageSize(consumer.usedBytes)}
+                        {consumer.limitBytes !== null ? ` of ${formatStorageSize(consumer.limitBytes)}` : ""}
+                      </span>
+                      <Button variant="ghost" size="sm" onClick={() => openEditor(consumer)} title="Edit quota">
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                  {percent !== null && (
+                    <Progress value={percent} className={cn("h-1.5", percent >= 90 && "[&>div]:bg-red-500")} />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Storage quota for {editing?.name}</DialogTitle>
+            <DialogDescription>
+              Currently using {editing ? formatStorageSize(editing.usedBytes) : ""}. Uploads that would go over the
+              limit are refused.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="quota-limit">Limit (MB)</Label>
+            <Input
+              id="quota-limit"
+              type="number"
+              min={0}
+              value={limitMb}
+              onChange={(event) => setLimitMb(event.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Default: {defaultLimit !== null ? formatStorageSize(defaultLimit) : "unlimited"}
+            </p>
+          </div>
+          <DialogFooter className="gap-2">
+            {editing?.isOverride && (
+              <Button
+                variant="outline"
+                onClick={() => quotaMutation.mutate({ consumer: editing, limitBytes: null })}
+                disabled={quotaMutation.isPending}
+              >
+                Reset to default
+              </Button>
+            )}
+            <Button onClick={saveLimit} disabled={quotaMutation.isPending}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,59 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Clock, AlertCircle } from "lucide-react";
+import { getSubmissionDeadline, isPastDeadline } from "@shared/registration";
+
+// Countdown to when a hackathon, or one team's extension, stops taking
+// submissions. The server enforces the same deadline (server/registration.ts).
+
+function formatRemaining(milliseconds: number): string {
+  const minutes = Math.floor(milliseconds / 60000);
+  const days = Math.floor(minutes / (60 * 24));
+  const hours = Math.floor((minutes % (60 * 24)) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${Math.max(1, minutes)}m`;
+}
+
+export function SubmissionDeadline({
+  hackathon,
+  team,
+  className,
+}: {
+  hackathon: { submissionDeadline?: Date | string | null } | undefined;
+  team?: { deadlineExtendedUntil?: Date | string | null } | null;
+  className?: string;
+}) {
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (!hackathon) return null;
+  const deadline = getSubmissionDeadline(hackathon, team);
+  if (!deadline.closesAt) return null;
+
+  const closesAt = deadline.closesAt.toLocaleString();
+  if (isPastDeadline(deadline, now)) {
+    return (
+      <Badge variant="destructive" className={`gap-1 ${className ?? ""}`} title={`Closed ${closesAt}`}>
+        <AlertCircle className="h-3 w-3" />
+        Submissions closed
+      </Badge>
+    );
+  }
+
+  const remaining = deadline.closesAt.getTime() - now.getTime();
+  const urgent = remaining < 24 * 60 * 60 * 1000;
+  return (
+    <Badge
+      variant="outline"
+      className={`gap-1 ${urgent ? "border-red-300 text-red-600 dark:text-red-400" : ""} ${className ?? ""}`}
+      title={`${deadline.extended ? "Extended until" : "Closes"} ${closesAt}`}
+    >
+      <Clock className="h-3 w-3" />
+      {deadline.extended ? "Extension ends" : "Closes"} in {formatRemaining(remaining)}
+    </Badge>
+  );
+}
@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useToast } from "@/hooks/use-toast";
+import { getStatusColor } from "@/lib/colors";
+import { ArrowRight, ClipboardCheck, History, Loader2, UserPlus } from "lucide-react";
+import type { Submission } from "@shared/schema";
+
+// Review state of one submission: what the current user may do next, who is
+// reviewing it and every status change so far (server/routes-submission-review.ts)
+
+interface ReviewTransition {
+  id: string;
+  label: string;
+  to: string;
+  requiresComment?: boolean;
+}
+
+interface AssignedReviewer {
+  reviewerId: string;
+  name: string | null;
+  email: string | null;
+  assignedAt: string;
+}
+
+interface StatusChange {
+  id: string;
+  transition: string;
+  fromStatus: string;
+  toStatus: string;
+  actorName: string | null;
+  comment: string | null;
+  createdAt: string;
+}
+
+interface SubmissionReview {
+  status: string;
+  transitions: ReviewTransition[];
+  reviewers: AssignedReviewer[];
+  history: StatusChange[];
+  canAssignReviewers: boolean;
+}
+
+interface ReviewerCandidate {
+  id: string;
+  name: string | null;
+  email: string | null;
+}
+
+async function sendReviewRequest(method: string, url: string, body: unknown, fallback: string) {
+  const response = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    credentials: "include",
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.message || fallback);
+  return data;
+}
+
+export function SubmissionReviewPanel({
+  submission,
+  onStatusChange,
+}: {
+  submission: Submission;
+  onStatusChange?: (submission: Submission) => void;
+}) {
+  const [comment, setComment] = useState("");
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [selectedReviewers, setSelectedReviewers] = useState<string[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const reviewKey = [`/api/scripts/${submission.id}/review`];
+
+  const { data: review, isLoading } = useQuery<SubmissionReview>({
+    queryKey: reviewKey,
+    staleTime: 0,
+  });
+
+  const { data: candidates = [] } = useQuery<ReviewerCandidate[]>({
+    queryKey: ["/api/reviewers"],
+    enabled: !!review?.canAssignReviewers,
+  });
+
+  const transitionMutation = useMutation({
+    mutationFn: (transition: ReviewTransition) =>
+      sendReviewRequest(
+        "POST",
+        `/api/scripts/${submission.id}/transitions`,
+        { transition: transition.id, comment: comment.trim() || undefined },
+        "Failed to update the submission",
+      ),
+    onSuccess: (updated: Submission, transition) => {
+      setComment("");
+      queryClient.invalidateQueries({ queryKey: reviewKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/scripts"] });
+      onStatusChange?.(updated);
+      toast({ title: transition.label, description: `"${submission.title}" is now ${transition.to}.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not update the submission", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const reviewersMutation = useMutation({
+    mutationFn: (reviewerIds: string[]) =>
+      sendReviewRequest(
+        "PUT",
+        `/api/scripts/${submission.id}/reviewers`,
+        { reviewerIds },
+        "Failed to assign reviewers",
+      ),
+    onSuccess: () => {
+      setPickerOpen(false);
+      queryClient.invalidateQueries({ queryKey: reviewKey });
+      toast({ title: "Reviewers updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not assign reviewers", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openPicker = (open: boolean) => {
+    if (open) setSelectedReviewers(review?.reviewers.map((reviewer) => reviewer.reviewerId) ?? []);
+    setPickerOpen(open);
+  };
+
+  const takeTransition = (transition: ReviewTransition) => {
+    if (transition.requiresComment && !comment.trim()) {
+      toast({ title: "Add a comment", description: "Say what needs to change before requesting changes.", variant: "destructive" });
+      return;
+    }
+    transitionMutation.mutate(transition);
+  };
+
+  if (isLoading || !review) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-base">
+          <span className="flex items-center gap-2">
+            <ClipboardCheck className="h-4 w-4" />
+            Review
+          </span>
+          <Badge variant="secondary" className={getStatusColor(review.status)}>{review.status}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">Reviewers</span>
+            {review.canAssignReviewers && (
+              <Popover open={pickerOpen} onOpenChange={openPicker}>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" size="sm">
+                    <UserPlus className="h-3 w-3 mr-1" />
+                    Assign
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-72" align="end">
+                  <div className="space-y-3">
+                    <div className="max-h-60 overflow-y-auto space-y-2">
+                      {candidates.length === 0 && (
+                        <p className="text-sm text-muted-foreground">Nobody can review submissions yet</p>
+                      )}
+                      {candidates.map((candidate) => (
+                        <label key={candidate.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                          <Checkbox
+                            checked={selectedReviewers.includes(candidate.id)}
+                            onCheckedChange={(checked) =>
+                              setSelectedReviewers((selected) =>
+                                checked ? [...selected, candidate.id] : selected.filter((id) => id !== candidate.id),
+                              )
+                            }
+                          />
+                          <span className="truncate">{candidate.name || candidate.email}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <Button
+                      size="sm"
+                      className="w-full"
+                      onClick={() => reviewersMutation.mutate(selectedReviewers)}
+                      disabled={reviewersMutation.isPending}
+                    >
+                      Save reviewers
+                    </Button>
+                  </div>
+                </PopoverContent>
+              </Popover>
+            )}
+          </div>
+          {review.reviewers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No reviewers assigned</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {review.reviewers.map((reviewer) => (
+                <Badge key={reviewer.reviewerId} variant="outline">{reviewer.name || reviewer.email}</Badge>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {review.transitions.length > 0 && (
+          <div className="space-y-2">
+            <Textarea
+              placeholder={review.transitions.some((transition) => transition.requiresComment)
+                ? "Comment for the author (required when requesting changes)"
+                : "Comment (optional)"}
+              value={comment}
+              onChange={(event) => setComment(event.target.value)}
+              rows={3}
+            />
+            <div className="flex flex-wrap gap-2">
+              {review.transitions.map((transition) => (
+                <Button
+                  key={transition.id}
+                  size="sm"
+                  variant={transition.id === "withdraw" || transition.id === "unpublish" ? "outline" : "default"}
+                  onClick={() => takeTransition(transition)}
+                  disabled={transitionMutation.isPending}
+                >
+                  {transition.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <span className="flex items-center gap-2 text-sm font-medium">
+            <History className="h-4 w-4" />
+            History
+          </span>
+          {review.history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No status changes yet</p>
+          ) : (
+            <ol className="space-y-3">
+              {review.history.slice().reverse().map((change) => (
+                <li key={change.id} className="text-sm border-l-2 border-gray-200 dark:border-gray-700 pl-3">
+                  <div className="flex items-center gap-1 flex-wrap">
+                    <span>{change.fromStatus}</span>
+                    <ArrowRight className="h-3 w-3" />
+                    <span className="font-medium">{change.toStatus}</span>
+                    <span className="text-muted-foreground">
+                      · {change.actorName ?? "Someone"} · {formatDistanceToNow(new Date(change.createdAt), { addSuffix: true })}
+                    </span>
+                  </div>
+                  {change.comment && (
+                    <p className="mt-1 whitespace-pre-wrap text-gray-700 dark:text-gray-300">{change.comment}</p>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Languages, Plus, Columns2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { LanguageBadge, LanguageSelector } from "@/components/language-selector";
+import { TranslationEditor } from "@/components/translation-editor";
+import { isTranslationOutdated } from "@shared/translations";
+import type { Submission } from "@shared/schema";
+
+// Every language a submission exists in, with actions to add a translation
+// (POST /api/scripts/:id/translations) and work on one side by side
+
+async function fetchGroup(group: string): Promise<Submission[]> {
+  const response = await fetch(`/api/scripts/by-language-group/${encodeURIComponent(group)}`, { credentials: "include" });
+  if (!response.ok) throw new Error("Failed to load translations");
+  return response.json();
+}
+
+async function requestTranslation(sourceId: string, language: string): Promise<Submission> {
+  const response = await fetch(`/api/scripts/${sourceId}/translations`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ language }),
+    credentials: "include",
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.message || "Failed to create translation");
+  return data;
+}
+
+export function SubmissionTranslationsPanel({ submission }: { submission: Submission }) {
+  const [language, setLanguage] = useState("");
+  const [editing, setEditing] = useState<Submission | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: group = [submission] } = useQuery<Submission[]>({
+    queryKey: ["/api/scripts/by-language-group", submission.submissionGroup],
+    queryFn: () => fetchGroup(submission.submissionGroup!),
+    enabled: !!submission.submissionGroup,
+  });
+
+  const original = group.find((member) => member.isOriginal !== false)
+    ?? (submission.isOriginal !== false ? submission : undefined);
+  const translations = group.filter((member) => member.isOriginal === false);
+
+  const createMutation = useMutation({
+    mutationFn: () => requestTranslation(submission.id, language),
+    onSuccess: (translation) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scripts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/scripts/by-language-group"] });
+      setLanguage("");
+      setEditing(translation);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create translation", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-3 p-4 border rounded-lg">
+      <div className="flex items-center gap-2 font-medium">
+        <Languages className="h-4 w-4" />
+        Languages
+      </div>
+
+      <div className="space-y-2">
+        {original && (
+          <div className="flex items-center gap-2 text-sm">
+            <LanguageBadge language={original.language} />
+            <span className="truncate">{original.title}</span>
+            <Badge variant="secondary" className="text-xs">Original</Badge>
+          </div>
+        )}
+        {translations.map((translation) => (
+          <div key={translation.id} className="flex items-center gap-2 text-sm">
+            <LanguageBadge language={translation.language} />
+            <span className="truncate flex-1">{translation.title}</span>
+            {original && isTranslationOutdated(translation, original) && (
+              <Badge variant="outline" className="text-xs border-amber-300 text-amber-600">Outdated</Badge>
+            )}
+            <Badge variant="outline" className="text-xs">{translation.status}</Badge>
+            <Button variant="ghost" size="sm" onClick={() => setEditing(translation)}>
+              <Columns2 className="h-4 w-4 mr-1" />
+              Side by side
+            </Button>
+          </div>
+        ))}
+        {translations.length === 0 && (
+          <p className="text-sm text-muted-foreground">No translations yet</p>
+        )}
+      </div>
+
+      <div className="flex items-end gap-2">
+        <div className="flex-1">
+          <LanguageSelector
+            label="Add a translation"
+            value={language}
+            onChange={setLanguage}
+            exclude={group.map((member) => member.language)}
+          />
+        </div>
+        <Button onClick={() => createMutation.mutate()} disabled={!language || createMutation.isPending}>
+          <Plus className="h-4 w-4 mr-1" />
+          Translate
+        </Button>
+      </div>
+
+      <TranslationEditor
+        original={original}
+        translation={editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ClipboardCheck, CalendarClock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  REGISTRATION_LABELS,
+  REGISTRATION_STATUSES,
+  normalizeRegistrationStatus,
+  type RegistrationStatus,
+} from "@shared/registration";
+import type { Hackathon, Team } from "@shared/schema";
+
+// Organizers decide a team's registration and extend its submission
+// deadline (PUT /api/episodes/:id/{registration,deadline-extension})
+
+const STATUS_VARIANTS: Record<RegistrationStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  pending: "outline",
+  approved: "default",
+  waitlisted: "secondary",
+  rejected: "destructive",
+};
+
+export function RegistrationBadge({ status, note }: { status: string | null | undefined; note?: string | null }) {
+  const normalized = normalizeRegistrationStatus(status);
+  return (
+    <Badge variant={STATUS_VARIANTS[normalized]} className="text-xs" title={note ?? undefined}>
+      {REGISTRATION_LABELS[normalized]}
+    </Badge>
+  );
+}
+
+async function sendRegistrationRequest(url: string, body: unknown, fallback: string) {
+  const response = await fetch(url, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    credentials: "include",
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.message || fallback);
+  return data;
+}
+
+// datetime-local inputs work in local time without a zone
+function toLocalInput(value: Date | string | null | undefined): string {
+  if (!value) return "";
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+export function TeamRegistrationDialog({
+  team,
+  hackathon,
+  onOpenChange,
+}: {
+  team: Team | null;
+  hackathon: Hackathon | undefined;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [status, setStatus] = useState<RegistrationStatus>("pending");
+  const [note, setNote] = useState("");
+  const [extendUntil, setExtendUntil] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!team) return;
+    setStatus(normalizeRegistrationStatus(team.registrationStatus));
+    setNote(team.registrationNote ?? "");
+    setExtendUntil(toLocalInput(team.deadlineExtendedUntil));
+  }, [team]);
+
+  const onSuccess = (title: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/episodes"] });
+    toast({ title });
+    onOpenChange(false);
+  };
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const decideMutation = useMutation({
+    mutationFn: () =>
+      sendRegistrationRequest(`/api/episodes/${team!.id}/registration`, { status, note: note.trim() || null }, "Failed to update registration"),
+    onSuccess: onSuccess("Registration updated"),
+    onError: onError("Failed to update registration"),
+  });
+
+  const extendMutation = useMutation({
+    mutationFn: (until: string | null) =>
+      sendRegistrationRequest(
+        `/api/episodes/${team!.id}/deadline-extension`,
+        { until: until ? new Date(until).toISOString() : null },
+        "Failed to change the extension",
+      ),
+    onSuccess: onSuccess("Deadline extension saved"),
+    onError: onError("Failed to change the extension"),
+  });
+
+  return (
+    <Dialog open={!!team} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            Registration
+          </DialogTitle>
+          <DialogDescription>
+            {team?.title}{hackathon ? ` in ${hackathon.name}` : ""}. Only approved teams can submit for review.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 p-3 border rounded-lg">
+          <div className="space-y-1">
+            <Label>Decision</Label>
+            <Select value={status} onValueChange={(value) => setStatus(value as RegistrationStatus)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REGISTRATION_STATUSES.map((option) => (
+                  <SelectItem key={option} value={option}>{REGISTRATION_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="registration-note">Note to the team (optional)</Label>
+            <Textarea
+              id="registration-note"
+              rows={2}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+          <Button onClick={() => decideMutation.mutate()} disabled={decideMutation.isPending}>
+            Save decision
+          </Button>
+        </div>
+
+        <div className="space-y-3 p-3 border rounded-lg">
+          <Label htmlFor="registration-extension" className="flex items-center gap-2">
+            <CalendarClock className="h-4 w-4" />
+            Submission deadline extension
+          </Label>
+          {hackathon?.submissionDeadline ? (
+            <>
+              <p className="text-xs text-muted-foreground">
+                The hackathon closes {new Date(hackathon.submissionDeadline).toLocaleString()}
+              </p>
+              <Input
+                id="registration-extension"
+                type="datetime-local"
+                value={extendUntil}
+                min={toLocalInput(hackathon.submissionDeadline)}
+                onChange={(e) => setExtendUntil(e.target.value)}
+              />
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => extendMutation.mutate(extendUntil)}
+                  disabled={!extendUntil || extendMutation.isPending}
+                >
+                  Extend
+                </Button>
+                {team?.deadlineExtendedUntil && (
+                  <Button
+                    variant="ghost"
+                    onClick={() => extendMutation.mutate(null)}
+                    disabled={extendMutation.isPending}
+                  >
+                    Remove extension
+                  </Button>
+                )}
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">This hackathon has no submission deadline</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,314 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Users, Crown, Copy, Ban, LogOut, UserMinus, UserPlus, Link2, Mail } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+
+// Mirrors GET /api/episodes/:id/members in server/routes-team-members.ts
+interface TeamRoster {
+  teamId: string;
+  teamLeaderId: string | null;
+  limits: { min: number; max: number | null };
+  members: {
+    id: string;
+    userId: string;
+    role: "leader" | "member";
+    joinedAt: string;
+    name: string | null;
+    email: string | null;
+  }[];
+  invitations: {
+    id: string;
+    email: string | null;
+    token: string;
+    expiresAt: string;
+  }[];
+  canManage: boolean;
+  isMember: boolean;
+}
+
+interface TeamRosterDialogProps {
+  team: { id: string; title: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+async function sendRosterRequest(method: string, url: string, body: unknown, fallback: string) {
+  const response = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    credentials: "include",
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.message || fallback);
+  return data;
+}
+
+function invitationUrl(token: string): string {
+  return `${window.location.origin}/join/${token}`;
+}
+
+function describeLimits(limits: TeamRoster["limits"]): string {
+  return limits.max === null ? `at least ${limits.min}` : `${limits.min}-${limits.max}`;
+}
+
+export function TeamRosterDialog({ team, onOpenChange }: TeamRosterDialogProps) {
+  const [email, setEmail] = useState("");
+  const { toast } = useToast();
+  const { user, can } = useAuth();
+  const queryClient = useQueryClient();
+
+  const queryKey = ["/api/episodes", team?.id, "members"];
+  const { data: roster, isLoading } = useQuery<TeamRoster>({
+    queryKey,
+    queryFn: async () => {
+      const response = await fetch(`/api/episodes/${team!.id}/members`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch team members");
+      return response.json();
+    },
+    enabled: !!team,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/episodes"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const copyInvitation = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(invitationUrl(token));
+      toast({ title: "Invitation link copied to clipboard" });
+    } catch {
+      toast({ title: "Could not copy link", description: invitationUrl(token) });
+    }
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: (address: string | null) =>
+      sendRosterRequest("POST", `/api/episodes/${team!.id}/invitations`, { email: address }, "Failed to create invitation"),
+    onSuccess: (invitation: TeamRoster["invitations"][number]) => {
+      refresh();
+      setEmail("");
+      if (invitation.email) {
+        toast({ title: "Invitation sent", description: invitation.email });
+      } else {
+        copyInvitation(invitation.token);
+      }
+    },
+    onError: onError("Failed to invite"),
+  });
+
+  const addMutation = useMutation({
+    mutationFn: (address: string) =>
+      sendRosterRequest("POST", `/api/episodes/${team!.id}/members`, { email: address }, "Failed to add member"),
+    onSuccess: () => {
+      refresh();
+      setEmail("");
+      toast({ title: "Member added" });
+    },
+    onError: onError("Failed to add member"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (invitationId: string) =>
+      sendRosterRequest("DELETE", `/api/episodes/${team!.id}/invitations/${invitationId}`, undefined, "Failed to revoke invitation"),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Invitation revoked" });
+    },
+    onError: onError("Failed to revoke invitation"),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (userId: string) =>
+      sendRosterRequest("DELETE", `/api/episodes/${team!.id}/members/${userId}`, undefined, "Failed to remove member"),
+    onSuccess: (_data, userId) => {
+      refresh();
+      if (userId === user?.id) {
+        toast({ title: "You left the team" });
+        onOpenChange(false);
+      } else {
+        toast({ title: "Member removed" });
+      }
+    },
+    onError: onError("Failed to remove member"),
+  });
+
+  const leaderMutation = useMutation({
+    mutationFn: (userId: string) =>
+      sendRosterRequest("POST", `/api/episodes/${team!.id}/leader`, { userId }, "Failed to change the leader"),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Team leader changed" });
+    },
+    onError: onError("Failed to change the leader"),
+  });
+
+  const isFull = !!roster && roster.limits.max !== null && roster.members.length >= roster.limits.max;
+  const isBusy = inviteMutation.isPending || addMutation.isPending;
+
+  return (
+    <Dialog open={!!team} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            {team?.title} members
+          </DialogTitle>
+          <DialogDescription>
+            {roster
+              ? `${roster.members.length} member${roster.members.length === 1 ? "" : "s"}; teams in this hackathon have ${describeLimits(roster.limits)}`
+              : "Loading members…"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !roster ? (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              {roster.members.length === 0 && (
+                <p className="text-sm text-muted-foreground">Nobody has joined this team yet</p>
+              )}
+              {roster.members.map((member) => (
+                <div key={member.id} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{member.name || member.email || member.userId}</span>
+                      {member.role === "leader" && (
+                        <Badge variant="secondary" className="gap-1">
+                          <Crown className="h-3 w-3" />
+                          Leader
+                        </Badge>
+                      )}
+                      {member.userId === user?.id && <Badge variant="outline">You</Badge>}
+                    </div>
+                    {member.name && member.email && (
+                      <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    {roster.canManage && member.role !== "leader" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => leaderMutation.mutate(member.userId)}
+                        disabled={leaderMutation.isPending}
+                      >
+                        <Crown className="h-4 w-4 mr-1" />
+                        Make leader
+                      </Button>
+                    )}
+                    {member.userId === user?.id ? (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeMutation.mutate(member.userId)}
+                        disabled={removeMutation.isPending}
+                      >
+                        <LogOut className="h-4 w-4 mr-1" />
+                        Leave
+                      </Button>
+                    ) : roster.canManage && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeMutation.mutate(member.userId)}
+                        disabled={removeMutation.isPending}
+                      >
+                        <UserMinus className="h-4 w-4 mr-1 text-red-500" />
+                        Remove
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {roster.canManage && (
+              <>
+                <div className="space-y-2 p-3 border rounded-lg">
+                  <Label htmlFor="roster-email">Invite someone</Label>
+                  {isFull ? (
+                    <p className="text-sm text-muted-foreground">The team is full</p>
+                  ) : (
+                    <>
+                      <div className="flex gap-2">
+                        <Input
+                          id="roster-email"
+                          type="email"
+                          placeholder="name@example.com"
+                          value={email}
+                          onChange={(e) => setEmail(e.target.value)}
+                        />
+                        <Button onClick={() => inviteMutation.mutate(email.trim())} disabled={!email.trim() || isBusy}>
+                          <Mail className="h-4 w-4 mr-2" />
+                          Invite
+                        </Button>
+                        {can("teams.manage") && (
+                          <Button variant="outline" onClick={() => addMutation.mutate(email.trim())} disabled={!email.trim() || isBusy}>
+                            <UserPlus className="h-4 w-4 mr-2" />
+                            Add now
+                          </Button>
+                        )}
+                      </div>
+                      <Button variant="link" className="px-0" onClick={() => inviteMutation.mutate(null)} disabled={isBusy}>
+                        <Link2 className="h-4 w-4 mr-1" />
+                        Create an invitation link anyone can use
+                      </Button>
+                    </>
+                  )}
+                </div>
+
+                {roster.invitations.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Open invitations</p>
+                    {roster.invitations.map((invitation) => (
+                      <div key={invitation.id} className="flex items-center justify-between gap-3 p-2 border rounded-lg text-sm">
+                        <div className="min-w-0">
+                          <span className="truncate">{invitation.email ?? "Invitation link"}</span>
+                          <span className="text-xs text-muted-foreground ml-2">
+                            expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                          </span>
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                          <Button variant="ghost" size="sm" onClick={() => copyInvitation(invitation.token)} title="Copy link">
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => revokeMutation.mutate(invitation.id)}
+                            disabled={revokeMutation.isPending}
+                            title="Revoke"
+                          >
+                            <Ban className="h-4 w-4 text-red-500" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
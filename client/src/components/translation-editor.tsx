@@ -0,0 +1,249 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import ReactQuill from 'react-quill';
+import 'react-quill/dist/quill.snow.css';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowRight, Languages, AlertTriangle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { LanguageBadge } from "@/components/language-selector";
+import { isTranslationOutdated, type DiffLine } from "@shared/translations";
+import type { Submission } from "@shared/schema";
+
+// The original on the left, read-only, and its translation on the right
+// (PUT /api/scripts/:id). When the original changed since the translation's
+// revision, what changed is shown above both
+// (GET /api/scripts/:id/original-changes).
+
+interface OriginalChanges {
+  basedOnRevision: number;
+  currentRevision: number;
+  outdated: boolean;
+  title: DiffLine[] | null;
+  description: DiffLine[] | null;
+  content: DiffLine[] | null;
+}
+
+const quillModules = {
+  toolbar: [
+    [{ 'header': [1, 2, 3, false] }],
+    ['bold', 'italic', 'underline'],
+    [{ 'list': 'ordered'}, { 'list': 'bullet' }],
+    ['blockquote', 'code-block'],
+    ['link'],
+    ['clean']
+  ],
+};
+
+async function sendTranslationRequest(url: string, method: "GET" | "PUT" | "POST", failure: string, body?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+    credentials: "include",
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.message || failure);
+  return data;
+}
+
+const DIFF_STYLES: Record<DiffLine["type"], string> = {
+  same: "text-muted-foreground",
+  added: "bg-emerald-50 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300",
+  removed: "bg-red-50 text-red-800 line-through dark:bg-red-900/30 dark:text-red-300",
+};
+
+const DIFF_MARKS: Record<DiffLine["type"], string> = { same: " ", added: "+", removed: "-" };
+
+function DiffBlock({ label, lines }: { label: string; lines: DiffLine[] | null }) {
+  if (!lines || lines.every((line) => line.type === "same")) return null;
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium">{label}</p>
+      <div className="rounded border bg-background text-xs font-mono max-h-48 overflow-y-auto">
+        {lines.map((line, index) => (
+          <div key={index} className={`px-2 py-0.5 whitespace-pre-wrap ${DIFF_STYLES[line.type]}`}>
+            {DIFF_MARKS[line.type]} {line.text}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function TranslationEditor({
+  original,
+  translation,
+  onOpenChange,
+}: {
+  original: Submission | undefined;
+  translation: Submission | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [content, setContent] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const outdated = !!translation && !!original && isTranslationOutdated(translation, original);
+  const { data: changes } = useQuery<OriginalChanges>({
+    queryKey: ["/api/scripts", translation?.id, "original-changes", original?.revision],
+    queryFn: () => sendTranslationRequest(`/api/scripts/${translation!.id}/original-changes`, "GET", "Failed to load the original's changes"),
+    enabled: outdated,
+  });
+
+  useEffect(() => {
+    if (!translation) return;
+    setTitle(translation.title);
+    setDescription(translation.description ?? "");
+    setContent(translation.content ?? "");
+  }, [translation]);
+
+  // markUpToDate: the translator has worked in the original's changes
+  const saveMutation = useMutation({
+    mutationFn: async ({ markUpToDate }: { markUpToDate: boolean }) => {
+      await sendTranslationRequest(`/api/scripts/${translation!.id}`, "PUT", "Failed to save the translation", { title: title.trim(), description, content });
+      if (markUpToDate) {
+        await sendTranslationRequest(`/api/scripts/${translation!.id}/translation-sync`, "POST", "Failed to mark the translation up to date");
+      }
+    },
+    onSuccess: (_data, { markUpToDate }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scripts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/scripts/by-language-group"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      toast({ title: markUpToDate ? "Translation saved and marked up to date" : "Translation saved" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save the translation", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!translation} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Languages className="h-5 w-5" />
+            Translate
+            {original && <LanguageBadge language={original.language} />}
+            <ArrowRight className="h-4 w-4" />
+            {translation && <LanguageBadge language={translation.language} />}
+          </DialogTitle>
+          <DialogDescription>
+            Work through the original on the left; only the translation on the right is saved
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-y-auto flex-1 p-1 space-y-4">
+          {outdated && (
+            <div className="space-y-3 p-3 rounded-lg border border-amber-300 bg-amber-50/60 dark:bg-amber-900/20">
+              <p className="flex items-center gap-2 text-sm font-medium text-amber-700 dark:text-amber-300">
+                <AlertTriangle className="h-4 w-4" />
+                The original changed since this translation was last brought up to date
+                {changes && ` (revision ${changes.basedOnRevision} → ${changes.currentRevision})`}
+              </p>
+              {changes && !changes.content && !changes.title && !changes.description ? (
+                <p className="text-xs text-muted-foreground">The earlier text of the original wasn't kept, so the changes can't be shown</p>
+              ) : changes && (
+                <>
+                  <DiffBlock label="Title" lines={changes.title} />
+                  <DiffBlock label="Description" lines={changes.description} />
+                  <DiffBlock label="Content" lines={changes.content} />
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-4">
+              {original ? (
+                <>
+                  <div className="space-y-1">
+                    <Label>Title</Label>
+                    <p className="p-2 rounded-md border bg-muted/40 text-sm">{original.title}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Description</Label>
+                    <p className="p-2 rounded-md border bg-muted/40 text-sm whitespace-pre-line min-h-[4.5rem]">
+                      {original.description}
+                    </p>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Content</Label>
+                    <div
+                      className="p-3 rounded-md border bg-muted/40 prose prose-sm max-w-none dark:prose-invert min-h-[300px]"
+                      dangerouslySetInnerHTML={{ __html: original.content || "" }}
+                    />
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">The original of this translation is no longer available</p>
+              )}
+            </div>
+
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="translation-title">Title</Label>
+                <Input id="translation-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="translation-description">Description</Label>
+                <Textarea
+                  id="translation-description"
+                  rows={3}
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Content</Label>
+                <div className="rounded-md overflow-hidden border border-gray-200">
+                  <ReactQuill
+                    theme="snow"
+                    value={content}
+                    onChange={setContent}
+                    modules={quillModules}
+                    className="bg-white dark:bg-gray-800 dark:text-gray-100"
+                    style={{ minHeight: "300px" }}
+                  />
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant={outdated ? "outline" : "default"}
+            onClick={() => saveMutation.mutate({ markUpToDate: false })}
+            disabled={!title.trim() || saveMutation.isPending}
+          >
+            {saveMutation.isPending ? "Saving..." : "Save translation"}
+          </Button>
+          {outdated && (
+            <Button
+              onClick={() => saveMutation.mutate({ markUpToDate: true })}
+              disabled={!title.trim() || saveMutation.isPending}
+            >
+              Save and mark up to date
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,5 @@
 import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { can, type Action } from "@/lib/permissions";
 
 interface User {
   id: string;
@@ -60,10 +61,11 @@ export function useAuth() {
     user,
     isLoading,
     isAuthenticated: !!user,
-    isAdmin: user?.role === "organizer", // Renamed from admin to organizer
+    isAdmin: can(user, "users.manage"),
     isOrganizer: user?.role === "organizer",
     isAnalyzer: user?.role === "analyzer",
     isParticipant: user?.role === "participant",
+    can: (action: Action) => can(user, action),
     refreshAuth,
     logout,
   };
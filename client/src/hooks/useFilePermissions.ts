@@ -1,27 +1,46 @@
 import { useQuery } from "@tanstack/react-query";
+import {
+  getFilePermissions,
+  getPermissionMap,
+  type AccessScope,
+  type Action,
+  type FilePermissions,
+  type UserPermissions,
+} from "@/lib/permissions";
 
-export interface FilePermissions {
-  canView: boolean;
-  canDownload: boolean;
-  canUpload: boolean;
-  canEdit: boolean;
-  canDelete: boolean;
-}
+export type { FilePermissions };
 
-export function useFilePermissions() {
-  const { data: permissions, isLoading } = useQuery<FilePermissions>({
+// Signed-out defaults: the policy denies everything without a user
+const NO_PERMISSIONS: UserPermissions = {
+  role: null,
+  ...getFilePermissions(null),
+  actions: getPermissionMap(null),
+};
+
+export function usePermissions() {
+  const { data, isLoading } = useQuery<UserPermissions>({
     queryKey: ["/api/auth/permissions"],
     retry: false,
   });
+  const permissions = data ?? NO_PERMISSIONS;
 
   return {
-    permissions: permissions || {
-      canView: false,
-      canDownload: false,
-      canUpload: false,
-      canEdit: false,
-      canDelete: false,
-    },
+    permissions,
+    can: (action: Action) => permissions.actions?.[action] ?? false,
     isLoading,
   };
-}
\ No newline at end of file
+}
+
+export function useFilePermissions() {
+  const { permissions, isLoading } = usePermissions();
+  return { permissions, isLoading };
+}
+
+export function useAccessScope() {
+  const { data: scope, isLoading } = useQuery<AccessScope | null>({
+    queryKey: ["/api/auth/access"],
+    retry: false,
+  });
+
+  return { scope: scope ?? null, isLoading };
+}
@@ -56,6 +56,7 @@ export const colors = {
   status: {
     draft: 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-600',
     review: 'bg-yellow-100 dark:bg-yellow-900/50 text-yellow-700 dark:text-yellow-300 border-yellow-200 dark:border-yellow-600',
+    revision: 'bg-orange-100 dark:bg-orange-900/50 text-orange-700 dark:text-orange-300 border-orange-200 dark:border-orange-600',
     approved: 'bg-green-100 dark:bg-green-900/50 text-green-700 dark:text-green-300 border-green-200 dark:border-green-600',
     published: 'bg-blue-100 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300 border-blue-200 dark:border-blue-600',
   },
@@ -75,6 +76,8 @@ export const getStatusColor = (status: string): string => {
       return colors.status.draft;
     case 'Under Review':
       return colors.status.review;
+    case 'Needs Revision':
+      return colors.status.revision;
     case 'Approved':
       return colors.status.approved;
     case 'Published':
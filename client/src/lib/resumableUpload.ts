@@ -0,0 +1,270 @@
+// Client for the chunked, resumable upload endpoints under /api/uploads.
+// Each chunk is sent with its SHA-256 so the server can reject corrupted data,
+// and the upload id is remembered in localStorage so picking the same file
+// again after a dropped connection or page reload carries on where it stopped.
+
+import type { DuplicateFile } from "@/components/duplicate-file-notice";
+
+export type UploadTargetType = "hackathons" | "teams" | "submissions" | "projects" | "episodes" | "scripts";
+
+export interface UploadTarget {
+  targetType: UploadTargetType;
+  targetId: string;
+  folderId?: string;
+}
+
+export interface UploadProgress {
+  uploadedBytes: number;
+  totalBytes: number;
+  percent: number;
+  resumed: boolean;
+  retrying: boolean;
+}
+
+export interface ResumableUploadOptions {
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+  maxRetries?: number;
+}
+
+export interface ResumableUploadResult {
+  message: string;
+  file: any;
+  duplicates?: DuplicateFile[];
+  duplicateWarning?: string;
+}
+
+interface UploadSessionResponse {
+  uploadId: string;
+  uploadOffset: number;
+  totalSize: number;
+  chunkSize: number;
+  status: string;
+}
+
+const STORAGE_PREFIX = "resumable-upload:";
+
+export class UploadError extends Error {
+  constructor(message: string, public status?: number, public duplicates?: DuplicateFile[]) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+function fingerprint(file: File, target: UploadTarget): string {
+  return `${STORAGE_PREFIX}${target.targetType}:${target.targetId}:${target.folderId || ""}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+async function sha256Base64(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  let binary = "";
+  const bytes = new Uint8Array(digest);
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  try {
+    const body = await response.json();
+    return body.message || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(new DOMException("Upload cancelled", "AbortError"));
+    }, { once: true });
+  });
+}
+
+async function createSession(file: File, target: UploadTarget, signal?: AbortSignal): Promise<UploadSessionResponse> {
+  const response = await fetch("/api/uploads", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    signal,
+    body: JSON.stringify({
+      ...target,
+      filename: file.name,
+      mimeType: file.type || "application/octet-stream",
+      fileSize: file.size,
+    }),
+  });
+  if (!response.ok) {
+    throw new UploadError(await readError(response, "Failed to start upload"), response.status);
+  }
+  return response.json();
+}
+
+// Returns the server's offset for a remembered upload, or null if it is gone
+async function fetchOffset(uploadId: string, signal?: AbortSignal): Promise<number | null> {
+  const response = await fetch(`/api/uploads/${uploadId}`, {
+    method: "HEAD",
+    credentials: "include",
+    signal,
+  });
+  if (!response.ok) return null;
+  return parseInt(response.headers.get("Upload-Offset") || "0", 10);
+}
+
+// XHR rather than fetch so we get upload progress events within a chunk
+function sendChunk(
+  uploadId: string,
+  offset: number,
+  chunk: Blob,
+  checksum: string,
+  onChunkProgress: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<{ status: number; body: any }> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PATCH", `/api/uploads/${uploadId}`);
+    xhr.withCredentials = true;
+    xhr.setRequestHeader("Content-Type", "application/offset+octet-stream");
+    xhr.setRequestHeader("Upload-Offset", offset.toString());
+    xhr.setRequestHeader("Upload-Checksum", `sha256 ${checksum}`);
+
+    xhr.upload.onprogress = (event) => onChunkProgress(event.loaded);
+    xhr.onload = () => {
+      let body: any = null;
+      try {
+        body = JSON.parse(xhr.responseText);
+      } catch {
+        // Non-JSON error bodies are handled by status below
+      }
+      resolve({ status: xhr.status, body });
+    };
+    xhr.onerror = () => reject(new UploadError("Network error while uploading"));
+    xhr.ontimeout = () => reject(new UploadError("Upload timed out"));
+
+    const abort = () => xhr.abort();
+    signal?.addEventListener("abort", abort, { once: true });
+    xhr.onabort = () => reject(new DOMException("Upload cancelled", "AbortError"));
+
+    xhr.send(chunk);
+  });
+}
+
+export async function uploadFileResumable(
+  file: File,
+  target: UploadTarget,
+  options: ResumableUploadOptions = {}
+): Promise<ResumableUploadResult> {
+  const { onProgress, signal, maxRetries = 5 } = options;
+  const key = fingerprint(file, target);
+
+  // Resume a previous attempt for this exact file if the server still has it
+  const savedId = localStorage.getItem(key);
+  const savedOffset = savedId ? await fetchOffset(savedId, signal) : null;
+  const resumed = savedOffset !== null && savedOffset > 0;
+
+  let uploadId: string;
+  let offset: number;
+  let chunkSize = 5 * 1024 * 1024;
+  if (savedId && savedOffset !== null) {
+    uploadId = savedId;
+    offset = savedOffset;
+    const response = await fetch(`/api/uploads/${uploadId}`, { credentials: "include", signal });
+    if (response.ok) {
+      chunkSize = (await response.json()).chunkSize || chunkSize;
+    }
+  } else {
+    const session = await createSession(file, target, signal);
+    uploadId = session.uploadId;
+    offset = session.uploadOffset;
+    chunkSize = session.chunkSize;
+    localStorage.setItem(key, uploadId);
+  }
+
+  const report = (uploadedBytes: number, retrying = false) => {
+    onProgress?.({
+      uploadedBytes,
+      totalBytes: file.size,
+      percent: file.size === 0 ? 100 : Math.round((uploadedBytes / file.size) * 100),
+      resumed,
+      retrying,
+    });
+  };
+  report(offset);
+
+  let attempt = 0;
+  while (true) {
+    const chunk = file.slice(offset, Math.min(offset + chunkSize, file.size));
+    const checksum = await sha256Base64(await chunk.arrayBuffer());
+    const chunkStart: number = offset;
+
+    try {
+      const { status, body } = await sendChunk(
+        uploadId, chunkStart, chunk, checksum,
+        (loaded) => report(chunkStart + loaded),
+        signal
+      );
+
+      if (status === 409 && body?.duplicates) {
+        // Server refused the finished file as a duplicate; the session is gone
+        localStorage.removeItem(key);
+        throw new UploadError(body.message, status, body.duplicates);
+      }
+      if (status === 409 || status === 460) {
+        // Offset drifted or the chunk arrived corrupted: re-sync and resend
+        offset = body?.uploadOffset ?? (await fetchOffset(uploadId, signal)) ?? chunkStart;
+        if (++attempt > maxRetries) {
+          throw new UploadError(body?.message || "Upload failed after repeated retries", status);
+        }
+        continue;
+      }
+      if (status < 200 || status >= 300) {
+        if (status >= 500 && ++attempt <= maxRetries) {
+          report(chunkStart, true);
+          await wait(Math.min(1000 * 2 ** attempt, 30000), signal);
+          offset = (await fetchOffset(uploadId, signal)) ?? chunkStart;
+          continue;
+        }
+        throw new UploadError(body?.message || "Upload failed", status);
+      }
+
+      attempt = 0;
+      offset = body.uploadOffset as number;
+      report(offset);
+
+      if (body.complete) {
+        localStorage.removeItem(key);
+        return {
+          message: "File uploaded successfully",
+          file: body.file,
+          duplicates: body.duplicates,
+          duplicateWarning: body.duplicateWarning,
+        };
+      }
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") throw error;
+      if (error instanceof UploadError && error.status !== undefined) throw error;
+
+      // Dropped connection: back off, ask the server how far it got, carry on
+      if (++attempt > maxRetries) throw error;
+      report(chunkStart, true);
+      await wait(Math.min(1000 * 2 ** attempt, 30000), signal);
+      offset = (await fetchOffset(uploadId, signal)) ?? chunkStart;
+    }
+  }
+}
+
+export async function cancelResumableUpload(file: File, target: UploadTarget): Promise<void> {
+  const key = fingerprint(file, target);
+  const uploadId = localStorage.getItem(key);
+  localStorage.removeItem(key);
+  if (uploadId) {
+    await fetch(`/api/uploads/${uploadId}`, { method: "DELETE", credentials: "include" }).catch(() => {});
+  }
+}
+
+export function hasPendingUpload(file: File, target: UploadTarget): boolean {
+  return localStorage.getItem(fingerprint(file, target)) !== null;
+}
@@ -17,6 +17,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Input } from "@/components/ui/input";
 import { Download, Users, FileText, TrendingUp, Eye, Calendar, Clock, Database, FolderOpen, BarChart3 } from "lucide-react";
 import { format } from "date-fns";
+import { DuplicateFilesReport } from "@/components/duplicate-files-report";
+import { StorageUsageReport } from "@/components/storage-usage-report";
+import { JobProgressModal } from "@/components/progress-modal";
+import { apiRequest } from "@/lib/queryClient";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, PieChart, Pie, Cell, Area, AreaChart } from "recharts";
 
 interface DownloadOverview {
@@ -105,6 +109,20 @@ export function AnalyticsPage() {
   // Real-time analytics with auto-refresh
   const { lastUpdate, refreshAnalytics } = useRealTimeAnalytics(timeframe, 30000);
 
+  // The per-entity totals are aggregated by a background job; "Refresh Data"
+  // runs it now and reloads once it is done
+  const [aggregationJobId, setAggregationJobId] = useState<string | null>(null);
+  const startAggregation = async () => {
+    try {
+      const response = await apiRequest("POST", "/api/analytics/refresh");
+      const job = await response.json();
+      setAggregationJobId(job.id);
+    } catch (error) {
+      console.error("Failed to start analytics refresh:", error);
+      refreshAnalytics();
+    }
+  };
+
   // Download Overview Query with real-time updates
   const { data: overview, isLoading: overviewLoading } = useAnalyticsQuery<DownloadOverview>(
     "/api/analytics/downloads/overview", 
@@ -171,7 +189,7 @@ export function AnalyticsPage() {
           </Select>
           
           <Button
-            onClick={refreshAnalytics}
+            onClick={startAggregation}
             variant="outline"
             size="sm"
             className="flex items-center gap-2"
@@ -186,6 +204,13 @@ export function AnalyticsPage() {
         </div>
       </div>
 
+      <JobProgressModal
+        jobId={aggregationJobId}
+        title="Refreshing analytics"
+        onClose={() => setAggregationJobId(null)}
+        onComplete={refreshAnalytics}
+      />
+
       <Tabs defaultValue="overview" className="space-y-6">
         <TabsList className="grid w-full grid-cols-7">
           <TabsTrigger value="overview">Overview</TabsTrigger>
@@ -1232,6 +1257,10 @@ export function AnalyticsPage() {
               )}
             </CardContent>
           </Card>
+
+          <DuplicateFilesReport />
+
+          <StorageUsageReport />
         </TabsContent>
 
         {/* Activity Logs Tab */}
@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -34,6 +35,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { apiRequest } from "@/lib/api";
+import { DeleteImpactDialog } from "@/components/delete-impact-dialog";
+import { TeamRosterDialog } from "@/components/team-roster-dialog";
+import { TeamRegistrationDialog, RegistrationBadge } from "@/components/team-registration-dialog";
+import { SubmissionDeadline } from "@/components/submission-deadline";
 import { 
   Plus, 
   Edit, 
@@ -58,7 +63,10 @@ import {
   ArrowUpDown,
   Copy,
   Archive,
-  RefreshCw
+  RefreshCw,
+  Users,
+  Mail,
+  ClipboardCheck
 } from "lucide-react";
 import { TeamFileUpload } from "@/components/episode-file-upload";
 import { FileList } from "@/components/file-list";
@@ -85,8 +93,11 @@ export default function Teams() {
   const [sortBy, setSortBy] = useState<'title' | 'date' | 'episode'>('episode');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [selectedTeams, setSelectedTeams] = useState<string[]>([]);
+  const [deletingIds, setDeletingIds] = useState<string[]>([]);
+  const [rosterTeam, setRosterTeam] = useState<Team | null>(null);
+  const [registrationTeam, setRegistrationTeam] = useState<Team | null>(null);
   const { toast } = useToast();
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const queryClient = useQueryClient();
 
   const { data: episodes = [], isLoading } = useQuery<Team[]>({
@@ -97,6 +108,11 @@ export default function Teams() {
     queryKey: ["/api/projects"],
   });
 
+  // Invitations sent to the signed-in user's email (GET /api/invitations)
+  const { data: invitations = [] } = useQuery<{ id: string; token: string; team: { title: string } | null; invitedBy: string | null }[]>({
+    queryKey: ["/api/invitations"],
+  });
+
   const form = useForm<TeamFormData>({
     resolver: zodResolver(episodeFormSchema),
     defaultValues: {
@@ -169,7 +185,7 @@ export default function Teams() {
       queryClient.invalidateQueries({ queryKey: ["/api/episodes"] });
       toast({
         title: "Success",
-        description: "Team deleted successfully",
+        description: "Team moved to the trash",
       });
     },
     onError: () => {
@@ -204,17 +220,18 @@ export default function Teams() {
   };
 
   const handleDelete = (id: string) => {
-    if (window.confirm("Are you sure you want to delete this episode?")) {
-      deleteMutation.mutate(id);
-    }
+    setDeletingIds([id]);
   };
 
   const handleBulkDelete = () => {
     if (selectedTeams.length === 0) return;
-    if (window.confirm(`Are you sure you want to delete ${selectedTeams.length} episodes?`)) {
-      selectedTeams.forEach(id => deleteMutation.mutate(id));
-      setSelectedTeams([]);
-    }
+    setDeletingIds(selectedTeams);
+  };
+
+  const confirmDelete = () => {
+    deletingIds.forEach(id => deleteMutation.mutate(id));
+    setSelectedTeams((selected) => selected.filter((id) => !deletingIds.includes(id)));
+    setDeletingIds([]);
   };
 
   const toggleTeamSelection = (id: string) => {
@@ -278,7 +295,7 @@ export default function Teams() {
                 </div>
               </div>
               
-              {(user?.role === 'organizer' || user?.role === 'analyzer') && (
+              {can('teams.manage') && (
                 <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
                   <DialogTrigger asChild>
                     <Button size="lg" className={colors.button.primary}>
@@ -416,6 +433,26 @@ export default function Teams() {
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-6 py-8">
+        {invitations.length > 0 && (
+          <Card className="mb-6 border-sky-200 dark:border-sky-700 bg-sky-50/80 dark:bg-sky-900/20">
+            <CardContent className="p-4 space-y-2">
+              {invitations.map((invitation) => (
+                <div key={invitation.id} className="flex items-center justify-between gap-3 text-sm">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Mail className="h-4 w-4 text-sky-600 shrink-0" />
+                    <span className="truncate">
+                      {invitation.invitedBy ?? "Someone"} invited you to join <span className="font-semibold">{invitation.team?.title}</span>
+                    </span>
+                  </div>
+                  <Link href={`/join/${invitation.token}`}>
+                    <Button size="sm" variant="outline">View invitation</Button>
+                  </Link>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         <Tabs defaultValue="episodes" className="space-y-8">
           <TabsList className="grid w-full grid-cols-3 lg:w-[450px] bg-white/80 dark:bg-gray-800/80 backdrop-blur-md shadow-xl border border-gray-200/50 dark:border-gray-700/50 p-1">
             <TabsTrigger value="episodes" className="flex items-center gap-2 data-[state=active]:bg-gradient-to-r data-[state=active]:from-sky-500 data-[state=active]:to-rose-500 data-[state=active]:text-white transition-all duration-300 text-gray-700 dark:text-gray-300">
@@ -487,7 +524,7 @@ export default function Teams() {
                   
                   {/* Action Controls */}
                   <div className="flex items-center gap-2">
-                    {selectedTeams.length > 0 && (user?.role === 'organizer' || user?.role === 'analyzer') && (
+                    {selectedTeams.length > 0 && can('teams.manage') && (
                       <div className="flex items-center gap-2 mr-4">
                         <span className="text-sm text-gray-600 dark:text-gray-400">{selectedTeams.length} selected</span>
                         <Button
@@ -581,7 +618,7 @@ export default function Teams() {
                   <p className="text-gray-600 dark:text-gray-400 mb-6 max-w-sm mx-auto">
                     {searchQuery || projectFilter !== 'all' ? 'Try adjusting your search filters' : 'Start creating engaging radio content for your audience'}
                   </p>
-                  {(!searchQuery && projectFilter === 'all') && (user?.role === 'organizer' || user?.role === 'analyzer') && (
+                  {(!searchQuery && projectFilter === 'all') && can('teams.manage') && (
                     <Button 
                       onClick={() => setIsCreateDialogOpen(true)}
                       size="lg"
@@ -602,7 +639,7 @@ export default function Teams() {
                       <CardContent className="p-4">
                         <div className="flex items-start justify-between mb-3">
                           <div className="flex items-center gap-2">
-                            {(user?.role === 'organizer' || user?.role === 'analyzer') && (
+                            {can('teams.manage') && (
                               <input
                                 type="checkbox"
                                 checked={selectedTeams.includes(episode.id)}
@@ -615,7 +652,27 @@ export default function Teams() {
                             </Badge>
                           </div>
                           <div className="flex space-x-1">
-                            {(user?.role === 'organizer' || user?.role === 'analyzer') && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setRosterTeam(episode)}
+                              title="Members"
+                              className="h-7 w-7 p-0 hover:bg-sky-50 dark:hover:bg-sky-900/30"
+                            >
+                              <Users className="h-3 w-3 text-sky-600" />
+                            </Button>
+                            {can('teams.register') && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setRegistrationTeam(episode)}
+                                title="Registration"
+                                className="h-7 w-7 p-0 hover:bg-emerald-50 dark:hover:bg-emerald-900/30"
+                              >
+                                <ClipboardCheck className="h-3 w-3 text-emerald-600" />
+                              </Button>
+                            )}
+                            {can('teams.manage') && (
                               <>
                                 <Button
                                   variant="ghost"
@@ -650,6 +707,11 @@ export default function Teams() {
                             </div>
                           )}
 
+                          <div className="flex flex-wrap items-center gap-1">
+                            <RegistrationBadge status={episode.registrationStatus} note={episode.registrationNote} />
+                            <SubmissionDeadline hackathon={project} team={episode} className="text-xs" />
+                          </div>
+
                           {episode.description && (
                             <p className="text-xs text-gray-500 dark:text-gray-400 line-clamp-2 leading-relaxed">
                               {episode.description}
@@ -685,7 +747,7 @@ export default function Teams() {
                         <div className="flex items-center justify-between">
                           <div className="flex items-center space-x-4 flex-1">
                             <div className="flex items-center gap-2">
-                              {(user?.role === 'organizer' || user?.role === 'analyzer') && (
+                              {can('teams.manage') && (
                                 <input
                                   type="checkbox"
                                   checked={selectedTeams.includes(episode.id)}
@@ -712,6 +774,8 @@ export default function Teams() {
                                   <Clock className="h-3 w-3 text-gray-400 dark:text-gray-500" />
                                   <span>{new Date(episode.createdAt).toLocaleDateString()}</span>
                                 </div>
+                                <RegistrationBadge status={episode.registrationStatus} note={episode.registrationNote} />
+                                <SubmissionDeadline hackathon={project} team={episode} className="text-xs" />
                                 {episode.isPremium && (
                                   <Badge className="bg-gradient-to-r from-amber-400 to-orange-500 text-white border-0 px-2 py-0 text-xs">
                                     Premium
@@ -721,7 +785,28 @@ export default function Teams() {
                             </div>
                           </div>
                           <div className="flex space-x-1 shrink-0">
-                            {(user?.role === 'organizer' || user?.role === 'analyzer') && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setRosterTeam(episode)}
+                              title="Members"
+                              className="h-8 px-2 hover:bg-sky-50 dark:hover:bg-sky-900/30"
+                            >
+                              <Users className="h-4 w-4 text-sky-600 mr-1" />
+                              <span className="text-xs">{episode.teamSize}</span>
+                            </Button>
+                            {can('teams.register') && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setRegistrationTeam(episode)}
+                                title="Registration"
+                                className="h-8 w-8 p-0 hover:bg-emerald-50 dark:hover:bg-emerald-900/30"
+                              >
+                                <ClipboardCheck className="h-4 w-4 text-emerald-600" />
+                              </Button>
+                            )}
+                            {can('teams.manage') && (
                               <>
                                 <Button
                                   variant="ghost"
@@ -952,6 +1037,25 @@ export default function Teams() {
           </Form>
         </DialogContent>
       </Dialog>
+
+      <DeleteImpactDialog
+        entityType="episodes"
+        ids={deletingIds}
+        noun={["team", "teams"]}
+        onCancel={() => setDeletingIds([])}
+        onConfirm={confirmDelete}
+      />
+
+      <TeamRosterDialog
+        team={rosterTeam}
+        onOpenChange={(open) => !open && setRosterTeam(null)}
+      />
+
+      <TeamRegistrationDialog
+        team={registrationTeam}
+        hackathon={projects.find((project) => project.id === registrationTeam?.hackathonId)}
+        onOpenChange={(open) => !open && setRegistrationTeam(null)}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { JobProgressModal, type JobProgress } from "@/components/progress-modal";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { colors, getCardStyle, getGradientStyle } from "@/lib/colors";
+import { Cog, Play, RotateCcw, XCircle, Loader2 } from "lucide-react";
+
+// Admin view of the background job queue (server/job-queue.ts)
+
+type JobStatus = JobProgress["status"];
+
+interface JobRow extends JobProgress {
+  createdBy?: string | null;
+  createdAt: string;
+  startedAt?: string | null;
+  finishedAt?: string | null;
+}
+
+interface JobType {
+  type: string;
+  label: string;
+  manual?: boolean;
+}
+
+interface JobsResponse {
+  jobs: JobRow[];
+  counts: Record<JobStatus, number>;
+  types: JobType[];
+}
+
+const FILTERS: { value: string; label: string; statuses: JobStatus[] }[] = [
+  { value: "active", label: "Queued & running", statuses: ["queued", "running"] },
+  { value: "failed", label: "Failed", statuses: ["failed"] },
+  { value: "all", label: "All recent", statuses: [] },
+];
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  queued: "bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300",
+  running: "bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300",
+  completed: "bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300",
+  failed: "bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300",
+  cancelled: "bg-gray-100 text-gray-500 dark:bg-gray-800 dark:text-gray-400",
+};
+
+export default function Jobs() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [filter, setFilter] = useState("active");
+  const [watching, setWatching] = useState<{ id: string; title: string } | null>(null);
+
+  const statuses = FILTERS.find((option) => option.value === filter)?.statuses ?? [];
+  const jobsUrl = `/api/jobs${statuses.length > 0 ? `?status=${statuses.join(",")}` : ""}`;
+  const { data, isLoading } = useQuery<JobsResponse>({
+    queryKey: [jobsUrl],
+    staleTime: 0,
+    refetchInterval: 5000,
+  });
+  const jobs = data?.jobs ?? [];
+  const labels = new Map((data?.types ?? []).map((type) => [type.type, type.label]));
+
+  const refreshJobs = () => queryClient.invalidateQueries({ queryKey: [jobsUrl] });
+
+  const startMutation = useMutation({
+    mutationFn: async (jobType: JobType) => {
+      const response = await apiRequest("POST", "/api/jobs", { type: jobType.type });
+      return { job: (await response.json()) as JobRow, jobType };
+    },
+    onSuccess: ({ job, jobType }) => {
+      setWatching({ id: job.id, title: jobType.label });
+      refreshJobs();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not start job", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "retry" | "cancel" }) => {
+      await apiRequest("POST", `/api/jobs/${id}/${action}`);
+    },
+    onSuccess: refreshJobs,
+    onError: (error: Error) => {
+      toast({ title: "Action failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className={`min-h-screen ${getGradientStyle('main')} relative`}>
+      <div className={`relative overflow-hidden ${getCardStyle('accent')} backdrop-blur-sm shadow-lg border-b ${colors.border.accent}`}>
+        <div className={`absolute inset-0 ${getGradientStyle('header')}`}></div>
+        <div className="relative px-6 py-8">
+          <div className="max-w-7xl mx-auto flex items-center space-x-4">
+            <div className="p-3 bg-sky-50 dark:bg-gray-700 rounded-xl border border-sky-200/50 dark:border-gray-600/50">
+              <Cog className="h-6 w-6 text-sky-600 dark:text-sky-400" />
+            </div>
+            <div>
+              <h1 className={`text-2xl font-bold ${colors.text.primary} mb-1`}>Background Jobs</h1>
+              <p className="text-slate-600 dark:text-gray-400 text-sm">
+                {data
+                  ? `${data.counts.queued} queued, ${data.counts.running} running, ${data.counts.failed} failed`
+                  : "Queued, running and failed work"}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+        <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-md border border-gray-200/50 dark:border-gray-700/50 shadow-lg">
+          <CardHeader>
+            <CardTitle className="text-gray-900 dark:text-gray-100">Maintenance</CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-2">
+            {(data?.types ?? []).filter((type) => type.manual).map((type) => (
+              <Button
+                key={type.type}
+                variant="outline"
+                onClick={() => startMutation.mutate(type)}
+                disabled={startMutation.isPending}
+              >
+                <Play className="h-4 w-4 mr-2" />
+                {type.label}
+              </Button>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-md border border-gray-200/50 dark:border-gray-700/50 shadow-xl">
+          <CardHeader>
+            <Tabs value={filter} onValueChange={setFilter}>
+              <TabsList>
+                {FILTERS.map((option) => (
+                  <TabsTrigger key={option.value} value={option.value}>
+                    {option.label}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : jobs.length === 0 ? (
+              <p className="text-center text-sm text-muted-foreground py-8">No jobs here</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Job</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="w-48">Progress</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead>Queued</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {jobs.map((job) => (
+                    <TableRow key={job.id}>
+                      <TableCell>
+                        <div className="font-medium">{labels.get(job.type) ?? job.type}</div>
+                        {job.lastError && (
+                          <div className="text-xs text-red-600 max-w-md truncate" title={job.lastError}>
+                            {job.lastError}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={STATUS_STYLES[job.status]}>
+                          {job.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Progress value={job.progress} className="h-2" />
+                        {job.status === "running" && job.progressMessage && (
+                          <div className="text-xs text-muted-foreground mt-1 truncate">{job.progressMessage}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {job.attempts}/{job.maxAttempts}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {formatDistanceToNow(new Date(job.createdAt), { addSuffix: true })}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {(job.status === "failed" || job.status === "cancelled") && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => actionMutation.mutate({ id: job.id, action: "retry" })}
+                            disabled={actionMutation.isPending}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Retry
+                          </Button>
+                        )}
+                        {job.status === "queued" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => actionMutation.mutate({ id: job.id, action: "cancel" })}
+                            disabled={actionMutation.isPending}
+                          >
+                            <XCircle className="h-4 w-4 mr-1" />
+                            Cancel
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <JobProgressModal
+        jobId={watching?.id ?? null}
+        title={watching?.title ?? ""}
+        onClose={() => setWatching(null)}
+        onComplete={refreshJobs}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation, useRoute } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Users, AlertCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+// Mirrors GET /api/invitations/:token in server/routes-team-members.ts
+interface InvitationInfo {
+  id: string;
+  email: string | null;
+  status: string;
+  expiresAt: string;
+  team: { id: string; title: string; memberCount: number } | null;
+  hackathon: { id: string; name: string } | null;
+  invitedBy: string | null;
+  canRespond: boolean;
+  problem: string | null;
+}
+
+// Where invitation emails, notifications and shared links land
+export default function JoinTeamPage() {
+  const [, params] = useRoute("/join/:token");
+  const token = params?.token ?? "";
+  const [, setLocation] = useLocation();
+  const [isResponding, setIsResponding] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: info, error, isLoading } = useQuery<InvitationInfo>({
+    queryKey: ["/api/invitations", token],
+    queryFn: async () => {
+      const response = await fetch(`/api/invitations/${encodeURIComponent(token)}`, { credentials: "include" });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || "This invitation is not available");
+      }
+      return response.json();
+    },
+    enabled: !!token,
+    retry: false,
+  });
+
+  const respond = async (answer: "accept" | "decline") => {
+    setIsResponding(true);
+    try {
+      const response = await fetch(`/api/invitations/${encodeURIComponent(token)}/${answer}`, {
+        method: "POST",
+        credentials: "include",
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(body.message || `Failed to ${answer} the invitation`);
+
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/episodes"] });
+      toast({ title: answer === "accept" ? `You joined ${info?.team?.title ?? "the team"}` : "Invitation declined" });
+      setLocation(answer === "accept" ? "/episodes" : "/");
+    } catch (err) {
+      toast({ title: "Something went wrong", description: (err as Error).message, variant: "destructive" });
+    } finally {
+      setIsResponding(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gray-50 dark:bg-gray-900">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Team invitation
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading…</p>
+          ) : error || !info?.team ? (
+            <div className="flex items-start gap-2 text-sm text-red-600">
+              <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+              <span>{(error as Error | null)?.message || "The team no longer exists"}</span>
+            </div>
+          ) : (
+            <>
+              <div className="space-y-1">
+                <p>
+                  {info.invitedBy ? `${info.invitedBy} invited you to join ` : "You are invited to join "}
+                  <span className="font-semibold">{info.team.title}</span>
+                  {info.hackathon && <> in {info.hackathon.name}</>}.
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {info.team.memberCount} member{info.team.memberCount === 1 ? "" : "s"} so far; the invitation expires{" "}
+                  {new Date(info.expiresAt).toLocaleDateString()}
+                </p>
+              </div>
+              {info.problem && (
+                <div className="flex items-start gap-2 text-sm text-red-600">
+                  <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                  <span>{info.problem}</span>
+                </div>
+              )}
+              <div className="flex gap-2">
+                <Button className="flex-1" onClick={() => respond("accept")} disabled={!info.canRespond || isResponding}>
+                  Join team
+                </Button>
+                <Button variant="outline" className="flex-1" onClick={() => respond("decline")} disabled={!info.canRespond || isResponding}>
+                  Decline
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,636 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { colors, getCardStyle, getGradientStyle } from "@/lib/colors";
+import { Scale, Loader2, Lock, LockOpen, Plus, Trash2, CheckCircle } from "lucide-react";
+
+// Rubric judging (server/routes-judging.ts): judges score every criterion of
+// every submission, organizers set up rubrics and judges and close scoring.
+// Other judges' scores only arrive once scoring is closed.
+
+interface JudgedHackathon {
+  id: string;
+  name: string;
+  scoringClosedAt: string | null;
+}
+
+interface Criterion {
+  id: string;
+  name: string;
+  description: string | null;
+  weight: string;
+  maxScore: number;
+}
+
+interface JudgeScore {
+  id: string;
+  submissionId: string;
+  criterionId: string;
+  judgeId: string;
+  judgeName: string | null;
+  score: string;
+  comment: string | null;
+}
+
+interface JudgeTotal {
+  judgeId: string;
+  total: number;
+  normalized: number;
+}
+
+interface SubmissionResult {
+  submissionId: string;
+  judgeCount: number;
+  rawScore: number | null;
+  score: number | null;
+  rank: number | null;
+  criterionAverages: Record<string, number>;
+  judgeTotals: JudgeTotal[];
+}
+
+interface JudgedSubmission {
+  id: string;
+  title: string;
+  description: string;
+  status: string;
+  judgeCount: number;
+}
+
+interface Judging {
+  hackathon: JudgedHackathon;
+  canManage: boolean;
+  isJudge: boolean;
+  criteria: Criterion[];
+  judges: { judgeId: string; name: string | null; finishedCount: number }[];
+  submissions: JudgedSubmission[];
+  scores: JudgeScore[];
+  results: SubmissionResult[] | null;
+}
+
+interface JudgeCandidate {
+  id: string;
+  name: string | null;
+  email: string | null;
+}
+
+// What the rubric editor holds; weight and maxScore stay strings while typing
+interface CriterionDraft {
+  id?: string;
+  name: string;
+  description: string;
+  weight: string;
+  maxScore: string;
+}
+
+async function sendJudgingRequest(method: string, url: string, body: unknown, fallback: string) {
+  const response = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    credentials: "include",
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.message || fallback);
+  return data;
+}
+
+function ScoreSheet({
+  submission,
+  criteria,
+  scores,
+  closed,
+  onSaved,
+}: {
+  submission: JudgedSubmission;
+  criteria: Criterion[];
+  scores: JudgeScore[];
+  closed: boolean;
+  onSaved: () => void;
+}) {
+  const { toast } = useToast();
+  const [values, setValues] = useState<Record<string, { score: string; comment: string }>>({});
+  // Only reset what the judge typed when the saved scores actually change
+  const savedKey = scores.map((score) => `${score.id}:${score.score}:${score.comment ?? ""}`).join("|");
+
+  useEffect(() => {
+    setValues(Object.fromEntries(criteria.map((criterion) => {
+      const saved = scores.find((score) => score.criterionId === criterion.id);
+      return [criterion.id, { score: saved ? String(Number(saved.score)) : "", comment: saved?.comment ?? "" }];
+    })));
+  }, [criteria, savedKey]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const entries = criteria
+        .filter((criterion) => values[criterion.id]?.score.trim())
+        .map((criterion) => ({
+          criterionId: criterion.id,
+          score: Number(values[criterion.id].score),
+          comment: values[criterion.id].comment.trim() || null,
+        }));
+      return sendJudgingRequest("PUT", `/api/scripts/${submission.id}/scores`, { scores: entries }, "Failed to save scores");
+    },
+    onSuccess: () => {
+      onSaved();
+      toast({ title: "Scores saved", description: `Your scores for "${submission.title}" are saved.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save scores", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const filled = criteria.filter((criterion) => values[criterion.id]?.score.trim()).length;
+  const finished = criteria.length > 0 && criteria.every((criterion) => scores.some((score) => score.criterionId === criterion.id));
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-base">
+          <span>{submission.title}</span>
+          {finished ? (
+            <Badge className="bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300">
+              <CheckCircle className="h-3 w-3 mr-1" />
+              Scored
+            </Badge>
+          ) : (
+            <Badge variant="outline">{scores.length}/{criteria.length} criteria</Badge>
+          )}
+        </CardTitle>
+        {submission.description && <CardDescription className="line-clamp-2">{submission.description}</CardDescription>}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {criteria.map((criterion) => (
+          <div key={criterion.id} className="grid grid-cols-1 md:grid-cols-[1fr_7rem] gap-2">
+            <div>
+              <div className="text-sm font-medium">
+                {criterion.name}
+                <span className="ml-2 text-xs text-muted-foreground">weight {Number(criterion.weight)}</span>
+              </div>
+              {criterion.description && <p className="text-xs text-muted-foreground">{criterion.description}</p>}
+              <Textarea
+                className="mt-2"
+                rows={2}
+                placeholder="Comment (optional)"
+                value={values[criterion.id]?.comment ?? ""}
+                onChange={(event) => setValues((current) => ({ ...current, [criterion.id]: { ...current[criterion.id], comment: event.target.value } }))}
+                disabled={closed}
+              />
+            </div>
+            <div className="flex items-start gap-1">
+              <Input
+                type="number"
+                min={0}
+                max={criterion.maxScore}
+                step="0.5"
+                value={values[criterion.id]?.score ?? ""}
+                onChange={(event) => setValues((current) => ({ ...current, [criterion.id]: { ...current[criterion.id], score: event.target.value } }))}
+                disabled={closed}
+              />
+              <span className="pt-2 text-sm text-muted-foreground">/{criterion.maxScore}</span>
+            </div>
+          </div>
+        ))}
+        {!closed && (
+          <div className="flex justify-end">
+            <Button size="sm" onClick={() => saveMutation.mutate()} disabled={filled === 0 || saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+              Save scores
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ResultsTable({ judging }: { judging: Judging }) {
+  const results = judging.results ?? [];
+  const titles = new Map(judging.submissions.map((submission) => [submission.id, submission.title]));
+  const judgeNames = new Map(judging.scores.map((score) => [score.judgeId, score.judgeName]));
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-16">Rank</TableHead>
+          <TableHead>Submission</TableHead>
+          <TableHead className="text-right">Score</TableHead>
+          <TableHead className="text-right">Unadjusted</TableHead>
+          {judging.criteria.map((criterion) => (
+            <TableHead key={criterion.id} className="text-right">{criterion.name}</TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {results.map((result) => (
+          <TableRow key={result.submissionId}>
+            <TableCell className="font-semibold">{result.rank ?? "–"}</TableCell>
+            <TableCell>
+              <div className="font-medium">{titles.get(result.submissionId)}</div>
+              <div className="text-xs text-muted-foreground">
+                {result.judgeTotals.length === 0
+                  ? "No judge finished scoring"
+                  : result.judgeTotals
+                      .map((entry) => `${judgeNames.get(entry.judgeId) ?? "Judge"}: ${entry.total} → ${entry.normalized}`)
+                      .join(" · ")}
+              </div>
+            </TableCell>
+            <TableCell className="text-right font-semibold">{result.score ?? "–"}</TableCell>
+            <TableCell className="text-right text-muted-foreground">{result.rawScore ?? "–"}</TableCell>
+            {judging.criteria.map((criterion) => (
+              <TableCell key={criterion.id} className="text-right text-muted-foreground">
+                {result.criterionAverages[criterion.id] ?? "–"}
+              </TableCell>
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+function RubricEditor({ judging, onSaved }: { judging: Judging; onSaved: () => void }) {
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<CriterionDraft[]>([]);
+  const closed = !!judging.hackathon.scoringClosedAt;
+
+  useEffect(() => {
+    setDrafts(judging.criteria.map((criterion) => ({
+      id: criterion.id,
+      name: criterion.name,
+      description: criterion.description ?? "",
+      weight: String(Number(criterion.weight)),
+      maxScore: String(criterion.maxScore),
+    })));
+  }, [judging.criteria]);
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      sendJudgingRequest("PUT", `/api/projects/${judging.hackathon.id}/rubric`, {
+        criteria: drafts.map((draft) => ({
+          id: draft.id,
+          name: draft.name,
+          description: draft.description || null,
+          weight: Number(draft.weight),
+          maxScore: Number(draft.maxScore),
+        })),
+      }, "Failed to save the rubric"),
+    onSuccess: () => {
+      onSaved();
+      toast({ title: "Rubric saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save the rubric", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const update = (index: number, change: Partial<CriterionDraft>) =>
+    setDrafts((current) => current.map((draft, i) => (i === index ? { ...draft, ...change } : draft)));
+  const totalWeight = drafts.reduce((sum, draft) => sum + (Number(draft.weight) || 0), 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Rubric</CardTitle>
+        <CardDescription>
+          Each criterion counts in proportion to its weight. Removing a criterion deletes the scores judges gave it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {drafts.map((draft, index) => (
+          <div key={draft.id ?? `new-${index}`} className="grid grid-cols-1 md:grid-cols-[1fr_6rem_6rem_auto] gap-2 items-start">
+            <div className="space-y-2">
+              <Input placeholder="Criterion, e.g. Innovation" value={draft.name} onChange={(event) => update(index, { name: event.target.value })} disabled={closed} />
+              <Input placeholder="What judges should look for (optional)" value={draft.description} onChange={(event) => update(index, { description: event.target.value })} disabled={closed} />
+            </div>
+            <div>
+              <Input type="number" min={0} step="0.5" value={draft.weight} onChange={(event) => update(index, { weight: event.target.value })} disabled={closed} />
+              <span className="text-xs text-muted-foreground">
+                Weight{totalWeight > 0 && ` · ${Math.round(((Number(draft.weight) || 0) / totalWeight) * 100)}%`}
+              </span>
+            </div>
+            <div>
+              <Input type="number" min={1} max={100} value={draft.maxScore} onChange={(event) => update(index, { maxScore: event.target.value })} disabled={closed} />
+              <span className="text-xs text-muted-foreground">Max score</span>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-red-600 hover:text-red-700"
+              onClick={() => setDrafts((current) => current.filter((_, i) => i !== index))}
+              disabled={closed}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        {drafts.length === 0 && <p className="text-sm text-muted-foreground">No criteria yet</p>}
+        <div className="flex justify-between">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setDrafts((current) => [...current, { name: "", description: "", weight: "1", maxScore: "10" }])}
+            disabled={closed}
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Add criterion
+          </Button>
+          <Button size="sm" onClick={() => saveMutation.mutate()} disabled={closed || saveMutation.isPending}>
+            Save rubric
+          </Button>
+        </div>
+        {closed && <p className="text-xs text-muted-foreground">Reopen scoring to change the rubric.</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+function JudgeAssignment({ judging, onSaved }: { judging: Judging; onSaved: () => void }) {
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const { data: candidates = [] } = useQuery<JudgeCandidate[]>({
+    queryKey: ["/api/judges"],
+  });
+
+  useEffect(() => {
+    setSelected(judging.judges.map((judge) => judge.judgeId));
+  }, [judging.judges]);
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      sendJudgingRequest("PUT", `/api/projects/${judging.hackathon.id}/judges`, { judgeIds: selected }, "Failed to assign judges"),
+    onSuccess: () => {
+      onSaved();
+      toast({ title: "Judges updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not assign judges", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const progress = new Map(judging.judges.map((judge) => [judge.judgeId, judge.finishedCount]));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Judges</CardTitle>
+        <CardDescription>Judges score every submitted entry. Their progress shows here; their scores don't until scoring closes.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {candidates.length === 0 && <p className="text-sm text-muted-foreground">Nobody can judge submissions yet</p>}
+        {candidates.map((candidate) => (
+          <label key={candidate.id} className="flex items-center justify-between gap-2 text-sm cursor-pointer">
+            <span className="flex items-center gap-2">
+              <Checkbox
+                checked={selected.includes(candidate.id)}
+                onCheckedChange={(checked) =>
+                  setSelected((current) => (checked ? [...current, candidate.id] : current.filter((id) => id !== candidate.id)))
+                }
+              />
+              {candidate.name || candidate.email}
+            </span>
+            {progress.has(candidate.id) && (
+              <span className="text-xs text-muted-foreground">
+                {progress.get(candidate.id)}/{judging.submissions.length} scored
+              </span>
+            )}
+          </label>
+        ))}
+        <div className="flex justify-end">
+          <Button size="sm" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+            Save judges
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function JudgingPage() {
+  const [hackathonId, setHackathonId] = useState<string>("");
+  const [confirmingClose, setConfirmingClose] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: hackathons = [], isLoading: hackathonsLoading } = useQuery<JudgedHackathon[]>({
+    queryKey: ["/api/judging"],
+  });
+
+  useEffect(() => {
+    if (!hackathonId && hackathons.length > 0) setHackathonId(hackathons[0].id);
+  }, [hackathons, hackathonId]);
+
+  const judgingKey = [`/api/projects/${hackathonId}/judging`];
+  const { data: judging, isLoading } = useQuery<Judging>({
+    queryKey: judgingKey,
+    enabled: !!hackathonId,
+    staleTime: 0,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: judgingKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/judging"] });
+  };
+
+  const scoringMutation = useMutation({
+    mutationFn: (action: "close" | "reopen") =>
+      sendJudgingRequest("POST", `/api/projects/${hackathonId}/scoring/${action}`, undefined, `Failed to ${action} scoring`),
+    onSuccess: (_, action) => {
+      setConfirmingClose(false);
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ["/api/scripts"] });
+      toast({ title: action === "close" ? "Scoring closed" : "Scoring reopened" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not change scoring", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const closed = !!judging?.hackathon.scoringClosedAt;
+  const defaultTab = judging ? (closed ? "results" : judging.isJudge ? "score" : "setup") : "score";
+
+  return (
+    <div className={`min-h-screen ${getGradientStyle('main')} relative`}>
+      <div className={`relative overflow-hidden ${getCardStyle('accent')} backdrop-blur-sm shadow-lg border-b ${colors.border.accent}`}>
+        <div className={`absolute inset-0 ${getGradientStyle('header')}`}></div>
+        <div className="relative px-6 py-8">
+          <div className="max-w-7xl mx-auto flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center space-x-4">
+              <div className="p-3 bg-slate-50 dark:bg-gray-700 rounded-xl border border-slate-200/50 dark:border-gray-600/50">
+                <Scale className="h-6 w-6 text-slate-600 dark:text-slate-300" />
+              </div>
+              <div>
+                <h1 className={`text-2xl font-bold ${colors.text.primary} mb-1`}>Judging</h1>
+                <p className="text-slate-600 dark:text-gray-400 text-sm">
+                  Score submissions against the hackathon's rubric
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              {hackathons.length > 0 && (
+                <Select value={hackathonId} onValueChange={setHackathonId}>
+                  <SelectTrigger className="w-64">
+                    <SelectValue placeholder="Select a hackathon" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {hackathons.map((hackathon) => (
+                      <SelectItem key={hackathon.id} value={hackathon.id}>{hackathon.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {judging?.canManage && (
+                closed ? (
+                  <Button variant="outline" onClick={() => scoringMutation.mutate("reopen")} disabled={scoringMutation.isPending}>
+                    <LockOpen className="h-4 w-4 mr-2" />
+                    Reopen scoring
+                  </Button>
+                ) : (
+                  <Button onClick={() => setConfirmingClose(true)} disabled={scoringMutation.isPending}>
+                    <Lock className="h-4 w-4 mr-2" />
+                    Close scoring
+                  </Button>
+                )
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+        {hackathonsLoading || isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : hackathons.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-8">You haven't been asked to judge a hackathon yet</p>
+        ) : judging && (
+          <>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              {closed ? (
+                <Badge className="bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300">
+                  Scoring closed {formatDistanceToNow(new Date(judging.hackathon.scoringClosedAt!), { addSuffix: true })}
+                </Badge>
+              ) : (
+                <Badge variant="outline">Scoring open</Badge>
+              )}
+              <span>
+                {judging.submissions.length} submission{judging.submissions.length !== 1 ? "s" : ""} · {judging.judges.length} judge{judging.judges.length !== 1 ? "s" : ""}
+              </span>
+            </div>
+
+            <Tabs key={`${judging.hackathon.id}-${defaultTab}`} defaultValue={defaultTab}>
+              <TabsList>
+                {judging.isJudge && <TabsTrigger value="score">My scores</TabsTrigger>}
+                {closed && <TabsTrigger value="results">Results</TabsTrigger>}
+                {judging.canManage && <TabsTrigger value="setup">Setup</TabsTrigger>}
+              </TabsList>
+
+              {judging.isJudge && (
+                <TabsContent value="score" className="space-y-4">
+                  {judging.criteria.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">The organizers haven't set up the rubric yet</p>
+                  ) : judging.submissions.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Nothing has been submitted yet</p>
+                  ) : (
+                    judging.submissions.map((submission) => (
+                      <ScoreSheet
+                        key={submission.id}
+                        submission={submission}
+                        criteria={judging.criteria}
+                        scores={judging.scores.filter((score) => score.submissionId === submission.id && score.judgeId === user?.id)}
+                        closed={closed}
+                        onSaved={refresh}
+                      />
+                    ))
+                  )}
+                </TabsContent>
+              )}
+
+              {closed && (
+                <TabsContent value="results">
+                  <Card>
+                    <CardContent className="pt-6">
+                      <ResultsTable judging={judging} />
+                    </CardContent>
+                  </Card>
+                  <p className="mt-3 text-xs text-muted-foreground">
+                    Scores are out of 100. Each judge's totals are adjusted for how strict or lenient they scored overall;
+                    the unadjusted column is the plain average.
+                  </p>
+                </TabsContent>
+              )}
+
+              {judging.canManage && (
+                <TabsContent value="setup" className="space-y-6">
+                  <RubricEditor judging={judging} onSaved={refresh} />
+                  <JudgeAssignment judging={judging} onSaved={refresh} />
+                </TabsContent>
+              )}
+            </Tabs>
+          </>
+        )}
+      </div>
+
+      <AlertDialog open={confirmingClose} onOpenChange={setConfirmingClose}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Close scoring for "{judging?.hackathon.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Judges can no longer change their scores, every judge's scores become visible to the others,
+              and each submission gets its combined score. You can reopen scoring later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                event.preventDefault();
+                scoringMutation.mutate("close");
+              }}
+              disabled={scoringMutation.isPending}
+            >
+              Close scoring
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
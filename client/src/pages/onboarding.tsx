@@ -11,13 +11,10 @@ import OnboardingDemo from "@/components/onboarding/OnboardingDemo";
 import { Settings, BarChart3, Users, FormInput, Play } from "lucide-react";
 
 export default function OnboardingPage() {
-  const { user } = useAuth();
+  const { can } = useAuth();
   const [activeTab, setActiveTab] = useState("builder");
 
-  // Check if user is organizer
-  const isOrganizer = user?.role === "organizer";
-
-  if (!isOrganizer) {
+  if (!can("forms.manage")) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-sky-50 to-rose-50 dark:from-gray-900 dark:to-gray-800">
         <div className="container mx-auto px-4 py-8">
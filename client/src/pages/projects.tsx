@@ -43,6 +43,8 @@ import { colors, getCardStyle, getGradientStyle } from "@/lib/colors";
 import type { Hackathon, Team, Submission } from "@shared/schema";
 import { HackathonDetailView } from "@/components/project-detail-view";
 import { HackathonCard } from "@/components/ProjectCard";
+import { DeleteImpactDialog } from "@/components/delete-impact-dialog";
+import { ShowcaseSettingsDialog } from "@/components/showcase-settings-dialog";
 
 const projectFormSchema = z.object({
   name: z.string().min(1, "Name is required"),
@@ -74,10 +76,12 @@ export default function Hackathons() {
   const [editingHackathon, setEditingHackathon] = useState<Hackathon | null>(null);
   const [editingTheme, setEditingTheme] = useState<Theme | null>(null);
   const [viewingHackathon, setViewingHackathon] = useState<Hackathon | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [showcaseHackathon, setShowcaseHackathon] = useState<Hackathon | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedThemeFilter, setSelectedThemeFilter] = useState<string>("all");
   const { toast } = useToast();
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const queryClient = useQueryClient();
 
   const { data: projects = [], isLoading } = useQuery<Hackathon[]>({
@@ -175,7 +179,7 @@ export default function Hackathons() {
       queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
       toast({
         title: "Success",
-        description: "Hackathon deleted successfully",
+        description: "Hackathon moved to the trash",
       });
     },
     onError: () => {
@@ -296,9 +300,7 @@ export default function Hackathons() {
   };
 
   const handleDelete = (id: string) => {
-    if (window.confirm("Are you sure you want to delete this project?")) {
-      deleteMutation.mutate(id);
-    }
+    setDeletingId(id);
   };
 
   const filteredHackathons = projects.filter((project) => {
@@ -338,7 +340,7 @@ export default function Hackathons() {
                 </div>
               </div>
               
-              {((user as any)?.role === 'organizer' || (user as any)?.role === 'analyzer') && (
+              {can('hackathons.create') && (
                 <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
                   <DialogTrigger asChild>
                     <Button size="lg" className={colors.button.primary}>
@@ -468,7 +470,7 @@ export default function Hackathons() {
                       </option>
                     ))}
                   </select>
-                  {((user as any)?.role === 'organizer' || (user as any)?.role === 'analyzer') && (
+                  {can('categories.manage') && (
                     <Button
                       variant="outline"
                       onClick={handleCreateTheme}
@@ -559,12 +561,12 @@ export default function Hackathons() {
               <p className="text-gray-600 dark:text-gray-400 mb-8 text-xl max-w-md mx-auto">
                 {searchTerm 
                   ? "Try adjusting your search terms to find projects" 
-                  : ((user as any)?.role === 'organizer' || (user as any)?.role === 'analyzer') 
+                  : can('hackathons.create') 
                     ? "Start organizing your radio content with your first project"
                     : "No projects available yet. Contact an admin or editor to create projects."
                 }
               </p>
-              {!searchTerm && ((user as any)?.role === 'organizer' || (user as any)?.role === 'analyzer') && (
+              {!searchTerm && can('hackathons.create') && (
                 <Button 
                   onClick={() => setIsCreateDialogOpen(true)}
                   size="lg"
@@ -590,6 +592,7 @@ export default function Hackathons() {
                   onView={setViewingHackathon}
                   onEdit={handleEdit}
                   onDelete={handleDelete}
+                  onShowcase={setShowcaseHackathon}
                 />
               );
             })}
@@ -841,6 +844,20 @@ export default function Hackathons() {
           </div>
         </DialogContent>
       </Dialog>
+
+      <DeleteImpactDialog
+        entityType="projects"
+        ids={deletingId ? [deletingId] : []}
+        noun={["hackathon", "hackathons"]}
+        onCancel={() => setDeletingId(null)}
+        onConfirm={() => deleteMutation.mutate(deletingId!, { onSettled: () => setDeletingId(null) })}
+        isPending={deleteMutation.isPending}
+      />
+
+      <ShowcaseSettingsDialog
+        hackathon={showcaseHackathon}
+        onOpenChange={(open) => !open && setShowcaseHackathon(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,136 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useReleaseQuarantine } from "@/components/quarantine-badge";
+import { colors, getCardStyle, getGradientStyle } from "@/lib/colors";
+import { decodeFileName } from "@/utils/textUtils";
+import { ShieldAlert, ShieldCheck, Loader2 } from "lucide-react";
+
+// Organizer review of uploads the malware scan quarantined
+// (server/routes-file-quarantine.ts)
+
+interface QuarantinedFile {
+  id: string;
+  originalName: string;
+  mimeType: string;
+  detectedMimeType: string | null;
+  fileSize: number;
+  entityType: string;
+  entityId: string | null;
+  uploadedBy: string | null;
+  quarantinedAt: string;
+  quarantineReason: string | null;
+  pageUrl: string;
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes === 0) return "0 Bytes";
+  const k = 1024;
+  const sizes = ["Bytes", "KB", "MB", "GB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+}
+
+export default function Quarantine() {
+  const { data: files = [], isLoading } = useQuery<QuarantinedFile[]>({
+    queryKey: ["/api/files/quarantined"],
+    staleTime: 0,
+  });
+  const releaseMutation = useReleaseQuarantine();
+
+  return (
+    <div className={`min-h-screen ${getGradientStyle('main')} relative`}>
+      <div className={`relative overflow-hidden ${getCardStyle('accent')} backdrop-blur-sm shadow-lg border-b ${colors.border.accent}`}>
+        <div className={`absolute inset-0 ${getGradientStyle('header')}`}></div>
+        <div className="relative px-6 py-8">
+          <div className="max-w-7xl mx-auto flex items-center space-x-4">
+            <div className="p-3 bg-red-50 dark:bg-gray-700 rounded-xl border border-red-200/50 dark:border-gray-600/50">
+              <ShieldAlert className="h-6 w-6 text-red-600 dark:text-red-400" />
+            </div>
+            <div>
+              <h1 className={`text-2xl font-bold ${colors.text.primary} mb-1`}>Quarantined Files</h1>
+              <p className="text-slate-600 dark:text-gray-400 text-sm">
+                Uploads flagged by the security scan stay hidden from participants until released
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-6 py-8">
+        <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-md border border-gray-200/50 dark:border-gray-700/50 shadow-xl">
+          <CardHeader>
+            <CardTitle className="text-gray-900 dark:text-gray-100">
+              {files.length} file{files.length !== 1 ? "s" : ""} awaiting review
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : files.length === 0 ? (
+              <p className="text-center text-sm text-muted-foreground py-8">Nothing is quarantined</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>File</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Uploaded to</TableHead>
+                    <TableHead>Flagged</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {files.map((file) => (
+                    <TableRow key={file.id}>
+                      <TableCell>
+                        <div className="font-medium">{decodeFileName(file.originalName)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {formatFileSize(file.fileSize)} • {file.detectedMimeType ?? file.mimeType}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm text-red-600 dark:text-red-400">
+                        {file.quarantineReason ?? "Flagged by the scan"}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <Link href={file.pageUrl} className="underline-offset-2 hover:underline">
+                          {file.entityType}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {formatDistanceToNow(new Date(file.quarantinedAt), { addSuffix: true })}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => releaseMutation.mutate(file.id)}
+                          disabled={releaseMutation.isPending}
+                        >
+                          <ShieldCheck className="h-4 w-4 mr-1" />
+                          Release
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -61,7 +61,7 @@ export default function RadioColleges() {
   const [editingCollege, setEditingCollege] = useState<RadioCollege | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const { toast } = useToast();
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const queryClient = useQueryClient();
 
   const [statusFilter, setStatusFilter] = useState<string>("all");
@@ -221,7 +221,7 @@ export default function RadioColleges() {
                 </div>
               </div>
               
-              {(user?.role === "admin" || user?.role === "editor") && (
+              {can('colleges.manage') && (
                 <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
                   <DialogTrigger asChild>
                     <Button size="lg" className={colors.button.primary}>
@@ -442,7 +442,7 @@ export default function RadioColleges() {
                   : "Start building your network by adding your first radio station partner"
                 }
               </p>
-              {!searchTerm && (user?.role === "admin" || user?.role === "editor") && (
+              {!searchTerm && can('colleges.manage') && (
                 <Button 
                   onClick={() => setIsCreateDialogOpen(true)}
                   size="lg"
@@ -548,7 +548,7 @@ export default function RadioColleges() {
                         </div>
                       </TableCell>
                       <TableCell className="text-right">
-                        {(user?.role === "admin" || user?.role === "editor") ? (
+                        {can('colleges.manage') ? (
                           <DropdownMenu>
                             <DropdownMenuTrigger asChild>
                               <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
@@ -67,11 +67,14 @@ import {
   Target
 } from "lucide-react";
 import { SubmissionEditor } from "@/components/script-editor";
+import { SubmissionReviewPanel } from "@/components/submission-review-panel";
+import { SubmissionTranslationsPanel } from "@/components/submission-translations-panel";
+import { SubmissionDeadline } from "@/components/submission-deadline";
 import { SubmissionFileUpload } from "@/components/script-file-upload";
 import { FileList } from "@/components/file-list";
 import { LanguageBadge } from "@/components/language-selector";
 import { colors, getStatusColor, getCardStyle, getGradientStyle } from "@/lib/colors";
-import type { Submission, Hackathon } from "@shared/schema";
+import type { Submission, Hackathon, Team } from "@shared/schema";
 import { DEFAULT_LANGUAGE, getLanguageName, getLanguageFlag } from "@shared/languages";
 
 // Use the same schema as the working FAB component
@@ -84,6 +87,7 @@ type SubmissionFormData = z.infer<typeof scriptFormSchema>;
 const statusIcons = {
   "Draft": Edit,
   "Under Review": AlertCircle,
+  "Needs Revision": RefreshCw,
   "Approved": CheckCircle,
   "Published": PlayCircle
 } as const;
@@ -101,7 +105,7 @@ export default function Submissions() {
   const [selectedSubmissions, setSelectedSubmissions] = useState<string[]>([]);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const { toast } = useToast();
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const queryClient = useQueryClient();
 
   const { data: scripts = [], isLoading } = useQuery<Submission[]>({
@@ -112,13 +116,17 @@ export default function Submissions() {
     queryKey: ["/api/projects"],
   });
 
+  // For the deadline countdown, which extensions move per team
+  const { data: teams = [] } = useQuery<Team[]>({
+    queryKey: ["/api/episodes"],
+  });
+
   const form = useForm<SubmissionFormData>({
     resolver: zodResolver(scriptFormSchema),
     defaultValues: {
       projectId: "",
       title: "",
       content: "",
-      status: "Draft",
       language: DEFAULT_LANGUAGE,
     },
   });
@@ -176,7 +184,7 @@ export default function Submissions() {
       queryClient.invalidateQueries({ queryKey: ["/api/scripts"] });
       toast({
         title: "Success",
-        description: "Submission deleted successfully",
+        description: "Submission moved to the trash",
       });
     },
     onError: () => {
@@ -217,7 +225,6 @@ export default function Submissions() {
       projectId: script.projectId,
       title: script.title,
       content: script.content || "",
-      status: script.status as "Draft" | "Under Review" | "Approved" | "Published",
       language: script.language || DEFAULT_LANGUAGE,
     });
   };
@@ -299,7 +306,7 @@ export default function Submissions() {
                 </div>
               </div>
 
-              {(user?.role === 'organizer' || user?.role === 'analyzer') && (
+              {can('submissions.create') && (
                 <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
                   <DialogTrigger asChild>
                     <Button size="lg" className={colors.button.primary}>
@@ -340,30 +347,7 @@ export default function Submissions() {
                                 </SelectContent>
                               </Select>
                               <FormMessage />
-                            </FormItem>
-                          )}
-                        />
-
-                        <FormField
-                          control={form.control}
-                          name="status"
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Status</FormLabel>
-                              <Select onValueChange={field.onChange} defaultValue={field.value}>
-                                <FormControl>
-                                  <SelectTrigger>
-                                    <SelectValue placeholder="Select status" />
-                                  </SelectTrigger>
-                                </FormControl>
-                                <SelectContent>
-                                  <SelectItem value="Draft">Draft</SelectItem>
-                                  <SelectItem value="Under Review">Under Review</SelectItem>
-                                  <SelectItem value="Approved">Approved</SelectItem>
-                                  <SelectItem value="Published">Published</SelectItem>
-                                </SelectContent>
-                              </Select>
-                              <FormMessage />
+                              <SubmissionDeadline hackathon={projects.find((project) => project.id === field.value)} />
                             </FormItem>
                           )}
                         />
@@ -391,7 +375,6 @@ export default function Submissions() {
                             <LanguageSelector
                               value={field.value || "en"}
                               onChange={field.onChange}
-                              allowCustom={true}
                             />
                             <FormMessage />
                           </FormItem>
@@ -485,6 +468,7 @@ export default function Submissions() {
                         <SelectItem value="all">All Statuses</SelectItem>
                         <SelectItem value="Draft">Draft</SelectItem>
                         <SelectItem value="Under Review">Under Review</SelectItem>
+                        <SelectItem value="Needs Revision">Needs Revision</SelectItem>
                         <SelectItem value="Approved">Approved</SelectItem>
                         <SelectItem value="Published">Published</SelectItem>
                       </SelectContent>
@@ -546,7 +530,7 @@ export default function Submissions() {
 
                   {/* Action Controls */}
                   <div className="flex items-center gap-2">
-                    {selectedSubmissions.length > 0 && (user?.role === 'organizer' || user?.role === 'analyzer') && (
+                    {selectedSubmissions.length > 0 && can('submissions.manage') && (
                       <div className="flex items-center gap-2 mr-4">
                         <span className="text-sm text-gray-600 dark:text-gray-400">{selectedSubmissions.length} selected</span>
                         <Button
@@ -644,7 +628,7 @@ export default function Submissions() {
                       ? "Try adjusting your search filters" 
                       : "Start creating your first radio script"}
                   </p>
-                  {(!searchTerm && statusFilter === "all" && projectFilter === 'all') && (user?.role === 'organizer' || user?.role === 'analyzer') && (
+                  {(!searchTerm && statusFilter === "all" && projectFilter === 'all') && can('submissions.create') && (
                     <Button 
                       onClick={() => setIsCreateDialogOpen(true)}
                       size="lg"
@@ -666,7 +650,7 @@ export default function Submissions() {
                       <CardContent className="p-4">
                         <div className="flex items-start justify-between mb-3">
                           <div className="flex items-center gap-2">
-                            {(user?.role === 'organizer' || user?.role === 'analyzer') && (
+                            {can('submissions.manage') && (
                               <input
                                 type="checkbox"
                                 checked={selectedSubmissions.includes(script.id)}
@@ -688,7 +672,7 @@ export default function Submissions() {
                             >
                               <Eye className="h-3 w-3 text-green-600" />
                             </Button>
-                            {(user?.role === 'organizer' || user?.role === 'analyzer') && (
+                            {can('submissions.manage') && (
                               <>
                                 <Button
                                   variant="ghost"
@@ -759,7 +743,7 @@ export default function Submissions() {
                         <div className="flex items-center justify-between">
                           <div className="flex items-center space-x-4 flex-1">
                             <div className="flex items-center gap-2">
-                              {(user?.role === 'organizer' || user?.role === 'analyzer') && (
+                              {can('submissions.manage') && (
                                 <input
                                   type="checkbox"
                                   checked={selectedSubmissions.includes(script.id)}
@@ -804,7 +788,7 @@ export default function Submissions() {
                             >
                               <Eye className="h-4 w-4 text-green-600" />
                             </Button>
-                            {(user?.role === 'organizer' || user?.role === 'analyzer') && (
+                            {can('submissions.manage') && (
                               <>
                                 <Button
                                   variant="ghost"
@@ -949,30 +933,6 @@ export default function Submissions() {
                     </FormItem>
                   )}
                 />
-
-                <FormField
-                  control={form.control}
-                  name="status"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Status</FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
-                        <FormControl>
-                          <SelectTrigger>
-                            <SelectValue placeholder="Select status" />
-                          </SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          <SelectItem value="Draft">Draft</SelectItem>
-                          <SelectItem value="Under Review">Under Review</SelectItem>
-                          <SelectItem value="Approved">Approved</SelectItem>
-                          <SelectItem value="Published">Published</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
               </div>
 
               <FormField
@@ -997,7 +957,6 @@ export default function Submissions() {
                     <LanguageSelector
                       value={field.value || "en"}
                       onChange={field.onChange}
-                      allowCustom={true}
                     />
                     <FormMessage />
                   </FormItem>
@@ -1062,6 +1021,16 @@ export default function Submissions() {
                 onSave={() => setViewingSubmission(null)}
               />
             )}
+            {viewingSubmission && (
+              <div className="mt-6 space-y-3">
+                <SubmissionDeadline
+                  hackathon={projects.find((project) => project.id === viewingSubmission.hackathonId)}
+                  team={teams.find((team) => team.id === viewingSubmission.teamId)}
+                />
+                <SubmissionReviewPanel submission={viewingSubmission} onStatusChange={setViewingSubmission} />
+                <SubmissionTranslationsPanel submission={viewingSubmission} />
+              </div>
+            )}
           </div>
         </DialogContent>
       </Dialog>
@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useRoute } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Download, FileText, Lock, AlertCircle } from "lucide-react";
+import { decodeFileName } from "@/utils/textUtils";
+
+// Mirrors GET /api/share/:token in server/routes-share-links.ts
+interface SharedFileInfo {
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  label: string | null;
+  expiresAt: string;
+  requiresPassword: boolean;
+  downloadsRemaining: number | null;
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes === 0) return "0 Bytes";
+  const k = 1024;
+  const sizes = ["Bytes", "KB", "MB", "GB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+}
+
+// Public landing page for share links; works without signing in
+export default function SharedFilePage() {
+  const [, params] = useRoute("/share/:token");
+  const token = params?.token ?? "";
+  const [password, setPassword] = useState("");
+  const [unlockError, setUnlockError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const { data: info, error, isLoading } = useQuery<SharedFileInfo>({
+    queryKey: ["/api/share", token],
+    queryFn: async () => {
+      const response = await fetch(`/api/share/${encodeURIComponent(token)}`);
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || "This share link is not available");
+      }
+      return response.json();
+    },
+    enabled: !!token,
+    retry: false,
+  });
+
+  const handleDownload = async () => {
+    setUnlockError(null);
+    setIsUnlocking(true);
+    try {
+      const response = await fetch(`/api/share/${encodeURIComponent(token)}/unlock`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password }),
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(body.message || "Could not start the download");
+      // Let the browser stream the file straight to disk
+      window.location.href = body.downloadUrl;
+    } catch (err) {
+      setUnlockError((err as Error).message);
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-sky-50 to-rose-50 dark:from-gray-900 dark:to-gray-800 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Shared file
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading...</p>
+          ) : error || !info ? (
+            <div className="flex items-start gap-2 text-destructive">
+              <AlertCircle className="h-5 w-5 shrink-0" />
+              <p>{(error as Error | null)?.message || "This share link is not available"}</p>
+            </div>
+          ) : (
+            <>
+              <div>
+                <p className="font-medium break-all">{decodeFileName(info.fileName)}</p>
+                <p className="text-sm text-muted-foreground">
+                  {formatFileSize(info.fileSize)} • available until {new Date(info.expiresAt).toLocaleString()}
+                  {info.downloadsRemaining !== null && ` • ${info.downloadsRemaining} download${info.downloadsRemaining === 1 ? "" : "s"} left`}
+                </p>
+              </div>
+              {info.requiresPassword && (
+                <div className="space-y-1">
+                  <label htmlFor="share-password" className="text-sm font-medium flex items-center gap-1">
+                    <Lock className="h-3 w-3" />
+                    This file is password protected
+                  </label>
+                  <Input
+                    id="share-password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleDownload()}
+                  />
+                </div>
+              )}
+              {unlockError && <p className="text-sm text-destructive">{unlockError}</p>}
+              <Button
+                className="w-full"
+                onClick={handleDownload}
+                disabled={isUnlocking || (info.requiresPassword && !password)}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                {isUnlocking ? "Preparing download..." : "Download"}
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useRoute } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertCircle, ArrowLeft, Calendar, ExternalLink, Github, Trophy, Gift, ScrollText } from "lucide-react";
+import { getLanguageName } from "@shared/languages";
+
+// Public, read-only hackathon pages; works without signing in.
+// Mirrors GET /api/showcase and /api/showcase/:id in server/routes-showcase.ts
+
+interface ShowcaseListItem {
+  id: string;
+  name: string;
+  description: string | null;
+  prizePool: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  hasResults: boolean;
+}
+
+interface Showcase {
+  hackathon: {
+    id: string;
+    name: string;
+    description: string | null;
+    prizePool: string | null;
+    rulesDescription: string | null;
+    startDate: string | null;
+    endDate: string | null;
+    submissionDeadline: string | null;
+    isPublic: boolean;
+  };
+  submissions: {
+    id: string;
+    title: string;
+    description: string;
+    submissionType: string;
+    language: string;
+    githubLink: string | null;
+    demoLink: string | null;
+    teamName: string | null;
+    submittedAt: string | null;
+  }[];
+  leaderboard: {
+    rank: number;
+    submissionId: string;
+    title: string;
+    teamName: string | null;
+    score: number;
+  }[] | null;
+}
+
+async function fetchShowcase<T>(url: string, fallback: string): Promise<T> {
+  const response = await fetch(url, { credentials: "include" });
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.message || fallback);
+  }
+  return response.json();
+}
+
+function formatDateRange(start: string | null, end: string | null): string | null {
+  if (!start && !end) return null;
+  const format = (value: string) => new Date(value).toLocaleDateString();
+  if (start && end) return `${format(start)} – ${format(end)}`;
+  return start ? `From ${format(start)}` : `Until ${format(end!)}`;
+}
+
+// Links come from participants; only follow web addresses
+function safeHref(url: string | null): string | null {
+  return url && /^https?:\/\//i.test(url) ? url : null;
+}
+
+function ShowcaseIndex() {
+  const { data: hackathons = [], error, isLoading } = useQuery<ShowcaseListItem[]>({
+    queryKey: ["/api/showcase"],
+    queryFn: () => fetchShowcase("/api/showcase", "Failed to load the showcase"),
+    retry: false,
+  });
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-10 space-y-6">
+      <h1 className="text-3xl font-bold">Hackathon showcase</h1>
+      {isLoading ? (
+        <p className="text-muted-foreground">Loading...</p>
+      ) : error ? (
+        <p className="text-destructive">{(error as Error).message}</p>
+      ) : hackathons.length === 0 ? (
+        <p className="text-muted-foreground">No hackathons have been published yet</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {hackathons.map((hackathon) => (
+            <Link key={hackathon.id} href={`/showcase/${hackathon.id}`}>
+              <Card className="h-full cursor-pointer hover:shadow-lg transition-shadow">
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between gap-2">
+                    <span>{hackathon.name}</span>
+                    {hackathon.hasResults && (
+                      <Badge variant="secondary" className="gap-1 shrink-0">
+                        <Trophy className="h-3 w-3" />
+                        Results
+                      </Badge>
+                    )}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  {formatDateRange(hackathon.startDate, hackathon.endDate) && (
+                    <p className="flex items-center gap-2 text-muted-foreground">
+                      <Calendar className="h-4 w-4" />
+                      {formatDateRange(hackathon.startDate, hackathon.endDate)}
+                    </p>
+                  )}
+                  {hackathon.description && <p className="line-clamp-3">{hackathon.description}</p>}
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function HackathonShowcase({ id }: { id: string }) {
+  const { data: showcase, error, isLoading } = useQuery<Showcase>({
+    queryKey: ["/api/showcase", id],
+    queryFn: () => fetchShowcase(`/api/showcase/${encodeURIComponent(id)}`, "This hackathon has no public page"),
+    retry: false,
+  });
+
+  if (isLoading) {
+    return <p className="max-w-5xl mx-auto px-4 py-10 text-muted-foreground">Loading...</p>;
+  }
+  if (error || !showcase) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 py-10 flex items-start gap-2 text-destructive">
+        <AlertCircle className="h-5 w-5 shrink-0" />
+        <p>{(error as Error | null)?.message || "This hackathon has no public page"}</p>
+      </div>
+    );
+  }
+
+  const { hackathon, submissions, leaderboard } = showcase;
+  const dates = formatDateRange(hackathon.startDate, hackathon.endDate);
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-10 space-y-8">
+      <div className="space-y-2">
+        <Link href="/showcase">
+          <Button variant="ghost" size="sm" className="px-0">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            All hackathons
+          </Button>
+        </Link>
+        <div className="flex items-center gap-3">
+          <h1 className="text-3xl font-bold">{hackathon.name}</h1>
+          {!hackathon.isPublic && <Badge variant="outline">Preview: not public yet</Badge>}
+        </div>
+        {dates && (
+          <p className="flex items-center gap-2 text-muted-foreground">
+            <Calendar className="h-4 w-4" />
+            {dates}
+          </p>
+        )}
+        {hackathon.description && <p className="whitespace-pre-line">{hackathon.description}</p>}
+      </div>
+
+      {(hackathon.prizePool || hackathon.rulesDescription) && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {hackathon.prizePool && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <Gift className="h-5 w-5" />
+                  Prizes
+                </CardTitle>
+              </CardHeader>
+              <CardContent>{hackathon.prizePool}</CardContent>
+            </Card>
+          )}
+          {hackathon.rulesDescription && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <ScrollText className="h-5 w-5" />
+                  Rules
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="whitespace-pre-line text-sm">{hackathon.rulesDescription}</CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+
+      {leaderboard && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Trophy className="h-5 w-5 text-amber-500" />
+              Leaderboard
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {leaderboard.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No results to show</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Rank</TableHead>
+                    <TableHead>Submission</TableHead>
+                    <TableHead>Team</TableHead>
+                    <TableHead className="text-right">Score</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {leaderboard.map((entry) => (
+                    <TableRow key={entry.submissionId}>
+                      <TableCell className="font-semibold">#{entry.rank}</TableCell>
+                      <TableCell>{entry.title}</TableCell>
+                      <TableCell>{entry.teamName ?? "—"}</TableCell>
+                      <TableCell className="text-right">{entry.score.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="space-y-4">
+        <h2 className="text-2xl font-semibold">Submissions</h2>
+        {submissions.length === 0 ? (
+          <p className="text-muted-foreground">No submissions have been published yet</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {submissions.map((submission) => {
+              const github = safeHref(submission.githubLink);
+              const demo = safeHref(submission.demoLink);
+              return (
+                <Card key={submission.id}>
+                  <CardHeader>
+                    <CardTitle className="text-lg">{submission.title}</CardTitle>
+                    <div className="flex flex-wrap gap-2">
+                      {submission.teamName && <Badge variant="secondary">{submission.teamName}</Badge>}
+                      <Badge variant="outline">{submission.submissionType}</Badge>
+                      <Badge variant="outline">{getLanguageName(submission.language)}</Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <p className="text-sm whitespace-pre-line line-clamp-6">{submission.description}</p>
+                    {(github || demo) && (
+                      <div className="flex gap-2">
+                        {github && (
+                          <a href={github} target="_blank" rel="noopener noreferrer">
+                            <Button variant="outline" size="sm">
+                              <Github className="h-4 w-4 mr-1" />
+                              Code
+                            </Button>
+                          </a>
+                        )}
+                        {demo && (
+                          <a href={demo} target="_blank" rel="noopener noreferrer">
+                            <Button variant="outline" size="sm">
+                              <ExternalLink className="h-4 w-4 mr-1" />
+                              Demo
+                            </Button>
+                          </a>
+                        )}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function ShowcasePage() {
+  const [isHackathon, params] = useRoute("/showcase/:id");
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-sky-50 to-rose-50 dark:from-gray-900 dark:to-gray-800">
+      {isHackathon && params?.id ? <HackathonShowcase id={params.id} /> : <ShowcaseIndex />}
+    </div>
+  );
+}
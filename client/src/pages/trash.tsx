@@ -0,0 +1,254 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { colors, getCardStyle, getGradientStyle } from "@/lib/colors";
+import { decodeFileName } from "@/utils/textUtils";
+import { Trash2, RotateCcw, Loader2 } from "lucide-react";
+
+// Deleted hackathons, teams, submissions, folders and files waiting out the
+// retention window (server/routes-trash.ts)
+
+type TrashEntityType = "hackathons" | "teams" | "submissions" | "folders" | "files";
+
+interface TrashEntry {
+  id: string;
+  entityType: TrashEntityType;
+  entityId: string;
+  name: string;
+  itemCounts: Record<TrashEntityType, number>;
+  fileBytes: number;
+  deletedBy: string | null;
+  deletedByName: string | null;
+  deletedAt: string;
+  expiresAt: string;
+}
+
+interface TrashResponse {
+  retentionDays: number;
+  entries: TrashEntry[];
+}
+
+const TYPE_LABELS: Record<TrashEntityType, string> = {
+  hackathons: "Hackathon",
+  teams: "Team",
+  submissions: "Submission",
+  folders: "Folder",
+  files: "File",
+};
+
+const COUNT_LABELS: [TrashEntityType, string, string][] = [
+  ["teams", "team", "teams"],
+  ["submissions", "submission", "submissions"],
+  ["folders", "folder", "folders"],
+  ["files", "file", "files"],
+];
+
+function formatFileSize(bytes: number): string {
+  if (bytes === 0) return "0 Bytes";
+  const k = 1024;
+  const sizes = ["Bytes", "KB", "MB", "GB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+}
+
+// What else went with the deleted item, e.g. "3 teams, 12 files"
+function describeContents(entry: TrashEntry): string | null {
+  const parts = COUNT_LABELS
+    .filter(([type]) => type !== entry.entityType && entry.itemCounts[type] > 0)
+    .map(([type, singular, plural]) => `${entry.itemCounts[type]} ${entry.itemCounts[type] === 1 ? singular : plural}`);
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
+export default function Trash() {
+  const [purging, setPurging] = useState<TrashEntry | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<TrashResponse>({
+    queryKey: ["/api/trash"],
+    staleTime: 0,
+  });
+  const entries = data?.entries ?? [];
+
+  // Restored content shows up again in every list
+  const invalidateContent = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/episodes"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/scripts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/storage/usage"] });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async (entry: TrashEntry) => {
+      const response = await apiRequest("POST", `/api/trash/${entry.id}/restore`);
+      return response.json();
+    },
+    onSuccess: (_, entry) => {
+      invalidateContent();
+      toast({ title: "Restored", description: `${TYPE_LABELS[entry.entityType]} "${decodeFileName(entry.name)}" is back.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not restore", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (entry: TrashEntry) => {
+      await apiRequest("DELETE", `/api/trash/${entry.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      setPurging(null);
+      toast({ title: "Deleted permanently" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className={`min-h-screen ${getGradientStyle('main')} relative`}>
+      <div className={`relative overflow-hidden ${getCardStyle('accent')} backdrop-blur-sm shadow-lg border-b ${colors.border.accent}`}>
+        <div className={`absolute inset-0 ${getGradientStyle('header')}`}></div>
+        <div className="relative px-6 py-8">
+          <div className="max-w-7xl mx-auto flex items-center space-x-4">
+            <div className="p-3 bg-slate-50 dark:bg-gray-700 rounded-xl border border-slate-200/50 dark:border-gray-600/50">
+              <Trash2 className="h-6 w-6 text-slate-600 dark:text-slate-300" />
+            </div>
+            <div>
+              <h1 className={`text-2xl font-bold ${colors.text.primary} mb-1`}>Trash</h1>
+              <p className="text-slate-600 dark:text-gray-400 text-sm">
+                Deleted items can be restored for {data?.retentionDays ?? 30} days before they are removed for good
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-6 py-8">
+        <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-md border border-gray-200/50 dark:border-gray-700/50 shadow-xl">
+          <CardHeader>
+            <CardTitle className="text-gray-900 dark:text-gray-100">
+              {entries.length} deleted item{entries.length !== 1 ? "s" : ""}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : entries.length === 0 ? (
+              <p className="text-center text-sm text-muted-foreground py-8">The trash is empty</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Also deleted</TableHead>
+                    <TableHead>Deleted</TableHead>
+                    <TableHead>Removed for good</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline">{TYPE_LABELS[entry.entityType]}</Badge>
+                          <span className="font-medium">{decodeFileName(entry.name)}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {describeContents(entry) ?? "Nothing else"}
+                        {entry.fileBytes > 0 && <div className="text-xs">{formatFileSize(entry.fileBytes)} of files</div>}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {formatDistanceToNow(new Date(entry.deletedAt), { addSuffix: true })}
+                        {entry.deletedByName && <div className="text-xs">by {entry.deletedByName}</div>}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {formatDistanceToNow(new Date(entry.expiresAt), { addSuffix: true })}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => restoreMutation.mutate(entry)}
+                          disabled={restoreMutation.isPending}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Restore
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700"
+                          onClick={() => setPurging(entry)}
+                        >
+                          <Trash2 className="h-4 w-4 mr-1" />
+                          Delete forever
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <AlertDialog open={!!purging} onOpenChange={(open) => !open && setPurging(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{purging ? decodeFileName(purging.name) : ""}" permanently?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {purging && describeContents(purging) && `${describeContents(purging)} will be deleted with it. `}
+              This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={(event) => {
+                event.preventDefault();
+                if (purging) purgeMutation.mutate(purging);
+              }}
+              disabled={purgeMutation.isPending}
+            >
+              Delete forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { sql } from "drizzle-orm";
+import { requireDatabase } from "./db";
+
+// Download statistics per hackathon, team, submission, user and file, built
+// with one grouped query each. The 'analytics.aggregate' job stores the
+// snapshot as its result and /api/analytics/* serve from the latest one.
+
+export interface EntityDownloadStats {
+  fileCount: number;
+  downloadCount: number;
+  totalSize: number;
+  uniqueDownloaders: number;
+  lastDownload: string | null;
+}
+
+export interface UserDownloadStats {
+  downloadCount: number;
+  totalDataDownloaded: number;
+  lastDownload: string | null;
+}
+
+export interface FileDownloadStats {
+  downloadCount: number;
+  totalDataDownloaded: number;
+  uniqueDownloaders: number;
+  lastDownload: string | null;
+}
+
+export interface DownloadAnalyticsSnapshot {
+  generatedAt: string;
+  hackathons: Record<string, EntityDownloadStats>;
+  teams: Record<string, EntityDownloadStats>;
+  submissions: Record<string, EntityDownloadStats>;
+  users: Record<string, UserDownloadStats>;
+  files: Record<string, FileDownloadStats>;
+}
+
+// Files are filed under the current entity name or one of the older ones
+const ENTITY_TYPES = {
+  hackathons: ["hackathons", "projects", "project"],
+  teams: ["teams", "episodes", "episode"],
+  submissions: ["submissions", "scripts", "script"],
+} as const;
+
+type Progress = (progress: number, message: string) => Promise<void> | void;
+
+export async function aggregateDownloadAnalytics(onProgress?: Progress): Promise<DownloadAnalyticsSnapshot> {
+  const snapshot: DownloadAnalyticsSnapshot = {
+    generatedAt: new Date().toISOString(),
+    hackathons: {},
+    teams: {},
+    submissions: {},
+    users: {},
+    files: {},
+  };
+
+  await onProgress?.(0, "Aggregating hackathons");
+  snapshot.hackathons = await aggregateEntities(ENTITY_TYPES.hackathons);
+
+  await onProgress?.(20, "Aggregating teams");
+  snapshot.teams = await aggregateEntities(ENTITY_TYPES.teams);
+
+  await onProgress?.(40, "Aggregating submissions");
+  snapshot.submissions = await aggregateEntities(ENTITY_TYPES.submissions);
+
+  await onProgress?.(60, "Aggregating users");
+  snapshot.users = await aggregateUsers();
+
+  await onProgress?.(80, "Aggregating files");
+  snapshot.files = await aggregateFiles();
+
+  return snapshot;
+}
+
+async function aggregateEntities(entityTypes: readonly string[]): Promise<Record<string, EntityDownloadStats>> {
+  const db = requireDatabase();
+  const result = await db.execute(sql`
+    SELECT f.entity_id,
+           count(DISTINCT f.id)::int AS file_count,
+           count(dl.id)::int AS download_count,
+           coalesce(sum(dl.download_size), 0)::bigint AS total_size,
+           count(DISTINCT dl.user_id)::int AS unique_downloaders,
+           max(dl.downloaded_at) AS last_download
+    FROM files f
+    LEFT JOIN download_logs dl ON dl.file_id = f.id
+    WHERE f.entity_type IN (${sql.join(entityTypes.map((type) => sql`${type}`), sql`, `)})
+      AND f.entity_id IS NOT NULL
+    GROUP BY f.entity_id
+  `);
+  const stats: Record<string, EntityDownloadStats> = {};
+  for (const row of result.rows as Record<string, any>[]) {
+    stats[row.entity_id] = {
+      fileCount: row.file_count,
+      downloadCount: row.download_count,
+      totalSize: Number(row.total_size),
+      uniqueDownloaders: row.unique_downloaders,
+      lastDownload: toIsoString(row.last_download),
+    };
+  }
+  return stats;
+}
+
+async function aggregateUsers(): Promise<Record<string, UserDownloadStats>> {
+  const db = requireDatabase();
+  const result = await db.execute(sql`
+    SELECT user_id,
+           count(*)::int AS download_count,
+           coalesce(sum(download_size), 0)::bigint AS total_size,
+           max(downloaded_at) AS last_download
+    FROM download_logs
+    GROUP BY user_id
+  `);
+  const stats: Record<string, UserDownloadStats> = {};
+  for (const row of result.rows as Record<string, any>[]) {
+    stats[row.user_id] = {
+      downloadCount: row.download_count,
+      totalDataDownloaded: Number(row.total_size),
+      lastDownload: toIsoString(row.last_download),
+    };
+  }
+  return stats;
+}
+
+async function aggregateFiles(): Promise<Record<string, FileDownloadStats>> {
+  const db = requireDatabase();
+  const result = await db.execute(sql`
+    SELECT file_id,
+           count(*)::int AS download_count,
+           coalesce(sum(download_size), 0)::bigint AS total_size,
+           count(DISTINCT user_id)::int AS unique_downloaders,
+           max(downloaded_at) AS last_download
+    FROM download_logs
+    GROUP BY file_id
+  `);
+  const stats: Record<string, FileDownloadStats> = {};
+  for (const row of result.rows as Record<string, any>[]) {
+    stats[row.file_id] = {
+      downloadCount: row.download_count,
+      totalDataDownloaded: Number(row.total_size),
+      uniqueDownloaders: row.unique_downloaders,
+      lastDownload: toIsoString(row.last_download),
+    };
+  }
+  return stats;
+}
+
+function toIsoString(value: unknown): string | null {
+  if (!value) return null;
+  return value instanceof Date ? value.toISOString() : new Date(String(value)).toISOString();
+}
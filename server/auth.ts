@@ -3,6 +3,7 @@ import bcrypt from "bcryptjs";
 import { storage } from "./storage";
 import { createAdminNotification } from "./routes-notifications";
 import { isDatabaseAvailable } from "./db";
+import { can } from "@shared/permissions";
 
 export interface AuthenticatedRequest extends Request {
   user?: {
@@ -104,7 +105,7 @@ export const isAdmin = async (req: AuthenticatedRequest, res: Response, next: Ne
 
       // Use database authentication when available
       const user = await storage.getUser((req.session as any).userId);
-      if (user && user.role === 'admin') {
+      if (user && can(user, 'users.manage')) {
         req.user = {
           id: user.id,
           email: user.email,
@@ -0,0 +1,241 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+} from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
+
+// Pluggable storage for file contents. The `files` table only keeps metadata
+// plus a `storageKey`/`storageBackend` pair pointing into one of these stores.
+export interface BlobStore {
+  readonly name: BlobBackendName;
+  put(key: string, data: Buffer | Readable, mimeType?: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  createReadStream(key: string, range?: ByteRange): Promise<Readable>;
+  delete(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+}
+
+export type BlobBackendName = "local" | "s3";
+
+// Inclusive byte offsets, as in an HTTP `Range: bytes=start-end` header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// Local filesystem directory, one file per key
+export class LocalBlobStore implements BlobStore {
+  readonly name = "local" as const;
+
+  constructor(private rootDir: string) {}
+
+  private resolve(key: string): string {
+    const fullPath = path.resolve(this.rootDir, key);
+    if (!fullPath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return fullPath;
+  }
+
+  async put(key: string, data: Buffer | Readable): Promise<void> {
+    const target = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+
+    // Write to a temp file first so readers never see a half-written blob
+    const tempPath = `${target}.${process.pid}.tmp`;
+    if (Buffer.isBuffer(data)) {
+      await fs.promises.writeFile(tempPath, data);
+    } else {
+      await pipeline(data, fs.createWriteStream(tempPath));
+    }
+    await fs.promises.rename(tempPath, target);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return await fs.promises.readFile(this.resolve(key));
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    const target = this.resolve(key);
+    await fs.promises.access(target);
+    return fs.createReadStream(target, range ? { start: range.start, end: range.end } : undefined);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.promises.access(this.resolve(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+// Any S3-compatible service. Set S3_ENDPOINT (and S3_FORCE_PATH_STYLE=true)
+// to point it at a local stand-in such as MinIO for development.
+export class S3BlobStore implements BlobStore {
+  readonly name = "s3" as const;
+  private client: S3Client;
+
+  constructor(private bucket: string, private prefix: string = "") {
+    this.client = new S3Client({
+      region: process.env.S3_REGION || "us-east-1",
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+      credentials: process.env.S3_ACCESS_KEY_ID
+        ? {
+            accessKeyId: process.env.S3_ACCESS_KEY_ID,
+            secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || "",
+          }
+        : undefined,
+    });
+  }
+
+  private objectKey(key: string): string {
+    return this.prefix ? `${this.prefix.replace(/\/+$/, "")}/${key}` : key;
+  }
+
+  async put(key: string, data: Buffer | Readable, mimeType?: string): Promise<void> {
+    if (Buffer.isBuffer(data)) {
+      await this.client.send(new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.objectKey(key),
+        Body: data,
+        ContentType: mimeType,
+      }));
+      return;
+    }
+
+    // Streams have no known length, so send them as a multipart upload
+    await new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.bucket,
+        Key: this.objectKey(key),
+        Body: data,
+        ContentType: mimeType,
+      },
+    }).done();
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return await streamToBuffer(await this.createReadStream(key));
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    const result = await this.client.send(new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: this.objectKey(key),
+      Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+    }));
+    if (!result.Body) {
+      throw new Error(`Blob not found: ${key}`);
+    }
+    return result.Body as Readable;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.bucket,
+      Key: this.objectKey(key),
+    }));
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({
+        Bucket: this.bucket,
+        Key: this.objectKey(key),
+      }));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+async function streamToBuffer(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+const stores = new Map<BlobBackendName, BlobStore>();
+
+// Backend used for new uploads, chosen with FILE_STORAGE_BACKEND (default: local)
+export function getDefaultBlobBackend(): BlobBackendName {
+  return process.env.FILE_STORAGE_BACKEND === "s3" ? "s3" : "local";
+}
+
+export function getBlobStore(backend: string = getDefaultBlobBackend()): BlobStore {
+  const name: BlobBackendName = backend === "s3" ? "s3" : "local";
+  let store = stores.get(name);
+  if (!store) {
+    if (name === "s3") {
+      if (!process.env.S3_BUCKET) {
+        throw new Error("S3_BUCKET must be set when FILE_STORAGE_BACKEND=s3");
+      }
+      store = new S3BlobStore(process.env.S3_BUCKET, process.env.S3_PREFIX);
+    } else {
+      store = new LocalBlobStore(process.env.FILE_STORAGE_DIR || path.resolve("uploads"));
+    }
+    stores.set(name, store);
+  }
+  return store;
+}
+
+// Keys are sharded by the first characters of a random id to keep directories small
+export function generateStorageKey(entityType: string): string {
+  const id = randomUUID();
+  return `${entityType}/${id.slice(0, 2)}/${id}`;
+}
+
+interface StoredFileLocation {
+  storageKey?: string | null;
+  storageBackend?: string | null;
+  fileData?: string | null;
+}
+
+// Reads a file's contents wherever they live. Rows that have not been through
+// the blob migration yet still carry their contents in `file_data`.
+export async function readFileContent(file: StoredFileLocation): Promise<Buffer> {
+  if (file.storageKey) {
+    return await getBlobStore(file.storageBackend || undefined).get(file.storageKey);
+  }
+  if (file.fileData) {
+    return Buffer.from(file.fileData, "base64");
+  }
+  throw new Error("File has no stored contents");
+}
+
+// Streams a file's contents (or one byte range of them) wherever they live
+export async function createFileContentStream(file: StoredFileLocation, range?: ByteRange): Promise<Readable> {
+  if (file.storageKey) {
+    return await getBlobStore(file.storageBackend || undefined).createReadStream(file.storageKey, range);
+  }
+  if (file.fileData) {
+    const buffer = Buffer.from(file.fileData, "base64");
+    return Readable.from(range ? buffer.subarray(range.start, range.end + 1) : buffer);
+  }
+  throw new Error("File has no stored contents");
+}
+
+export async function deleteFileContent(file: StoredFileLocation): Promise<void> {
+  if (file.storageKey) {
+    await getBlobStore(file.storageBackend || undefined).delete(file.storageKey);
+  }
+}
@@ -0,0 +1,174 @@
+// Identifies a file from its first bytes, so uploads can't claim to be
+// something they aren't. Only formats with a reliable signature are
+// recognised; plain text, CSV, source code and the like come back as null.
+
+export const SNIFF_BYTES = 4100;
+
+type Check = (head: Buffer) => string | null;
+
+function startsWith(head: Buffer, bytes: number[] | string, offset = 0): boolean {
+  const expected = typeof bytes === "string" ? Buffer.from(bytes, "latin1") : Buffer.from(bytes);
+  return head.length >= offset + expected.length && head.subarray(offset, offset + expected.length).equals(expected);
+}
+
+// ISO base media (MP4, MOV, M4A, HEIC...): the brand after "ftyp" says which
+function sniffIsoMedia(head: Buffer): string | null {
+  if (!startsWith(head, "ftyp", 4)) return null;
+  const brand = head.subarray(8, 12).toString("latin1");
+  if (brand === "M4A " || brand === "M4B ") return "audio/mp4";
+  if (brand === "qt  ") return "video/quicktime";
+  if (brand.startsWith("3g")) return "video/3gpp";
+  if (brand === "heic" || brand === "heix" || brand === "mif1") return "image/heic";
+  if (brand === "avif") return "image/avif";
+  return "video/mp4";
+}
+
+function sniffRiff(head: Buffer): string | null {
+  if (!startsWith(head, "RIFF")) return null;
+  if (startsWith(head, "WAVE", 8)) return "audio/wav";
+  if (startsWith(head, "WEBP", 8)) return "image/webp";
+  if (startsWith(head, "AVI ", 8)) return "video/x-msvideo";
+  return null;
+}
+
+function sniffMpegAudio(head: Buffer): string | null {
+  if (startsWith(head, "ID3")) return "audio/mpeg";
+  if (head.length < 2 || head[0] !== 0xff) return null;
+  // ADTS (AAC) and MPEG audio frames share the 12-bit sync word
+  if ((head[1] & 0xf6) === 0xf0) return "audio/aac";
+  if ((head[1] & 0xe0) === 0xe0 && (head[1] & 0x06) !== 0) return "audio/mpeg";
+  return null;
+}
+
+function sniffMatroska(head: Buffer): string | null {
+  if (!startsWith(head, [0x1a, 0x45, 0xdf, 0xa3])) return null;
+  return head.subarray(0, 64).includes("webm") ? "video/webm" : "video/x-matroska";
+}
+
+// Markup that a browser would render: HTML pages and SVG (which can carry script)
+function sniffMarkup(head: Buffer): string | null {
+  const text = head.subarray(0, 1024).toString("utf8").replace(/^﻿/, "").trimStart().toLowerCase();
+  const body = text.startsWith("<?xml") ? text.slice(text.indexOf("?>") + 2).trimStart() : text;
+  if (/^(<!--[\s\S]*?-->\s*)*<svg[\s>]/.test(body) || (body.startsWith("<!doctype svg"))) return "image/svg+xml";
+  if (/^<!doctype html|^<html[\s>]|^<head[\s>]|^<script[\s>]/.test(body)) return "text/html";
+  return null;
+}
+
+const CHECKS: Check[] = [
+  (head) => startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) ? "image/png" : null,
+  (head) => startsWith(head, [0xff, 0xd8, 0xff]) ? "image/jpeg" : null,
+  (head) => startsWith(head, "GIF87a") || startsWith(head, "GIF89a") ? "image/gif" : null,
+  (head) => startsWith(head, "II*\0") || startsWith(head, "MM\0*") ? "image/tiff" : null,
+  (head) => startsWith(head, "%PDF-") ? "application/pdf" : null,
+  (head) => startsWith(head, "{\\rtf") ? "application/rtf" : null,
+  (head) => startsWith(head, "PK\x03\x04") || startsWith(head, "PK\x05\x06") ? "application/zip" : null,
+  (head) => startsWith(head, [0x1f, 0x8b]) ? "application/gzip" : null,
+  (head) => startsWith(head, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c]) ? "application/x-7z-compressed" : null,
+  (head) => startsWith(head, "Rar!\x1a\x07") ? "application/vnd.rar" : null,
+  // Legacy Office documents and MSI installers share this container
+  (head) => startsWith(head, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]) ? "application/x-ole-storage" : null,
+  (head) => startsWith(head, "OggS") ? "audio/ogg" : null,
+  (head) => startsWith(head, "fLaC") ? "audio/flac" : null,
+  sniffRiff,
+  sniffIsoMedia,
+  sniffMatroska,
+  sniffMpegAudio,
+  (head) => startsWith(head, "MZ") ? "application/x-msdownload" : null,
+  (head) => startsWith(head, [0x7f, 0x45, 0x4c, 0x46]) ? "application/x-executable" : null,
+  (head) =>
+    [[0xfe, 0xed, 0xfa, 0xce], [0xfe, 0xed, 0xfa, 0xcf], [0xce, 0xfa, 0xed, 0xfe], [0xcf, 0xfa, 0xed, 0xfe], [0xca, 0xfe, 0xba, 0xbe]]
+      .some((magic) => startsWith(head, magic)) ? "application/x-mach-binary" : null,
+  sniffMarkup,
+];
+
+export function sniffContentType(head: Buffer): string | null {
+  for (const check of CHECKS) {
+    const mimeType = check(head);
+    if (mimeType) return mimeType;
+  }
+  return null;
+}
+
+// Other names browsers and OSes use for the same formats
+const ALIASES: Record<string, string> = {
+  "audio/mp3": "audio/mpeg",
+  "audio/mpeg3": "audio/mpeg",
+  "audio/x-mpeg": "audio/mpeg",
+  "audio/x-mp3": "audio/mpeg",
+  "audio/x-wav": "audio/wav",
+  "audio/wave": "audio/wav",
+  "audio/vnd.wave": "audio/wav",
+  "audio/x-flac": "audio/flac",
+  "audio/x-m4a": "audio/mp4",
+  "audio/m4a": "audio/mp4",
+  "audio/x-aac": "audio/aac",
+  "audio/aacp": "audio/aac",
+  "video/x-m4v": "video/mp4",
+  "image/jpg": "image/jpeg",
+  "image/pjpeg": "image/jpeg",
+  "image/x-png": "image/png",
+  "application/x-pdf": "application/pdf",
+  "application/x-zip-compressed": "application/zip",
+  "application/x-gzip": "application/gzip",
+  "application/x-rar-compressed": "application/vnd.rar",
+  "text/rtf": "application/rtf",
+};
+
+export function normalizeMimeType(mimeType: string): string {
+  const base = mimeType.split(";")[0].trim().toLowerCase();
+  return ALIASES[base] ?? base;
+}
+
+// Formats that are a container for other declared types
+const CONTAINERS: Record<string, (declared: string) => boolean> = {
+  "application/zip": (declared) =>
+    declared.startsWith("application/vnd.openxmlformats-officedocument.") ||
+    declared.startsWith("application/vnd.oasis.opendocument.") ||
+    declared.startsWith("application/vnd.ms-") ||
+    ["application/epub+zip", "application/java-archive", "application/vnd.android.package-archive"].includes(declared),
+  "application/x-ole-storage": (declared) =>
+    declared === "application/msword" || declared.startsWith("application/vnd.ms-") || declared === "application/x-msi",
+  "video/mp4": (declared) => ISO_MEDIA.includes(declared),
+  "audio/mp4": (declared) => ISO_MEDIA.includes(declared),
+  "video/quicktime": (declared) => ISO_MEDIA.includes(declared),
+  "video/3gpp": (declared) => ISO_MEDIA.includes(declared),
+  "video/webm": (declared) => ["audio/webm", "video/x-matroska"].includes(declared),
+  "video/x-matroska": (declared) => ["video/webm", "audio/webm", "audio/x-matroska"].includes(declared),
+  "audio/ogg": (declared) => ["video/ogg", "application/ogg", "audio/opus", "audio/vorbis"].includes(declared),
+  "audio/mpeg": (declared) => declared === "audio/aac",
+  "audio/aac": (declared) => declared === "audio/mpeg",
+};
+
+const ISO_MEDIA = ["video/mp4", "audio/mp4", "video/quicktime", "video/3gpp", "video/3gpp2", "audio/3gpp", "audio/aac"];
+
+const GENERIC_TYPES = ["", "application/octet-stream", "binary/octet-stream", "application/unknown"];
+
+export function isGenericMimeType(mimeType: string): boolean {
+  return GENERIC_TYPES.includes(normalizeMimeType(mimeType));
+}
+
+// Whether content sniffed as `detected` may be stored under `declared`
+export function isCompatibleMimeType(declared: string, detected: string): boolean {
+  const declaredType = normalizeMimeType(declared);
+  if (isGenericMimeType(declaredType) || declaredType === detected) return true;
+  return CONTAINERS[detected]?.(declaredType) ?? false;
+}
+
+// Types whose files always carry their signature; if sniffing finds nothing,
+// the file isn't what it says it is
+const SIGNATURE_REQUIRED = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "application/zip",
+  "application/gzip",
+  "audio/flac",
+  "audio/wav",
+  "audio/ogg",
+];
+
+export function requiresSignature(mimeType: string): boolean {
+  return SIGNATURE_REQUIRED.includes(normalizeMimeType(mimeType));
+}
@@ -0,0 +1,93 @@
+import { pool } from "./db";
+import { getBlobStore, generateStorageKey } from "./blob-storage";
+
+// Moves file contents out of the legacy `files.file_data` base64 column into
+// the configured blob store, one row at a time so large files never pile up
+// in memory. Safe to re-run: only rows without a storage key are touched.
+// Used by the `files:migrate-blobs` script and the 'files.migrateBlobs' job.
+
+export interface FileBlobMigrationOptions {
+  dryRun?: boolean;
+  batchSize?: number;
+  onProgress?: (processed: number, total: number) => Promise<void> | void;
+}
+
+export interface FileBlobMigrationResult {
+  total: number;
+  migrated: number;
+  failed: number;
+  movedBytes: number;
+}
+
+export async function migrateFileBlobs(options: FileBlobMigrationOptions = {}): Promise<FileBlobMigrationResult> {
+  const { dryRun = false, batchSize = 50, onProgress } = options;
+  const blobStore = getBlobStore();
+  console.log(`🚀 Migrating file contents to "${blobStore.name}" blob storage${dryRun ? " (dry run)" : ""}`);
+
+  const { rows: [{ count: total }] } = await pool.query(
+    "SELECT count(*)::int AS count FROM files WHERE storage_key IS NULL AND file_data IS NOT NULL"
+  );
+  console.log(`📊 ${total} files still stored in the database`);
+
+  let migrated = 0;
+  let failed = 0;
+  let movedBytes = 0;
+  let processed = 0;
+  let lastId: string | null = null;
+
+  while (true) {
+    // Page through ids only; the base64 payload is fetched per row below
+    const { rows: batch }: { rows: { id: string; entity_type: string }[] } = await pool.query(
+      `SELECT id, entity_type FROM files
+       WHERE storage_key IS NULL AND file_data IS NOT NULL ${lastId ? "AND id > $2" : ""}
+       ORDER BY id LIMIT $1`,
+      lastId ? [batchSize, lastId] : [batchSize]
+    );
+    if (batch.length === 0) break;
+
+    for (const row of batch) {
+      lastId = row.id;
+      processed++;
+      try {
+        const { rows: [record] } = await pool.query(
+          "SELECT file_data, mime_type FROM files WHERE id = $1 AND storage_key IS NULL",
+          [row.id]
+        );
+        if (!record?.file_data) continue;
+
+        const content = Buffer.from(record.file_data, "base64");
+        if (dryRun) {
+          console.log(`   would move ${row.id} (${content.length} bytes)`);
+          migrated++;
+          movedBytes += content.length;
+          continue;
+        }
+
+        const storageKey = generateStorageKey(row.entity_type);
+        await blobStore.put(storageKey, content, record.mime_type);
+
+        const result = await pool.query(
+          `UPDATE files SET storage_key = $2, storage_backend = $3, file_data = NULL, updated_at = NOW()
+           WHERE id = $1 AND storage_key IS NULL`,
+          [row.id, storageKey, blobStore.name]
+        );
+        if (result.rowCount === 0) {
+          // Another run got there first; drop our copy
+          await blobStore.delete(storageKey);
+          continue;
+        }
+
+        migrated++;
+        movedBytes += content.length;
+        console.log(`   ✅ ${row.id} -> ${storageKey} (${content.length} bytes)`);
+      } catch (error) {
+        failed++;
+        console.error(`   ❌ ${row.id}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    await onProgress?.(processed, total);
+  }
+
+  console.log(`\n🎉 Done: ${migrated} migrated, ${failed} failed, ${(movedBytes / 1024 / 1024).toFixed(2)} MB moved`);
+  return { total, migrated, failed, movedBytes };
+}
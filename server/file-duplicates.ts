@@ -0,0 +1,102 @@
+import fs from "fs";
+import { createHash } from "crypto";
+import { storage } from "./storage";
+import type { File } from "@shared/schema";
+
+// Content-addressed duplicate detection. Every upload path hashes the file
+// with SHA-256, stores it in `files.checksum` and asks checkDuplicateUpload()
+// whether the same bytes already live somewhere in the hub. By default the
+// uploader is only warned; set DUPLICATE_UPLOAD_POLICY=block to refuse them.
+
+export type DuplicatePolicy = "warn" | "block";
+
+export interface DuplicateFile {
+  id: string;
+  originalName: string;
+  entityType: string;
+  entityId: string | null;
+  fileSize: number;
+  uploadedBy: string | null;
+  createdAt: Date | null;
+  downloadUrl: string;
+  pageUrl: string;
+}
+
+export interface DuplicateCheck {
+  checksum: string;
+  duplicates: DuplicateFile[];
+  blocked: boolean;
+  message?: string;
+}
+
+// Client page that lists files for each entity type
+const ENTITY_PAGES: Record<string, string> = {
+  hackathons: "/projects",
+  projects: "/projects",
+  teams: "/episodes",
+  episodes: "/episodes",
+  submissions: "/scripts",
+  scripts: "/scripts",
+  colleges: "/radio-stations",
+  "radio-stations": "/radio-stations",
+  users: "/users",
+};
+
+export function getEntityPageUrl(entityType: string): string {
+  return ENTITY_PAGES[entityType] || "/";
+}
+
+export function getDuplicatePolicy(): DuplicatePolicy {
+  return process.env.DUPLICATE_UPLOAD_POLICY === "block" ? "block" : "warn";
+}
+
+export function computeChecksum(content: Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+export async function computeFileChecksum(filePath: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest("hex");
+}
+
+export function toDuplicateFile(file: File): DuplicateFile {
+  return {
+    id: file.id,
+    originalName: file.originalName,
+    entityType: file.entityType,
+    entityId: file.entityId,
+    fileSize: file.fileSize,
+    uploadedBy: file.uploadedBy,
+    createdAt: file.createdAt,
+    downloadUrl: `/api/files/${file.id}/download`,
+    pageUrl: getEntityPageUrl(file.entityType),
+  };
+}
+
+// `excludeIds` leaves out files that aren't really duplicates, such as the
+// file being replaced by a new version of itself
+export async function checkDuplicateChecksum(checksum: string, excludeIds: string[] = []): Promise<DuplicateCheck> {
+  const existing = await storage.getFilesByChecksum(checksum);
+  const duplicates = existing.filter((file) => !excludeIds.includes(file.id)).map(toDuplicateFile);
+  if (duplicates.length === 0) {
+    return { checksum, duplicates, blocked: false };
+  }
+
+  const names = duplicates.slice(0, 3).map((d) => `"${d.originalName}" (${d.entityType})`).join(", ");
+  const blocked = getDuplicatePolicy() === "block";
+  return {
+    checksum,
+    duplicates,
+    blocked,
+    message: blocked
+      ? `This file has already been uploaded: ${names}`
+      : `Identical content already exists: ${names}`,
+  };
+}
+
+export async function checkDuplicateUpload(content: Buffer, excludeIds: string[] = []): Promise<DuplicateCheck> {
+  return await checkDuplicateChecksum(computeChecksum(content), excludeIds);
+}
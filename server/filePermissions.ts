@@ -1,82 +1,25 @@
 import type { User, File } from "@shared/schema";
+import { can, canAccessEntity, type AccessScope } from "@shared/permissions";
+import { storage } from "./storage";
 
-export interface FilePermissions {
-  canView: boolean;
-  canDownload: boolean;
-  canUpload: boolean;
-  canEdit: boolean;
-  canDelete: boolean;
-}
-
-export function getFilePermissions(user: User | undefined): FilePermissions {
-  if (!user) {
-    return {
-      canView: false,
-      canDownload: false,
-      canUpload: false,
-      canEdit: false,
-      canDelete: false,
-    };
-  }
-
-  const role = user.role;
-
-  switch (role) {
-    case 'admin':
-    case 'organizer':
-      return {
-        canView: true,
-        canDownload: true,
-        canUpload: true,
-        canEdit: true,
-        canDelete: true,
-      };
-    case 'editor':
-    case 'analyzer':
-      return {
-        canView: true,
-        canDownload: true,
-        canUpload: true,
-        canEdit: true,
-        canDelete: true,
-      };
-    case 'member':
-    case 'participant':
-      return {
-        canView: true,
-        canDownload: true,
-        canUpload: true,
-        canEdit: false,
-        canDelete: false,
-      };
-    case 'contributor':
-      return {
-        canView: true,
-        canDownload: true,
-        canUpload: true,
-        canEdit: false,
-        canDelete: false,
-      };
-    default:
-      return {
-        canView: true,
-        canDownload: true,
-        canUpload: false,
-        canEdit: false,
-        canDelete: false,
-      };
-  }
-}
-
-export function requireFilePermission(permission: keyof FilePermissions, user: User | undefined): boolean {
-  const permissions = getFilePermissions(user);
-  return permissions[permission];
-}
+// Role rules live in the shared policy so the client applies the same ones
+export {
+  can,
+  getPermissionMap,
+  getFilePermissions,
+  getUserPermissions,
+  requireFilePermission,
+  canAccessHackathon,
+  canAccessTeam,
+  canAccessSubmission,
+  canAccessEntity,
+  canAccessFile,
+  filterAccessibleFiles,
+} from "@shared/permissions";
+export type { Action, FilePermissions, UserPermissions, AccessScope } from "@shared/permissions";
 
 export function canBypassUploadOnce(user: User | undefined): boolean {
-  if (!user) return false;
-  const role = user.role;
-  return role === 'admin' || role === 'organizer' || role === 'analyzer' || role === 'editor';
+  return can(user, 'files.uploadUnlimited');
 }
 
 export function isParticipantOrMember(user: User | undefined): boolean {
@@ -115,6 +58,26 @@ export async function checkUploadOnceViolation(
   return { allowed: true };
 }
 
+// Participants only upload to their own team and its submissions; staff
+// upload anywhere
+export async function checkUploadMembership(
+  user: User | undefined,
+  entityType: string,
+  entityId: string
+): Promise<{ allowed: boolean; message?: string }> {
+  if (!user) {
+    return { allowed: false, message: "User not authenticated" };
+  }
+  if (!isParticipantOrMember(user) || !['teams', 'episodes', 'submissions', 'scripts'].includes(entityType)) {
+    return { allowed: true };
+  }
+
+  if (!canAccessEntity(await getAccessScope(user), entityType, entityId)) {
+    return { allowed: false, message: "Only members of the team can upload files here" };
+  }
+  return { allowed: true };
+}
+
 export async function checkEditDeletePermission(
   user: User | undefined,
   file: File
@@ -135,4 +98,63 @@ export async function checkEditDeletePermission(
   }
 
   return { allowed: true };
-}
\ No newline at end of file
+}
+
+// Per-entity access control: build the AccessScope the shared canAccess*
+// predicates check against
+export function hasFullEntityAccess(user: User | undefined): boolean {
+  return can(user, 'entities.viewAll');
+}
+
+export function isOrganizer(user: User | undefined): boolean {
+  return can(user, 'files.viewPrivate');
+}
+
+export async function getAccessScope(user: User | undefined): Promise<AccessScope | null> {
+  if (!user) return null;
+
+  const scope: AccessScope = {
+    userId: user.id,
+    userEmail: user.email,
+    fullAccess: hasFullEntityAccess(user),
+    isOrganizer: isOrganizer(user),
+    hackathonIds: null,
+    teamIds: [],
+    submissionIds: [],
+    collegeIds: [],
+  };
+  if (scope.fullAccess) return scope;
+
+  // College accounts only see hackathons they were granted free access to,
+  // and their own students' teams within those hackathons
+  const colleges = await storage.getRadioStationsByUser(user.id);
+  scope.collegeIds = colleges.map((college) => college.id);
+  const teamIds = new Set<string>();
+  if (scope.collegeIds.length > 0) {
+    const grants = await storage.getFreeProjectAccessByRadioStations(scope.collegeIds);
+    const hackathonIds = grants.map((grant) => grant.hackathonId);
+    scope.hackathonIds = hackathonIds;
+    const collegeTeams = await storage.getEpisodesByRadioStations(scope.collegeIds);
+    collegeTeams
+      .filter((team) => hackathonIds.includes(team.hackathonId))
+      .forEach((team) => teamIds.add(team.id));
+  }
+
+  const memberTeams = await storage.getEpisodesForUser(user.id);
+  memberTeams.forEach((team) => teamIds.add(team.id));
+  scope.teamIds = Array.from(teamIds);
+
+  const submissionIds = new Set<string>();
+  (await storage.getScriptsByAuthor(user.id)).forEach((submission) => submissionIds.add(submission.id));
+  (await storage.getScriptsByEpisodes(scope.teamIds)).forEach((submission) => submissionIds.add(submission.id));
+  scope.submissionIds = Array.from(submissionIds);
+
+  return scope;
+}
+
+// Scope for whoever made the request; works on routes with or without isAuthenticated
+export async function getRequestAccessScope(req: any): Promise<AccessScope | null> {
+  const userId = req.user?.id || req.session?.userId;
+  if (!userId) return null;
+  return await getAccessScope(await storage.getUser(userId));
+}
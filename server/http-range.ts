@@ -0,0 +1,81 @@
+import type { Request } from "express";
+import type { ByteRange } from "./blob-storage";
+
+// Helpers for HTTP range and conditional requests on file downloads
+
+export type RangeResult =
+  | { type: "full" }
+  | { type: "partial"; range: ByteRange }
+  | { type: "unsatisfiable" };
+
+// Only single ranges are served; multi-range requests fall back to the whole
+// file, which RFC 9110 allows and every media player handles.
+export function parseRangeHeader(header: string | undefined, size: number): RangeResult {
+  if (!header) return { type: "full" };
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) return { type: "full" };
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    const suffixLength = parseInt(match[2], 10);
+    if (suffixLength === 0) return { type: "unsatisfiable" };
+    start = Math.max(size - suffixLength, 0);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+  }
+
+  if (start >= size || start > end) return { type: "unsatisfiable" };
+  // A range covering the whole file still gets a 206; Safari insists on it
+  return { type: "partial", range: { start, end } };
+}
+
+interface CacheableFile {
+  id: string;
+  checksum?: string | null;
+  fileSize?: number | null;
+  updatedAt?: Date | string | null;
+}
+
+// Strong ETag when we know the content hash, weak one from metadata otherwise
+export function buildETag(file: CacheableFile): string {
+  if (file.checksum) return `"${file.checksum}"`;
+  const modified = file.updatedAt ? new Date(file.updatedAt).getTime() : 0;
+  return `W/"${file.id}-${file.fileSize ?? 0}-${modified}"`;
+}
+
+function etagMatches(header: string, etag: string): boolean {
+  if (header.trim() === "*") return true;
+  const bare = etag.replace(/^W\//, "");
+  return header.split(",").some((candidate) => candidate.trim().replace(/^W\//, "") === bare);
+}
+
+// If-None-Match takes precedence over If-Modified-Since, per RFC 9110
+export function isNotModified(req: Request, etag: string, lastModified?: Date | null): boolean {
+  const ifNoneMatch = req.get("If-None-Match");
+  if (ifNoneMatch) return etagMatches(ifNoneMatch, etag);
+
+  const ifModifiedSince = req.get("If-Modified-Since");
+  if (ifModifiedSince && lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP dates have one-second resolution
+    return !isNaN(since) && Math.floor(lastModified.getTime() / 1000) * 1000 <= since;
+  }
+  return false;
+}
+
+// A Range request guarded by If-Range is only honoured if the file is unchanged
+export function isRangeStillValid(req: Request, etag: string, lastModified?: Date | null): boolean {
+  const ifRange = req.get("If-Range");
+  if (!ifRange) return true;
+  if (ifRange.startsWith('"') || ifRange.startsWith("W/")) {
+    // Weak validators never satisfy If-Range
+    return !etag.startsWith("W/") && ifRange.trim() === etag;
+  }
+  const date = Date.parse(ifRange);
+  return !isNaN(date) && !!lastModified && Math.floor(lastModified.getTime() / 1000) * 1000 <= date;
+}
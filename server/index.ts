@@ -62,6 +62,12 @@ app.use((req, res, next) => {
     const { registerRoutes } = await import("./routes");
     const server = await registerRoutes(app);
 
+    // Background jobs: handlers first, then the worker that runs them
+    const { registerJobHandlers } = await import("./jobs");
+    const { startJobWorker } = await import("./job-queue");
+    registerJobHandlers();
+    startJobWorker();
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
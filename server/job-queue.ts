@@ -0,0 +1,200 @@
+import os from "os";
+import { randomUUID } from "crypto";
+import { storage, getStorage, DatabaseStorage } from "./storage";
+import type { BackgroundJob } from "@shared/schema";
+
+// Postgres-backed background jobs. Handlers are registered by type (see
+// server/jobs.ts) and the worker started from server/index.ts polls
+// background_jobs, runs up to JOB_CONCURRENCY jobs at a time (default 1) and
+// retries failures with exponential backoff. Handlers report progress to the
+// job row, which the client polls through GET /api/jobs/:id.
+
+export interface JobContext {
+  job: BackgroundJob;
+  reportProgress: (progress: number, message?: string) => Promise<void>;
+}
+
+export interface JobDefinition {
+  type: string;
+  label: string; // Shown on the admin jobs page
+  manual?: boolean; // Admins may start it from the jobs page
+  maxAttempts?: number;
+  intervalMs?: number; // Queued again this long after its last successful run
+  handler: (payload: Record<string, unknown>, context: JobContext) => Promise<unknown>;
+}
+
+export type JobTypeInfo = Omit<JobDefinition, "handler">;
+
+export interface EnqueueOptions {
+  createdBy?: string | null;
+  dedupeKey?: string; // Reuse a queued or running job with the same key
+  runAt?: Date;
+}
+
+const CONCURRENCY = Math.max(1, parseInt(process.env.JOB_CONCURRENCY || "") || 1);
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || "") || 5000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+// A running job with no heartbeat for this long lost its worker
+const STALE_AFTER_MS = 10 * 60 * 1000;
+const MAINTENANCE_INTERVAL_MS = 5 * 60 * 1000;
+const RETENTION_MS = (parseInt(process.env.JOB_RETENTION_DAYS || "") || 7) * 24 * 60 * 60 * 1000;
+
+const definitions = new Map<string, JobDefinition>();
+const workerId = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+let started = false;
+let running = 0;
+let polling = false;
+let pollAgain = false;
+let pollTimer: NodeJS.Timeout | undefined;
+
+export function registerJobHandler(definition: JobDefinition) {
+  definitions.set(definition.type, definition);
+}
+
+export function getJobTypes(): JobTypeInfo[] {
+  return Array.from(definitions.values()).map(({ handler, ...info }) => info);
+}
+
+export function getJobType(type: string): JobTypeInfo | undefined {
+  const definition = definitions.get(type);
+  if (!definition) return undefined;
+  const { handler, ...info } = definition;
+  return info;
+}
+
+export async function enqueueJob(
+  type: string,
+  payload: Record<string, unknown> = {},
+  options: EnqueueOptions = {},
+): Promise<BackgroundJob> {
+  const definition = definitions.get(type);
+  if (!definition) {
+    throw new Error(`Unknown job type: ${type}`);
+  }
+  const job = await storage.enqueueJob({
+    type,
+    payload,
+    createdBy: options.createdBy ?? null,
+    dedupeKey: options.dedupeKey ?? null,
+    runAt: options.runAt ?? new Date(),
+    maxAttempts: definition.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+  });
+  // Jobs queued from this process start right away; others wait for the next poll
+  if (started) schedulePoll(0);
+  return job;
+}
+
+// 30s, 1m, 2m, 4m... capped at an hour, with jitter so retries don't bunch up
+export function getRetryDelay(attempts: number): number {
+  const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1));
+  return delay + Math.round(Math.random() * delay * 0.2);
+}
+
+export function startJobWorker() {
+  if (started) return;
+  if (!(getStorage() instanceof DatabaseStorage)) {
+    console.log("⚠️  No database - background jobs are disabled");
+    return;
+  }
+  started = true;
+  console.log(`⚙️  Job worker ${workerId} started (concurrency ${CONCURRENCY})`);
+
+  runMaintenance();
+  setInterval(runMaintenance, MAINTENANCE_INTERVAL_MS).unref();
+  schedulePoll(0);
+}
+
+function schedulePoll(delay: number) {
+  if (pollTimer) clearTimeout(pollTimer);
+  pollTimer = setTimeout(poll, delay);
+  pollTimer.unref();
+}
+
+async function poll() {
+  if (polling) {
+    pollAgain = true;
+    return;
+  }
+  polling = true;
+  try {
+    while (running < CONCURRENCY) {
+      const job = await storage.claimNextJob(workerId, Array.from(definitions.keys()));
+      if (!job) break;
+      running++;
+      runJob(job).finally(() => {
+        running--;
+        schedulePoll(0);
+      });
+    }
+  } catch (error) {
+    console.error("[JOBS] Polling failed:", error);
+  } finally {
+    polling = false;
+  }
+  schedulePoll(pollAgain ? 0 : POLL_INTERVAL_MS);
+  pollAgain = false;
+}
+
+async function runJob(job: BackgroundJob) {
+  const definition = definitions.get(job.type)!;
+  let progress = 0;
+  let message: string | undefined;
+  const context: JobContext = {
+    job,
+    reportProgress: async (value, text) => {
+      progress = value;
+      message = text;
+      await storage.updateJobProgress(job.id, workerId, value, text);
+    },
+  };
+
+  // Handlers that go quiet for a while still have to look alive
+  const heartbeat = setInterval(() => {
+    storage.updateJobProgress(job.id, workerId, progress, message).catch(() => {});
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+
+  const startTime = Date.now();
+  try {
+    const result = await definition.handler(job.payload ?? {}, context);
+    await storage.completeJob(job.id, workerId, result ?? null);
+    console.log(`[JOBS] ${job.type} ${job.id} completed in ${Date.now() - startTime}ms`);
+  } catch (error) {
+    const retryAt = job.attempts < job.maxAttempts ? new Date(Date.now() + getRetryDelay(job.attempts)) : null;
+    console.error(
+      `[JOBS] ${job.type} ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts})${retryAt ? `, retrying at ${retryAt.toISOString()}` : ""}:`,
+      error,
+    );
+    const reason = error instanceof Error ? error.message : String(error);
+    await storage.failJob(job.id, workerId, reason || "Job failed", retryAt)
+      .catch((failError) => console.error(`[JOBS] Could not record failure of ${job.id}:`, failError));
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+function runMaintenance() {
+  const now = Date.now();
+  storage.requeueStaleJobs(new Date(now - STALE_AFTER_MS))
+    .then((count) => count > 0 && console.log(`[JOBS] Requeued ${count} jobs left running by a stopped worker`))
+    .catch((error) => console.error("[JOBS] Requeueing stale jobs failed:", error));
+  storage.deleteFinishedJobs(new Date(now - RETENTION_MS))
+    .catch((error) => console.error("[JOBS] Deleting old jobs failed:", error));
+  for (const definition of Array.from(definitions.values())) {
+    if (!definition.intervalMs) continue;
+    scheduleRecurringJob(definition, now)
+      .catch((error) => console.error(`[JOBS] Scheduling ${definition.type} failed:`, error));
+  }
+}
+
+// The dedupe key keeps a run that is already queued or running from doubling up
+async function scheduleRecurringJob(definition: JobDefinition, now: number) {
+  const latest = await storage.getLatestCompletedJob(definition.type);
+  const lastRun = latest?.finishedAt ? latest.finishedAt.getTime() : 0;
+  if (now - lastRun < definition.intervalMs!) return;
+  await enqueueJob(definition.type, {}, { dedupeKey: definition.type });
+}
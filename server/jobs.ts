@@ -0,0 +1,99 @@
+import { storage } from "./storage";
+import { registerJobHandler } from "./job-queue";
+import { aggregateDownloadAnalytics } from "./analytics-aggregation";
+import { migrateFileBlobs } from "./file-blob-migration";
+import { purgeExpiredTrash } from "./trash";
+
+// Every background job type the app knows about. Types marked manual can be
+// started by admins from the jobs page; the rest are queued by the app itself.
+// Types with an intervalMs are also queued by the worker on that schedule.
+
+export const JOB_TYPES = {
+  mediaProcess: "media.process",
+  cleanupDownloadLogs: "downloadLogs.cleanup",
+  aggregateAnalytics: "analytics.aggregate",
+  migrateFileBlobs: "files.migrateBlobs",
+  rebuildSearchIndex: "search.reindex",
+  purgeTrash: "trash.purge",
+  backfillTeamMembers: "teams.backfillMembers",
+} as const;
+
+export function registerJobHandlers() {
+  registerJobHandler({
+    type: JOB_TYPES.mediaProcess,
+    label: "Generate media preview",
+    handler: async (payload) => {
+      const fileId = String(payload.fileId);
+      await storage.processFileMedia(fileId);
+      const file = await storage.getFile(fileId);
+      return { fileId, status: file?.processingStatus ?? "deleted" };
+    },
+  });
+
+  registerJobHandler({
+    type: JOB_TYPES.cleanupDownloadLogs,
+    label: "Clean up download logs",
+    manual: true,
+    handler: async (payload, { reportProgress }) => {
+      await reportProgress(0, "Matching download logs to user accounts");
+      return { updated: await storage.cleanupDownloadLogs() };
+    },
+  });
+
+  registerJobHandler({
+    type: JOB_TYPES.aggregateAnalytics,
+    label: "Refresh download analytics",
+    manual: true,
+    handler: async (payload, { reportProgress }) => {
+      return await aggregateDownloadAnalytics(reportProgress);
+    },
+  });
+
+  registerJobHandler({
+    type: JOB_TYPES.migrateFileBlobs,
+    label: "Move legacy file data to blob storage",
+    manual: true,
+    handler: async (payload, { reportProgress }) => {
+      return await migrateFileBlobs({
+        dryRun: payload.dryRun === true,
+        onProgress: (processed, total) =>
+          reportProgress(total > 0 ? (processed / total) * 100 : 100, `${processed} of ${total} files`),
+      });
+    },
+  });
+
+  registerJobHandler({
+    type: JOB_TYPES.rebuildSearchIndex,
+    label: "Rebuild search index",
+    manual: true,
+    maxAttempts: 1,
+    handler: async (payload, { reportProgress }) => {
+      await reportProgress(0, "Indexing submissions and files");
+      return await storage.rebuildSearchIndex();
+    },
+  });
+
+  registerJobHandler({
+    type: JOB_TYPES.purgeTrash,
+    label: "Purge expired trash",
+    manual: true,
+    intervalMs: 60 * 60 * 1000,
+    handler: async (payload, { reportProgress }) => {
+      return await purgeExpiredTrash((processed, total) =>
+        reportProgress(total > 0 ? (processed / total) * 100 : 100, `${processed} of ${total} entries`),
+      );
+    },
+  });
+
+  // Teams created before rosters existed only know their leader
+  registerJobHandler({
+    type: JOB_TYPES.backfillTeamMembers,
+    label: "Add team leaders to team rosters",
+    manual: true,
+    maxAttempts: 1,
+    handler: async (payload, { reportProgress }) => {
+      await reportProgress(0, "Adding leaders to their teams");
+      return { added: await storage.backfillTeamLeaders() };
+    },
+  });
+}
@@ -0,0 +1,273 @@
+import type { JudgeScore, Project, RubricCriterion, Script, User } from "@shared/schema";
+import { ROLES, can } from "@shared/permissions";
+import { normalizeSubmissionStatus } from "@shared/submission-review";
+import { storage, type RubricCriterionInput, type ScoreEntry } from "./storage";
+import { createUserNotifications } from "./routes-notifications";
+
+// Rubric judging: organizers give a hackathon weighted criteria and assign
+// judges, each judge scores every criterion of every submission, and closing
+// scoring combines the judges' totals into submissions.evaluationScore.
+// Until then a judge only ever sees their own scores.
+
+export type JudgingOutcome<T> =
+  | { ok: true; value: T }
+  | { ok: false; status: 400 | 403 | 409; message: string };
+
+// A judge's weighted total for one submission, 0-100
+export interface JudgeTotal {
+  judgeId: string;
+  submissionId: string;
+  total: number;
+  normalized: number; // After removing the judge's bias, see normalizeJudgeTotals
+}
+
+export interface SubmissionResult {
+  submissionId: string;
+  judgeCount: number; // Judges who scored every criterion
+  rawScore: number | null; // Mean of their weighted totals
+  score: number | null; // Mean of their normalized totals; the ranking uses this
+  rank: number | null;
+  criterionAverages: Record<string, number>; // criterionId -> mean score
+  judgeTotals: JudgeTotal[];
+}
+
+// Judges with fewer totals than this aren't normalized: one or two scores
+// say nothing about how strict they are
+const MIN_TOTALS_FOR_NORMALIZATION = 3;
+
+// Drafts aren't judged, and translations share their original's score
+export function isJudgeable(submission: Script): boolean {
+  return submission.isOriginal !== false && normalizeSubmissionStatus(submission.status) !== "Draft";
+}
+
+// Roles that may be assigned as judges
+export function getJudgeRoles(): string[] {
+  return ROLES.filter((role) => can({ role }, "submissions.evaluate"));
+}
+
+export async function isHackathonJudge(hackathonId: string, user: User | undefined): Promise<boolean> {
+  if (!user || !can(user, "submissions.evaluate")) return false;
+  const judges = await storage.getHackathonJudges(hackathonId);
+  return judges.some((judge) => judge.judgeId === user.id);
+}
+
+export async function updateRubric(
+  hackathon: Project,
+  criteria: RubricCriterionInput[],
+): Promise<JudgingOutcome<RubricCriterion[]>> {
+  if (hackathon.scoringClosedAt) {
+    return { ok: false, status: 409, message: "Reopen scoring before changing the rubric" };
+  }
+  const current = await storage.getRubricCriteria(hackathon.id);
+  const unknown = criteria.find((criterion) => criterion.id && !current.some((existing) => existing.id === criterion.id));
+  if (unknown) {
+    return { ok: false, status: 400, message: `Criterion ${unknown.id} is not part of this rubric` };
+  }
+  return { ok: true, value: await storage.replaceRubricCriteria(hackathon.id, criteria) };
+}
+
+// Only users whose role can evaluate may be assigned
+export async function assignJudges(
+  hackathon: Project,
+  judgeIds: string[],
+  actor: User,
+): Promise<JudgingOutcome<string[]>> {
+  const ids = Array.from(new Set(judgeIds));
+  for (const judgeId of ids) {
+    const judge = await storage.getUser(judgeId);
+    if (!judge || !can(judge, "submissions.evaluate")) {
+      return { ok: false, status: 400, message: `User ${judgeId} can't judge submissions` };
+    }
+  }
+
+  const { judges, added } = await storage.setHackathonJudges(hackathon.id, ids, actor.id);
+  if (added.length > 0) {
+    await createUserNotifications(added.filter((id) => id !== actor.id), {
+      type: "judging",
+      title: "Judging requested",
+      message: `${actor.name || actor.email || "Someone"} asked you to judge the submissions of "${hackathon.name}"`,
+      relatedUserId: actor.id,
+      actionUrl: "/judging",
+      priority: "normal",
+      metadata: { hackathonId: hackathon.id },
+    });
+  }
+  return { ok: true, value: judges.map((judge) => judge.judgeId) };
+}
+
+// Saves some or all of a judge's criterion scores for one submission
+export async function scoreSubmission(
+  submission: Script,
+  judge: User,
+  entries: ScoreEntry[],
+): Promise<JudgingOutcome<JudgeScore[]>> {
+  const hackathon = await storage.getProject(submission.hackathonId);
+  if (!hackathon) {
+    return { ok: false, status: 400, message: "The submission's hackathon no longer exists" };
+  }
+  if (hackathon.scoringClosedAt) {
+    return { ok: false, status: 409, message: "Scoring for this hackathon is closed" };
+  }
+  if (!(await isHackathonJudge(hackathon.id, judge))) {
+    return { ok: false, status: 403, message: "You are not a judge of this hackathon" };
+  }
+  if (!isJudgeable(submission)) {
+    return { ok: false, status: 400, message: "Only submitted originals are judged" };
+  }
+
+  const criteria = await storage.getRubricCriteria(hackathon.id);
+  for (const entry of entries) {
+    const criterion = criteria.find((candidate) => candidate.id === entry.criterionId);
+    if (!criterion) {
+      return { ok: false, status: 400, message: `Criterion ${entry.criterionId} is not part of this rubric` };
+    }
+    if (entry.score < 0 || entry.score > criterion.maxScore) {
+      return { ok: false, status: 400, message: `"${criterion.name}" is scored from 0 to ${criterion.maxScore}` };
+    }
+  }
+  return { ok: true, value: await storage.saveJudgeScores(submission.id, judge.id, entries) };
+}
+
+// A judge's total once they have scored every criterion: each score as a
+// fraction of its criterion's maximum, weighted, on a 0-100 scale
+export function weightedTotal(criteria: RubricCriterion[], scores: JudgeScore[]): number | null {
+  let weightSum = 0;
+  let total = 0;
+  for (const criterion of criteria) {
+    const score = scores.find((candidate) => candidate.criterionId === criterion.id);
+    if (!score) return null;
+    const weight = Number(criterion.weight);
+    weightSum += weight;
+    total += (weight * Number(score.score)) / criterion.maxScore;
+  }
+  return weightSum > 0 ? (total / weightSum) * 100 : null;
+}
+
+// A lenient judge's 80 may mean what a strict judge's 60 does. Each judge's
+// totals are standardized against their own mean and spread, then put back
+// on the mean and spread of all totals, so every judge pulls equally.
+export function normalizeJudgeTotals(totals: Omit<JudgeTotal, "normalized">[]): JudgeTotal[] {
+  const overall = describe(totals.map((entry) => entry.total));
+  const byJudge = new Map<string, number[]>();
+  for (const entry of totals) {
+    byJudge.set(entry.judgeId, [...(byJudge.get(entry.judgeId) ?? []), entry.total]);
+  }
+
+  return totals.map((entry) => {
+    const judgeTotals = byJudge.get(entry.judgeId)!;
+    if (judgeTotals.length < MIN_TOTALS_FOR_NORMALIZATION) return { ...entry, normalized: entry.total };
+    const judge = describe(judgeTotals);
+    // A judge who gave everything the same total only has an offset to remove
+    const normalized = judge.deviation > 0
+      ? overall.mean + ((entry.total - judge.mean) / judge.deviation) * overall.deviation
+      : entry.total - judge.mean + overall.mean;
+    return { ...entry, normalized: Math.min(100, Math.max(0, normalized)) };
+  });
+}
+
+function describe(values: number[]): { mean: number; deviation: number } {
+  if (values.length === 0) return { mean: 0, deviation: 0 };
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return { mean, deviation: Math.sqrt(variance) };
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Combined results, best first; submissions no judge has finished come last
+// without a rank
+export function computeResults(
+  criteria: RubricCriterion[],
+  submissions: Script[],
+  scores: JudgeScore[],
+): SubmissionResult[] {
+  const totals: Omit<JudgeTotal, "normalized">[] = [];
+  for (const submission of submissions) {
+    const submissionScores = scores.filter((score) => score.submissionId === submission.id);
+    const judgeIds = Array.from(new Set(submissionScores.map((score) => score.judgeId)));
+    for (const judgeId of judgeIds) {
+      const total = weightedTotal(criteria, submissionScores.filter((score) => score.judgeId === judgeId));
+      if (total !== null) totals.push({ judgeId, submissionId: submission.id, total });
+    }
+  }
+  const normalized = normalizeJudgeTotals(totals);
+
+  const results = submissions.map((submission): SubmissionResult => {
+    const judgeTotals = normalized
+      .filter((entry) => entry.submissionId === submission.id)
+      .map((entry) => ({ ...entry, total: round(entry.total), normalized: round(entry.normalized) }));
+    const submissionScores = scores.filter((score) => score.submissionId === submission.id);
+    const criterionAverages: Record<string, number> = {};
+    for (const criterion of criteria) {
+      const mean = average(submissionScores.filter((score) => score.criterionId === criterion.id).map((score) => Number(score.score)));
+      if (mean !== null) criterionAverages[criterion.id] = mean;
+    }
+    return {
+      submissionId: submission.id,
+      judgeCount: judgeTotals.length,
+      rawScore: average(judgeTotals.map((entry) => entry.total)),
+      score: average(judgeTotals.map((entry) => entry.normalized)),
+      rank: null,
+      criterionAverages,
+      judgeTotals,
+    };
+  });
+
+  // Equal scores share a rank (1, 2, 2, 4)
+  const ranked = results.filter((result) => result.score !== null).sort((a, b) => b.score! - a.score!);
+  ranked.forEach((result, index) => {
+    result.rank = index > 0 && ranked[index - 1].score === result.score ? ranked[index - 1].rank : index + 1;
+  });
+  return [...ranked, ...results.filter((result) => result.score === null)];
+}
+
+export async function getJudgeableSubmissions(hackathonId: string): Promise<Script[]> {
+  const submissions = await storage.getScriptsByProject(hackathonId);
+  return submissions.filter(isJudgeable);
+}
+
+export async function closeScoring(hackathon: Project, actor: User): Promise<JudgingOutcome<SubmissionResult[]>> {
+  if (hackathon.scoringClosedAt) {
+    return { ok: false, status: 409, message: "Scoring is already closed" };
+  }
+  const criteria = await storage.getRubricCriteria(hackathon.id);
+  if (criteria.length === 0) {
+    return { ok: false, status: 400, message: "Add rubric criteria before closing scoring" };
+  }
+
+  const results = computeResults(
+    criteria,
+    await getJudgeableSubmissions(hackathon.id),
+    await storage.getJudgeScores(hackathon.id),
+  );
+  const evaluationScores = new Map(results.flatMap((result) => (result.score !== null ? [[result.submissionId, result.score] as const] : [])));
+  if (!(await storage.closeScoring(hackathon.id, evaluationScores))) {
+    return { ok: false, status: 409, message: "Scoring is already closed" };
+  }
+
+  const judges = await storage.getHackathonJudges(hackathon.id);
+  await createUserNotifications(judges.map((judge) => judge.judgeId).filter((id) => id !== actor.id), {
+    type: "judging",
+    title: "Scoring closed",
+    message: `Scores for "${hackathon.name}" are final; every judge's scores are now visible`,
+    relatedUserId: actor.id,
+    actionUrl: "/judging",
+    priority: "normal",
+    metadata: { hackathonId: hackathon.id },
+  });
+  return { ok: true, value: results };
+}
+
+export async function reopenScoring(hackathon: Project): Promise<JudgingOutcome<Project>> {
+  const reopened = hackathon.scoringClosedAt ? await storage.reopenScoring(hackathon.id) : undefined;
+  if (!reopened) {
+    return { ok: false, status: 409, message: "Scoring is already open" };
+  }
+  return { ok: true, value: reopened };
+}
@@ -0,0 +1,284 @@
+import { spawn } from "child_process";
+import { createWriteStream, promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { randomUUID } from "crypto";
+import { pipeline } from "stream/promises";
+import { createFileContentStream, readFileContent } from "./blob-storage";
+import type { File, MediaMetadata } from "@shared/schema";
+
+// Media details, preview images and audio waveforms for uploaded files.
+// Storage queues a 'media.process' background job after every upload (see
+// storage.processFileMedia and server/jobs.ts). Audio and video go through ffprobe/ffmpeg
+// (FFPROBE_PATH / FFMPEG_PATH, default: found on PATH); when those aren't
+// installed the file is marked skipped rather than failed. Images are decoded
+// with @napi-rs/canvas and the first page of a PDF is rendered by pdf-parse.
+
+export type MediaKind = "audio" | "video" | "image" | "pdf";
+
+export interface MediaProcessingResult {
+  status: "ready" | "skipped";
+  metadata: MediaMetadata;
+  thumbnail?: Buffer; // WebP, at most THUMBNAIL_WIDTH wide
+  waveformPeaks?: number[];
+  note?: string; // Why some or all of the processing was skipped
+}
+
+const FFPROBE = process.env.FFPROBE_PATH || "ffprobe";
+const FFMPEG = process.env.FFMPEG_PATH || "ffmpeg";
+
+const THUMBNAIL_WIDTH = 320;
+const THUMBNAIL_MAX_HEIGHT = 640;
+const WAVEFORM_BUCKETS = 200;
+const WAVEFORM_SAMPLE_RATE = 8000;
+const TOOL_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Audio and video are copied to a temp file for ffmpeg; images and PDFs are
+// decoded in memory, so they get a much lower limit
+const MAX_PROCESSABLE_BYTES = parseInt(process.env.MEDIA_PROCESSING_MAX_BYTES || "") || 1024 * 1024 * 1024;
+const MAX_IN_MEMORY_BYTES = 50 * 1024 * 1024;
+
+export function getMediaKind(file: Pick<File, "mimeType" | "originalName">): MediaKind | null {
+  const extension = path.extname(file.originalName).toLowerCase();
+  if (file.mimeType === "application/pdf" || extension === ".pdf") return "pdf";
+  if (file.mimeType.startsWith("audio/")) return "audio";
+  if (file.mimeType.startsWith("video/")) return "video";
+  // SVGs are previewed as-is by the browser
+  if (file.mimeType.startsWith("image/") && file.mimeType !== "image/svg+xml") return "image";
+  return null;
+}
+
+export function isMediaProcessable(file: Pick<File, "mimeType" | "originalName" | "fileSize">): boolean {
+  const kind = getMediaKind(file);
+  if (!kind) return false;
+  const limit = kind === "audio" || kind === "video" ? MAX_PROCESSABLE_BYTES : MAX_IN_MEMORY_BYTES;
+  return file.fileSize <= limit;
+}
+
+export async function processMedia(file: File): Promise<MediaProcessingResult> {
+  switch (getMediaKind(file)) {
+    case "image":
+      return await processImage(file);
+    case "pdf":
+      return await processPdf(file);
+    case "audio":
+    case "video":
+      return await processAudioVideo(file);
+    default:
+      return { status: "skipped", metadata: {}, note: "Unsupported file type" };
+  }
+}
+
+async function processImage(file: File): Promise<MediaProcessingResult> {
+  const { loadImage } = await import("@napi-rs/canvas");
+  const image = await loadImage(await readFileContent(file));
+  return {
+    status: "ready",
+    metadata: { width: image.width, height: image.height },
+    thumbnail: await renderThumbnail(image),
+  };
+}
+
+async function processPdf(file: File): Promise<MediaProcessingResult> {
+  const { PDFParse } = await import("pdf-parse");
+  const parser = new PDFParse({ data: await readFileContent(file) });
+  try {
+    const info = await parser.getInfo();
+    const screenshot = await parser.getScreenshot({
+      partial: [1],
+      desiredWidth: THUMBNAIL_WIDTH * 2,
+      imageBuffer: true,
+      imageDataUrl: false,
+    });
+    const firstPage = screenshot.pages[0];
+    return {
+      status: "ready",
+      metadata: { pageCount: info.total },
+      thumbnail: firstPage ? await renderThumbnail(Buffer.from(firstPage.data)) : undefined,
+    };
+  } finally {
+    await parser.destroy();
+  }
+}
+
+// ffprobe's JSON output, only the parts used here
+interface ProbeStream {
+  codec_type?: string;
+  codec_name?: string;
+  width?: number;
+  height?: number;
+  sample_rate?: string;
+  channels?: number;
+  disposition?: { attached_pic?: number };
+}
+
+interface ProbeOutput {
+  format?: { duration?: string; bit_rate?: string };
+  streams?: ProbeStream[];
+}
+
+async function processAudioVideo(file: File): Promise<MediaProcessingResult> {
+  return await withTempCopy(file, async (inputPath) => {
+    let probe: ProbeOutput;
+    try {
+      const output = await runTool(FFPROBE, [
+        "-v", "error",
+        "-print_format", "json",
+        "-show_format",
+        "-show_streams",
+        inputPath,
+      ]);
+      probe = JSON.parse(output.toString("utf8"));
+    } catch (error) {
+      if (isToolMissing(error)) {
+        return { status: "skipped", metadata: {}, note: "ffprobe is not installed" };
+      }
+      throw error;
+    }
+
+    const streams = probe.streams ?? [];
+    const video = streams.find((stream) => stream.codec_type === "video" && !stream.disposition?.attached_pic);
+    const coverArt = streams.find((stream) => stream.codec_type === "video" && stream.disposition?.attached_pic);
+    const audio = streams.find((stream) => stream.codec_type === "audio");
+    const durationSeconds = parseFloat(probe.format?.duration ?? "");
+    const bitrate = parseInt(probe.format?.bit_rate ?? "");
+
+    const metadata: MediaMetadata = {
+      ...(Number.isFinite(durationSeconds) && { durationSeconds: Math.round(durationSeconds * 100) / 100 }),
+      ...(Number.isFinite(bitrate) && { bitrate }),
+      ...(video?.width && video.height && { width: video.width, height: video.height }),
+      ...((video ?? audio)?.codec_name && { codec: (video ?? audio)!.codec_name }),
+      ...(audio?.sample_rate && { sampleRate: parseInt(audio.sample_rate) }),
+      ...(audio?.channels && { channels: audio.channels }),
+    };
+
+    const result: MediaProcessingResult = { status: "ready", metadata };
+    try {
+      if (video || coverArt) {
+        // A frame a little way in is more representative than the first one
+        const seekSeconds = video && Number.isFinite(durationSeconds) ? Math.min(durationSeconds * 0.1, 5) : 0;
+        const frame = await extractFrame(inputPath, seekSeconds);
+        if (frame.length > 0) {
+          result.thumbnail = await renderThumbnail(frame);
+        }
+      }
+      if (audio && !video) {
+        result.waveformPeaks = await extractWaveform(inputPath);
+      }
+    } catch (error) {
+      if (!isToolMissing(error)) throw error;
+      result.note = "ffmpeg is not installed; no preview generated";
+    }
+    return result;
+  });
+}
+
+async function extractFrame(inputPath: string, seekSeconds: number): Promise<Buffer> {
+  return await runTool(FFMPEG, [
+    "-v", "error",
+    "-ss", seekSeconds.toFixed(2),
+    "-i", inputPath,
+    "-frames:v", "1",
+    "-vf", `scale=${THUMBNAIL_WIDTH * 2}:-2`,
+    "-f", "image2pipe",
+    "-c:v", "png",
+    "pipe:1",
+  ]);
+}
+
+// Decodes to 8kHz mono and keeps the loudest sample of each bucket, without
+// holding the decoded audio in memory
+async function extractWaveform(inputPath: string): Promise<number[]> {
+  const BLOCK_SAMPLES = WAVEFORM_SAMPLE_RATE / 20; // 50ms
+  const blockPeaks: number[] = [];
+  let blockPeak = 0;
+  let blockCount = 0;
+  let leftover: Buffer | null = null;
+
+  await runTool(FFMPEG, [
+    "-v", "error",
+    "-i", inputPath,
+    "-vn",
+    "-ac", "1",
+    "-ar", WAVEFORM_SAMPLE_RATE.toString(),
+    "-f", "s16le",
+    "pipe:1",
+  ], (chunk) => {
+    const data: Buffer = leftover ? Buffer.concat([leftover, chunk]) : chunk;
+    const usable = data.length - (data.length % 2);
+    for (let offset = 0; offset < usable; offset += 2) {
+      blockPeak = Math.max(blockPeak, Math.abs(data.readInt16LE(offset)));
+      if (++blockCount === BLOCK_SAMPLES) {
+        blockPeaks.push(blockPeak);
+        blockPeak = 0;
+        blockCount = 0;
+      }
+    }
+    leftover = usable < data.length ? data.subarray(usable) : null;
+  });
+  if (blockCount > 0) blockPeaks.push(blockPeak);
+
+  const bucketCount = Math.min(WAVEFORM_BUCKETS, blockPeaks.length);
+  const peaks: number[] = [];
+  for (let bucket = 0; bucket < bucketCount; bucket++) {
+    const start = Math.floor((bucket * blockPeaks.length) / bucketCount);
+    const end = Math.floor(((bucket + 1) * blockPeaks.length) / bucketCount);
+    const peak = Math.max(...blockPeaks.slice(start, Math.max(end, start + 1)));
+    peaks.push(Math.round((peak / 32768) * 1000) / 1000);
+  }
+  return peaks;
+}
+
+async function renderThumbnail(source: Buffer | import("@napi-rs/canvas").Image): Promise<Buffer> {
+  const { createCanvas, loadImage } = await import("@napi-rs/canvas");
+  const image = Buffer.isBuffer(source) ? await loadImage(source) : source;
+  const scale = Math.min(1, THUMBNAIL_WIDTH / image.width, THUMBNAIL_MAX_HEIGHT / image.height);
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const canvas = createCanvas(width, height);
+  canvas.getContext("2d").drawImage(image, 0, 0, width, height);
+  return await canvas.encode("webp", 80);
+}
+
+// ffmpeg needs to seek, which it can't do on a stream from S3
+async function withTempCopy<T>(file: File, task: (inputPath: string) => Promise<T>): Promise<T> {
+  const tempPath = path.join(os.tmpdir(), `media-${randomUUID()}${path.extname(file.originalName)}`);
+  try {
+    await pipeline(await createFileContentStream(file), createWriteStream(tempPath));
+    return await task(tempPath);
+  } finally {
+    await fs.unlink(tempPath).catch(() => {});
+  }
+}
+
+function isToolMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === "ENOENT";
+}
+
+// Resolves with stdout, or streams it to onStdout when given
+function runTool(command: string, args: string[], onStdout?: (chunk: Buffer) => void): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ["ignore", "pipe", "pipe"] });
+    const stdout: Buffer[] = [];
+    let stderr = "";
+    const timer = setTimeout(() => child.kill("SIGKILL"), TOOL_TIMEOUT_MS);
+
+    child.stdout.on("data", (chunk: Buffer) => (onStdout ? onStdout(chunk) : stdout.push(chunk)));
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString("utf8")).slice(-2000);
+    });
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on("close", (code, signal) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve(Buffer.concat(stdout));
+      } else {
+        const reason = signal ? `was killed (${signal})` : `exited with code ${code}`;
+        reject(new Error(`${path.basename(command)} ${reason}: ${stderr.trim()}`));
+      }
+    });
+  });
+}
@@ -0,0 +1,25 @@
+import "dotenv/config";
+import { pool } from "./db";
+import { migrateFileBlobs } from "./file-blob-migration";
+
+// Moves file contents out of the legacy `files.file_data` base64 column into
+// the configured blob store (see server/file-blob-migration.ts). Admins can
+// also start this from the jobs page.
+//
+//   npm run files:migrate-blobs [-- --dry-run] [-- --batch-size=50]
+
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+const batchSizeArg = args.find((arg) => arg.startsWith("--batch-size="));
+const batchSize = batchSizeArg ? parseInt(batchSizeArg.split("=")[1], 10) : 50;
+
+migrateFileBlobs({ dryRun, batchSize })
+  .then(async ({ failed }) => {
+    await pool.end();
+    process.exit(failed > 0 ? 1 : 0);
+  })
+  .catch(async (error) => {
+    console.error("❌ Migration failed:", error);
+    await pool.end();
+    process.exit(1);
+  });
@@ -0,0 +1,27 @@
+import "dotenv/config";
+import { pool } from "./db";
+import { DatabaseStorage } from "./storage";
+
+// Rebuilds the full-text search index from scratch. Day-to-day the index is
+// kept current by the storage layer; run this after deploying the search
+// table, or whenever it looks out of sync.
+//
+//   npm run search:reindex
+
+async function rebuildSearchIndex() {
+  console.log("🚀 Rebuilding search index");
+  const started = Date.now();
+  const { submissions, files } = await new DatabaseStorage().rebuildSearchIndex();
+  console.log(`🎉 Indexed ${submissions} submissions and ${files} files in ${((Date.now() - started) / 1000).toFixed(1)}s`);
+}
+
+rebuildSearchIndex()
+  .then(async () => {
+    await pool.end();
+    process.exit(0);
+  })
+  .catch(async (error) => {
+    console.error("❌ Reindex failed:", error);
+    await pool.end();
+    process.exit(1);
+  });
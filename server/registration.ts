@@ -0,0 +1,151 @@
+import type { Episode, Project, User } from "@shared/schema";
+import { can } from "@shared/permissions";
+import {
+  REGISTRATION_LABELS,
+  getSubmissionDeadline,
+  isPastDeadline,
+  normalizeRegistrationStatus,
+  type RegistrationStatus,
+} from "@shared/registration";
+import { storage } from "./storage";
+import { createUserNotifications } from "./routes-notifications";
+
+// Team registration and submission deadlines. Organizers approve, waitlist or
+// reject each team; only approved teams submit for review. Once the
+// hackathon's submissionDeadline passes, submissions can't be created or
+// changed unless the team has an extension. Staff who manage submissions are
+// never held to the deadline.
+
+export type RegistrationOutcome<T> =
+  | { ok: true; value: T }
+  | { ok: false; status: 400 | 404 | 409; message: string };
+
+function describeUser(user: User): string {
+  return user.name || user.email || "Someone";
+}
+
+// Deadlines in messages are spelled out in UTC so everyone reads the same time
+function formatDeadline(date: Date): string {
+  return date.toUTCString();
+}
+
+export async function decideRegistration(
+  team: Episode,
+  status: RegistrationStatus,
+  note: string | null,
+  actor: User,
+): Promise<RegistrationOutcome<Episode>> {
+  const current = normalizeRegistrationStatus(team.registrationStatus);
+  if (current === status && (team.registrationNote ?? null) === note) {
+    return { ok: false, status: 409, message: `"${team.title}" is already ${REGISTRATION_LABELS[status].toLowerCase()}` };
+  }
+  const updated = await storage.setTeamRegistration(team.id, { status, note, decidedBy: actor.id });
+  if (!updated) {
+    return { ok: false, status: 404, message: "Episode not found" };
+  }
+
+  const hackathon = await storage.getProject(team.hackathonId);
+  const outcome = `The registration of "${team.title}"${hackathon ? ` for "${hackathon.name}"` : ""} is ${REGISTRATION_LABELS[status].toLowerCase()}`;
+  await notifyTeam(team, actor, {
+    title: `Registration ${REGISTRATION_LABELS[status].toLowerCase()}`,
+    message: note ? `${outcome}: ${note}` : outcome,
+    priority: status === "rejected" ? "high" : "normal",
+  });
+  return { ok: true, value: updated };
+}
+
+// until = null withdraws the extension
+export async function extendDeadline(
+  team: Episode,
+  until: Date | null,
+  actor: User,
+): Promise<RegistrationOutcome<Episode>> {
+  const hackathon = await storage.getProject(team.hackathonId);
+  if (!hackathon) {
+    return { ok: false, status: 404, message: "Project not found" };
+  }
+  if (until) {
+    if (!hackathon.submissionDeadline) {
+      return { ok: false, status: 400, message: `"${hackathon.name}" has no submission deadline to extend` };
+    }
+    if (until <= hackathon.submissionDeadline) {
+      return { ok: false, status: 400, message: `An extension has to end after the deadline, ${formatDeadline(hackathon.submissionDeadline)}` };
+    }
+  }
+
+  const updated = await storage.setTeamDeadlineExtension(team.id, until, actor.id);
+  if (!updated) {
+    return { ok: false, status: 404, message: "Episode not found" };
+  }
+  await notifyTeam(team, actor, until
+    ? {
+        title: "Deadline extended",
+        message: `${describeUser(actor)} gave "${team.title}" until ${formatDeadline(until)} to submit for "${hackathon.name}"`,
+        priority: "normal",
+      }
+    : {
+        title: "Deadline extension withdrawn",
+        message: `"${team.title}" is back on the deadline of "${hackathon.name}"`,
+        priority: "high",
+      });
+  return { ok: true, value: updated };
+}
+
+// Why the user can't create or change a submission of this hackathon and
+// team right now, or null when they can
+export async function checkSubmissionWindow(
+  user: User | undefined,
+  target: { hackathonId: string; teamId?: string | null },
+): Promise<string | null> {
+  if (can(user, "submissions.manage")) return null;
+  const hackathon = await storage.getProject(target.hackathonId);
+  if (!hackathon) return null;
+  const team = target.teamId ? await storage.getEpisode(target.teamId) : undefined;
+  return describeClosedWindow(hackathon, team);
+}
+
+// Files attached to a submission close with it
+export async function checkFileSubmissionWindow(
+  user: User | undefined,
+  file: { entityType: string; entityId: string | null },
+): Promise<string | null> {
+  if (!file.entityId || (file.entityType !== "submissions" && file.entityType !== "scripts")) return null;
+  const submission = await storage.getScript(file.entityId);
+  return submission ? await checkSubmissionWindow(user, submission) : null;
+}
+
+export function describeClosedWindow(hackathon: Project, team: Episode | undefined): string | null {
+  const deadline = getSubmissionDeadline(hackathon, team);
+  if (!isPastDeadline(deadline)) return null;
+  return deadline.extended
+    ? `Your team's extension for "${hackathon.name}" ended on ${formatDeadline(deadline.closesAt!)}`
+    : `Submissions for "${hackathon.name}" closed on ${formatDeadline(deadline.closesAt!)}; ask an organizer for an extension`;
+}
+
+// Why the team can't submit for review yet, or null when it can
+export async function checkTeamRegistration(teamId: string): Promise<string | null> {
+  const team = await storage.getEpisode(teamId);
+  if (!team) return null;
+  const status = normalizeRegistrationStatus(team.registrationStatus);
+  if (status === "approved") return null;
+  return status === "rejected"
+    ? `The registration of "${team.title}" was rejected, so it can't submit`
+    : `"${team.title}" can submit once organizers approve its registration (currently ${REGISTRATION_LABELS[status].toLowerCase()})`;
+}
+
+async function notifyTeam(
+  team: Episode,
+  actor: User,
+  notification: { title: string; message: string; priority: "normal" | "high" },
+): Promise<void> {
+  const members = await storage.getTeamMembers(team.id);
+  const recipients = members.map((member) => member.userId).filter((id) => id !== actor.id);
+  if (recipients.length === 0) return;
+  await createUserNotifications(recipients, {
+    type: "registration",
+    ...notification,
+    relatedUserId: actor.id,
+    actionUrl: "/episodes",
+    metadata: { teamId: team.id, hackathonId: team.hackathonId },
+  });
+}
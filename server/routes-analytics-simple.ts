@@ -1,67 +1,76 @@
-import { Express, Request, Response } from "express";
-import { eq, desc, and, gte, sql, count, sum } from "drizzle-orm";
+import { Express, Response } from "express";
+import { isNull } from "drizzle-orm";
 import { requireDatabase } from "./db";
-import { downloadLogs, files, users, projects, episodes, scripts } from "@shared/schema";
+import { files, users, projects, episodes, scripts } from "@shared/schema";
 import { isAuthenticated, type AuthenticatedRequest } from "./auth";
+import { storage } from "./storage";
+import { can } from "@shared/permissions";
+import { enqueueJob } from "./job-queue";
+import { JOB_TYPES } from "./jobs";
+import {
+  aggregateDownloadAnalytics,
+  type DownloadAnalyticsSnapshot,
+  type EntityDownloadStats,
+  type FileDownloadStats,
+} from "./analytics-aggregation";
+
+// Download statistics come from the latest 'analytics.aggregate' job rather
+// than being computed per request. A snapshot older than
+// ANALYTICS_SNAPSHOT_MAX_AGE_MS (default 5 minutes) is still served while a
+// refresh is queued in the background.
+const SNAPSHOT_MAX_AGE_MS = parseInt(process.env.ANALYTICS_SNAPSHOT_MAX_AGE_MS || "") || 5 * 60 * 1000;
+
+const NO_DOWNLOADS: EntityDownloadStats = {
+  fileCount: 0,
+  downloadCount: 0,
+  totalSize: 0,
+  uniqueDownloaders: 0,
+  lastDownload: null,
+};
+
+const NO_FILE_DOWNLOADS: FileDownloadStats = {
+  downloadCount: 0,
+  totalDataDownloaded: 0,
+  uniqueDownloaders: 0,
+  lastDownload: null,
+};
+
+async function getAnalyticsSnapshot(): Promise<DownloadAnalyticsSnapshot> {
+  const latest = await storage.getLatestCompletedJob(JOB_TYPES.aggregateAnalytics);
+  const age = latest?.finishedAt ? Date.now() - latest.finishedAt.getTime() : Infinity;
+  if (age > SNAPSHOT_MAX_AGE_MS) {
+    enqueueJob(JOB_TYPES.aggregateAnalytics, {}, { dedupeKey: JOB_TYPES.aggregateAnalytics })
+      .catch((error) => console.error("[ANALYTICS] Failed to queue refresh:", error));
+  }
+  // Nothing aggregated yet (fresh install): build this one inline
+  return (latest?.result as DownloadAnalyticsSnapshot | undefined) ?? await aggregateDownloadAnalytics();
+}
 
 export function registerSimpleAnalyticsRoutes(app: Express) {
+  // Queues a fresh aggregation now; the client follows it with GET /api/jobs/:id
+  app.post("/api/analytics/refresh", isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!can(user, "analytics.view")) {
+        return res.status(403).json({ error: "Analytics access required" });
+      }
+      const job = await enqueueJob(JOB_TYPES.aggregateAnalytics, {}, {
+        createdBy: req.user!.id,
+        dedupeKey: JOB_TYPES.aggregateAnalytics,
+      });
+      res.status(202).json(job);
+    } catch (error) {
+      console.error("[ANALYTICS] Refresh error:", error);
+      res.status(500).json({ error: "Failed to refresh analytics" });
+    }
+  });
+
   // Get projects analytics - simplified
   app.get("/api/analytics/projects", isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
     try {
       const db = requireDatabase();
-      
-      // Get basic projects data first
-      const allProjects = await db.select().from(projects);
-      
-      // Then get download stats for each project
-      const projectAnalytics = [];
-      for (const project of allProjects) {
-        // Get files for this project
-        const projectFiles = await db
-          .select()
-          .from(files)
-          .where(and(
-            eq(files.entityType, 'project'),
-            eq(files.entityId, project.id)
-          ));
-
-        // Get download logs for project files
-        let downloadCount = 0;
-        let totalSize = 0;
-        let uniqueDownloaders = new Set();
-        let lastDownload = null;
-
-        for (const file of projectFiles) {
-          const downloads = await db
-            .select()
-            .from(downloadLogs)
-            .where(eq(downloadLogs.fileId, file.id));
-
-          downloadCount += downloads.length;
-          totalSize += downloads.reduce((sum, d) => sum + (d.downloadSize || 0), 0);
-          downloads.forEach(d => uniqueDownloaders.add(d.userId));
-          
-          const fileLastDownload = downloads.reduce((latest, d) => {
-            return (!latest || d.downloadedAt > latest) ? d.downloadedAt : latest;
-          }, null);
-          
-          if (fileLastDownload && (!lastDownload || fileLastDownload > lastDownload)) {
-            lastDownload = fileLastDownload;
-          }
-        }
-
-        projectAnalytics.push({
-          ...project,
-          fileCount: projectFiles.length,
-          downloadCount,
-          totalSize,
-          uniqueDownloaders: uniqueDownloaders.size,
-          lastDownload
-        });
-      }
-
-      res.json(projectAnalytics);
-
+      const [allProjects, snapshot] = await Promise.all([db.select().from(projects).where(isNull(projects.deletedAt)), getAnalyticsSnapshot()]);
+      res.json(allProjects.map((project) => ({ ...project, ...(snapshot.hackathons[project.id] ?? NO_DOWNLOADS) })));
     } catch (error) {
       console.error("[ANALYTICS] Projects error:", error);
       res.status(500).json({ error: "Failed to fetch project analytics" });
@@ -72,55 +81,8 @@ export function registerSimpleAnalyticsRoutes(app: Express) {
   app.get("/api/analytics/episodes", isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
     try {
       const db = requireDatabase();
-      
-      const allEpisodes = await db.select().from(episodes);
-      
-      const episodeAnalytics = [];
-      for (const episode of allEpisodes) {
-        const episodeFiles = await db
-          .select()
-          .from(files)
-          .where(and(
-            eq(files.entityType, 'episode'),
-            eq(files.entityId, episode.id)
-          ));
-
-        let downloadCount = 0;
-        let totalSize = 0;
-        let uniqueDownloaders = new Set();
-        let lastDownload = null;
-
-        for (const file of episodeFiles) {
-          const downloads = await db
-            .select()
-            .from(downloadLogs)
-            .where(eq(downloadLogs.fileId, file.id));
-
-          downloadCount += downloads.length;
-          totalSize += downloads.reduce((sum, d) => sum + (d.downloadSize || 0), 0);
-          downloads.forEach(d => uniqueDownloaders.add(d.userId));
-          
-          const fileLastDownload = downloads.reduce((latest, d) => {
-            return (!latest || d.downloadedAt > latest) ? d.downloadedAt : latest;
-          }, null);
-          
-          if (fileLastDownload && (!lastDownload || fileLastDownload > lastDownload)) {
-            lastDownload = fileLastDownload;
-          }
-        }
-
-        episodeAnalytics.push({
-          ...episode,
-          fileCount: episodeFiles.length,
-          downloadCount,
-          totalSize,
-          uniqueDownloaders: uniqueDownloaders.size,
-          lastDownload
-        });
-      }
-
-      res.json(episodeAnalytics);
-
+      const [allEpisodes, snapshot] = await Promise.all([db.select().from(episodes).where(isNull(episodes.deletedAt)), getAnalyticsSnapshot()]);
+      res.json(allEpisodes.map((episode) => ({ ...episode, ...(snapshot.teams[episode.id] ?? NO_DOWNLOADS) })));
     } catch (error) {
       console.error("[ANALYTICS] Episodes error:", error);
       res.status(500).json({ error: "Failed to fetch episode analytics" });
@@ -131,55 +93,8 @@ export function registerSimpleAnalyticsRoutes(app: Express) {
   app.get("/api/analytics/scripts", isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
     try {
       const db = requireDatabase();
-      
-      const allScripts = await db.select().from(scripts);
-      
-      const scriptAnalytics = [];
-      for (const script of allScripts) {
-        const scriptFiles = await db
-          .select()
-          .from(files)
-          .where(and(
-            eq(files.entityType, 'script'),
-            eq(files.entityId, script.id)
-          ));
-
-        let downloadCount = 0;
-        let totalSize = 0;
-        let uniqueDownloaders = new Set();
-        let lastDownload = null;
-
-        for (const file of scriptFiles) {
-          const downloads = await db
-            .select()
-            .from(downloadLogs)
-            .where(eq(downloadLogs.fileId, file.id));
-
-          downloadCount += downloads.length;
-          totalSize += downloads.reduce((sum, d) => sum + (d.downloadSize || 0), 0);
-          downloads.forEach(d => uniqueDownloaders.add(d.userId));
-          
-          const fileLastDownload = downloads.reduce((latest, d) => {
-            return (!latest || d.downloadedAt > latest) ? d.downloadedAt : latest;
-          }, null);
-          
-          if (fileLastDownload && (!lastDownload || fileLastDownload > lastDownload)) {
-            lastDownload = fileLastDownload;
-          }
-        }
-
-        scriptAnalytics.push({
-          ...script,
-          fileCount: scriptFiles.length,
-          downloadCount,
-          totalSize,
-          uniqueDownloaders: uniqueDownloaders.size,
-          lastDownload
-        });
-      }
-
-      res.json(scriptAnalytics);
-
+      const [allScripts, snapshot] = await Promise.all([db.select().from(scripts).where(isNull(scripts.deletedAt)), getAnalyticsSnapshot()]);
+      res.json(allScripts.map((script) => ({ ...script, ...(snapshot.submissions[script.id] ?? NO_DOWNLOADS) })));
     } catch (error) {
       console.error("[ANALYTICS] Scripts error:", error);
       res.status(500).json({ error: "Failed to fetch script analytics" });
@@ -190,33 +105,17 @@ export function registerSimpleAnalyticsRoutes(app: Express) {
   app.get("/api/analytics/users", isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
     try {
       const db = requireDatabase();
-      
-      const allUsers = await db.select().from(users);
-      
-      const userAnalytics = [];
-      for (const user of allUsers) {
-        const userDownloads = await db
-          .select()
-          .from(downloadLogs)
-          .where(eq(downloadLogs.userId, user.id));
-
-        const downloadCount = userDownloads.length;
-        const totalDataDownloaded = userDownloads.reduce((sum, d) => sum + (d.downloadSize || 0), 0);
-        const lastDownload = userDownloads.reduce((latest, d) => {
-          return (!latest || d.downloadedAt > latest) ? d.downloadedAt : latest;
-        }, null);
-
-        userAnalytics.push({
+      const [allUsers, snapshot] = await Promise.all([db.select().from(users), getAnalyticsSnapshot()]);
+      res.json(allUsers.map((user) => {
+        const stats = snapshot.users[user.id];
+        return {
           ...user,
-          downloadCount,
-          totalDataDownloaded,
-          lastDownload,
-          lastActivity: lastDownload || user.createdAt
-        });
-      }
-
-      res.json(userAnalytics);
-
+          downloadCount: stats?.downloadCount ?? 0,
+          totalDataDownloaded: stats?.totalDataDownloaded ?? 0,
+          lastDownload: stats?.lastDownload ?? null,
+          lastActivity: stats?.lastDownload || user.createdAt,
+        };
+      }));
     } catch (error) {
       console.error("[ANALYTICS] Users error:", error);
       res.status(500).json({ error: "Failed to fetch user analytics" });
@@ -227,37 +126,11 @@ export function registerSimpleAnalyticsRoutes(app: Express) {
   app.get("/api/analytics/files", isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
     try {
       const db = requireDatabase();
-      
-      const allFiles = await db.select().from(files);
-      
-      const fileAnalytics = [];
-      for (const file of allFiles) {
-        const fileDownloads = await db
-          .select()
-          .from(downloadLogs)
-          .where(eq(downloadLogs.fileId, file.id));
-
-        const downloadCount = fileDownloads.length;
-        const totalDataDownloaded = fileDownloads.reduce((sum, d) => sum + (d.downloadSize || 0), 0);
-        const uniqueDownloaders = new Set(fileDownloads.map(d => d.userId)).size;
-        const lastDownload = fileDownloads.reduce((latest, d) => {
-          return (!latest || d.downloadedAt > latest) ? d.downloadedAt : latest;
-        }, null);
-
-        fileAnalytics.push({
-          ...file,
-          downloadCount,
-          totalDataDownloaded,
-          uniqueDownloaders,
-          lastDownload
-        });
-      }
-
-      res.json(fileAnalytics);
-
+      const [allFiles, snapshot] = await Promise.all([db.select().from(files).where(isNull(files.deletedAt)), getAnalyticsSnapshot()]);
+      res.json(allFiles.map((file) => ({ ...file, ...(snapshot.files[file.id] ?? NO_FILE_DOWNLOADS) })));
     } catch (error) {
       console.error("[ANALYTICS] Files error:", error);
       res.status(500).json({ error: "Failed to fetch file analytics" });
     }
   });
-}
\ No newline at end of file
+}
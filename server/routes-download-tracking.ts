@@ -4,6 +4,7 @@ import { db } from "./db";
 import { files, downloadLogs } from "@shared/schema";
 import { isAuthenticated, type AuthenticatedRequest } from "./auth";
 import { getFilePermissions } from "./filePermissions";
+import { readFileContent } from "./blob-storage";
 
 export function registerDownloadTrackingRoutes(app: Express) {
   // Enhanced file download endpoint with tracking
@@ -42,8 +43,8 @@ export function registerDownloadTrackingRoutes(app: Express) {
       const refererPage = req.get('Referer') || req.headers.referer || 'direct';
 
       try {
-        // Decode base64 file data
-        const fileBuffer = Buffer.from(fileRecord.fileData, 'base64');
+        // Load file contents from the blob store
+        const fileBuffer = await readFileContent(fileRecord);
 
         // Calculate download duration
         const downloadDuration = Date.now() - startTime;
@@ -1,7 +1,8 @@
 import type { Express } from "express";
 import multer from "multer";
 import { storage } from "./storage";
-import { checkUploadOnceViolation } from "./filePermissions";
+import { checkUploadOnceViolation, checkUploadMembership, getRequestAccessScope, filterAccessibleFiles } from "./filePermissions";
+import { acceptUpload } from "./upload-acceptance";
 
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -36,6 +37,12 @@ export function registerEpisodeFileRoutes(app: Express) {
       // Get existing files for this episode
       const existingFiles = await storage.getFilesByEntity('episodes', episodeId);
       
+      // Participants upload only to their own team's content
+      const membershipCheck = await checkUploadMembership(user, 'episodes', episodeId);
+      if (!membershipCheck.allowed) {
+        return res.status(403).json({ message: membershipCheck.message });
+      }
+
       // Check if user can upload (upload-once protection)
       const uploadCheck = await checkUploadOnceViolation(user, 'episodes', episodeId, existingFiles);
       if (!uploadCheck.allowed) {
@@ -44,23 +51,22 @@ export function registerEpisodeFileRoutes(app: Express) {
 
       // Properly handle UTF-8 encoding for filenames
       const originalName = Buffer.from(req.file.originalname, 'latin1').toString('utf8');
-      
-      const fileData = {
-        filename: `episode_${episodeId}_${Date.now()}_${originalName}`,
-        originalName: originalName,
-        mimeType: req.file.mimetype,
-        fileSize: req.file.size,
-        fileData: req.file.buffer.toString('base64'),
+
+      const accepted = await acceptUpload(user, {
         entityType: 'episodes',
         entityId: episodeId,
-        uploadedBy: userId,
-      };
-
-      const storedFile = await storage.createFile(fileData);
+        filenamePrefix: `episode_${episodeId}`,
+        originalName,
+      }, req.file);
+      if (!accepted.ok) {
+        return res.status(accepted.status).json(accepted.body);
+      }
 
       res.status(201).json({ 
         message: "File uploaded successfully",
-        file: storedFile
+        file: accepted.file,
+        duplicates: accepted.duplicateCheck.duplicates,
+        duplicateWarning: accepted.duplicateCheck.message
       });
     } catch (error) {
       console.error("Error uploading episode file:", error);
@@ -72,7 +78,8 @@ export function registerEpisodeFileRoutes(app: Express) {
   app.get("/api/episodes/:episodeId/files", async (req, res) => {
     try {
       const episodeId = req.params.episodeId;
-      const files = await storage.getFilesByEntity('episodes', episodeId);
+      const scope = await getRequestAccessScope(req);
+      const files = filterAccessibleFiles(scope, await storage.getFilesByEntity('episodes', episodeId));
       
       const filesWithoutData = files.map(file => ({
         ...file,
@@ -0,0 +1,188 @@
+import type { Express } from "express";
+import archiver from "archiver";
+import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import { getRequestAccessScope, canAccessEntity, filterAccessibleFiles } from "./filePermissions";
+import { createFileContentStream } from "./blob-storage";
+import { resolveFolderSegments } from "@shared/file-folders";
+import type { File, FileFolder } from "@shared/schema";
+
+// GET /api/{hackathons|teams|submissions}/:id/files/archive streams every
+// file the caller can see on that entity as one ZIP, laid out in the same
+// folder tree as the file manager. Files are read from the blob store one at
+// a time, so memory use stays flat however big the archive gets.
+// X-Archive-Total-Bytes carries the uncompressed total so the client can show
+// progress; the ZIP itself has no Content-Length.
+
+interface ArchiveEntity {
+  entityTypes: string[]; // Current name plus the legacy alias files may still be filed under
+  getName: (id: string) => Promise<string | undefined>;
+}
+
+const ARCHIVE_ENTITIES: Record<string, ArchiveEntity> = {
+  hackathons: {
+    entityTypes: ["hackathons", "projects"],
+    getName: async (id) => (await storage.getProject(id))?.name,
+  },
+  teams: {
+    entityTypes: ["teams", "episodes"],
+    getName: async (id) => (await storage.getEpisode(id))?.title,
+  },
+  submissions: {
+    entityTypes: ["submissions", "scripts"],
+    getName: async (id) => (await storage.getScript(id))?.title,
+  },
+};
+
+// Deflating these gains nothing and costs CPU
+const ALREADY_COMPRESSED = /^(audio|video|image)\/|zip|compressed|x-7z|x-rar|gzip|pdf/;
+
+function sanitizePathSegment(name: string): string {
+  const cleaned = name
+    .replace(/[\\/:*?"<>|\x00-\x1f]/g, "_")
+    .replace(/^[.\s]+|[.\s]+$/g, "")
+    .slice(0, 200);
+  return cleaned || "untitled";
+}
+
+// Folder paths inside the ZIP, e.g. "Slides/Final"
+function buildFolderPaths(folders: FileFolder[]): Map<string, string> {
+  const paths = new Map<string, string>();
+  resolveFolderSegments(folders).forEach((segments, id) => {
+    paths.set(id, segments.map(sanitizePathSegment).join("/"));
+  });
+  return paths;
+}
+
+// "notes.pdf", "notes (2).pdf", ... so same-named files don't overwrite each other
+function uniqueEntryName(directory: string, fileName: string, used: Set<string>): string {
+  const dot = fileName.lastIndexOf(".");
+  const base = dot > 0 ? fileName.slice(0, dot) : fileName;
+  const extension = dot > 0 ? fileName.slice(dot) : "";
+  let candidate = `${directory}${fileName}`;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    candidate = `${directory}${base} (${n})${extension}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+export function registerFileArchiveRoutes(app: Express) {
+  for (const [routeEntity, entity] of Object.entries(ARCHIVE_ENTITIES)) {
+    app.get(`/api/${routeEntity}/:id/files/archive`, isAuthenticated, async (req: any, res) => {
+      const entityId = req.params.id;
+      try {
+        const entityName = await entity.getName(entityId);
+        if (!entityName) {
+          return res.status(404).json({ message: "Not found" });
+        }
+        const scope = await getRequestAccessScope(req);
+        if (!canAccessEntity(scope, routeEntity, entityId)) {
+          return res.status(403).json({ message: "You do not have access to these files" });
+        }
+
+        const files: File[] = [];
+        const folders: FileFolder[] = [];
+        for (const entityType of entity.entityTypes) {
+          files.push(...await storage.getFilesByEntity(entityType, entityId));
+          folders.push(...await storage.getFoldersByEntity(entityType, entityId));
+        }
+        const activeFolders = folders.filter((folder) => folder.isActive !== false);
+        const archiveFiles = filterAccessibleFiles(scope, files.filter((file) => file.isActive !== false && !file.quarantinedAt));
+        const folderPaths = buildFolderPaths(activeFolders);
+        const totalBytes = archiveFiles.reduce((sum, file) => sum + file.fileSize, 0);
+
+        const archiveName = `${sanitizePathSegment(entityName)}-files.zip`;
+        res.setHeader("Content-Type", "application/zip");
+        res.setHeader("Content-Disposition", `attachment; filename="${encodeURIComponent(archiveName)}"`);
+        res.setHeader("Cache-Control", "no-store");
+        res.setHeader("X-Archive-Total-Bytes", totalBytes.toString());
+        res.setHeader("X-Archive-File-Count", archiveFiles.length.toString());
+
+        const archive = archiver("zip", { zlib: { level: 6 } });
+        let aborted = false;
+        res.on("close", () => {
+          if (!res.writableFinished) {
+            aborted = true;
+            archive.abort();
+          }
+        });
+        archive.on("warning", (warning) => console.warn("[ARCHIVE] Warning:", warning));
+        archive.on("error", (error) => {
+          console.error("[ARCHIVE] Error:", error);
+          res.destroy(error);
+        });
+        archive.pipe(res);
+
+        // Keep empty folders so the tree looks the same as in the file manager
+        const usedNames = new Set<string>();
+        for (const path of Array.from(folderPaths.values()).sort()) {
+          archive.append("", { name: `${path}/` });
+        }
+
+        const user = req.user;
+        for (const file of archiveFiles) {
+          if (aborted) break;
+          const folderPath = file.folderId ? folderPaths.get(file.folderId) : undefined;
+          const entryName = uniqueEntryName(folderPath ? `${folderPath}/` : "", sanitizePathSegment(file.originalName), usedNames);
+          const startTime = Date.now();
+
+          // Wait for each entry before opening the next stream
+          const stream = await createFileContentStream(file);
+          await new Promise<void>((resolve, reject) => {
+            const done = (error?: Error) => {
+              archive.off("entry", onEntry);
+              res.off("close", onClose);
+              error ? reject(error) : resolve();
+            };
+            const onEntry = (entry: archiver.EntryData) => {
+              if (entry.name === entryName) done();
+            };
+            const onClose = () => done();
+            archive.on("entry", onEntry);
+            res.on("close", onClose);
+            stream.once("error", done);
+            archive.append(stream, {
+              name: entryName,
+              date: file.updatedAt ?? file.createdAt ?? new Date(),
+              store: ALREADY_COMPRESSED.test(file.mimeType),
+            });
+          });
+          if (aborted) break;
+
+          // One download log per file, in the background
+          Promise.all([
+            storage.createDownloadLog({
+              fileId: file.id,
+              userId: user.id,
+              userEmail: user.email,
+              userName: user.name || user.email,
+              userRole: user.role,
+              ipAddress: req.ip || null,
+              userAgent: req.get("User-Agent") || null,
+              downloadSize: file.fileSize,
+              downloadDuration: Date.now() - startTime,
+              downloadStatus: "completed",
+              entityType: file.entityType,
+              entityId: file.entityId,
+              refererPage: req.get("Referer") || "direct",
+            }),
+            storage.recordFileDownload(file.id),
+          ]).catch((error) => console.error("[ARCHIVE] Download logging failed:", error));
+        }
+
+        if (!aborted) {
+          await archive.finalize();
+          console.log(`[ARCHIVE] ${routeEntity}/${entityId}: ${archiveFiles.length} files (${totalBytes} bytes) for ${user.email}`);
+        }
+      } catch (error) {
+        console.error("Error creating file archive:", error);
+        if (!res.headersSent) {
+          res.status(500).json({ message: "Failed to create archive" });
+        } else {
+          res.destroy();
+        }
+      }
+    });
+  }
+}
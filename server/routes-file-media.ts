@@ -0,0 +1,78 @@
+import type { Express } from "express";
+import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import { requireFilePermission, getRequestAccessScope, canAccessFile } from "./filePermissions";
+import { createFileContentStream } from "./blob-storage";
+import { isMediaProcessable } from "./media-processing";
+
+// Previews produced by the background media pipeline. Metadata and waveform
+// peaks come with the file row itself; only the thumbnail image needs its own
+// endpoint.
+
+export function registerFileMediaRoutes(app: Express) {
+  app.get("/api/files/:id/thumbnail", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!requireFilePermission('canView', user)) {
+        return res.status(403).json({ message: "Insufficient permissions to view files" });
+      }
+
+      const file = await storage.getFile(req.params.id);
+      if (!file || !file.thumbnailStorageKey) {
+        return res.status(404).json({ message: "Thumbnail not found" });
+      }
+      if (!canAccessFile(await getRequestAccessScope(req), file)) {
+        return res.status(403).json({ message: "You do not have access to this file" });
+      }
+
+      // Reprocessing rewrites the same key, so the ETag has to change with it
+      const etag = `"${file.id}-${file.processedAt?.getTime() ?? 0}"`;
+      if (req.get("If-None-Match") === etag) {
+        return res.status(304).end();
+      }
+
+      const stream = await createFileContentStream({
+        storageKey: file.thumbnailStorageKey,
+        storageBackend: file.storageBackend,
+      });
+      res.setHeader("Content-Type", "image/webp");
+      res.setHeader("Cache-Control", "private, max-age=3600");
+      res.setHeader("ETag", etag);
+      stream.on("error", (error) => {
+        console.error("Error streaming thumbnail:", error);
+        res.destroy(error);
+      });
+      stream.pipe(res);
+    } catch (error) {
+      console.error("Error fetching thumbnail:", error);
+      res.status(500).json({ message: "Failed to fetch thumbnail" });
+    }
+  });
+
+  // Runs the pipeline again, e.g. after installing ffmpeg or for a failed file
+  app.post("/api/files/:id/reprocess", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!requireFilePermission('canEdit', user)) {
+        return res.status(403).json({ message: "Insufficient permissions to edit files" });
+      }
+
+      const file = await storage.getFile(req.params.id);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      if (!canAccessFile(await getRequestAccessScope(req), file)) {
+        return res.status(403).json({ message: "You do not have access to this file" });
+      }
+      if (!isMediaProcessable(file)) {
+        return res.status(400).json({ message: "This file type has no media processing" });
+      }
+
+      const queued = await storage.queueFileMediaProcessing(file.id);
+      res.status(202).json({ ...queued, fileData: undefined });
+    } catch (error) {
+      console.error("Error reprocessing file:", error);
+      res.status(500).json({ message: "Failed to reprocess file" });
+    }
+  });
+}
@@ -0,0 +1,48 @@
+import type { Express } from "express";
+import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import { can } from "@shared/permissions";
+import { getEntityPageUrl } from "./file-duplicates";
+
+// Review of uploads the scanner quarantined (server/upload-screening.ts).
+// Organizers see what was flagged and why, and can release false positives.
+
+export function registerFileQuarantineRoutes(app: Express) {
+  app.get("/api/files/quarantined", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!can(user, "files.reviewQuarantine")) {
+        return res.status(403).json({ message: "Insufficient permissions to review quarantined files" });
+      }
+
+      const files = await storage.getQuarantinedFiles();
+      res.json(files.map((file) => ({
+        ...file,
+        fileData: undefined,
+        pageUrl: getEntityPageUrl(file.entityType),
+      })));
+    } catch (error) {
+      console.error("Error fetching quarantined files:", error);
+      res.status(500).json({ message: "Failed to fetch quarantined files" });
+    }
+  });
+
+  app.post("/api/files/:id/release-quarantine", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!can(user, "files.reviewQuarantine")) {
+        return res.status(403).json({ message: "Insufficient permissions to release quarantined files" });
+      }
+
+      const file = await storage.releaseQuarantinedFile(req.params.id, req.user.id);
+      if (!file) {
+        return res.status(404).json({ message: "No quarantined file with that id" });
+      }
+      console.log(`File ${file.id} released from quarantine by ${req.user.id}`);
+      res.json({ ...file, fileData: undefined });
+    } catch (error) {
+      console.error("Error releasing quarantined file:", error);
+      res.status(500).json({ message: "Failed to release file" });
+    }
+  });
+}
@@ -0,0 +1,195 @@
+import type { Express } from "express";
+import multer from "multer";
+import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import { requireFilePermission, checkEditDeletePermission, getAccessScope, canAccessFile } from "./filePermissions";
+import { checkDuplicateUpload } from "./file-duplicates";
+import { screenUpload, notifyQuarantine, QUARANTINE_MESSAGE } from "./upload-screening";
+import { checkStorageQuota } from "./storage-quotas";
+import { checkFileSubmissionWindow } from "./registration";
+import type { File } from "@shared/schema";
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 50 * 1024 * 1024, // 50MB limit
+  },
+});
+
+// What changed relative to the version before it; `contentChanged` is null
+// when either side has no checksum to compare
+function describeChanges(file: File, previous: File | undefined) {
+  if (!previous) return null;
+  return {
+    fromVersion: previous.version,
+    sizeDelta: file.fileSize - previous.fileSize,
+    contentChanged: file.checksum && previous.checksum ? file.checksum !== previous.checksum : null,
+    renamed: file.originalName !== previous.originalName,
+    typeChanged: file.mimeType !== previous.mimeType,
+  };
+}
+
+function toVersionResponse(file: File, versions: File[]) {
+  const previous = versions.find((v) => v.id === file.previousVersionId);
+  return {
+    id: file.id,
+    version: file.version,
+    originalName: file.originalName,
+    mimeType: file.mimeType,
+    fileSize: file.fileSize,
+    checksum: file.checksum,
+    uploadedBy: file.uploadedBy,
+    versionNote: file.versionNote,
+    isCurrent: !file.isArchived,
+    createdAt: file.createdAt,
+    changes: describeChanges(file, previous),
+  };
+}
+
+export function registerFileVersionRoutes(app: Express) {
+  app.get("/api/files/:id/versions", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!requireFilePermission('canView', user)) {
+        return res.status(403).json({ message: "Insufficient permissions to view files" });
+      }
+
+      const versions = await storage.getFileVersions(req.params.id);
+      if (versions.length === 0) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      const current = versions.find((v) => !v.isArchived) ?? versions[0];
+      if (!canAccessFile(await getAccessScope(user), current)) {
+        return res.status(403).json({ message: "You do not have access to this file" });
+      }
+
+      res.json(versions.map((version) => toVersionResponse(version, versions)));
+    } catch (error) {
+      console.error("Error fetching file versions:", error);
+      res.status(500).json({ message: "Failed to fetch file versions" });
+    }
+  });
+
+  // Replace a file with a new upload; the old row is archived as the previous version
+  app.post("/api/files/:id/versions", isAuthenticated, upload.single("file"), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!requireFilePermission('canUpload', user)) {
+        return res.status(403).json({ message: "Insufficient permissions to upload files" });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const current = await storage.getFile(req.params.id);
+      if (!current) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      if (current.isArchived) {
+        return res.status(409).json({ message: "Only the current version of a file can be replaced" });
+      }
+
+      if (!canAccessFile(await getAccessScope(user), current)) {
+        return res.status(403).json({ message: "You do not have access to this file" });
+      }
+      const editCheck = await checkEditDeletePermission(user, current);
+      if (!editCheck.allowed) {
+        return res.status(403).json({ message: editCheck.message });
+      }
+      const windowClosed = await checkFileSubmissionWindow(user, current);
+      if (windowClosed) {
+        return res.status(403).json({ message: windowClosed });
+      }
+
+      // Old versions are kept, so the new one counts in full
+      const quotaCheck = await checkStorageQuota(user, current, req.file.size);
+      if (!quotaCheck.allowed) {
+        return res.status(413).json({ message: quotaCheck.message, quota: quotaCheck.exceeded });
+      }
+
+      const duplicateCheck = await checkDuplicateUpload(req.file.buffer, [current.id]);
+      if (duplicateCheck.blocked) {
+        return res.status(409).json({ message: duplicateCheck.message, duplicates: duplicateCheck.duplicates });
+      }
+
+      // Properly handle UTF-8 encoding for filenames
+      const originalName = Buffer.from(req.file.originalname, 'latin1').toString('utf8');
+
+      const screening = await screenUpload(req.file.buffer, { originalName, mimeType: req.file.mimetype, entityType: current.entityType });
+      if (!screening.allowed) {
+        return res.status(screening.status).json({ message: screening.message });
+      }
+
+      const file = await storage.replaceFile(current.id, {
+        filename: `${current.entityType}_${current.entityId}_${Date.now()}_${originalName}`,
+        originalName,
+        fileSize: req.file.size,
+        entityType: current.entityType,
+        uploadedBy: req.user.id,
+        versionNote: req.body.note || null,
+        checksum: duplicateCheck.checksum,
+        ...screening.fileFields,
+      }, req.file.buffer);
+
+      if (file.quarantinedAt) {
+        await notifyQuarantine(file, user);
+        return res.status(422).json({ message: QUARANTINE_MESSAGE, file });
+      }
+
+      res.status(201).json({
+        message: `Uploaded version ${file.version}`,
+        file,
+        duplicates: duplicateCheck.duplicates,
+        duplicateWarning: duplicateCheck.message,
+      });
+    } catch (error) {
+      console.error("Error replacing file:", error);
+      res.status(500).json({ message: "Failed to replace file" });
+    }
+  });
+
+  app.post("/api/files/:id/versions/:version/restore", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!requireFilePermission('canEdit', user)) {
+        return res.status(403).json({ message: "Insufficient permissions to restore files" });
+      }
+
+      const version = parseInt(req.params.version, 10);
+      if (isNaN(version)) {
+        return res.status(400).json({ message: "Invalid version number" });
+      }
+
+      const versions = await storage.getFileVersions(req.params.id);
+      if (!versions.some((v) => v.version === version)) {
+        return res.status(404).json({ message: "File version not found" });
+      }
+
+      // Without a live head version (e.g. it is in the trash) there is nothing to check access against
+      const current = versions.find((v) => !v.isArchived);
+      if (!current) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      if (!canAccessFile(await getAccessScope(user), current)) {
+        return res.status(403).json({ message: "You do not have access to this file" });
+      }
+      const editCheck = await checkEditDeletePermission(user, current);
+      if (!editCheck.allowed) {
+        return res.status(403).json({ message: editCheck.message });
+      }
+      const windowClosed = await checkFileSubmissionWindow(user, current);
+      if (windowClosed) {
+        return res.status(403).json({ message: windowClosed });
+      }
+
+      const file = await storage.restoreFileVersion(req.params.id, version, req.user.id);
+      res.json({
+        message: `Restored version ${version} as version ${file.version}`,
+        file,
+      });
+    } catch (error) {
+      console.error("Error restoring file version:", error);
+      res.status(500).json({ message: "Failed to restore file version" });
+    }
+  });
+}
@@ -1,7 +1,8 @@
 import type { Express } from "express";
 import multer from "multer";
 import { storage } from "./storage";
-import { checkUploadOnceViolation } from "./filePermissions";
+import { checkUploadOnceViolation, getRequestAccessScope, filterAccessibleFiles } from "./filePermissions";
+import { acceptUpload } from "./upload-acceptance";
 
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -59,25 +60,26 @@ export function registerHackathonFileRoutes(app: Express) {
 
       // Properly handle UTF-8 encoding for filenames
       const originalName = Buffer.from(req.file.originalname, 'latin1').toString('utf8');
-      
-      const fileData = {
-        filename: `${filePrefix}_${hackathonId}_${Date.now()}_${originalName}`,
-        originalName: originalName,
-        mimeType: req.file.mimetype,
-        fileSize: req.file.size,
-        fileData: req.file.buffer.toString('base64'),
-        entityType: entityType,
-        entityId: hackathonId,
-        uploadedBy: userId,
-      };
 
       console.log(`Upload request - hackathonId: ${hackathonId} file: ${req.file.originalname} -> routing to ${entityType}`);
 
-      const storedFile = await storage.createFile(fileData);
+      // Quota goes by the hackathon the upload was made to
+      const accepted = await acceptUpload(user, {
+        entityType,
+        entityId: hackathonId,
+        filenamePrefix: `${filePrefix}_${hackathonId}`,
+        originalName,
+        quota: { entityType: 'hackathons', entityId: hackathonId },
+      }, req.file);
+      if (!accepted.ok) {
+        return res.status(accepted.status).json(accepted.body);
+      }
 
       res.status(201).json({ 
         message: `File uploaded successfully to ${entityType}`,
-        file: storedFile,
+        file: accepted.file,
+        duplicates: accepted.duplicateCheck.duplicates,
+        duplicateWarning: accepted.duplicateCheck.message,
         routedTo: entityType
       });
     } catch (error) {
@@ -90,7 +92,8 @@ export function registerHackathonFileRoutes(app: Express) {
   app.get("/api/hackathons/:hackathonId/files", async (req, res) => {
     try {
       const hackathonId = req.params.hackathonId;
-      const files = await storage.getFilesByEntity('hackathons', hackathonId);
+      const scope = await getRequestAccessScope(req);
+      const files = filterAccessibleFiles(scope, await storage.getFilesByEntity('hackathons', hackathonId));
       
       const filesWithoutData = files.map(file => ({
         ...file,
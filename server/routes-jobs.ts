@@ -0,0 +1,125 @@
+import type { Express } from "express";
+import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import { can } from "@shared/permissions";
+import { enqueueJob, getJobType, getJobTypes } from "./job-queue";
+import type { JobStatus } from "@shared/schema";
+
+// The background job queue: the admin jobs page lists and manages jobs, and
+// anyone who started a job can poll it for progress.
+
+const JOB_STATUSES: JobStatus[] = ["queued", "running", "completed", "failed", "cancelled"];
+
+function parseStatuses(value: unknown): JobStatus[] | undefined {
+  if (typeof value !== "string" || !value) return undefined;
+  const statuses = value
+    .split(",")
+    .filter((status): status is JobStatus => JOB_STATUSES.includes(status as JobStatus));
+  return statuses.length > 0 ? statuses : undefined;
+}
+
+export function registerJobRoutes(app: Express) {
+  // Jobs, newest first, plus counts per status
+  //   status  comma-separated: queued,running,failed
+  //   type    one job type
+  app.get("/api/jobs", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!can(user, "jobs.manage")) {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const limit = parseInt(req.query.limit as string) || 100;
+      const [jobs, counts] = await Promise.all([
+        storage.listJobs({
+          statuses: parseStatuses(req.query.status),
+          type: typeof req.query.type === "string" && req.query.type ? req.query.type : undefined,
+          limit,
+        }),
+        storage.getJobCounts(),
+      ]);
+      res.json({ jobs, counts, types: getJobTypes() });
+    } catch (error) {
+      console.error("Error fetching jobs:", error);
+      res.status(500).json({ message: "Failed to fetch jobs" });
+    }
+  });
+
+  app.get("/api/jobs/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      const user = await storage.getUser(req.user.id);
+      if (job.createdBy !== req.user.id && !can(user, "jobs.manage")) {
+        return res.status(403).json({ message: "You do not have access to this job" });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error("Error fetching job:", error);
+      res.status(500).json({ message: "Failed to fetch job" });
+    }
+  });
+
+  // Starts one of the maintenance jobs; a second request while it is still
+  // queued or running returns the same job
+  app.post("/api/jobs", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!can(user, "jobs.manage")) {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const { type, payload } = req.body ?? {};
+      if (typeof type !== "string" || !getJobType(type)?.manual) {
+        return res.status(400).json({ message: "Unknown job type" });
+      }
+      if (payload !== undefined && (typeof payload !== "object" || payload === null || Array.isArray(payload))) {
+        return res.status(400).json({ message: "payload must be an object" });
+      }
+
+      const job = await enqueueJob(type, payload ?? {}, { createdBy: req.user.id, dedupeKey: type });
+      res.status(202).json(job);
+    } catch (error) {
+      console.error("Error starting job:", error);
+      res.status(500).json({ message: "Failed to start job" });
+    }
+  });
+
+  app.post("/api/jobs/:id/retry", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!can(user, "jobs.manage")) {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const job = await storage.retryJob(req.params.id);
+      if (!job) {
+        return res.status(409).json({ message: "Only failed or cancelled jobs can be retried" });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error("Error retrying job:", error);
+      res.status(500).json({ message: "Failed to retry job" });
+    }
+  });
+
+  app.post("/api/jobs/:id/cancel", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!can(user, "jobs.manage")) {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const job = await storage.cancelJob(req.params.id);
+      if (!job) {
+        return res.status(409).json({ message: "Only queued jobs can be cancelled" });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error("Error cancelling job:", error);
+      res.status(500).json({ message: "Failed to cancel job" });
+    }
+  });
+}
@@ -0,0 +1,261 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import { can } from "@shared/permissions";
+import {
+  assignJudges,
+  closeScoring,
+  computeResults,
+  getJudgeableSubmissions,
+  getJudgeRoles,
+  isHackathonJudge,
+  reopenScoring,
+  scoreSubmission,
+  updateRubric,
+} from "./judging";
+
+// Rubric judging: rubrics and judges per hackathon, judges' scores and the
+// combined results once scoring closes. The scoring rules are in
+// server/judging.ts.
+
+const rubricSchema = z.object({
+  criteria: z.array(z.object({
+    id: z.string().uuid().optional(),
+    name: z.string().trim().min(1).max(255),
+    description: z.string().trim().max(2000).nullish(),
+    weight: z.number().positive().max(1000),
+    maxScore: z.number().int().min(1).max(100),
+  })).max(50),
+});
+
+const scoresSchema = z.object({
+  scores: z.array(z.object({
+    criterionId: z.string().uuid(),
+    score: z.number().min(0),
+    comment: z.string().trim().max(5000).nullish(),
+  })).min(1),
+});
+
+export function registerJudgingRoutes(app: Express) {
+  // Hackathons the caller judges, or all of them for organizers
+  app.get("/api/judging", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!can(user, "submissions.evaluate") && !can(user, "judging.manage")) {
+        return res.status(403).json({ message: "Insufficient permissions to judge submissions" });
+      }
+      const hackathons = can(user, "judging.manage")
+        ? await storage.getAllProjects()
+        : (await Promise.all(
+            (await storage.getJudgeAssignments(req.user.id)).map((assignment) => storage.getProject(assignment.hackathonId)),
+          )).flatMap((hackathon) => (hackathon ? [hackathon] : []));
+      res.json(hackathons.map((hackathon) => ({
+        id: hackathon.id,
+        name: hackathon.name,
+        scoringClosedAt: hackathon.scoringClosedAt,
+      })));
+    } catch (error) {
+      console.error("Error fetching judged hackathons:", error);
+      res.status(500).json({ message: "Failed to fetch judged hackathons" });
+    }
+  });
+
+  // Rubric, judges, submissions and scores of one hackathon. Until scoring
+  // closes everyone, organizers included, only gets their own scores back
+  app.get("/api/projects/:id/judging", isAuthenticated, async (req: any, res) => {
+    try {
+      const hackathon = await storage.getProject(req.params.id);
+      if (!hackathon) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const user = await storage.getUser(req.user.id);
+      const canManage = can(user, "judging.manage");
+      const isJudge = await isHackathonJudge(hackathon.id, user);
+      if (!canManage && !isJudge) {
+        return res.status(403).json({ message: "You are not a judge of this hackathon" });
+      }
+
+      const criteria = await storage.getRubricCriteria(hackathon.id);
+      const judges = await storage.getHackathonJudges(hackathon.id);
+      const submissions = await getJudgeableSubmissions(hackathon.id);
+      const scores = await storage.getJudgeScores(hackathon.id);
+      const results = computeResults(criteria, submissions, scores);
+      const closed = !!hackathon.scoringClosedAt;
+
+      const names = new Map<string, string | null>();
+      for (const judgeId of Array.from(new Set([...judges.map((judge) => judge.judgeId), ...scores.map((score) => score.judgeId)]))) {
+        const person = await storage.getUser(judgeId);
+        if (person) names.set(judgeId, person.name || person.email);
+      }
+
+      res.json({
+        hackathon: { id: hackathon.id, name: hackathon.name, scoringClosedAt: hackathon.scoringClosedAt },
+        canManage,
+        isJudge,
+        criteria,
+        // How far each judge got, never what they gave
+        judges: judges.map((judge) => ({
+          judgeId: judge.judgeId,
+          name: names.get(judge.judgeId) ?? null,
+          finishedCount: results.filter((result) => result.judgeTotals.some((entry) => entry.judgeId === judge.judgeId)).length,
+        })),
+        submissions: submissions.map((submission) => ({
+          id: submission.id,
+          title: submission.title,
+          description: submission.description,
+          teamId: submission.teamId,
+          status: submission.status,
+          judgeCount: results.find((result) => result.submissionId === submission.id)?.judgeCount ?? 0,
+        })),
+        scores: (closed ? scores : scores.filter((score) => score.judgeId === req.user.id))
+          .map((score) => ({ ...score, judgeName: names.get(score.judgeId) ?? null })),
+        results: closed ? results : null,
+      });
+    } catch (error) {
+      console.error("Error fetching judging:", error);
+      res.status(500).json({ message: "Failed to fetch judging" });
+    }
+  });
+
+  // Replaces the rubric; body { criteria: [{ id?, name, description?, weight, maxScore }] }
+  app.put("/api/projects/:id/rubric", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!can(req.user, "judging.manage")) {
+        return res.status(403).json({ message: "Insufficient permissions to manage judging" });
+      }
+      const hackathon = await storage.getProject(req.params.id);
+      if (!hackathon) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const parsed = rubricSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid rubric", errors: parsed.error.errors });
+      }
+
+      const outcome = await updateRubric(hackathon, parsed.data.criteria.map((criterion) => ({
+        ...criterion,
+        description: criterion.description || null,
+        weight: criterion.weight.toString(),
+      })));
+      if (!outcome.ok) {
+        return res.status(outcome.status).json({ message: outcome.message });
+      }
+      res.json(outcome.value);
+    } catch (error) {
+      console.error("Error updating rubric:", error);
+      res.status(500).json({ message: "Failed to update rubric" });
+    }
+  });
+
+  // Replaces the hackathon's judges; body { judgeIds }
+  app.put("/api/projects/:id/judges", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user || !can(user, "judging.manage")) {
+        return res.status(403).json({ message: "Insufficient permissions to manage judging" });
+      }
+      const hackathon = await storage.getProject(req.params.id);
+      if (!hackathon) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const { judgeIds } = req.body ?? {};
+      if (!Array.isArray(judgeIds) || !judgeIds.every((id) => typeof id === "string")) {
+        return res.status(400).json({ message: "judgeIds must be a list of user ids" });
+      }
+      const outcome = await assignJudges(hackathon, judgeIds, user);
+      if (!outcome.ok) {
+        return res.status(outcome.status).json({ message: outcome.message });
+      }
+      res.json(outcome.value);
+    } catch (error) {
+      console.error("Error assigning judges:", error);
+      res.status(500).json({ message: "Failed to assign judges" });
+    }
+  });
+
+  // Users who can be assigned as judges
+  app.get("/api/judges", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!can(req.user, "judging.manage")) {
+        return res.status(403).json({ message: "Insufficient permissions to manage judging" });
+      }
+      const judges = await storage.getUsersByRoles(getJudgeRoles());
+      res.json(judges.map((judge) => ({ id: judge.id, name: judge.name, email: judge.email, role: judge.role })));
+    } catch (error) {
+      console.error("Error fetching judges:", error);
+      res.status(500).json({ message: "Failed to fetch judges" });
+    }
+  });
+
+  // The caller's criterion scores for a submission; body { scores: [{ criterionId, score, comment? }] }
+  app.put("/api/scripts/:id/scores", isAuthenticated, async (req: any, res) => {
+    try {
+      const submission = await storage.getScript(req.params.id);
+      if (!submission) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(403).json({ message: "You are not a judge of this hackathon" });
+      }
+      const parsed = scoresSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid scores", errors: parsed.error.errors });
+      }
+
+      const outcome = await scoreSubmission(submission, user, parsed.data.scores);
+      if (!outcome.ok) {
+        return res.status(outcome.status).json({ message: outcome.message });
+      }
+      res.json(outcome.value);
+    } catch (error) {
+      console.error("Error saving scores:", error);
+      res.status(500).json({ message: "Failed to save scores" });
+    }
+  });
+
+  // Finalizes the combined scores and reveals every judge's scores
+  app.post("/api/projects/:id/scoring/close", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user || !can(user, "judging.manage")) {
+        return res.status(403).json({ message: "Insufficient permissions to manage judging" });
+      }
+      const hackathon = await storage.getProject(req.params.id);
+      if (!hackathon) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const outcome = await closeScoring(hackathon, user);
+      if (!outcome.ok) {
+        return res.status(outcome.status).json({ message: outcome.message });
+      }
+      res.json(outcome.value);
+    } catch (error) {
+      console.error("Error closing scoring:", error);
+      res.status(500).json({ message: "Failed to close scoring" });
+    }
+  });
+
+  // Lets judges change their scores again
+  app.post("/api/projects/:id/scoring/reopen", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!can(req.user, "judging.manage")) {
+        return res.status(403).json({ message: "Insufficient permissions to manage judging" });
+      }
+      const hackathon = await storage.getProject(req.params.id);
+      if (!hackathon) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const outcome = await reopenScoring(hackathon);
+      if (!outcome.ok) {
+        return res.status(outcome.status).json({ message: outcome.message });
+      }
+      res.json(outcome.value);
+    } catch (error) {
+      console.error("Error reopening scoring:", error);
+      res.status(500).json({ message: "Failed to reopen scoring" });
+    }
+  });
+}
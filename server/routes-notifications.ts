@@ -1,11 +1,11 @@
 import { Express, Request, Response } from "express";
 import { storage } from "./storage";
-import { isAuthenticated, isAdmin, type AuthenticatedRequest } from "./auth";
+import { isAuthenticated, type AuthenticatedRequest } from "./auth";
 import { insertNotificationSchema, type InsertNotification } from "@shared/schema";
 
 export function registerNotificationRoutes(app: Express) {
-  // Get all notifications for current user (admin only)
-  app.get("/api/notifications", isAuthenticated, isAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  // Get all notifications for current user
+  app.get("/api/notifications", isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
     try {
       const notifications = await storage.getUserNotifications(req.user!.id);
       res.json(notifications);
@@ -15,8 +15,8 @@ export function registerNotificationRoutes(app: Express) {
     }
   });
 
-  // Get unread notifications count for current user (admin only)
-  app.get("/api/notifications/unread", isAuthenticated, isAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  // Get unread notifications count for current user
+  app.get("/api/notifications/unread", isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
     try {
       const unreadNotifications = await storage.getUnreadNotifications(req.user!.id);
       res.json({ count: unreadNotifications.length, notifications: unreadNotifications });
@@ -27,11 +27,13 @@ export function registerNotificationRoutes(app: Express) {
   });
 
   // Mark notification as read
-  app.patch("/api/notifications/:id/read", isAuthenticated, isAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  app.patch("/api/notifications/:id/read", isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
     try {
       const notificationId = req.params.id;
-      
-      // Admin users can mark any notification as read
+      if (!(await ownsNotification(req, notificationId))) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+
       const updatedNotification = await storage.markNotificationAsRead(notificationId);
       res.json(updatedNotification);
     } catch (error) {
@@ -41,9 +43,9 @@ export function registerNotificationRoutes(app: Express) {
   });
 
   // Mark all notifications as read
-  app.patch("/api/notifications/mark-all-read", isAuthenticated, isAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  app.patch("/api/notifications/mark-all-read", isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
     try {
-      // Mark all notifications for the current admin user as read
+      // Mark all notifications for the current user as read
       await storage.markAllNotificationsAsRead(req.user!.id);
       res.json({ message: "All notifications marked as read" });
     } catch (error) {
@@ -53,11 +55,13 @@ export function registerNotificationRoutes(app: Express) {
   });
 
   // Delete notification
-  app.delete("/api/notifications/:id", isAuthenticated, isAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  app.delete("/api/notifications/:id", isAuthenticated, async (req: AuthenticatedRequest, res: Response) => {
     try {
       const notificationId = req.params.id;
-      
-      // Admin users can delete any notification
+      if (!(await ownsNotification(req, notificationId))) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+
       await storage.deleteNotification(notificationId);
       res.json({ message: "Notification deleted" });
     } catch (error) {
@@ -67,6 +71,27 @@ export function registerNotificationRoutes(app: Express) {
   });
 }
 
+// Everyone reads and clears only their own notifications
+async function ownsNotification(req: AuthenticatedRequest, notificationId: string): Promise<boolean> {
+  const notification = await storage.getNotification(notificationId);
+  return !!notification && notification.userId === req.user!.id;
+}
+
+// Helper function to notify specific users, e.g. a submission's author and
+// reviewers. Like createAdminNotification, failures are logged, not thrown.
+export async function createUserNotifications(
+  userIds: string[],
+  notification: Omit<InsertNotification, "userId">,
+): Promise<void> {
+  try {
+    for (const userId of Array.from(new Set(userIds))) {
+      await storage.createNotification({ ...notification, userId, isRead: false, isArchived: false });
+    }
+  } catch (error) {
+    console.error("Error creating user notifications:", error);
+  }
+}
+
 // Helper function to create a notification for all admin users
 export async function createAdminNotification(
   type: string, 
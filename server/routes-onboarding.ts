@@ -5,6 +5,7 @@ import { getDb, isDatabaseAvailable } from "./db";
 import { onboardingFormConfig, onboardingFormResponses, users } from "@shared/schema";
 import { AuthenticatedRequest, isAuthenticated, isAdmin } from "./auth";
 import { insertOnboardingFormConfigSchema, insertOnboardingFormResponseSchema } from "@shared/schema";
+import { can } from "@shared/permissions";
 import { nanoid } from "nanoid";
 import { randomUUID } from "crypto";
 // Mock data for demonstration
@@ -202,10 +203,10 @@ export const getCurrentFormConfig = async (req: Request, res: Response) => {
   }
 };
 
-// Update form configuration (Admin only)
+// Update form configuration (forms.manage)
 export const updateFormConfig = async (req: AuthenticatedRequest, res: Response) => {
   try {
-    if (!req.user || req.user.role !== "admin") {
+    if (!req.user || !can(req.user, "forms.manage")) {
       return res.status(403).json({ error: "Admin access required" });
     }
 
@@ -411,7 +412,7 @@ export const submitOnboardingForm = async (req: AuthenticatedRequest, res: Respo
   }
 };
 
-// Get onboarding analytics (Admin only)
+// Get onboarding analytics (analytics.view)
 export const getOnboardingAnalytics = async (req: AuthenticatedRequest, res: Response) => {
   try {
     // Handle authentication in case middleware failed to set user
@@ -451,7 +452,7 @@ export const getOnboardingAnalytics = async (req: AuthenticatedRequest, res: Res
       });
     }
     
-    if (req.user.role !== "admin") {
+    if (!can(req.user, "analytics.view")) {
       return res.status(403).json({ error: "Admin access required" });
     }
 
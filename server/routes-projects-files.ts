@@ -1,7 +1,8 @@
 import type { Express } from "express";
 import multer from "multer";
 import { storage } from "./storage";
-import { checkUploadOnceViolation } from "./filePermissions";
+import { checkUploadOnceViolation, getRequestAccessScope, filterAccessibleFiles } from "./filePermissions";
+import { acceptUpload } from "./upload-acceptance";
 
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -59,25 +60,26 @@ export function registerProjectFileRoutes(app: Express) {
 
       // Properly handle UTF-8 encoding for filenames
       const originalName = Buffer.from(req.file.originalname, 'latin1').toString('utf8');
-      
-      const fileData = {
-        filename: `${filePrefix}_${projectId}_${Date.now()}_${originalName}`,
-        originalName: originalName,
-        mimeType: req.file.mimetype,
-        fileSize: req.file.size,
-        fileData: req.file.buffer.toString('base64'),
-        entityType: entityType,
-        entityId: projectId,
-        uploadedBy: userId,
-      };
 
       console.log(`Upload request - projectId: ${projectId} file: ${req.file.originalname} -> routing to ${entityType}`);
 
-      const storedFile = await storage.createFile(fileData);
+      // Quota goes by the project the upload was made to
+      const accepted = await acceptUpload(user, {
+        entityType,
+        entityId: projectId,
+        filenamePrefix: `${filePrefix}_${projectId}`,
+        originalName,
+        quota: { entityType: 'projects', entityId: projectId },
+      }, req.file);
+      if (!accepted.ok) {
+        return res.status(accepted.status).json(accepted.body);
+      }
 
       res.status(201).json({ 
         message: `File uploaded successfully to ${entityType}`,
-        file: storedFile,
+        file: accepted.file,
+        duplicates: accepted.duplicateCheck.duplicates,
+        duplicateWarning: accepted.duplicateCheck.message,
         routedTo: entityType
       });
     } catch (error) {
@@ -90,7 +92,8 @@ export function registerProjectFileRoutes(app: Express) {
   app.get("/api/projects/:projectId/files", async (req, res) => {
     try {
       const projectId = req.params.projectId;
-      const files = await storage.getFilesByEntity('projects', projectId);
+      const scope = await getRequestAccessScope(req);
+      const files = filterAccessibleFiles(scope, await storage.getFilesByEntity('projects', projectId));
       
       const filesWithoutData = files.map(file => ({
         ...file,
@@ -0,0 +1,75 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import { can } from "@shared/permissions";
+import { REGISTRATION_STATUSES } from "@shared/registration";
+import { decideRegistration, extendDeadline } from "./registration";
+
+// Team registration decisions and per-team deadline extensions. The rules
+// are in server/registration.ts.
+
+const registrationSchema = z.object({
+  status: z.enum(REGISTRATION_STATUSES),
+  note: z.string().trim().max(2000).nullish(),
+});
+
+const extensionSchema = z.object({
+  until: z.string().datetime({ offset: true }).nullable(),
+});
+
+export function registerRegistrationRoutes(app: Express) {
+  // Approves, waitlists or rejects a team; body { status, note? }
+  app.put("/api/episodes/:id/registration", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user || !can(user, "teams.register")) {
+        return res.status(403).json({ message: "Insufficient permissions to manage registrations" });
+      }
+      const team = await storage.getEpisode(req.params.id);
+      if (!team) {
+        return res.status(404).json({ message: "Episode not found" });
+      }
+      const parsed = registrationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid registration decision", errors: parsed.error.errors });
+      }
+
+      const outcome = await decideRegistration(team, parsed.data.status, parsed.data.note || null, user);
+      if (!outcome.ok) {
+        return res.status(outcome.status).json({ message: outcome.message });
+      }
+      res.json(outcome.value);
+    } catch (error) {
+      console.error("Error updating registration:", error);
+      res.status(500).json({ message: "Failed to update registration" });
+    }
+  });
+
+  // Keeps a team's submissions open past the deadline; body { until }, null withdraws it
+  app.put("/api/episodes/:id/deadline-extension", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user || !can(user, "teams.register")) {
+        return res.status(403).json({ message: "Insufficient permissions to extend deadlines" });
+      }
+      const team = await storage.getEpisode(req.params.id);
+      if (!team) {
+        return res.status(404).json({ message: "Episode not found" });
+      }
+      const parsed = extensionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid extension", errors: parsed.error.errors });
+      }
+
+      const outcome = await extendDeadline(team, parsed.data.until ? new Date(parsed.data.until) : null, user);
+      if (!outcome.ok) {
+        return res.status(outcome.status).json({ message: outcome.message });
+      }
+      res.json(outcome.value);
+    } catch (error) {
+      console.error("Error extending deadline:", error);
+      res.status(500).json({ message: "Failed to extend deadline" });
+    }
+  });
+}
@@ -0,0 +1,422 @@
+import type { Express, Response } from "express";
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { storage } from "./storage";
+import { isAuthenticated, type AuthenticatedRequest } from "./auth";
+import { checkUploadMembership, checkUploadOnceViolation } from "./filePermissions";
+import { checkSubmissionWindow } from "./registration";
+import { computeFileChecksum, checkDuplicateChecksum } from "./file-duplicates";
+import { screenUpload, notifyQuarantine, QUARANTINE_MESSAGE } from "./upload-screening";
+import { checkStorageQuota } from "./storage-quotas";
+import type { UploadSession } from "@shared/schema";
+
+// Chunked, resumable uploads modelled on the tus protocol:
+//   POST   /api/uploads      start a session, returns its id and chunk size
+//   HEAD   /api/uploads/:id  current Upload-Offset, used to resume after a drop
+//   PATCH  /api/uploads/:id  append one chunk at Upload-Offset, verified by Upload-Checksum
+//   DELETE /api/uploads/:id  abandon the upload
+// Chunks are appended to a temp file on disk; once the last byte arrives the
+// file is streamed into the blob store and recorded in the files table.
+
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024; // 5MB
+const MAX_CHUNK_SIZE = 16 * 1024 * 1024; // 16MB
+const MAX_UPLOAD_SIZE = parseInt(process.env.MAX_UPLOAD_SIZE || "", 10) || 2147483647; // files.file_size is a 32-bit integer
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000; // Idle sessions expire after a day
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+const CHECKSUM_MISMATCH_STATUS = 460; // tus "Checksum Mismatch"
+
+const tempDir = process.env.UPLOAD_TEMP_DIR || path.resolve("uploads", ".partial");
+
+// Chunks currently being written, so two PATCHes can't interleave on one session
+const activeUploads = new Set<string>();
+
+const MEDIA_EXTENSIONS = [".mp3", ".mp4", ".wav", ".m4a"];
+
+function isMediaFile(mimeType: string, filename: string): boolean {
+  const type = mimeType.toLowerCase();
+  const name = filename.toLowerCase();
+  return type.includes("audio") || type.includes("video") ||
+    MEDIA_EXTENSIONS.some(ext => name.includes(ext));
+}
+
+// Resolves where a finished upload is filed, following the same routing
+// rules as the single-request upload endpoints for each target.
+async function resolveUploadTarget(
+  targetType: string,
+  targetId: string,
+  mimeType: string,
+  filename: string
+): Promise<{ entityType: string; entityId: string } | { status: number; message: string }> {
+  switch (targetType) {
+    case "hackathons":
+    case "projects": {
+      const hackathon = await storage.getProject(targetId);
+      if (!hackathon) return { status: 404, message: "Hackathon not found" };
+      const media = isMediaFile(mimeType, filename);
+      if (targetType === "hackathons") {
+        return { entityType: media ? "teams" : "submissions", entityId: targetId };
+      }
+      return { entityType: media ? "episodes" : "scripts", entityId: targetId };
+    }
+    case "teams":
+    case "episodes": {
+      const team = await storage.getEpisode(targetId);
+      if (!team) return { status: 404, message: "Team not found" };
+      return { entityType: targetType, entityId: targetId };
+    }
+    case "submissions":
+    case "scripts": {
+      const submission = await storage.getScript(targetId);
+      if (!submission) return { status: 404, message: "Submission not found" };
+      return { entityType: targetType, entityId: targetId };
+    }
+    default:
+      return { status: 400, message: `Unsupported upload target: ${targetType}` };
+  }
+}
+
+function tempPathFor(sessionId: string): string {
+  return path.join(tempDir, sessionId);
+}
+
+function parseChecksumHeader(header: string | undefined): string | null {
+  // Format: "sha256 <base64 digest>"
+  if (!header) return null;
+  const [algorithm, digest] = header.trim().split(/\s+/);
+  if (algorithm?.toLowerCase() !== "sha256" || !digest) return null;
+  return digest;
+}
+
+function sessionResponse(session: UploadSession) {
+  return {
+    uploadId: session.id,
+    uploadOffset: session.uploadOffset,
+    totalSize: session.totalSize,
+    chunkSize: session.chunkSize,
+    status: session.status,
+    fileId: session.fileId,
+    expiresAt: session.expiresAt,
+  };
+}
+
+async function loadOwnSession(req: AuthenticatedRequest, res: Response): Promise<UploadSession | undefined> {
+  const session = await storage.getUploadSession(req.params.id);
+  if (!session || session.userId !== req.user!.id || session.status === "cancelled") {
+    res.status(404).json({ message: "Upload not found" });
+    return undefined;
+  }
+  if (session.status === "uploading" && session.expiresAt < new Date()) {
+    res.status(410).json({ message: "Upload session has expired" });
+    return undefined;
+  }
+  return session;
+}
+
+async function finalizeUpload(session: UploadSession) {
+  // Checked again now: other uploads may have used up the quota since the session started
+  const quotaCheck = await checkStorageQuota(await storage.getUser(session.userId), session, session.totalSize);
+  if (!quotaCheck.allowed) {
+    await fs.promises.rm(tempPathFor(session.id), { force: true });
+    const cancelled = await storage.updateUploadSession(session.id, { status: "cancelled" });
+    return { session: cancelled, file: null, quotaCheck, duplicateCheck: null, screening: null };
+  }
+
+  const duplicateCheck = await checkDuplicateChecksum(await computeFileChecksum(tempPathFor(session.id)));
+  if (duplicateCheck.blocked) {
+    await fs.promises.rm(tempPathFor(session.id), { force: true });
+    const cancelled = await storage.updateUploadSession(session.id, { status: "cancelled" });
+    return { session: cancelled, file: null, quotaCheck, duplicateCheck, screening: null };
+  }
+
+  const screening = await screenUpload(tempPathFor(session.id), {
+    originalName: session.originalName,
+    mimeType: session.mimeType,
+    entityType: session.entityType,
+  });
+  if (!screening.allowed) {
+    await fs.promises.rm(tempPathFor(session.id), { force: true });
+    const cancelled = await storage.updateUploadSession(session.id, { status: "cancelled" });
+    return { session: cancelled, file: null, quotaCheck, duplicateCheck, screening };
+  }
+
+  const prefix = session.entityType.replace(/s$/, "");
+  const storedFile = await storage.createFile({
+    filename: `${prefix}_${session.entityId || "general"}_${Date.now()}_${session.originalName}`,
+    originalName: session.originalName,
+    fileSize: session.totalSize,
+    entityType: session.entityType,
+    entityId: session.entityId,
+    folderId: session.folderId,
+    uploadedBy: session.userId,
+    checksum: duplicateCheck.checksum,
+    ...screening.fileFields,
+  }, fs.createReadStream(tempPathFor(session.id)));
+
+  const completed = await storage.updateUploadSession(session.id, {
+    status: "completed",
+    fileId: storedFile.id,
+  });
+  await fs.promises.rm(tempPathFor(session.id), { force: true });
+
+  console.log(`[UPLOAD] ${session.id} completed -> file ${storedFile.id} (${session.totalSize} bytes)`);
+  return { session: completed, file: storedFile, quotaCheck, duplicateCheck, screening };
+}
+
+async function cleanupExpiredUploads() {
+  try {
+    const expired = await storage.getExpiredUploadSessions();
+    for (const session of expired) {
+      if (activeUploads.has(session.id)) continue;
+      await fs.promises.rm(tempPathFor(session.id), { force: true });
+      await storage.deleteUploadSession(session.id);
+    }
+    if (expired.length > 0) {
+      console.log(`[UPLOAD] Cleaned up ${expired.length} expired upload sessions`);
+    }
+  } catch (error) {
+    console.error("Error cleaning up expired uploads:", error);
+  }
+}
+
+export function registerResumableUploadRoutes(app: Express) {
+  setInterval(cleanupExpiredUploads, CLEANUP_INTERVAL_MS).unref();
+
+  // Start a new resumable upload
+  app.post("/api/uploads", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const { targetType, targetId, filename, mimeType, fileSize, folderId, chunkSize } = req.body;
+
+      if (!targetType || !targetId || !filename || !Number.isInteger(fileSize) || fileSize <= 0) {
+        return res.status(400).json({ message: "targetType, targetId, filename and a positive fileSize are required" });
+      }
+      if (fileSize > MAX_UPLOAD_SIZE) {
+        return res.status(413).json({ message: `File exceeds the maximum upload size of ${MAX_UPLOAD_SIZE} bytes` });
+      }
+
+      const resolvedMimeType = mimeType || "application/octet-stream";
+      const target = await resolveUploadTarget(targetType, targetId, resolvedMimeType, filename);
+      if ("status" in target) {
+        return res.status(target.status).json({ message: target.message });
+      }
+
+      // Same membership and upload-once protection as the single-request upload routes
+      const user = await storage.getUser(req.user!.id);
+      // Hackathon targets store under a team or submission entity type but the
+      // hackathon's id, so membership goes by what the client asked for
+      const membershipCheck = await checkUploadMembership(user, targetType, targetId);
+      if (!membershipCheck.allowed) {
+        return res.status(403).json({ message: membershipCheck.message });
+      }
+      const submission = targetType === "submissions" || targetType === "scripts" ? await storage.getScript(targetId) : undefined;
+      const windowClosed = submission ? await checkSubmissionWindow(user, submission) : null;
+      if (windowClosed) {
+        return res.status(403).json({ message: windowClosed });
+      }
+      const existingFiles = await storage.getFilesByEntity(target.entityType, target.entityId);
+      const uploadCheck = await checkUploadOnceViolation(user, target.entityType, target.entityId, existingFiles);
+      if (!uploadCheck.allowed) {
+        return res.status(403).json({ message: uploadCheck.message });
+      }
+
+      // Checked up front so nobody uploads gigabytes only to be refused at the end
+      const quotaCheck = await checkStorageQuota(user, target, fileSize);
+      if (!quotaCheck.allowed) {
+        return res.status(413).json({ message: quotaCheck.message, quota: quotaCheck.exceeded });
+      }
+
+      const requestedChunkSize = Number.isInteger(chunkSize) && chunkSize > 0 ? chunkSize : DEFAULT_CHUNK_SIZE;
+      const session = await storage.createUploadSession({
+        userId: req.user!.id,
+        originalName: filename,
+        mimeType: resolvedMimeType,
+        totalSize: fileSize,
+        uploadOffset: 0,
+        chunkSize: Math.min(requestedChunkSize, MAX_CHUNK_SIZE),
+        entityType: target.entityType,
+        entityId: target.entityId,
+        folderId: folderId || null,
+        status: "uploading",
+        expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+      });
+
+      await fs.promises.mkdir(tempDir, { recursive: true });
+      await fs.promises.writeFile(tempPathFor(session.id), "");
+
+      console.log(`[UPLOAD] ${session.id} started by ${req.user!.email}: ${filename} (${fileSize} bytes) -> ${target.entityType}`);
+
+      res.setHeader("Location", `/api/uploads/${session.id}`);
+      res.setHeader("Upload-Offset", "0");
+      res.status(201).json(sessionResponse(session));
+    } catch (error) {
+      console.error("Error creating upload session:", error);
+      res.status(500).json({ message: "Failed to start upload" });
+    }
+  });
+
+  // Current offset, so clients can resume where the server left off
+  app.head("/api/uploads/:id", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const session = await loadOwnSession(req, res);
+      if (!session) return;
+
+      res.setHeader("Upload-Offset", session.uploadOffset.toString());
+      res.setHeader("Upload-Length", session.totalSize.toString());
+      res.setHeader("Cache-Control", "no-store");
+      res.status(200).end();
+    } catch (error) {
+      console.error("Error fetching upload offset:", error);
+      res.status(500).end();
+    }
+  });
+
+  app.get("/api/uploads/:id", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const session = await loadOwnSession(req, res);
+      if (!session) return;
+      res.setHeader("Cache-Control", "no-store");
+      res.json(sessionResponse(session));
+    } catch (error) {
+      console.error("Error fetching upload session:", error);
+      res.status(500).json({ message: "Failed to fetch upload" });
+    }
+  });
+
+  // Append one chunk
+  app.patch("/api/uploads/:id", isAuthenticated, async (req: any, res: Response) => {
+    const sessionId = req.params.id;
+    if (activeUploads.has(sessionId)) {
+      return res.status(423).json({ message: "Another chunk for this upload is still being written" });
+    }
+    activeUploads.add(sessionId);
+
+    try {
+      const session = await loadOwnSession(req, res);
+      if (!session) return;
+
+      if (session.status === "completed") {
+        return res.status(409).json({ message: "Upload already completed", ...sessionResponse(session) });
+      }
+      if (req.get("Content-Type") !== "application/offset+octet-stream") {
+        return res.status(415).json({ message: "Chunks must be sent as application/offset+octet-stream" });
+      }
+
+      const clientOffset = parseInt(req.get("Upload-Offset") || "", 10);
+      if (clientOffset !== session.uploadOffset) {
+        res.setHeader("Upload-Offset", session.uploadOffset.toString());
+        return res.status(409).json({ message: "Upload-Offset does not match the server", uploadOffset: session.uploadOffset });
+      }
+
+      const expectedDigest = parseChecksumHeader(req.get("Upload-Checksum"));
+      if (!expectedDigest) {
+        return res.status(400).json({ message: "Upload-Checksum header with a sha256 digest is required" });
+      }
+
+      const maxBytes = Math.min(session.chunkSize, session.totalSize - session.uploadOffset);
+      const tempPath = tempPathFor(session.id);
+      const hash = createHash("sha256");
+      let received = 0;
+
+      // Drop anything past the verified offset left behind by an interrupted chunk
+      await fs.promises.truncate(tempPath, session.uploadOffset);
+
+      try {
+        await pipeline(
+          req,
+          new Transform({
+            transform(chunk: Buffer, _encoding, callback) {
+              received += chunk.length;
+              if (received > maxBytes) {
+                return callback(new Error("CHUNK_TOO_LARGE"));
+              }
+              hash.update(chunk);
+              callback(null, chunk);
+            },
+          }),
+          fs.createWriteStream(tempPath, { flags: "a" })
+        );
+      } catch (streamError) {
+        await fs.promises.truncate(tempPath, session.uploadOffset);
+        if (streamError instanceof Error && streamError.message === "CHUNK_TOO_LARGE") {
+          return res.status(413).json({ message: `Chunk exceeds ${maxBytes} bytes` });
+        }
+        throw streamError;
+      }
+
+      if (hash.digest("base64") !== expectedDigest) {
+        await fs.promises.truncate(tempPath, session.uploadOffset);
+        res.setHeader("Upload-Offset", session.uploadOffset.toString());
+        return res.status(CHECKSUM_MISMATCH_STATUS).json({ message: "Chunk checksum mismatch", uploadOffset: session.uploadOffset });
+      }
+
+      const newOffset = session.uploadOffset + received;
+      const updated = await storage.updateUploadSession(session.id, {
+        uploadOffset: newOffset,
+        expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+      });
+
+      res.setHeader("Upload-Offset", newOffset.toString());
+
+      if (newOffset < session.totalSize) {
+        return res.json({ ...sessionResponse(updated), complete: false });
+      }
+
+      const { session: completed, file, quotaCheck, duplicateCheck, screening } = await finalizeUpload(updated);
+      if (!quotaCheck.allowed) {
+        return res.status(413).json({ ...sessionResponse(completed), message: quotaCheck.message, quota: quotaCheck.exceeded });
+      }
+      if (screening && !screening.allowed) {
+        return res.status(screening.status).json({ ...sessionResponse(completed), message: screening.message });
+      }
+      if (!file) {
+        return res.status(409).json({
+          ...sessionResponse(completed),
+          message: duplicateCheck?.message,
+          duplicates: duplicateCheck?.duplicates,
+        });
+      }
+      if (file.quarantinedAt) {
+        await notifyQuarantine(file, await storage.getUser(completed.userId));
+        return res.status(422).json({
+          ...sessionResponse(completed),
+          complete: true,
+          message: QUARANTINE_MESSAGE,
+          file: { ...file, fileData: undefined },
+        });
+      }
+      res.json({
+        ...sessionResponse(completed),
+        complete: true,
+        file: { ...file, fileData: undefined },
+        duplicates: duplicateCheck?.duplicates,
+        duplicateWarning: duplicateCheck?.message,
+      });
+    } catch (error) {
+      console.error(`Error writing chunk for upload ${sessionId}:`, error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to store chunk" });
+      }
+    } finally {
+      activeUploads.delete(sessionId);
+    }
+  });
+
+  // Abandon an upload
+  app.delete("/api/uploads/:id", isAuthenticated, async (req: any, res: Response) => {
+    try {
+      const session = await loadOwnSession(req, res);
+      if (!session) return;
+
+      if (session.status === "uploading") {
+        await fs.promises.rm(tempPathFor(session.id), { force: true });
+        await storage.updateUploadSession(session.id, { status: "cancelled" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error cancelling upload:", error);
+      res.status(500).json({ message: "Failed to cancel upload" });
+    }
+  });
+}
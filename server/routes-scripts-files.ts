@@ -1,7 +1,9 @@
 import type { Express } from "express";
 import multer from "multer";
 import { storage } from "./storage";
-import { checkUploadOnceViolation } from "./filePermissions";
+import { checkUploadOnceViolation, checkUploadMembership, getRequestAccessScope, filterAccessibleFiles } from "./filePermissions";
+import { acceptUpload } from "./upload-acceptance";
+import { checkSubmissionWindow } from "./registration";
 
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -36,6 +38,18 @@ export function registerScriptFileRoutes(app: Express) {
       // Get existing files for this script
       const existingFiles = await storage.getFilesByEntity('scripts', scriptId);
       
+      // Participants upload only to their own team's content
+      const membershipCheck = await checkUploadMembership(user, 'scripts', scriptId);
+      if (!membershipCheck.allowed) {
+        return res.status(403).json({ message: membershipCheck.message });
+      }
+
+      // Files are part of the submission, so they close with it
+      const windowClosed = await checkSubmissionWindow(user, script);
+      if (windowClosed) {
+        return res.status(403).json({ message: windowClosed });
+      }
+
       // Check if user can upload (upload-once protection)
       const uploadCheck = await checkUploadOnceViolation(user, 'scripts', scriptId, existingFiles);
       if (!uploadCheck.allowed) {
@@ -44,23 +58,22 @@ export function registerScriptFileRoutes(app: Express) {
 
       // Properly handle UTF-8 encoding for filenames
       const originalName = Buffer.from(req.file.originalname, 'latin1').toString('utf8');
-      
-      const fileData = {
-        filename: `script_${scriptId}_${Date.now()}_${originalName}`,
-        originalName: originalName,
-        mimeType: req.file.mimetype,
-        fileSize: req.file.size,
-        fileData: req.file.buffer.toString('base64'),
+
+      const accepted = await acceptUpload(user, {
         entityType: 'scripts',
         entityId: scriptId,
-        uploadedBy: userId,
-      };
-
-      const storedFile = await storage.createFile(fileData);
+        filenamePrefix: `script_${scriptId}`,
+        originalName,
+      }, req.file);
+      if (!accepted.ok) {
+        return res.status(accepted.status).json(accepted.body);
+      }
 
       res.status(201).json({ 
         message: "File uploaded successfully",
-        file: storedFile
+        file: accepted.file,
+        duplicates: accepted.duplicateCheck.duplicates,
+        duplicateWarning: accepted.duplicateCheck.message
       });
     } catch (error) {
       console.error("Error uploading script file:", error);
@@ -72,7 +85,8 @@ export function registerScriptFileRoutes(app: Express) {
   app.get("/api/scripts/:scriptId/files", async (req, res) => {
     try {
       const scriptId = req.params.scriptId;
-      const files = await storage.getFilesByEntity('scripts', scriptId);
+      const scope = await getRequestAccessScope(req);
+      const files = filterAccessibleFiles(scope, await storage.getFilesByEntity('scripts', scriptId));
       
       const filesWithoutData = files.map(file => ({
         ...file,
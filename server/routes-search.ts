@@ -0,0 +1,84 @@
+import type { Express } from "express";
+import { storage, type SearchEntityType } from "./storage";
+import { isAuthenticated } from "./auth";
+import { requireFilePermission, getAccessScope } from "./filePermissions";
+import { getEntityPageUrl } from "./file-duplicates";
+
+const SEARCH_ENTITY_TYPES: SearchEntityType[] = ["submissions", "files"];
+const MAX_LIMIT = 50;
+
+function parseTypes(value: unknown): SearchEntityType[] | undefined {
+  if (typeof value !== "string" || !value) return undefined;
+  const types = value
+    .split(",")
+    .filter((type): type is SearchEntityType => SEARCH_ENTITY_TYPES.includes(type as SearchEntityType));
+  return types.length > 0 ? types : undefined;
+}
+
+export function registerSearchRoutes(app: Express) {
+  // Unified full-text search over submissions and files (including text
+  // extracted from PDF, DOCX and TXT uploads), ranked and highlighted.
+  //   q          websearch syntax: "exact phrase", -excluded, a OR b
+  //   type       comma-separated: submissions,files
+  //   categoryId only results belonging to hackathons in this category
+  //   language   submission language code
+  app.get("/api/search", isAuthenticated, async (req: any, res) => {
+    try {
+      const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      if (!query) {
+        return res.json({ query, total: 0, results: [] });
+      }
+
+      const user = await storage.getUser(req.user.id);
+      const scope = await getAccessScope(user);
+      if (!scope) {
+        return res.json({ query, total: 0, results: [] });
+      }
+      const canViewFiles = requireFilePermission('canView', user);
+
+      let types = parseTypes(req.query.type);
+      if (!canViewFiles) {
+        types = (types ?? SEARCH_ENTITY_TYPES).filter((type) => type !== "files");
+        if (types.length === 0) {
+          return res.status(403).json({ message: "Insufficient permissions to search files" });
+        }
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, MAX_LIMIT);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+      const { total, results } = await storage.search({
+        query,
+        scope,
+        types,
+        categoryId: (req.query.categoryId as string) || undefined,
+        language: (req.query.language as string) || undefined,
+        limit,
+        offset,
+      });
+
+      // Storage only returns hits the caller may see; attach what the client
+      // needs to open them
+      const enriched = await Promise.all(results.map(async (hit) => {
+        if (hit.entityType === "submissions") {
+          return { ...hit, pageUrl: getEntityPageUrl("submissions") };
+        }
+        const file = await storage.getFile(hit.entityId);
+        if (!file) return null;
+        return {
+          ...hit,
+          pageUrl: getEntityPageUrl(file.entityType),
+          downloadUrl: `/api/files/${file.id}/download`,
+          mimeType: file.mimeType,
+          fileSize: file.fileSize,
+          parentEntityType: file.entityType,
+        };
+      }));
+
+      res.json({ query, total, results: enriched.filter((hit) => hit !== null) });
+    } catch (error) {
+      console.error("Error searching:", error);
+      res.status(500).json({ message: "Failed to search" });
+    }
+  });
+}
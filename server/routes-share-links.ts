@@ -0,0 +1,344 @@
+import type { Express, Response } from "express";
+import { createHmac, timingSafeEqual } from "crypto";
+import { pipeline } from "stream/promises";
+import bcrypt from "bcryptjs";
+import { z } from "zod";
+import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import { can, getRequestAccessScope, canAccessFile } from "./filePermissions";
+import { createFileContentStream } from "./blob-storage";
+import type { FileShareLink } from "@shared/schema";
+
+// Share links let someone without an account download one file:
+//   GET    /api/files/:id/share-links  list a file's links (files.share)
+//   POST   /api/files/:id/share-links  create a link
+//   DELETE /api/share-links/:id        revoke a link
+//   GET    /api/share/:token           public: what the link points at
+//   POST   /api/share/:token/unlock    public: trade the password for a download ticket
+//   GET    /api/share/:token/download  public: the file itself
+// The token is `<link id>.<expiry>.<signature>`, signed with the server
+// secret, so forged or tampered links are rejected before touching the
+// database. Limits and revocation are checked against the row on every use.
+
+const SHARE_SECRET = process.env.SHARE_LINK_SECRET || process.env.SESSION_SECRET || "your-secret-key-change-in-production";
+const DEFAULT_EXPIRY_HOURS = 72;
+const MAX_EXPIRY_HOURS = 30 * 24;
+const TICKET_TTL_MS = 5 * 60 * 1000; // Unlocked downloads must start within 5 minutes
+const MAX_UNLOCK_ATTEMPTS = 10; // Wrong passwords per link and address...
+const UNLOCK_WINDOW_MS = 15 * 60 * 1000; // ...per 15 minutes
+
+const SHARE_LINK_USER_ID = "share-link"; // download_logs.user_id for anonymous share downloads
+
+const createShareLinkSchema = z.object({
+  label: z.string().trim().max(255).optional(),
+  password: z.string().min(4).max(128).optional(),
+  expiresInHours: z.number().int().min(1).max(MAX_EXPIRY_HOURS).default(DEFAULT_EXPIRY_HOURS),
+  maxDownloads: z.number().int().min(1).max(10000).optional(),
+});
+
+type ShareLinkStatus = "active" | "expired" | "revoked" | "exhausted";
+
+const failedUnlocks = new Map<string, { count: number; resetAt: number }>();
+
+function sign(payload: string): string {
+  return createHmac("sha256", SHARE_SECRET).update(payload).digest("base64url");
+}
+
+function signatureMatches(payload: string, signature: string): boolean {
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export function buildShareToken(link: Pick<FileShareLink, "id" | "expiresAt">): string {
+  const payload = `${link.id}.${link.expiresAt.getTime().toString(36)}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+// Returns the link id if the token is genuine and not past its signed expiry
+function verifyShareToken(token: string): string | null {
+  const [id, expiry, signature] = token.split(".");
+  if (!id || !expiry || !signature) return null;
+  if (!signatureMatches(`${id}.${expiry}`, signature)) return null;
+  if (parseInt(expiry, 36) <= Date.now()) return null;
+  return id;
+}
+
+function buildTicket(linkId: string): string {
+  const expiry = (Date.now() + TICKET_TTL_MS).toString(36);
+  return `${expiry}.${sign(`${linkId}.ticket.${expiry}`)}`;
+}
+
+function verifyTicket(linkId: string, ticket: unknown): boolean {
+  if (typeof ticket !== "string") return false;
+  const [expiry, signature] = ticket.split(".");
+  if (!expiry || !signature) return false;
+  return signatureMatches(`${linkId}.ticket.${expiry}`, signature) && parseInt(expiry, 36) > Date.now();
+}
+
+function getShareLinkStatus(link: FileShareLink): ShareLinkStatus {
+  if (link.revokedAt) return "revoked";
+  if (link.expiresAt.getTime() <= Date.now()) return "expired";
+  if (link.maxDownloads !== null && link.downloadCount >= link.maxDownloads) return "exhausted";
+  return "active";
+}
+
+// What organizers see: never the password hash
+function toShareLinkResponse(link: FileShareLink) {
+  const { passwordHash, ...rest } = link;
+  return {
+    ...rest,
+    hasPassword: !!passwordHash,
+    status: getShareLinkStatus(link),
+    url: `/share/${buildShareToken(link)}`,
+  };
+}
+
+const UNAVAILABLE_MESSAGES: Record<Exclude<ShareLinkStatus, "active">, string> = {
+  expired: "This share link has expired",
+  revoked: "This share link has been revoked",
+  exhausted: "This share link has reached its download limit",
+};
+
+// Resolves a public token to its link, or sends the 404/410 explaining why not
+async function resolveShareLink(token: string, res: Response): Promise<FileShareLink | null> {
+  const linkId = verifyShareToken(token);
+  const link = linkId ? await storage.getShareLink(linkId) : undefined;
+  if (!link) {
+    res.status(404).json({ message: "Share link not found or expired" });
+    return null;
+  }
+  const status = getShareLinkStatus(link);
+  if (status !== "active") {
+    res.status(410).json({ message: UNAVAILABLE_MESSAGES[status], status });
+    return null;
+  }
+  return link;
+}
+
+function isUnlockThrottled(key: string): boolean {
+  const entry = failedUnlocks.get(key);
+  if (!entry) return false;
+  if (entry.resetAt <= Date.now()) {
+    failedUnlocks.delete(key);
+    return false;
+  }
+  return entry.count >= MAX_UNLOCK_ATTEMPTS;
+}
+
+function recordFailedUnlock(key: string) {
+  const entry = failedUnlocks.get(key);
+  if (entry && entry.resetAt > Date.now()) {
+    entry.count++;
+  } else {
+    failedUnlocks.set(key, { count: 1, resetAt: Date.now() + UNLOCK_WINDOW_MS });
+  }
+}
+
+export function registerShareLinkRoutes(app: Express) {
+  app.get("/api/files/:id/share-links", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!can(req.user, "files.share")) {
+        return res.status(403).json({ message: "Insufficient permissions to manage share links" });
+      }
+      const file = await storage.getFile(req.params.id);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      if (!canAccessFile(await getRequestAccessScope(req), file)) {
+        return res.status(403).json({ message: "You do not have access to this file" });
+      }
+
+      const links = await storage.getShareLinksByFile(file.id);
+      res.json(links.map(toShareLinkResponse));
+    } catch (error) {
+      console.error("Error fetching share links:", error);
+      res.status(500).json({ message: "Failed to fetch share links" });
+    }
+  });
+
+  app.post("/api/files/:id/share-links", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!can(req.user, "files.share")) {
+        return res.status(403).json({ message: "Insufficient permissions to create share links" });
+      }
+      const file = await storage.getFile(req.params.id);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      if (!canAccessFile(await getRequestAccessScope(req), file)) {
+        return res.status(403).json({ message: "You do not have access to this file" });
+      }
+
+      const parsed = createShareLinkSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid share link settings", errors: parsed.error.errors });
+      }
+      const { label, password, expiresInHours, maxDownloads } = parsed.data;
+
+      const link = await storage.createShareLink({
+        fileId: file.id,
+        label: label || null,
+        passwordHash: password ? await bcrypt.hash(password, 10) : null,
+        expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+        maxDownloads: maxDownloads ?? null,
+        createdBy: req.user.id,
+      });
+      res.status(201).json(toShareLinkResponse(link));
+    } catch (error) {
+      console.error("Error creating share link:", error);
+      res.status(500).json({ message: "Failed to create share link" });
+    }
+  });
+
+  app.delete("/api/share-links/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!can(req.user, "files.share")) {
+        return res.status(403).json({ message: "Insufficient permissions to revoke share links" });
+      }
+      const existing = await storage.getShareLink(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+
+      const link = await storage.revokeShareLink(existing.id, req.user.id);
+      res.json(toShareLinkResponse(link ?? existing));
+    } catch (error) {
+      console.error("Error revoking share link:", error);
+      res.status(500).json({ message: "Failed to revoke share link" });
+    }
+  });
+
+  // Public: no session required from here on
+
+  app.get("/api/share/:token", async (req, res) => {
+    try {
+      const link = await resolveShareLink(req.params.token, res);
+      if (!link) return;
+      const file = await storage.getFile(link.fileId);
+      if (!file) {
+        return res.status(404).json({ message: "The shared file no longer exists" });
+      }
+      if (file.quarantinedAt) {
+        return res.status(403).json({ message: "This file is being reviewed and can't be downloaded right now" });
+      }
+
+      res.json({
+        fileName: file.originalName,
+        mimeType: file.mimeType,
+        fileSize: file.fileSize,
+        label: link.label,
+        expiresAt: link.expiresAt,
+        requiresPassword: !!link.passwordHash,
+        downloadsRemaining: link.maxDownloads === null ? null : link.maxDownloads - link.downloadCount,
+      });
+    } catch (error) {
+      console.error("Error resolving share link:", error);
+      res.status(500).json({ message: "Failed to open share link" });
+    }
+  });
+
+  app.post("/api/share/:token/unlock", async (req, res) => {
+    try {
+      const link = await resolveShareLink(req.params.token, res);
+      if (!link) return;
+
+      if (link.passwordHash) {
+        const throttleKey = `${link.id}:${req.ip}`;
+        if (isUnlockThrottled(throttleKey)) {
+          return res.status(429).json({ message: "Too many attempts. Try again later." });
+        }
+        const password = typeof req.body?.password === "string" ? req.body.password : "";
+        if (!(await bcrypt.compare(password, link.passwordHash))) {
+          recordFailedUnlock(throttleKey);
+          return res.status(401).json({ message: "Incorrect password" });
+        }
+        failedUnlocks.delete(throttleKey);
+      }
+
+      res.json({
+        downloadUrl: `/api/share/${req.params.token}/download?ticket=${encodeURIComponent(buildTicket(link.id))}`,
+      });
+    } catch (error) {
+      console.error("Error unlocking share link:", error);
+      res.status(500).json({ message: "Failed to unlock share link" });
+    }
+  });
+
+  app.get("/api/share/:token/download", async (req, res) => {
+    const startTime = Date.now();
+    try {
+      const link = await resolveShareLink(req.params.token, res);
+      if (!link) return;
+      if (link.passwordHash && !verifyTicket(link.id, req.query.ticket)) {
+        return res.status(401).json({ message: "This share link is password protected" });
+      }
+      const file = await storage.getFile(link.fileId);
+      if (!file) {
+        return res.status(404).json({ message: "The shared file no longer exists" });
+      }
+      if (file.quarantinedAt) {
+        return res.status(403).json({ message: "This file is being reviewed and can't be downloaded right now" });
+      }
+
+      const claimed = await storage.claimShareLinkDownload(link.id);
+      if (!claimed) {
+        return res.status(410).json({ message: "This share link is no longer available" });
+      }
+
+      const log = {
+        fileId: file.id,
+        userId: SHARE_LINK_USER_ID,
+        userEmail: null,
+        userName: link.label ? `Share link: ${link.label}` : "Share link",
+        userRole: "guest",
+        ipAddress: req.ip || null,
+        userAgent: req.get("User-Agent") || null,
+        entityType: file.entityType,
+        entityId: file.entityId,
+        refererPage: req.get("Referer") || "direct",
+        shareLinkId: link.id,
+      };
+
+      let stream;
+      try {
+        stream = await createFileContentStream(file);
+      } catch (error) {
+        await storage.releaseShareLinkDownload(link.id);
+        throw error;
+      }
+
+      res.setHeader("Content-Type", file.mimeType || "application/octet-stream");
+      res.setHeader("Content-Disposition", `attachment; filename="${encodeURIComponent(file.originalName)}"`);
+      res.setHeader("Content-Length", file.fileSize.toString());
+      res.setHeader("Cache-Control", "no-store");
+
+      let bytesSent = 0;
+      stream.on("data", (chunk: Buffer) => { bytesSent += chunk.length; });
+      try {
+        await pipeline(stream, res);
+        await storage.createDownloadLog({
+          ...log,
+          downloadSize: bytesSent,
+          downloadDuration: Date.now() - startTime,
+          downloadStatus: "completed",
+        });
+      } catch (streamError) {
+        // The recipient went away mid-download; the claimed download still counts
+        await storage.createDownloadLog({
+          ...log,
+          downloadSize: bytesSent,
+          downloadDuration: Date.now() - startTime,
+          downloadStatus: "interrupted",
+        });
+      }
+    } catch (error) {
+      console.error("Error downloading through share link:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Download failed" });
+      } else {
+        res.destroy();
+      }
+    }
+  });
+}
@@ -0,0 +1,133 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import { can } from "@shared/permissions";
+import { buildShowcase, isShowcased } from "./showcase";
+
+// Public showcase pages and the organizer settings behind them. What the
+// public sees is decided in server/showcase.ts.
+
+const showcaseSettingsSchema = z.object({
+  isPublic: z.boolean().optional(),
+  showLeaderboard: z.boolean().optional(),
+});
+
+const submissionVisibilitySchema = z.object({
+  hidden: z.boolean(),
+});
+
+// Hackathon ids are uuids; anything else would fail the database cast
+const hackathonIdSchema = z.string().uuid();
+
+export function registerShowcaseRoutes(app: Express) {
+  // Public: no session required
+
+  app.get("/api/showcase", async (req, res) => {
+    try {
+      const hackathons = await storage.getPublicProjects();
+      res.json(hackathons.map((hackathon) => ({
+        id: hackathon.id,
+        name: hackathon.name,
+        description: hackathon.description,
+        prizePool: hackathon.prizePool,
+        startDate: hackathon.startDate,
+        endDate: hackathon.endDate,
+        hasResults: !!hackathon.scoringClosedAt && hackathon.showLeaderboard,
+      })));
+    } catch (error) {
+      console.error("Error fetching showcase:", error);
+      res.status(500).json({ message: "Failed to fetch showcase" });
+    }
+  });
+
+  // Organizers may preview a hackathon before making it public
+  app.get("/api/showcase/:id", async (req: any, res) => {
+    try {
+      if (!hackathonIdSchema.safeParse(req.params.id).success) {
+        return res.status(404).json({ message: "This hackathon has no public page" });
+      }
+      const hackathon = await storage.getProject(req.params.id);
+      const userId = req.user?.id || req.session?.userId;
+      const canPreview = !!userId && can(await storage.getUser(userId), "showcase.manage");
+      if (!hackathon || (!hackathon.isPublic && !canPreview)) {
+        return res.status(404).json({ message: "This hackathon has no public page" });
+      }
+      res.json(await buildShowcase(hackathon));
+    } catch (error) {
+      console.error("Error fetching hackathon showcase:", error);
+      res.status(500).json({ message: "Failed to fetch hackathon showcase" });
+    }
+  });
+
+  // Settings plus every published original, including the hidden ones
+  app.get("/api/projects/:id/showcase", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!can(req.user, "showcase.manage")) {
+        return res.status(403).json({ message: "Insufficient permissions to manage the showcase" });
+      }
+      const hackathon = await storage.getProject(req.params.id);
+      if (!hackathon) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const submissions = await storage.getScriptsByProject(hackathon.id);
+      res.json({
+        isPublic: hackathon.isPublic,
+        showLeaderboard: hackathon.showLeaderboard,
+        scoringClosed: !!hackathon.scoringClosedAt,
+        submissions: submissions
+          .filter((submission) => isShowcased({ ...submission, hiddenFromShowcase: false }))
+          .map((submission) => ({
+            id: submission.id,
+            title: submission.title,
+            hiddenFromShowcase: submission.hiddenFromShowcase,
+          })),
+      });
+    } catch (error) {
+      console.error("Error fetching showcase settings:", error);
+      res.status(500).json({ message: "Failed to fetch showcase settings" });
+    }
+  });
+
+  // body { isPublic?, showLeaderboard? }
+  app.put("/api/projects/:id/showcase", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!can(req.user, "showcase.manage")) {
+        return res.status(403).json({ message: "Insufficient permissions to manage the showcase" });
+      }
+      const parsed = showcaseSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid showcase settings", errors: parsed.error.errors });
+      }
+      const hackathon = await storage.setProjectShowcase(req.params.id, parsed.data);
+      if (!hackathon) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      res.json(hackathon);
+    } catch (error) {
+      console.error("Error updating showcase settings:", error);
+      res.status(500).json({ message: "Failed to update showcase settings" });
+    }
+  });
+
+  // body { hidden }
+  app.put("/api/scripts/:id/showcase", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!can(req.user, "showcase.manage")) {
+        return res.status(403).json({ message: "Insufficient permissions to manage the showcase" });
+      }
+      const parsed = submissionVisibilitySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid showcase visibility", errors: parsed.error.errors });
+      }
+      const submission = await storage.setScriptHiddenFromShowcase(req.params.id, parsed.data.hidden);
+      if (!submission) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+      res.json(submission);
+    } catch (error) {
+      console.error("Error updating showcase visibility:", error);
+      res.status(500).json({ message: "Failed to update showcase visibility" });
+    }
+  });
+}
@@ -1,6 +1,11 @@
 import { Express, Request, Response } from "express";
 import { Pool } from 'pg';
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
 import { fileCache } from "./simple-cache";
+import { readFileContent, createFileContentStream } from "./blob-storage";
+import { parseRangeHeader, buildETag, isNotModified, isRangeStillValid } from "./http-range";
+import { getRequestAccessScope, canAccessFile } from "./filePermissions";
 
 // Direct database connection for downloads
 function createDirectConnection() {
@@ -30,10 +35,69 @@ function setCachedFile(fileId: string, buffer: Buffer): void {
 
 import { isAuthenticated } from "./auth";
 
+// Records one download (full or partial) and bumps the file's counters once
+// per actual download rather than once per player seek
+function logDownload(req: any, fileRecord: any, details: {
+  bytesSent: number;
+  duration: number;
+  status: "completed" | "partial" | "interrupted" | "failed";
+  countsAsDownload: boolean;
+}) {
+  setImmediate(async () => {
+    try {
+      const logPool = createDirectConnection();
+      if (logPool) {
+        const user = req.user;
+        const clientIp = req.ip || req.connection?.remoteAddress || 'unknown';
+        const userAgent = req.get('User-Agent') || 'unknown';
+        const refererPage = req.get('Referer') || 'direct';
+
+        await logPool.query(`
+          INSERT INTO download_logs (
+            file_id, user_id, user_email, user_name, user_role,
+            ip_address, user_agent, download_size, download_duration,
+            download_status, entity_type, entity_id, referer_page, downloaded_at
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, NOW())
+        `, [
+          fileRecord.id,
+          user.id,
+          user.email || 'unknown@example.com',
+          user.name || user.email || 'Unknown User',
+          user.role || 'member',
+          clientIp,
+          userAgent,
+          details.bytesSent,
+          details.duration,
+          details.status,
+          fileRecord.entity_type,
+          fileRecord.entity_id,
+          refererPage
+        ]);
+
+        if (details.countsAsDownload) {
+          await logPool.query(`
+            UPDATE files 
+            SET download_count = COALESCE(download_count, 0) + 1,
+                last_accessed_at = NOW()
+            WHERE id = $1
+          `, [fileRecord.id]);
+        }
+
+        await logPool.end();
+      }
+    } catch (logError) {
+      console.error("Download logging failed:", logError);
+    }
+  });
+}
+
 export function registerDownloadRoutes(app: Express) {
+  // Supports Range/206 for seeking in media players and ETag/Last-Modified
+  // revalidation. Pass ?inline=true to stream into an <audio>/<video> element.
   app.get("/api/files/:fileId/download", isAuthenticated, async (req: any, res: Response) => {
     const startTime = Date.now();
     const { fileId } = req.params;
+    let fileRecord: any;
     
     try {
       // User is already authenticated via middleware
@@ -42,132 +106,142 @@ export function registerDownloadRoutes(app: Express) {
         return res.status(401).json({ error: "Authentication required" });
       }
 
-      console.log(`[DOWNLOAD] ${fileId} requested by ${user.email} (${user.id})`);
-
-      // Check cache first for file buffer
-      let fileBuffer = getCachedFile(fileId);
-      let fileRecord;
-
       const pool = createDirectConnection();
       if (!pool) {
         return res.status(500).json({ error: "Database not available" });
       }
 
       try {
-        if (!fileBuffer) {
-          // Get file record from database using direct SQL
-          const fileResults = await pool.query(
-            'SELECT id, filename, original_name, mime_type, file_size, entity_type, entity_id, file_data FROM files WHERE id = $1 LIMIT 1',
-            [fileId]
-          );
-
-          if (!fileResults.rows || fileResults.rows.length === 0) {
-            return res.status(404).json({ error: "File not found" });
-          }
-
-          fileRecord = fileResults.rows[0];
-
-          if (!fileRecord.file_data) {
-            return res.status(500).json({ error: "File data missing" });
-          }
-
-          // Decode file data efficiently
-          try {
-            console.log(`[DOWNLOAD] Decoding file data for ${fileId}`);
-            fileBuffer = Buffer.from(fileRecord.file_data, 'base64');
-            setCachedFile(fileId, fileBuffer);
-            console.log(`[DOWNLOAD] File ${fileId} cached (${fileBuffer.length} bytes)`);
-          } catch (decodeError) {
-            console.error("File decode error:", decodeError);
-            return res.status(500).json({ error: "File data corrupted" });
-          }
-        } else {
-          console.log(`[DOWNLOAD] Cache hit for ${fileId} (${fileBuffer.length} bytes)`);
-          // Still need file record for metadata
-          const fileResults = await pool.query(
-            'SELECT id, filename, original_name, mime_type, file_size, entity_type, entity_id FROM files WHERE id = $1 LIMIT 1',
-            [fileId]
-          );
-          
-          if (fileResults.rows.length > 0) {
-            fileRecord = fileResults.rows[0];
-          }
-        }
+        const fileResults = await pool.query(
+          `SELECT id, filename, original_name, mime_type, file_size, entity_type, entity_id,
+                  access_level, uploaded_by, quarantined_at,
+                  storage_key, storage_backend, checksum, created_at, updated_at,
+                  CASE WHEN storage_key IS NULL THEN file_data END AS file_data
+           FROM files WHERE id = $1 AND deleted_at IS NULL LIMIT 1`,
+          [fileId]
+        );
+        fileRecord = fileResults.rows[0];
+      } finally {
+        await pool.end();
+      }
 
-        if (!fileRecord) {
-          return res.status(404).json({ error: "File record not found" });
-        }
+      if (!fileRecord) {
+        return res.status(404).json({ error: "File not found" });
+      }
+      const canDownload = canAccessFile(await getRequestAccessScope(req), {
+        entityType: fileRecord.entity_type,
+        entityId: fileRecord.entity_id,
+        accessLevel: fileRecord.access_level,
+        uploadedBy: fileRecord.uploaded_by,
+        quarantinedAt: fileRecord.quarantined_at,
+      });
+      if (!canDownload) {
+        return res.status(403).json({ error: "You do not have access to this file" });
+      }
+      if (!fileRecord.storage_key && !fileRecord.file_data) {
+        return res.status(500).json({ error: "File data missing" });
+      }
 
-        const downloadDuration = Date.now() - startTime;
+      const cachedBuffer = getCachedFile(fileId);
+      const fileSize: number = cachedBuffer?.length ?? fileRecord.file_size;
+      const lastModified: Date | null = fileRecord.updated_at || fileRecord.created_at || null;
+      const etag = buildETag({
+        id: fileRecord.id,
+        checksum: fileRecord.checksum,
+        fileSize,
+        updatedAt: lastModified,
+      });
 
-        // Log download asynchronously (don't wait)
-        setImmediate(async () => {
-          try {
-            const logPool = createDirectConnection();
-            if (logPool) {
-              const clientIp = req.ip || req.connection?.remoteAddress || 'unknown';
-              const userAgent = req.get('User-Agent') || 'unknown';
-              const refererPage = req.get('Referer') || 'direct';
-
-              await logPool.query(`
-                INSERT INTO download_logs (
-                  file_id, user_id, user_email, user_name, user_role,
-                  ip_address, user_agent, download_size, download_duration,
-                  download_status, entity_type, entity_id, referer_page, downloaded_at
-                ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, NOW())
-              `, [
-                fileRecord.id,
-                user.id,
-                user.email || 'unknown@example.com',
-                user.name || user.email || 'Unknown User',
-                user.role || 'member',
-                clientIp,
-                userAgent,
-                fileRecord.file_size || fileBuffer.length,
-                downloadDuration,
-                'completed',
-                fileRecord.entity_type,
-                fileRecord.entity_id,
-                refererPage
-              ]);
-
-              // Update file stats
-              await logPool.query(`
-                UPDATE files 
-                SET download_count = COALESCE(download_count, 0) + 1,
-                    last_accessed_at = NOW()
-                WHERE id = $1
-              `, [fileId]);
-
-              await logPool.end();
-            }
-          } catch (logError) {
-            console.error("Download logging failed:", logError);
-          }
-        });
+      res.setHeader('ETag', etag);
+      if (lastModified) res.setHeader('Last-Modified', new Date(lastModified).toUTCString());
+      res.setHeader('Cache-Control', 'private, max-age=3600'); // Cache for 1 hour
+      res.setHeader('Accept-Ranges', 'bytes');
 
-        // Set optimal headers for file download
-        const filename = fileRecord.original_name || fileRecord.filename;
-        res.setHeader('Content-Type', fileRecord.mime_type || 'application/octet-stream');
-        res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(filename)}"`);
-        res.setHeader('Content-Length', fileBuffer.length.toString());
-        res.setHeader('Cache-Control', 'private, max-age=3600'); // Cache for 1 hour
-        res.setHeader('X-Download-Time', `${downloadDuration}ms`);
+      if (isNotModified(req, etag, lastModified ? new Date(lastModified) : null)) {
+        return res.status(304).end();
+      }
 
-        // Send file
-        res.end(fileBuffer);
-        console.log(`[DOWNLOAD] ${fileId} completed (${fileBuffer.length} bytes) in ${downloadDuration}ms`);
+      const rangeResult = isRangeStillValid(req, etag, lastModified ? new Date(lastModified) : null)
+        ? parseRangeHeader(req.get('Range'), fileSize)
+        : { type: "full" as const };
 
-      } finally {
-        await pool.end();
+      if (rangeResult.type === "unsatisfiable") {
+        res.setHeader('Content-Range', `bytes */${fileSize}`);
+        return res.status(416).json({ error: "Requested range not satisfiable" });
+      }
+
+      const range = rangeResult.type === "partial" ? rangeResult.range : undefined;
+      const contentLength = range ? range.end - range.start + 1 : fileSize;
+      const isPartial = contentLength < fileSize;
+
+      const filename = fileRecord.original_name || fileRecord.filename;
+      const disposition = req.query.inline === 'true' ? 'inline' : 'attachment';
+      res.setHeader('Content-Type', fileRecord.mime_type || 'application/octet-stream');
+      res.setHeader('Content-Disposition', `${disposition}; filename="${encodeURIComponent(filename)}"`);
+      res.setHeader('Content-Length', contentLength.toString());
+      if (range) {
+        res.status(206);
+        res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${fileSize}`);
+      }
+
+      console.log(`[DOWNLOAD] ${fileId} requested by ${user.email} (${user.id})${range ? ` bytes ${range.start}-${range.end}` : ''}`);
+
+      // Small files come from memory; everything else streams from the blob store
+      let bytesSent = 0;
+      let stream: Readable;
+      if (cachedBuffer) {
+        console.log(`[DOWNLOAD] Cache hit for ${fileId} (${cachedBuffer.length} bytes)`);
+        stream = Readable.from(range ? cachedBuffer.subarray(range.start, range.end + 1) : cachedBuffer);
+      } else if (!range && fileSize < 10 * 1024 * 1024) {
+        const buffer = await readFileContent({
+          storageKey: fileRecord.storage_key,
+          storageBackend: fileRecord.storage_backend,
+          fileData: fileRecord.file_data,
+        });
+        setCachedFile(fileId, buffer);
+        stream = Readable.from(buffer);
+      } else {
+        stream = await createFileContentStream({
+          storageKey: fileRecord.storage_key,
+          storageBackend: fileRecord.storage_backend,
+          fileData: fileRecord.file_data,
+        }, range);
+      }
+      stream.on('data', (chunk: Buffer) => { bytesSent += chunk.length; });
+
+      try {
+        await pipeline(stream, res);
+        const downloadDuration = Date.now() - startTime;
+        logDownload(req, fileRecord, {
+          bytesSent,
+          duration: downloadDuration,
+          status: isPartial ? 'partial' : 'completed',
+          // A player's first range request marks the start of a playback
+          countsAsDownload: !range || range.start === 0,
+        });
+        console.log(`[DOWNLOAD] ${fileId} completed (${bytesSent} bytes) in ${downloadDuration}ms`);
+      } catch (streamError) {
+        // Usually the client went away: the user cancelled or the player seeked
+        logDownload(req, fileRecord, {
+          bytesSent,
+          duration: Date.now() - startTime,
+          status: res.writableFinished ? (isPartial ? 'partial' : 'completed') : 'interrupted',
+          countsAsDownload: false,
+        });
+        console.log(`[DOWNLOAD] ${fileId} interrupted after ${bytesSent} bytes`);
       }
 
     } catch (error) {
       const errorDuration = Date.now() - startTime;
       console.error(`[DOWNLOAD] Error after ${errorDuration}ms:`, error);
       
+      if (fileRecord) {
+        logDownload(req, fileRecord, { bytesSent: 0, duration: errorDuration, status: 'failed', countsAsDownload: false });
+      }
       if (!res.headersSent) {
         res.status(500).json({ error: "Download failed" });
+      } else {
+        res.destroy();
       }
     }
   });
@@ -0,0 +1,100 @@
+import type { Express } from "express";
+import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import { can } from "@shared/permissions";
+import {
+  QUOTA_SCOPES,
+  isQuotaScope,
+  getDefaultQuota,
+  describeQuotaScope,
+  getQuotaUsage,
+  resolveQuotaTargets,
+} from "./storage-quotas";
+
+// Storage usage for the upload meters, and the organizer view that ranks the
+// biggest consumers and sets per-entity quota overrides.
+
+export function registerStorageQuotaRoutes(app: Express) {
+  // Usage and limits an upload to the given entity would count against
+  app.get("/api/storage/usage", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      const entityType = typeof req.query.entityType === "string" ? req.query.entityType : "";
+      const entityId = typeof req.query.entityId === "string" && req.query.entityId ? req.query.entityId : null;
+
+      const usage = await getQuotaUsage(await resolveQuotaTargets(req.user.id, entityType, entityId));
+      res.json({ usage, unlimited: can(user, "files.ignoreQuota") });
+    } catch (error) {
+      console.error("Error fetching storage usage:", error);
+      res.status(500).json({ message: "Failed to fetch storage usage" });
+    }
+  });
+
+  app.get("/api/admin/storage/consumers", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!can(user, "storage.manage")) {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const scope = isQuotaScope(req.query.scope) ? req.query.scope : "user";
+      const limit = Math.min(parseInt(req.query.limit as string) || 25, 200);
+      const consumers = await storage.getTopStorageConsumers(scope, limit);
+      const overrides = new Map(
+        (await storage.getStorageQuotas(scope, consumers.map((consumer) => consumer.scopeId)))
+          .map((quota) => [quota.scopeId, quota.limitBytes]),
+      );
+      const defaultLimitBytes = getDefaultQuota(scope);
+
+      const ranked = [];
+      for (const consumer of consumers) {
+        const override = overrides.get(consumer.scopeId);
+        ranked.push({
+          ...consumer,
+          scope,
+          name: await describeQuotaScope(scope, consumer.scopeId),
+          limitBytes: override ?? defaultLimitBytes,
+          isOverride: override !== undefined,
+        });
+      }
+
+      res.json({
+        scope,
+        defaultLimits: Object.fromEntries(QUOTA_SCOPES.map((s) => [s, getDefaultQuota(s)])),
+        consumers: ranked,
+      });
+    } catch (error) {
+      console.error("Error fetching storage consumers:", error);
+      res.status(500).json({ message: "Failed to fetch storage consumers" });
+    }
+  });
+
+  // Sets a per-entity limit; limitBytes null goes back to the default
+  app.put("/api/admin/storage/quotas/:scope/:scopeId", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!can(user, "storage.manage")) {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const { scope, scopeId } = req.params;
+      if (!isQuotaScope(scope)) {
+        return res.status(400).json({ message: "scope must be user, team or hackathon" });
+      }
+      const { limitBytes } = req.body ?? {};
+      if (limitBytes === null) {
+        await storage.deleteStorageQuota(scope, scopeId);
+        return res.json({ scope, scopeId, limitBytes: getDefaultQuota(scope), isOverride: false });
+      }
+      if (!Number.isInteger(limitBytes) || limitBytes < 0) {
+        return res.status(400).json({ message: "limitBytes must be a non-negative whole number of bytes, or null" });
+      }
+
+      const quota = await storage.setStorageQuota(scope, scopeId, limitBytes, req.user.id);
+      res.json({ scope, scopeId, limitBytes: quota.limitBytes, isOverride: true });
+    } catch (error) {
+      console.error("Error updating storage quota:", error);
+      res.status(500).json({ message: "Failed to update storage quota" });
+    }
+  });
+}
@@ -0,0 +1,129 @@
+import type { Express } from "express";
+import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import { can, canAccessSubmission } from "@shared/permissions";
+import { getAvailableTransitions, normalizeSubmissionStatus } from "@shared/submission-review";
+import { getRequestAccessScope } from "./filePermissions";
+import {
+  assignReviewers,
+  getReviewerRoles,
+  getReviewParticipants,
+  transitionSubmission,
+} from "./submission-review";
+
+// Submission review: status transitions, reviewer assignment and the
+// history behind them. The state machine is in shared/submission-review.ts.
+
+export function registerSubmissionReviewRoutes(app: Express) {
+  // Current status, what the caller may do next, reviewers and history
+  app.get("/api/scripts/:id/review", isAuthenticated, async (req: any, res) => {
+    try {
+      const submission = await storage.getScript(req.params.id);
+      if (!submission) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+      if (!canAccessSubmission(await getRequestAccessScope(req), submission.id)) {
+        return res.status(403).json({ message: "You do not have access to this submission" });
+      }
+
+      const user = await storage.getUser(req.user.id);
+      const reviewers = await storage.getSubmissionReviewers(submission.id);
+      const history = await storage.getSubmissionStatusHistory(submission.id);
+      const names = new Map<string, { name: string | null; email: string | null }>();
+      const userIds = [...reviewers.map((reviewer) => reviewer.reviewerId), ...history.flatMap((change) => (change.actorId ? [change.actorId] : []))];
+      for (const userId of Array.from(new Set(userIds))) {
+        const person = await storage.getUser(userId);
+        if (person) names.set(userId, { name: person.name, email: person.email });
+      }
+
+      const participants = await getReviewParticipants(submission);
+      res.json({
+        status: normalizeSubmissionStatus(submission.status),
+        transitions: getAvailableTransitions(user, submission.status, participants),
+        reviewers: reviewers.map((reviewer) => ({
+          reviewerId: reviewer.reviewerId,
+          name: names.get(reviewer.reviewerId)?.name ?? null,
+          email: names.get(reviewer.reviewerId)?.email ?? null,
+          assignedAt: reviewer.assignedAt,
+        })),
+        history: history.map((change) => {
+          const actor = change.actorId ? names.get(change.actorId) : undefined;
+          return { ...change, actorName: actor ? actor.name || actor.email : null };
+        }),
+        canAssignReviewers: can(user, "submissions.assignReviewers"),
+      });
+    } catch (error) {
+      console.error("Error fetching submission review:", error);
+      res.status(500).json({ message: "Failed to fetch submission review" });
+    }
+  });
+
+  // Moves the submission along the workflow; body { transition, comment? }
+  app.post("/api/scripts/:id/transitions", isAuthenticated, async (req: any, res) => {
+    try {
+      const submission = await storage.getScript(req.params.id);
+      if (!submission) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+      const user = await storage.getUser(req.user.id);
+      if (!user || !canAccessSubmission(await getRequestAccessScope(req), submission.id)) {
+        return res.status(403).json({ message: "You do not have access to this submission" });
+      }
+
+      const { transition, comment } = req.body ?? {};
+      if (typeof transition !== "string") {
+        return res.status(400).json({ message: "transition is required" });
+      }
+      const outcome = await transitionSubmission(submission, transition, user, typeof comment === "string" ? comment : null);
+      if (!outcome.ok) {
+        return res.status(outcome.status).json({ message: outcome.message });
+      }
+      res.json(outcome.value.submission);
+    } catch (error) {
+      console.error("Error changing submission status:", error);
+      res.status(500).json({ message: "Failed to change submission status" });
+    }
+  });
+
+  // Replaces the assigned reviewers; body { reviewerIds }
+  app.put("/api/scripts/:id/reviewers", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user || !can(user, "submissions.assignReviewers")) {
+        return res.status(403).json({ message: "Insufficient permissions to assign reviewers" });
+      }
+      const submission = await storage.getScript(req.params.id);
+      if (!submission) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+
+      const { reviewerIds } = req.body ?? {};
+      if (!Array.isArray(reviewerIds) || !reviewerIds.every((id) => typeof id === "string")) {
+        return res.status(400).json({ message: "reviewerIds must be a list of user ids" });
+      }
+      const outcome = await assignReviewers(submission, reviewerIds, user);
+      if (!outcome.ok) {
+        return res.status(outcome.status).json({ message: outcome.message });
+      }
+      res.json(outcome.value);
+    } catch (error) {
+      console.error("Error assigning reviewers:", error);
+      res.status(500).json({ message: "Failed to assign reviewers" });
+    }
+  });
+
+  // Users who can be assigned as reviewers
+  app.get("/api/reviewers", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!can(user, "submissions.assignReviewers")) {
+        return res.status(403).json({ message: "Insufficient permissions to assign reviewers" });
+      }
+      const reviewers = await storage.getUsersByRoles(getReviewerRoles());
+      res.json(reviewers.map((reviewer) => ({ id: reviewer.id, name: reviewer.name, email: reviewer.email, role: reviewer.role })));
+    } catch (error) {
+      console.error("Error fetching reviewers:", error);
+      res.status(500).json({ message: "Failed to fetch reviewers" });
+    }
+  });
+}
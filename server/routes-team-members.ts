@@ -0,0 +1,278 @@
+import type { Express } from "express";
+import { z } from "zod";
+import type { TeamInvitation } from "@shared/schema";
+import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import { can, canAccessTeam } from "@shared/permissions";
+import { getRequestAccessScope } from "./filePermissions";
+import {
+  acceptInvitation,
+  addMember,
+  canManageRoster,
+  checkInvitation,
+  declineInvitation,
+  getTeamSizeLimits,
+  inviteToTeam,
+  removeMember,
+  revokeInvitation,
+  transferLeadership,
+} from "./team-membership";
+
+// Team rosters: members, invitations and leadership. The rules are in
+// server/team-membership.ts.
+
+const invitationSchema = z.object({
+  email: z.string().trim().email().max(255).nullish(),
+});
+
+export function registerTeamMemberRoutes(app: Express) {
+  // Members with names, the size limits and, for whoever runs the roster,
+  // open invitations
+  app.get("/api/episodes/:id/members", isAuthenticated, async (req: any, res) => {
+    try {
+      const team = await storage.getEpisode(req.params.id);
+      if (!team) {
+        return res.status(404).json({ message: "Episode not found" });
+      }
+      if (!canAccessTeam(await getRequestAccessScope(req), team.id)) {
+        return res.status(403).json({ message: "You do not have access to this team" });
+      }
+
+      const user = await storage.getUser(req.user.id);
+      const canManage = canManageRoster(user, team);
+      const members = await storage.getTeamMembers(team.id);
+      const people = await Promise.all(members.map((member) => storage.getUser(member.userId)));
+      res.json({
+        teamId: team.id,
+        teamLeaderId: team.teamLeaderId,
+        limits: await getTeamSizeLimits(team),
+        members: members.map((member, index) => ({
+          ...member,
+          name: people[index]?.name ?? null,
+          email: people[index]?.email ?? null,
+        })),
+        invitations: canManage ? await storage.getTeamInvitations(team.id) : [],
+        canManage,
+        isMember: members.some((member) => member.userId === req.user.id),
+      });
+    } catch (error) {
+      console.error("Error fetching team members:", error);
+      res.status(500).json({ message: "Failed to fetch team members" });
+    }
+  });
+
+  // Invites by email, or creates a shareable link; body { email? }
+  app.post("/api/episodes/:id/invitations", isAuthenticated, async (req: any, res) => {
+    try {
+      const team = await storage.getEpisode(req.params.id);
+      if (!team) {
+        return res.status(404).json({ message: "Episode not found" });
+      }
+      const user = await storage.getUser(req.user.id);
+      if (!user || !can(user, "teams.join")) {
+        return res.status(403).json({ message: "Insufficient permissions to manage team members" });
+      }
+      const parsed = invitationSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid invitation", errors: parsed.error.errors });
+      }
+
+      const outcome = await inviteToTeam(team, user, parsed.data.email ?? null);
+      if (!outcome.ok) {
+        return res.status(outcome.status).json({ message: outcome.message });
+      }
+      res.status(201).json(outcome.value);
+    } catch (error) {
+      console.error("Error creating team invitation:", error);
+      res.status(500).json({ message: "Failed to create team invitation" });
+    }
+  });
+
+  app.delete("/api/episodes/:id/invitations/:invitationId", isAuthenticated, async (req: any, res) => {
+    try {
+      const team = await storage.getEpisode(req.params.id);
+      if (!team) {
+        return res.status(404).json({ message: "Episode not found" });
+      }
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(403).json({ message: "Insufficient permissions to manage team members" });
+      }
+      const outcome = await revokeInvitation(team, user, req.params.invitationId);
+      if (!outcome.ok) {
+        return res.status(outcome.status).json({ message: outcome.message });
+      }
+      res.json(outcome.value);
+    } catch (error) {
+      console.error("Error revoking team invitation:", error);
+      res.status(500).json({ message: "Failed to revoke team invitation" });
+    }
+  });
+
+  // Staff add someone with an account directly; body { email }
+  app.post("/api/episodes/:id/members", isAuthenticated, async (req: any, res) => {
+    try {
+      const team = await storage.getEpisode(req.params.id);
+      if (!team) {
+        return res.status(404).json({ message: "Episode not found" });
+      }
+      const user = await storage.getUser(req.user.id);
+      if (!user || !can(user, "teams.manage")) {
+        return res.status(403).json({ message: "Insufficient permissions to add team members" });
+      }
+      const parsed = invitationSchema.safeParse(req.body ?? {});
+      if (!parsed.success || !parsed.data.email) {
+        return res.status(400).json({ message: "A valid email is required" });
+      }
+
+      const outcome = await addMember(team, user, parsed.data.email);
+      if (!outcome.ok) {
+        return res.status(outcome.status).json({ message: outcome.message });
+      }
+      res.status(201).json(outcome.value);
+    } catch (error) {
+      console.error("Error adding team member:", error);
+      res.status(500).json({ message: "Failed to add team member" });
+    }
+  });
+
+  // Removes a member, or leaves the team when it's the caller
+  app.delete("/api/episodes/:id/members/:userId", isAuthenticated, async (req: any, res) => {
+    try {
+      const team = await storage.getEpisode(req.params.id);
+      if (!team) {
+        return res.status(404).json({ message: "Episode not found" });
+      }
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(403).json({ message: "Insufficient permissions to manage team members" });
+      }
+      const outcome = await removeMember(team, user, req.params.userId);
+      if (!outcome.ok) {
+        return res.status(outcome.status).json({ message: outcome.message });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing team member:", error);
+      res.status(500).json({ message: "Failed to remove team member" });
+    }
+  });
+
+  // Hands leadership to another member; body { userId }
+  app.post("/api/episodes/:id/leader", isAuthenticated, async (req: any, res) => {
+    try {
+      const team = await storage.getEpisode(req.params.id);
+      if (!team) {
+        return res.status(404).json({ message: "Episode not found" });
+      }
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(403).json({ message: "Insufficient permissions to manage team members" });
+      }
+      const { userId } = req.body ?? {};
+      if (typeof userId !== "string") {
+        return res.status(400).json({ message: "userId is required" });
+      }
+
+      const outcome = await transferLeadership(team, user, userId);
+      if (!outcome.ok) {
+        return res.status(outcome.status).json({ message: outcome.message });
+      }
+      res.json(outcome.value);
+    } catch (error) {
+      console.error("Error transferring team leadership:", error);
+      res.status(500).json({ message: "Failed to transfer team leadership" });
+    }
+  });
+
+  // Pending invitations sent to the caller's email address
+  app.get("/api/invitations", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user?.email) {
+        return res.json([]);
+      }
+      const invitations = await storage.getPendingInvitationsForEmail(user.email);
+      res.json(await Promise.all(invitations.map(describeInvitation)));
+    } catch (error) {
+      console.error("Error fetching invitations:", error);
+      res.status(500).json({ message: "Failed to fetch invitations" });
+    }
+  });
+
+  // What the invitation is for, and whether the caller can answer it
+  app.get("/api/invitations/:token", isAuthenticated, async (req: any, res) => {
+    try {
+      const invitation = await storage.getTeamInvitationByToken(req.params.token);
+      const user = await storage.getUser(req.user.id);
+      if (!invitation || !user) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      const check = checkInvitation(invitation, user);
+      res.json({
+        ...(await describeInvitation(invitation)),
+        canRespond: check.ok && can(user, "teams.join"),
+        problem: check.ok ? null : check.message,
+      });
+    } catch (error) {
+      console.error("Error fetching invitation:", error);
+      res.status(500).json({ message: "Failed to fetch invitation" });
+    }
+  });
+
+  app.post("/api/invitations/:token/accept", isAuthenticated, async (req: any, res) => {
+    try {
+      const invitation = await storage.getTeamInvitationByToken(req.params.token);
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      const user = await storage.getUser(req.user.id);
+      if (!user || !can(user, "teams.join")) {
+        return res.status(403).json({ message: "Insufficient permissions to join teams" });
+      }
+      const outcome = await acceptInvitation(invitation, user);
+      if (!outcome.ok) {
+        return res.status(outcome.status).json({ message: outcome.message });
+      }
+      res.json(outcome.value);
+    } catch (error) {
+      console.error("Error accepting invitation:", error);
+      res.status(500).json({ message: "Failed to accept invitation" });
+    }
+  });
+
+  app.post("/api/invitations/:token/decline", isAuthenticated, async (req: any, res) => {
+    try {
+      const invitation = await storage.getTeamInvitationByToken(req.params.token);
+      const user = await storage.getUser(req.user.id);
+      if (!invitation || !user) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      const outcome = await declineInvitation(invitation, user);
+      if (!outcome.ok) {
+        return res.status(outcome.status).json({ message: outcome.message });
+      }
+      res.json(outcome.value);
+    } catch (error) {
+      console.error("Error declining invitation:", error);
+      res.status(500).json({ message: "Failed to decline invitation" });
+    }
+  });
+}
+
+// The invitation plus the team, hackathon and inviter it names
+async function describeInvitation(invitation: TeamInvitation) {
+  const team = await storage.getEpisode(invitation.teamId);
+  const hackathon = team ? await storage.getProject(team.hackathonId) : undefined;
+  const inviter = invitation.invitedBy ? await storage.getUser(invitation.invitedBy) : undefined;
+  return {
+    id: invitation.id,
+    token: invitation.token,
+    email: invitation.email,
+    status: invitation.status,
+    expiresAt: invitation.expiresAt,
+    team: team ? { id: team.id, title: team.title, memberCount: team.teamSize } : null,
+    hackathon: hackathon ? { id: hackathon.id, name: hackathon.name } : null,
+    invitedBy: inviter ? inviter.name || inviter.email : null,
+  };
+}
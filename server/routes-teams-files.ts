@@ -1,7 +1,8 @@
 import type { Express } from "express";
 import multer from "multer";
 import { storage } from "./storage";
-import { checkUploadOnceViolation } from "./filePermissions";
+import { checkUploadOnceViolation, checkUploadMembership, getRequestAccessScope, filterAccessibleFiles } from "./filePermissions";
+import { acceptUpload } from "./upload-acceptance";
 
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -36,6 +37,12 @@ export function registerTeamFileRoutes(app: Express) {
       // Get existing files for this team
       const existingFiles = await storage.getFilesByEntity('teams', teamId);
       
+      // Participants upload only to their own team's content
+      const membershipCheck = await checkUploadMembership(user, 'teams', teamId);
+      if (!membershipCheck.allowed) {
+        return res.status(403).json({ message: membershipCheck.message });
+      }
+
       // Check if user can upload (upload-once protection)
       const uploadCheck = await checkUploadOnceViolation(user, 'teams', teamId, existingFiles);
       if (!uploadCheck.allowed) {
@@ -44,23 +51,22 @@ export function registerTeamFileRoutes(app: Express) {
 
       // Properly handle UTF-8 encoding for filenames
       const originalName = Buffer.from(req.file.originalname, 'latin1').toString('utf8');
-      
-      const fileData = {
-        filename: `team_${teamId}_${Date.now()}_${originalName}`,
-        originalName: originalName,
-        mimeType: req.file.mimetype,
-        fileSize: req.file.size,
-        fileData: req.file.buffer.toString('base64'),
+
+      const accepted = await acceptUpload(user, {
         entityType: 'teams',
         entityId: teamId,
-        uploadedBy: userId,
-      };
-
-      const storedFile = await storage.createFile(fileData);
+        filenamePrefix: `team_${teamId}`,
+        originalName,
+      }, req.file);
+      if (!accepted.ok) {
+        return res.status(accepted.status).json(accepted.body);
+      }
 
       res.status(201).json({ 
         message: "File uploaded successfully",
-        file: storedFile
+        file: accepted.file,
+        duplicates: accepted.duplicateCheck.duplicates,
+        duplicateWarning: accepted.duplicateCheck.message
       });
     } catch (error) {
       console.error("Error uploading team file:", error);
@@ -72,7 +78,8 @@ export function registerTeamFileRoutes(app: Express) {
   app.get("/api/teams/:teamId/files", async (req, res) => {
     try {
       const teamId = req.params.teamId;
-      const files = await storage.getFilesByEntity('teams', teamId);
+      const scope = await getRequestAccessScope(req);
+      const files = filterAccessibleFiles(scope, await storage.getFilesByEntity('teams', teamId));
       
       const filesWithoutData = files.map(file => ({
         ...file,
@@ -0,0 +1,116 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import { getRequestAccessScope } from "./filePermissions";
+import { canAccessHackathon, canAccessSubmission } from "@shared/permissions";
+import { checkSubmissionWindow } from "./registration";
+import {
+  buildLanguageMatrix,
+  canTranslate,
+  createTranslation,
+  getOriginalChanges,
+  markTranslationUpToDate,
+} from "./translations";
+
+// Creating translations, keeping them up to date with their original, and
+// the per-hackathon language matrix. The rules are in server/translations.ts;
+// GET /api/scripts/:id/translations and /api/scripts/by-language-group/:group
+// stay in routes.ts.
+
+const translationSchema = z.object({
+  language: z.string().min(1),
+  title: z.string().trim().max(255).nullish(),
+});
+
+export function registerTranslationRoutes(app: Express) {
+  // body { language, title? }; the translation starts as a copy of the original
+  app.post("/api/scripts/:id/translations", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      const source = await storage.getScript(req.params.id);
+      if (!source) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+      if (!(await canTranslate(user, source))) {
+        return res.status(403).json({ message: "Only the submission's team can translate it" });
+      }
+      const parsed = translationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid translation", errors: parsed.error.errors });
+      }
+      const windowClosed = await checkSubmissionWindow(user, source);
+      if (windowClosed) {
+        return res.status(403).json({ message: windowClosed });
+      }
+
+      const outcome = await createTranslation(source, user!, parsed.data);
+      if (!outcome.ok) {
+        return res.status(outcome.status).json({ message: outcome.message });
+      }
+      res.status(201).json(outcome.value);
+    } catch (error) {
+      console.error("Error creating translation:", error);
+      res.status(500).json({ message: "Failed to create translation" });
+    }
+  });
+
+  // What changed in the original since the translation's revision, as line diffs
+  app.get("/api/scripts/:id/original-changes", isAuthenticated, async (req: any, res) => {
+    try {
+      const translation = await storage.getScript(req.params.id);
+      if (!translation) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+      if (!canAccessSubmission(await getRequestAccessScope(req), translation.id)) {
+        return res.status(403).json({ message: "You do not have access to this submission" });
+      }
+      const outcome = await getOriginalChanges(translation);
+      if (!outcome.ok) {
+        return res.status(outcome.status).json({ message: outcome.message });
+      }
+      res.json(outcome.value);
+    } catch (error) {
+      console.error("Error fetching original changes:", error);
+      res.status(500).json({ message: "Failed to fetch original changes" });
+    }
+  });
+
+  // The translator has worked the original's changes in
+  app.post("/api/scripts/:id/translation-sync", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      const translation = await storage.getScript(req.params.id);
+      if (!translation) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+      if (!(await canTranslate(user, translation))) {
+        return res.status(403).json({ message: "Only the submission's team can update its translations" });
+      }
+      const outcome = await markTranslationUpToDate(translation);
+      if (!outcome.ok) {
+        return res.status(outcome.status).json({ message: outcome.message });
+      }
+      res.json(outcome.value);
+    } catch (error) {
+      console.error("Error updating translation revision:", error);
+      res.status(500).json({ message: "Failed to mark the translation up to date" });
+    }
+  });
+
+  // Which languages each submission of the hackathon exists in, limited to
+  // the submissions the user can see
+  app.get("/api/projects/:id/language-matrix", isAuthenticated, async (req: any, res) => {
+    try {
+      const scope = await getRequestAccessScope(req);
+      if (!canAccessHackathon(scope, req.params.id)) {
+        return res.status(403).json({ message: "You do not have access to this hackathon" });
+      }
+      const submissions = await storage.getScriptsByProject(req.params.id);
+      res.json(buildLanguageMatrix(submissions.filter((submission) => canAccessSubmission(scope, submission.id))));
+    } catch (error) {
+      console.error("Error fetching language matrix:", error);
+      res.status(500).json({ message: "Failed to fetch language matrix" });
+    }
+  });
+}
@@ -0,0 +1,79 @@
+import type { Express } from "express";
+import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import { can } from "@shared/permissions";
+import { getTrashRetentionDays } from "./trash";
+
+// The trash bin (server/trash.ts): organizers list what was deleted, restore
+// it before it expires, or delete it for good right away.
+
+export function registerTrashRoutes(app: Express) {
+  app.get("/api/trash", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!can(user, "trash.manage")) {
+        return res.status(403).json({ message: "Insufficient permissions to manage the trash" });
+      }
+
+      const entries = await storage.getTrashEntries();
+      const deleters = new Map<string, string>();
+      for (const deletedBy of Array.from(new Set(entries.map((entry) => entry.deletedBy)))) {
+        if (!deletedBy) continue;
+        const deleter = await storage.getUser(deletedBy);
+        deleters.set(deletedBy, deleter?.name || deleter?.email || deletedBy);
+      }
+
+      res.json({
+        retentionDays: getTrashRetentionDays(),
+        entries: entries.map((entry) => ({
+          ...entry,
+          deletedByName: entry.deletedBy ? deleters.get(entry.deletedBy) ?? null : null,
+        })),
+      });
+    } catch (error) {
+      console.error("Error fetching trash:", error);
+      res.status(500).json({ message: "Failed to fetch trash" });
+    }
+  });
+
+  app.post("/api/trash/:id/restore", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!can(user, "trash.manage")) {
+        return res.status(403).json({ message: "Insufficient permissions to restore from the trash" });
+      }
+
+      const result = await storage.restoreTrashEntry(req.params.id);
+      if (!result) {
+        return res.status(404).json({ message: "Not in the trash" });
+      }
+      if (!result.restored) {
+        return res.status(409).json({ message: result.reason });
+      }
+      console.log(`Trash entry ${result.entry.id} (${result.entry.entityType} ${result.entry.entityId}) restored by ${req.user.id}`);
+      res.json(result.entry);
+    } catch (error) {
+      console.error("Error restoring from trash:", error);
+      res.status(500).json({ message: "Failed to restore" });
+    }
+  });
+
+  // Deletes an entry for good without waiting for it to expire
+  app.delete("/api/trash/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!can(user, "trash.manage")) {
+        return res.status(403).json({ message: "Insufficient permissions to empty the trash" });
+      }
+
+      if (!(await storage.purgeTrashEntry(req.params.id))) {
+        return res.status(404).json({ message: "Not in the trash" });
+      }
+      console.log(`Trash entry ${req.params.id} purged by ${req.user.id}`);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error purging trash entry:", error);
+      res.status(500).json({ message: "Failed to delete permanently" });
+    }
+  });
+}
@@ -1,5 +1,8 @@
 import type { Express } from "express";
 import { storage } from "./storage";
+import { can } from "@shared/permissions";
+import { enqueueJob } from "./job-queue";
+import { JOB_TYPES } from "./jobs";
 
 export function registerUserManagementRoutes(app: Express) {
   // Import auth dynamically to avoid circular dependency
@@ -21,7 +24,7 @@ export function registerUserManagementRoutes(app: Express) {
 
       // Check admin access
       const user = await storage.getUserById(req.session.userId);
-      if (!user || user.role !== "admin") {
+      if (!can(user, "users.manage")) {
         return res.status(403).json({ message: "Admin access required" });
       }
 
@@ -87,11 +90,24 @@ export function registerUserManagementRoutes(app: Express) {
     }
   });
 
-  // Clean up problematic download logs
+  // Clean up problematic download logs. Runs as a background job; poll
+  // GET /api/jobs/:id for the result.
   app.post("/api/admin/cleanup-logs", async (req, res) => {
     try {
-      await storage.cleanupDownloadLogs();
-      res.json({ message: "Download logs cleaned up successfully" });
+      const userId: string | undefined = (req as any).session?.userId;
+      if (!userId) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      const user = await storage.getUserById(userId);
+      if (!can(user, "users.manage")) {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const job = await enqueueJob(JOB_TYPES.cleanupDownloadLogs, {}, {
+        createdBy: userId,
+        dedupeKey: JOB_TYPES.cleanupDownloadLogs,
+      });
+      res.status(202).json({ message: "Download log cleanup queued", job });
     } catch (error) {
       console.error("Error cleaning up logs:", error);
       res.status(500).json({ message: "Failed to cleanup logs" });
@@ -4,7 +4,7 @@ import * as WebSocketModule from "ws";
 const { WebSocketServer } = WebSocketModule;
 const WebSocket = WebSocketModule.default;
 import multer from "multer";
-import { storage } from "./storage";
+import { storage, getFileOrderToken, type AccessibleFilePage } from "./storage";
 import { registerProjectFileRoutes } from "./routes-projects-files";
 import { registerEpisodeFileRoutes } from "./routes-episodes-files";
 import { registerScriptFileRoutes } from "./routes-scripts-files";
@@ -12,12 +12,48 @@ import { registerHackathonFileRoutes } from "./routes-hackathons-files";
 import { registerTeamFileRoutes } from "./routes-teams-files";
 import { registerSubmissionFileRoutes } from "./routes-submissions-files";
 import { registerNotificationRoutes } from "./routes-notifications";
+import { registerResumableUploadRoutes } from "./routes-resumable-uploads";
+import { registerFileVersionRoutes } from "./routes-file-versions";
+import { registerShareLinkRoutes } from "./routes-share-links";
+import { registerFileArchiveRoutes } from "./routes-file-archive";
+import { registerFileMediaRoutes } from "./routes-file-media";
+import { registerSearchRoutes } from "./routes-search";
+import { registerJobRoutes } from "./routes-jobs";
+import { registerFileQuarantineRoutes } from "./routes-file-quarantine";
+import { registerStorageQuotaRoutes } from "./routes-storage-quotas";
+import { registerTrashRoutes } from "./routes-trash";
+import { registerSubmissionReviewRoutes } from "./routes-submission-review";
+import { registerJudgingRoutes } from "./routes-judging";
+import { registerTeamMemberRoutes } from "./routes-team-members";
+import { registerRegistrationRoutes } from "./routes-registrations";
+import { registerShowcaseRoutes } from "./routes-showcase";
+import { registerTranslationRoutes } from "./routes-translations";
 import { isDatabaseAvailable, resetDbConnection } from "./db";
-import { cacheMiddleware, performanceHeaders } from "./performance-middleware";
+import { performanceHeaders } from "./performance-middleware";
 // Import both auth modules
 import * as realAuth from "./auth";
 import * as tempAuth from "./tempAuth";
-import { getFilePermissions, requireFilePermission } from "./filePermissions";
+import {
+  can,
+  getUserPermissions,
+  requireFilePermission,
+  getRequestAccessScope,
+  canAccessHackathon,
+  canAccessTeam,
+  canAccessSubmission,
+  canAccessEntity,
+  canAccessFile,
+  filterAccessibleFiles,
+  type Action,
+} from "./filePermissions";
+import { readFileContent } from "./blob-storage";
+import { getDuplicatePolicy, toDuplicateFile } from "./file-duplicates";
+import { acceptUpload } from "./upload-acceptance";
+import { moveToTrash } from "./trash";
+import { checkFileSubmissionWindow, checkSubmissionWindow } from "./registration";
+import { findLanguageConflict, saveSubmissionChanges } from "./translations";
+import { wouldCreateCycle } from "@shared/file-folders";
+import { getLanguageName } from "@shared/languages";
 
 // Dynamically choose auth module based on database availability
 async function getAuthModule() {
@@ -39,6 +75,14 @@ const isAdmin = async (req: any, res: any, next: any) => {
   const authModule = await getAuthModule();
   return authModule.isAdmin(req, res, next);
 };
+// Gate a route on an action from the shared policy; use after isAuthenticated
+const requirePermission = (action: Action) => (req: any, res: any, next: any) => {
+  if (can(req.user, action)) {
+    next();
+  } else {
+    res.status(403).json({ message: "Insufficient permissions", action });
+  }
+};
 const login = async (req: any, res: any) => {
   const authModule = await getAuthModule();
   return authModule.login(req, res);
@@ -107,6 +151,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
   registerHackathonFileRoutes(app);
   registerTeamFileRoutes(app);
   registerSubmissionFileRoutes(app);
+
+  // Chunked, resumable uploads for large media files
+  registerResumableUploadRoutes(app);
+
+  // Replace-file flow, version history and restore
+  registerFileVersionRoutes(app);
+
+  // Expiring share links for people without an account
+  registerShareLinkRoutes(app);
+
+  // Whole-entity ZIP downloads that keep the folder tree
+  registerFileArchiveRoutes(app);
+
+  // Thumbnails and reprocessing for the background media pipeline
+  registerFileMediaRoutes(app);
+
+  // Organizer review of uploads the malware scan quarantined
+  registerFileQuarantineRoutes(app);
+
+  // Storage usage meters and per-user/team/hackathon quotas
+  registerStorageQuotaRoutes(app);
+
+  // Trash bin: restore deleted content or purge it for good
+  registerTrashRoutes(app);
+
+  // Submission review workflow: status transitions, reviewers and history
+  registerSubmissionReviewRoutes(app);
+
+  // Rubric judging: criteria, judges, scores and combined results
+  registerJudgingRoutes(app);
+
+  // Team rosters: members, invitations and leadership
+  registerTeamMemberRoutes(app);
+
+  // Team registration decisions and submission deadline extensions
+  registerRegistrationRoutes(app);
+
+  // Public showcase pages and leaderboards, and their visibility settings
+  registerShowcaseRoutes(app);
+
+  // Submission translations and the per-hackathon language matrix
+  registerTranslationRoutes(app);
+
+  // Unified full-text search across submissions and files
+  registerSearchRoutes(app);
+
+  // Background job queue: status polling and the admin jobs page
+  registerJobRoutes(app);
   
   // Old routes for backward compatibility
   registerProjectFileRoutes(app);
@@ -142,7 +234,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   } = await import("./routes-onboarding");
 
   app.get("/api/onboarding/form-config", getCurrentFormConfig);
-  app.put("/api/onboarding/form-config", isAuthenticated, isAdmin, updateFormConfig as any);
+  app.put("/api/onboarding/form-config", isAuthenticated, requirePermission('forms.manage'), updateFormConfig as any);
   app.post("/api/onboarding/submit", isAuthenticated, submitOnboardingForm as any);
   app.get("/api/onboarding/analytics", isAuthenticated, getOnboardingAnalytics as any);
   app.get("/api/onboarding/status", isAuthenticated, checkOnboardingStatus as any);
@@ -153,19 +245,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/auth/logout', logout);
   app.get('/api/auth/user', getCurrentUser);
 
-  // Get user permissions for role-based access control
+  // Get user permissions for role-based access control: the file flags plus
+  // every action in shared/permissions.ts, evaluated for the current role
   app.get('/api/auth/permissions', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.session.userId;
       const user = await storage.getUser(userId);
-      const permissions = getFilePermissions(user);
-      res.json(permissions);
+      res.json(getUserPermissions(user));
     } catch (error) {
       console.error("Error getting user permissions:", error);
       res.status(500).json({ message: "Failed to get user permissions" });
     }
   });
 
+  // Which hackathons, teams and submissions the current user can reach; the
+  // client applies the same rules through lib/permissions.ts
+  app.get('/api/auth/access', isAuthenticated, async (req: any, res) => {
+    try {
+      const scope = await getRequestAccessScope(req);
+      res.json(scope);
+    } catch (error) {
+      console.error("Error getting user access scope:", error);
+      res.status(500).json({ message: "Failed to get user access scope" });
+    }
+  });
+
   // Emergency admin promotion for first user
   app.post('/api/auth/promote-first-admin', isAuthenticated, async (req: any, res) => {
     try {
@@ -243,25 +347,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // File upload endpoint for users
-  app.post("/api/users/upload", upload.single("file"), async (req, res) => {
+  app.post("/api/users/upload", isAuthenticated, requirePermission('users.manage'), upload.single("file"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
       }
 
-      // Store the file in the database
-      const fileData = {
-        filename: `users_${Date.now()}_${req.file.originalname}`,
-        originalName: req.file.originalname,
-        mimeType: req.file.mimetype,
-        fileSize: req.file.size,
-        fileData: req.file.buffer.toString('base64'),
-        entityType: 'users',
-        entityId: null,
-        uploadedBy: null,
-      };
-
-      const storedFile = await storage.createFile(fileData);
+      // Bulk imports belong to no entity; they count against the uploader's quota
+      const userId: string | undefined = (req as any).session?.userId;
+      const user = userId ? await storage.getUser(userId) : undefined;
+      const accepted = await acceptUpload(user, { entityType: 'users', entityId: null, filenamePrefix: 'users' }, req.file);
+      // Refused or quarantined files are not imported
+      if (!accepted.ok) {
+        return res.status(accepted.status).json(accepted.body);
+      }
 
       // Try to parse and import data if it's a JSON file
       let importedCount = 0;
@@ -288,7 +387,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.status(201).json({ 
         message: `File uploaded successfully${importedCount > 0 ? ` and imported ${importedCount} users` : ''}`,
-        file: storedFile,
+        file: accepted.file,
+        duplicates: accepted.duplicateCheck.duplicates,
+        duplicateWarning: accepted.duplicateCheck.message,
         importedCount
       });
     } catch (error) {
@@ -297,7 +398,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/users/:id", async (req, res) => {
+  app.put("/api/users/:id", isAuthenticated, requirePermission('users.manage'), async (req, res) => {
     try {
       const userData = insertUserSchema.partial().parse(req.body);
       const user = await storage.updateUser(req.params.id, userData);
@@ -308,7 +409,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/users/:id", async (req, res) => {
+  app.delete("/api/users/:id", isAuthenticated, requirePermission('users.manage'), async (req, res) => {
     try {
       // Get user info before deletion for broadcasting
       const userToDelete = await storage.getUser(req.params.id);
@@ -420,16 +521,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Helper middleware to check if user can edit themes (admin or editor)
-  const canEditThemes = (req: any, res: any, next: any) => {
-    if (req.user && (req.user.role === 'admin' || req.user.role === 'editor')) {
-      next();
-    } else {
-      res.status(403).json({ message: "Only admins and editors can manage themes" });
-    }
-  };
-
-  app.post("/api/themes", isAuthenticated, canEditThemes, async (req, res) => {
+  app.post("/api/themes", isAuthenticated, requirePermission('categories.manage'), async (req, res) => {
     try {
       const themeData = insertThemeSchema.parse(req.body);
       const theme = await storage.createTheme(themeData);
@@ -440,7 +532,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/themes/:id", isAuthenticated, canEditThemes, async (req, res) => {
+  app.put("/api/themes/:id", isAuthenticated, requirePermission('categories.manage'), async (req, res) => {
     try {
       const themeData = insertThemeSchema.partial().parse(req.body);
       const theme = await storage.updateTheme(req.params.id, themeData);
@@ -451,7 +543,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/themes/:id", isAuthenticated, canEditThemes, async (req, res) => {
+  app.delete("/api/themes/:id", isAuthenticated, requirePermission('categories.manage'), async (req, res) => {
     try {
       await storage.deleteTheme(req.params.id);
       res.status(204).send();
@@ -471,15 +563,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Projects API with performance optimization
-  app.get("/api/projects", performanceHeaders(), cacheMiddleware(), async (req, res) => {
+  // Projects API with performance optimization. Not response-cached: the list
+  // depends on which hackathons the caller has been granted.
+  app.get("/api/projects", performanceHeaders(), async (req, res) => {
     try {
       if (!isDatabaseAvailable()) {
         const { tempProjects } = await import("./tempData");
         return res.json(tempProjects);
       }
+      const scope = await getRequestAccessScope(req);
       const projects = await storage.getAllProjects();
-      res.json(projects);
+      res.json(projects.filter((project) => canAccessHackathon(scope, project.id)));
     } catch (error) {
       console.error("Error fetching projects:", error);
       res.status(500).json({ message: "Failed to fetch projects" });
@@ -494,6 +588,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!project) {
         return res.status(404).json({ message: "Project not found" });
       }
+      if (!canAccessHackathon(await getRequestAccessScope(req), project.id)) {
+        return res.status(403).json({ message: "You do not have access to this hackathon" });
+      }
       res.json(project);
     } catch (error) {
       console.error("Error fetching project:", error);
@@ -501,7 +598,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/projects", async (req, res) => {
+  app.post("/api/projects", isAuthenticated, requirePermission('hackathons.create'), async (req, res) => {
     try {
       const projectData = insertProjectSchema.parse(req.body);
       const project = await storage.createProject(projectData);
@@ -513,7 +610,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // File upload endpoint for projects
-  app.post("/api/projects/upload", upload.single("file"), async (req, res) => {
+  app.post("/api/projects/upload", isAuthenticated, requirePermission('hackathons.create'), upload.single("file"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
@@ -522,19 +619,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { projectId } = req.body; // Get projectId from form data
       console.log("Upload request - projectId:", projectId, "file:", req.file.originalname);
 
-      // Store the file in the database
-      const fileData = {
-        filename: `project_${projectId || 'general'}_${Date.now()}_${req.file.originalname}`,
-        originalName: req.file.originalname,
-        mimeType: req.file.mimetype,
-        fileSize: req.file.size,
-        fileData: req.file.buffer.toString('base64'),
+      // Counts against the uploader's quota, and the hackathon's when one is given
+      const userId: string | undefined = (req as any).session?.userId;
+      const user = userId ? await storage.getUser(userId) : undefined;
+      const accepted = await acceptUpload(user, {
         entityType: 'projects',
         entityId: projectId || null,
-        uploadedBy: null,
-      };
-
-      const storedFile = await storage.createFile(fileData);
+        filenamePrefix: `project_${projectId || 'general'}`,
+      }, req.file);
+      // Refused or quarantined files are not imported
+      if (!accepted.ok) {
+        return res.status(accepted.status).json(accepted.body);
+      }
 
       // Try to parse and import data if it's a JSON file
       let importedCount = 0;
@@ -561,7 +657,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.status(201).json({ 
         message: `File uploaded successfully${importedCount > 0 ? ` and imported ${importedCount} projects` : ''}`,
-        file: storedFile,
+        file: accepted.file,
+        duplicates: accepted.duplicateCheck.duplicates,
+        duplicateWarning: accepted.duplicateCheck.message,
         importedCount
       });
     } catch (error) {
@@ -570,7 +668,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/projects/:id", async (req, res) => {
+  app.put("/api/projects/:id", isAuthenticated, requirePermission('hackathons.edit'), async (req, res) => {
     try {
       const projectData = insertProjectSchema.partial().parse(req.body);
       const project = await storage.updateProject(req.params.id, projectData);
@@ -581,9 +679,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/projects/:id", async (req, res) => {
+  // Dry run of a delete: counts of what would go to the trash with the hackathon
+  app.get("/api/projects/:id/deletion-impact", isAuthenticated, requirePermission('hackathons.delete'), async (req, res) => {
+    try {
+      const impact = await storage.getDeletionImpact("hackathons", req.params.id);
+      if (!impact) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      res.json(impact);
+    } catch (error) {
+      console.error("Error fetching project deletion impact:", error);
+      res.status(500).json({ message: "Failed to fetch deletion impact" });
+    }
+  });
+
+  // Deletes go to the trash, taking the hackathon's teams, submissions and files along
+  app.delete("/api/projects/:id", isAuthenticated, requirePermission('hackathons.delete'), async (req: any, res) => {
     try {
-      await storage.deleteProject(req.params.id);
+      if (!(await moveToTrash("hackathons", req.params.id, req.user?.id))) {
+        return res.status(404).json({ message: "Project not found" });
+      }
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting project:", error);
@@ -598,8 +713,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const { tempEpisodes } = await import("./tempData");
         return res.json(tempEpisodes);
       }
+      const scope = await getRequestAccessScope(req);
       const episodes = await storage.getAllEpisodes();
-      res.json(episodes);
+      res.json(episodes.filter((episode) => canAccessTeam(scope, episode.id)));
     } catch (error) {
       console.error("Error fetching episodes:", error);
       res.status(500).json({ message: "Failed to fetch episodes" });
@@ -612,6 +728,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!episode) {
         return res.status(404).json({ message: "Episode not found" });
       }
+      if (!canAccessTeam(await getRequestAccessScope(req), episode.id)) {
+        return res.status(403).json({ message: "You do not have access to this team" });
+      }
       res.json(episode);
     } catch (error) {
       console.error("Error fetching episode:", error);
@@ -619,7 +738,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/episodes", async (req, res) => {
+  app.post("/api/episodes", isAuthenticated, requirePermission('teams.manage'), async (req, res) => {
     try {
       const episodeData = insertEpisodeSchema.parse(req.body);
       const episode = await storage.createEpisode(episodeData);
@@ -631,25 +750,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // File upload endpoint for episodes
-  app.post("/api/episodes/upload", upload.single("file"), async (req, res) => {
+  app.post("/api/episodes/upload", isAuthenticated, requirePermission('teams.manage'), upload.single("file"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
       }
 
-      // Store the file in the database
-      const fileData = {
-        filename: `episodes_${Date.now()}_${req.file.originalname}`,
-        originalName: req.file.originalname,
-        mimeType: req.file.mimetype,
-        fileSize: req.file.size,
-        fileData: req.file.buffer.toString('base64'),
-        entityType: 'episodes',
-        entityId: null,
-        uploadedBy: null,
-      };
-
-      const storedFile = await storage.createFile(fileData);
+      // Bulk imports belong to no entity; they count against the uploader's quota
+      const userId: string | undefined = (req as any).session?.userId;
+      const user = userId ? await storage.getUser(userId) : undefined;
+      const accepted = await acceptUpload(user, { entityType: 'episodes', entityId: null, filenamePrefix: 'episodes' }, req.file);
+      // Refused or quarantined files are not imported
+      if (!accepted.ok) {
+        return res.status(accepted.status).json(accepted.body);
+      }
 
       // Try to parse and import data if it's a JSON file
       let importedCount = 0;
@@ -676,7 +790,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.status(201).json({ 
         message: `File uploaded successfully${importedCount > 0 ? ` and imported ${importedCount} episodes` : ''}`,
-        file: storedFile,
+        file: accepted.file,
+        duplicates: accepted.duplicateCheck.duplicates,
+        duplicateWarning: accepted.duplicateCheck.message,
         importedCount
       });
     } catch (error) {
@@ -685,9 +801,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/episodes/:id", async (req, res) => {
+  app.put("/api/episodes/:id", isAuthenticated, requirePermission('teams.manage'), async (req, res) => {
     try {
-      const episodeData = insertEpisodeSchema.partial().parse(req.body);
+      // Leadership changes hands through POST /api/episodes/:id/leader
+      const episodeData = insertEpisodeSchema.omit({ teamLeaderId: true }).partial().parse(req.body);
       const episode = await storage.updateEpisode(req.params.id, episodeData);
       res.json(episode);
     } catch (error) {
@@ -696,9 +813,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/episodes/:id", async (req, res) => {
+  app.get("/api/episodes/:id/deletion-impact", isAuthenticated, requirePermission('teams.manage'), async (req, res) => {
+    try {
+      const impact = await storage.getDeletionImpact("teams", req.params.id);
+      if (!impact) {
+        return res.status(404).json({ message: "Episode not found" });
+      }
+      res.json(impact);
+    } catch (error) {
+      console.error("Error fetching episode deletion impact:", error);
+      res.status(500).json({ message: "Failed to fetch deletion impact" });
+    }
+  });
+
+  app.delete("/api/episodes/:id", isAuthenticated, requirePermission('teams.manage'), async (req: any, res) => {
     try {
-      await storage.deleteEpisode(req.params.id);
+      if (!(await moveToTrash("teams", req.params.id, req.user.id))) {
+        return res.status(404).json({ message: "Episode not found" });
+      }
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting episode:", error);
@@ -713,8 +845,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const { tempScripts } = await import("./tempData");
         return res.json(tempScripts);
       }
+      const scope = await getRequestAccessScope(req);
       const scripts = await storage.getAllScripts();
-      res.json(scripts);
+      res.json(scripts.filter((script) => canAccessSubmission(scope, script.id)));
     } catch (error) {
       console.error("Error fetching scripts:", error);
       res.status(500).json({ message: "Failed to fetch scripts" });
@@ -727,6 +860,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!script) {
         return res.status(404).json({ message: "Script not found" });
       }
+      if (!canAccessSubmission(await getRequestAccessScope(req), script.id)) {
+        return res.status(403).json({ message: "You do not have access to this submission" });
+      }
       res.json(script);
     } catch (error) {
       console.error("Error fetching script:", error);
@@ -734,20 +870,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/scripts", isAuthenticated, async (req: any, res) => {
+  app.post("/api/scripts", isAuthenticated, requirePermission('submissions.create'), async (req: any, res) => {
     try {
       const scriptData = insertScriptSchema.parse(req.body);
 
-      // Auto-generate submission group if not provided
-      let submissionGroup = scriptData.submissionGroup;
-      if (!submissionGroup) {
-        submissionGroup = `${scriptData.hackathonId}_${scriptData.title.toLowerCase().replace(/\s+/g, '_')}_${Date.now()}`;
+      // Participants submit for their own team only
+      if (scriptData.teamId && !can(req.user, 'submissions.manage')
+        && !canAccessTeam(await getRequestAccessScope(req), scriptData.teamId)) {
+        return res.status(403).json({ message: "Only members of the team can submit for it" });
       }
+      const windowClosed = await checkSubmissionWindow(req.user, scriptData);
+      if (windowClosed) {
+        return res.status(403).json({ message: windowClosed });
+      }
+
+      // Each original starts its own translation group; translations join it
+      // through POST /api/scripts/:id/translations
+      const titleSlug = scriptData.title.toLowerCase().replace(/\s+/g, '_').slice(0, 40);
+      const submissionGroup = `${scriptData.hackathonId}_${titleSlug}_${Date.now()}`;
 
+      // New submissions start as drafts; the review workflow moves them on
       const script = await storage.createScript({
         ...scriptData,
+        authorId: req.user.id,
         submissionGroup,
-        isOriginal: !scriptData.originalSubmissionId
+        isOriginal: true,
       });
       res.status(201).json(script);
     } catch (error) {
@@ -757,29 +904,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // File upload endpoint for scripts
-  app.post("/api/scripts/upload", upload.single("file"), async (req, res) => {
+  app.post("/api/scripts/upload", isAuthenticated, requirePermission('submissions.manage'), upload.single("file"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
       }
 
-      // Store the file in the database
-      const fileData = {
-        filename: `scripts_${Date.now()}_${req.file.originalname}`,
-        originalName: req.file.originalname,
-        mimeType: req.file.mimetype,
-        fileSize: req.file.size,
-        fileData: req.file.buffer.toString('base64'),
-        entityType: 'scripts',
-        entityId: null,
-        uploadedBy: null,
-      };
-
-      const storedFile = await storage.createFile(fileData);
+      // Bulk imports belong to no entity; they count against the uploader's quota
+      const userId: string | undefined = (req as any).session?.userId;
+      const user = userId ? await storage.getUser(userId) : undefined;
+      const accepted = await acceptUpload(user, { entityType: 'scripts', entityId: null, filenamePrefix: 'scripts' }, req.file);
+      // Refused or quarantined files are not imported
+      if (!accepted.ok) {
+        return res.status(accepted.status).json(accepted.body);
+      }
 
       // Try to parse and import data if it's a JSON file
       let importedCount = 0;
-      if (req.file.mimetype === 'application/json' || req.file.originalname.endsWith('.json')) {
+      if (userId && (req.file.mimetype === 'application/json' || req.file.originalname.endsWith('.json'))) {
         try {
           const fileContent = req.file.buffer.toString("utf-8");
           const scripts = JSON.parse(fileContent);
@@ -788,7 +930,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             for (const scriptData of scripts) {
               try {
                 const validatedData = insertScriptSchema.parse(scriptData);
-                await storage.createScript(validatedData);
+                await storage.createScript({ ...validatedData, authorId: userId });
                 importedCount++;
               } catch (error) {
                 console.error("Error creating script from file:", error);
@@ -802,7 +944,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.status(201).json({ 
         message: `File uploaded successfully${importedCount > 0 ? ` and imported ${importedCount} scripts` : ''}`,
-        file: storedFile,
+        file: accepted.file,
+        duplicates: accepted.duplicateCheck.duplicates,
+        duplicateWarning: accepted.duplicateCheck.message,
         importedCount
       });
     } catch (error) {
@@ -813,8 +957,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put("/api/scripts/:id", isAuthenticated, async (req: any, res) => {
     try {
+      // Scores come from the judges' rubric scores (routes-judging.ts)
       const scriptData = insertScriptSchema.partial().parse(req.body);
-      const script = await storage.updateScript(req.params.id, scriptData);
+      const existing = await storage.getScript(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+      // Participants edit their own team's submissions, and only move them to a team they are in
+      if (!can(req.user, 'submissions.manage')) {
+        const scope = await getRequestAccessScope(req);
+        const ownsSubmission = existing.teamId ? canAccessTeam(scope, existing.teamId) : existing.authorId === req.user.id;
+        if (!ownsSubmission || (scriptData.teamId && !canAccessTeam(scope, scriptData.teamId))) {
+          return res.status(403).json({ message: "Only members of the team can edit its submissions" });
+        }
+      }
+      // Moving a submission to another hackathon or team has to be allowed on both ends
+      const windowClosed = await checkSubmissionWindow(req.user, existing)
+        ?? await checkSubmissionWindow(req.user, { hackathonId: scriptData.hackathonId ?? existing.hackathonId, teamId: scriptData.teamId ?? existing.teamId });
+      if (windowClosed) {
+        return res.status(403).json({ message: windowClosed });
+      }
+      if (scriptData.language && scriptData.language !== existing.language) {
+        const conflict = await findLanguageConflict(existing, scriptData.language);
+        if (conflict) {
+          return res.status(409).json({ message: `"${conflict.title}" is already the ${getLanguageName(scriptData.language)} version of this submission` });
+        }
+      }
+      // Editing an original that has translations marks them outdated
+      const script = await saveSubmissionChanges(existing, scriptData, req.user);
+      if (!script) {
+        return res.status(404).json({ message: "Script not found" });
+      }
       res.json(script);
     } catch (error) {
       console.error("Error updating script:", error);
@@ -822,9 +995,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/scripts/:id", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/scripts/:id", isAuthenticated, requirePermission('submissions.manage'), async (req: any, res) => {
     try {
-      await storage.deleteScript(req.params.id);
+      if (!(await moveToTrash("submissions", req.params.id, req.user.id))) {
+        return res.status(404).json({ message: "Script not found" });
+      }
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting script:", error);
@@ -835,8 +1010,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Language-specific script endpoints
   app.get("/api/scripts/by-language/:language", async (req, res) => {
     try {
+      const scope = await getRequestAccessScope(req);
       const scripts = await storage.getScriptsByLanguage(req.params.language);
-      res.json(scripts);
+      res.json(scripts.filter((script) => canAccessSubmission(scope, script.id)));
     } catch (error) {
       console.error("Error fetching scripts by language:", error);
       res.status(500).json({ message: "Failed to fetch scripts by language" });
@@ -845,8 +1021,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/scripts/by-project/:projectId", async (req, res) => {
     try {
+      const scope = await getRequestAccessScope(req);
       const scripts = await storage.getScriptsByProject(req.params.projectId);
-      res.json(scripts);
+      res.json(scripts.filter((script) => canAccessSubmission(scope, script.id)));
     } catch (error) {
       console.error("Error fetching scripts by project:", error);
       res.status(500).json({ message: "Failed to fetch scripts by project" });
@@ -855,8 +1032,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/scripts/by-language-group/:languageGroup", async (req, res) => {
     try {
+      const scope = await getRequestAccessScope(req);
       const scripts = await storage.getScriptsByLanguageGroup(req.params.languageGroup);
-      res.json(scripts);
+      res.json(scripts.filter((script) => canAccessSubmission(scope, script.id)));
     } catch (error) {
       console.error("Error fetching scripts by language group:", error);
       res.status(500).json({ message: "Failed to fetch scripts by language group" });
@@ -865,8 +1043,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/scripts/:id/translations", async (req, res) => {
     try {
+      const scope = await getRequestAccessScope(req);
       const translations = await storage.getTranslationsForScript(req.params.id);
-      res.json(translations);
+      res.json(translations.filter((script) => canAccessSubmission(scope, script.id)));
     } catch (error) {
       console.error("Error fetching script translations:", error);
       res.status(500).json({ message: "Failed to fetch script translations" });
@@ -879,7 +1058,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!result) {
         return res.status(404).json({ message: "Script not found" });
       }
-      res.json(result);
+      const scope = await getRequestAccessScope(req);
+      if (!canAccessSubmission(scope, result.script.id)) {
+        return res.status(403).json({ message: "You do not have access to this submission" });
+      }
+      res.json({
+        script: result.script,
+        translations: result.translations.filter((script) => canAccessSubmission(scope, script.id)),
+      });
     } catch (error) {
       console.error("Error fetching script with translations:", error);
       res.status(500).json({ message: "Failed to fetch script with translations" });
@@ -908,7 +1094,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/topics", async (req, res) => {
+  app.post("/api/topics", isAuthenticated, requirePermission('categories.manage'), async (req, res) => {
     try {
       const topicData = insertTopicSchema.parse(req.body);
       const topic = await storage.createTopic(topicData);
@@ -949,7 +1135,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/radio-stations", async (req, res) => {
+  app.post("/api/radio-stations", isAuthenticated, requirePermission('colleges.manage'), async (req, res) => {
     try {
       const stationData = insertRadioStationSchema.parse(req.body);
       const station = await storage.createRadioStation(stationData);
@@ -961,25 +1147,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // File upload endpoint for radio stations
-  app.post("/api/radio-stations/upload", upload.single("file"), async (req, res) => {
+  app.post("/api/radio-stations/upload", isAuthenticated, requirePermission('colleges.manage'), upload.single("file"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
       }
 
-      // Store the file in the database
-      const fileData = {
-        filename: `radio-stations_${Date.now()}_${req.file.originalname}`,
-        originalName: req.file.originalname,
-        mimeType: req.file.mimetype,
-        fileSize: req.file.size,
-        fileData: req.file.buffer.toString('base64'),
-        entityType: 'radio-stations',
-        entityId: null,
-        uploadedBy: null,
-      };
-
-      const storedFile = await storage.createFile(fileData);
+      // Bulk imports belong to no entity; they count against the uploader's quota
+      const userId: string | undefined = (req as any).session?.userId;
+      const user = userId ? await storage.getUser(userId) : undefined;
+      const accepted = await acceptUpload(user, { entityType: 'radio-stations', entityId: null, filenamePrefix: 'radio-stations' }, req.file);
+      // Refused or quarantined files are not imported
+      if (!accepted.ok) {
+        return res.status(accepted.status).json(accepted.body);
+      }
 
       // Try to parse and import data if it's a JSON file
       let importedCount = 0;
@@ -1006,7 +1187,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.status(201).json({ 
         message: `File uploaded successfully${importedCount > 0 ? ` and imported ${importedCount} radio stations` : ''}`,
-        file: storedFile,
+        file: accepted.file,
+        duplicates: accepted.duplicateCheck.duplicates,
+        duplicateWarning: accepted.duplicateCheck.message,
         importedCount
       });
     } catch (error) {
@@ -1015,7 +1198,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/radio-stations/:id", async (req, res) => {
+  app.put("/api/radio-stations/:id", isAuthenticated, requirePermission('colleges.manage'), async (req, res) => {
     try {
       const stationData = insertRadioStationSchema.partial().parse(req.body);
       const station = await storage.updateRadioStation(req.params.id, stationData);
@@ -1026,7 +1209,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/radio-stations/:id", async (req, res) => {
+  app.delete("/api/radio-stations/:id", isAuthenticated, requirePermission('colleges.manage'), async (req, res) => {
     try {
       await storage.deleteRadioStation(req.params.id);
       res.status(204).send();
@@ -1047,7 +1230,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/free-project-access", async (req, res) => {
+  app.post("/api/free-project-access", isAuthenticated, requirePermission('access.grant'), async (req, res) => {
     try {
       const accessData = insertFreeProjectAccessSchema.parse(req.body);
       const access = await storage.createFreeProjectAccess(accessData);
@@ -1070,15 +1253,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
       const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
 
-      let files;
+      const scope = await getRequestAccessScope(req);
+      let files: AccessibleFilePage["files"];
       let totalCount;
 
+      let orderToken: string | undefined;
+
       if (entityType) {
-        files = await storage.getFilesByEntity(entityType as string, entityId as string);
+        const entityFiles = await storage.getFilesByEntity(entityType as string, entityId as string);
+        // Taken before access filtering so it matches what reorder checks
+        orderToken = getFileOrderToken(entityFiles);
+        files = filterAccessibleFiles(scope, entityFiles);
         totalCount = files.length;
-      } else {
+      } else if (scope?.fullAccess && scope.isOrganizer) {
         files = await storage.getAllFiles(limit, offset);
         totalCount = await storage.getFileCount();
+      } else if (scope) {
+        // Filtered in the query so restricted users still get full pages
+        const page = await storage.getAccessibleFiles(scope, limit, offset);
+        files = page.files;
+        totalCount = page.totalCount;
+      } else {
+        files = [];
+        totalCount = 0;
       }
 
       // Don't send file data in list view for performance
@@ -1090,7 +1287,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({
         files: filesWithoutData,
         totalCount,
-        hasMore: offset + limit < totalCount
+        hasMore: offset + limit < totalCount,
+        orderToken,
       });
     } catch (error) {
       console.error("Error fetching files:", error);
@@ -1109,6 +1307,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!file) {
         return res.status(404).json({ message: "File not found" });
       }
+      if (!canAccessFile(await getRequestAccessScope(req), file)) {
+        return res.status(403).json({ message: "You do not have access to this file" });
+      }
       res.json(file);
     } catch (error) {
       console.error("Error fetching file:", error);
@@ -1127,8 +1328,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!file) {
         return res.status(404).json({ message: "File not found" });
       }
+      if (!canAccessFile(await getRequestAccessScope(req), file)) {
+        return res.status(403).json({ message: "You do not have access to this file" });
+      }
 
-      const buffer = Buffer.from(file.fileData, 'base64');
+      const buffer = await readFileContent(file);
 
       res.setHeader('Content-Disposition', `attachment; filename="${file.originalName}"`);
       res.setHeader('Content-Type', file.mimeType);
@@ -1152,8 +1356,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!file) {
         return res.status(404).json({ message: "File not found" });
       }
+      if (!canAccessFile(await getRequestAccessScope(req), file)) {
+        return res.status(403).json({ message: "You do not have access to this file" });
+      }
 
-      const buffer = Buffer.from(file.fileData, 'base64');
+      const buffer = await readFileContent(file);
 
       res.setHeader('Content-Type', file.mimeType);
       res.setHeader('Content-Length', buffer.length);
@@ -1171,8 +1378,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!requireFilePermission('canDelete', user)) {
         return res.status(403).json({ message: "Insufficient permissions to delete files" });
       }
+      const file = await storage.getFile(req.params.id);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      const windowClosed = await checkFileSubmissionWindow(user, file);
+      if (windowClosed) {
+        return res.status(403).json({ message: windowClosed });
+      }
 
-      await storage.deleteFile(req.params.id);
+      if (!(await moveToTrash("files", req.params.id, req.user.id))) {
+        return res.status(404).json({ message: "File not found" });
+      }
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting file:", error);
@@ -1188,20 +1405,104 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Insufficient permissions to reorder files" });
       }
 
-      const { entityType, entityId, fileIds } = req.body;
+      const { entityType, entityId, fileIds, folderIds = {}, orderToken } = req.body;
 
-      if (!entityType || !Array.isArray(fileIds)) {
+      if (!entityType || !Array.isArray(fileIds) || !fileIds.every((id: unknown) => typeof id === "string")) {
         return res.status(400).json({ message: "Invalid request: entityType and fileIds array required" });
       }
+      if (typeof orderToken !== "string") {
+        return res.status(400).json({ message: "Invalid request: orderToken required" });
+      }
+      if (typeof folderIds !== "object" || Array.isArray(folderIds)
+        || !Object.values(folderIds).every((id) => id === null || typeof id === "string")) {
+        return res.status(400).json({ message: "Invalid request: folderIds must map file ids to folder ids" });
+      }
+      if (entityId && !canAccessEntity(await getRequestAccessScope(req), entityType, entityId)) {
+        return res.status(403).json({ message: "You do not have access to these files" });
+      }
 
-      await storage.reorderFiles(entityType, entityId || null, fileIds);
-      res.json({ message: "Files reordered successfully" });
+      // Files can only move into folders of the same entity
+      const targetFolderIds = Object.values(folderIds).filter((id): id is string => id !== null);
+      if (targetFolderIds.length > 0) {
+        const folders = entityId ? await storage.getFoldersByEntity(entityType, entityId) : [];
+        if (!targetFolderIds.every((id) => folders.some((folder) => folder.id === id))) {
+          return res.status(400).json({ message: "Target folder not found" });
+        }
+      }
+
+      const result = await storage.reorderFiles({
+        entityType,
+        entityId: entityId || null,
+        fileIds,
+        folderIds: folderIds as Record<string, string | null>,
+        orderToken,
+      });
+      if (!result.applied) {
+        return res.status(409).json({
+          message: "The files were changed by someone else. Reload to see the latest order.",
+          orderToken: result.orderToken,
+        });
+      }
+      res.json({ message: "Files reordered successfully", orderToken: result.orderToken });
     } catch (error) {
       console.error("Error reordering files:", error);
       res.status(500).json({ message: "Failed to reorder files" });
     }
   });
 
+  // Bulk move of files and folders into a folder (targetFolderId null = root).
+  // Everything moves in one transaction; see storage.moveFiles.
+  app.post("/api/files/move", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!requireFilePermission('canEdit', user)) {
+        return res.status(403).json({ message: "Insufficient permissions to move files" });
+      }
+
+      const { entityType, entityId, targetFolderId = null } = req.body;
+      const fileIds: unknown = req.body.fileIds ?? [];
+      const folderIds: unknown = req.body.folderIds ?? [];
+      const isIdList = (value: unknown): value is string[] =>
+        Array.isArray(value) && value.every((id) => typeof id === "string");
+
+      if (!entityType || !entityId || !isIdList(fileIds) || !isIdList(folderIds)) {
+        return res.status(400).json({ message: "Invalid request: entityType, entityId and fileIds/folderIds arrays required" });
+      }
+      if (fileIds.length + folderIds.length === 0) {
+        return res.status(400).json({ message: "Nothing to move" });
+      }
+      if (!canAccessEntity(await getRequestAccessScope(req), entityType, entityId)) {
+        return res.status(403).json({ message: "You do not have access to these files" });
+      }
+      const windowClosed = await checkFileSubmissionWindow(user, { entityType, entityId });
+      if (windowClosed) {
+        return res.status(403).json({ message: windowClosed });
+      }
+
+      const folders = await storage.getFoldersByEntity(entityType, entityId);
+      if (targetFolderId && !folders.some((folder) => folder.id === targetFolderId)) {
+        return res.status(400).json({ message: "Target folder not found" });
+      }
+      for (const folderId of folderIds) {
+        if (!folders.some((folder) => folder.id === folderId)) {
+          return res.status(400).json({ message: "Folder not found" });
+        }
+        if (wouldCreateCycle(folders, folderId, targetFolderId)) {
+          return res.status(400).json({ message: "A folder cannot be moved into itself" });
+        }
+      }
+
+      const result = await storage.moveFiles({ entityType, entityId, fileIds, folderIds, targetFolderId });
+      if (result.movedFiles !== fileIds.length) {
+        console.warn(`[FILES] Move skipped ${fileIds.length - result.movedFiles} files not current on ${entityType}/${entityId}`);
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Error moving files:", error);
+      res.status(500).json({ message: "Failed to move files" });
+    }
+  });
+
   // File search endpoint
   app.get("/api/files/search", isAuthenticated, async (req: any, res) => {
     try {
@@ -1216,11 +1517,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Search query is required" });
       }
 
-      const files = await storage.searchFiles(
+      const scope = await getRequestAccessScope(req);
+      const files = filterAccessibleFiles(scope, await storage.searchFiles(
         query as string, 
         entityType as string, 
         entityId as string
-      );
+      ));
 
       // Don't send file data in search results for performance
       const filesWithoutData = files.map(file => ({
@@ -1235,6 +1537,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Duplicate content report: clusters of files with the same checksum
+  app.get("/api/admin/files/duplicates", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const clusters = await storage.getDuplicateFileClusters();
+
+      res.json({
+        policy: getDuplicatePolicy(),
+        totalClusters: clusters.length,
+        totalDuplicateFiles: clusters.reduce((sum, cluster) => sum + cluster.copies - 1, 0),
+        totalWastedBytes: clusters.reduce((sum, cluster) => sum + cluster.wastedBytes, 0),
+        clusters: clusters.map(cluster => ({
+          ...cluster,
+          files: cluster.files.map(toDuplicateFile),
+        })),
+      });
+    } catch (error) {
+      console.error("Error fetching duplicate files:", error);
+      res.status(500).json({ message: "Failed to fetch duplicate files" });
+    }
+  });
+
   // File Folders API
   app.get("/api/folders", isAuthenticated, async (req: any, res) => {
     try {
@@ -1247,6 +1570,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       let folders;
       if (entityType && entityId) {
+        if (!canAccessEntity(await getRequestAccessScope(req), entityType as string, entityId as string)) {
+          return res.status(403).json({ message: "You do not have access to these folders" });
+        }
         folders = await storage.getFoldersByEntity(entityType as string, entityId as string);
       } else if (parentFolderId !== undefined) {
         folders = await storage.getFoldersByParent(parentFolderId as string || undefined);
@@ -1269,6 +1595,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const folderData = insertFileFolderSchema.parse(req.body);
+      if (!canAccessEntity(await getRequestAccessScope(req), folderData.entityType, folderData.entityId)) {
+        return res.status(403).json({ message: "You do not have access to these folders" });
+      }
+      if (folderData.parentFolderId) {
+        const parent = await storage.getFileFolder(folderData.parentFolderId);
+        if (!parent || parent.entityType !== folderData.entityType || parent.entityId !== folderData.entityId) {
+          return res.status(400).json({ message: "Parent folder not found" });
+        }
+      }
       const folder = await storage.createFileFolder(folderData);
       res.status(201).json(folder);
     } catch (error) {
@@ -1284,7 +1619,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Insufficient permissions to edit folders" });
       }
 
-      const folderData = insertFileFolderSchema.partial().parse(req.body);
+      const existing = await storage.getFileFolder(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Folder not found" });
+      }
+      if (!canAccessEntity(await getRequestAccessScope(req), existing.entityType, existing.entityId)) {
+        return res.status(403).json({ message: "You do not have access to this folder" });
+      }
+
+      // Folders stay on their entity; moving between entities isn't supported
+      const { entityType, entityId, ...folderData } = insertFileFolderSchema.partial().parse(req.body);
+      if (folderData.parentFolderId !== undefined) {
+        const folders = await storage.getFoldersByEntity(existing.entityType, existing.entityId);
+        if (folderData.parentFolderId && !folders.some((folder) => folder.id === folderData.parentFolderId)) {
+          return res.status(400).json({ message: "Parent folder not found" });
+        }
+        if (wouldCreateCycle(folders, existing.id, folderData.parentFolderId ?? null)) {
+          return res.status(400).json({ message: "A folder cannot be moved into itself" });
+        }
+      }
       const folder = await storage.updateFileFolder(req.params.id, folderData);
       res.json(folder);
     } catch (error) {
@@ -1300,7 +1653,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Insufficient permissions to delete folders" });
       }
 
-      await storage.deleteFileFolder(req.params.id);
+      const folder = await storage.getFileFolder(req.params.id);
+      if (!folder) {
+        return res.status(404).json({ message: "Folder not found" });
+      }
+      if (!canAccessEntity(await getRequestAccessScope(req), folder.entityType, folder.entityId)) {
+        return res.status(403).json({ message: "You do not have access to this folder" });
+      }
+
+      // ?recursive=true sends the folder and everything inside to the trash;
+      // otherwise the contents move up a level and the emptied folder is removed
+      if (req.query.recursive === "true") {
+        await moveToTrash("folders", req.params.id, req.user.id);
+      } else {
+        await storage.deleteFileFolder(req.params.id);
+      }
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting folder:", error);
@@ -0,0 +1,108 @@
+import type { Episode, Project, Script } from "@shared/schema";
+import { normalizeSubmissionStatus } from "@shared/submission-review";
+import { storage } from "./storage";
+import { isJudgeable } from "./judging";
+
+// Public showcase: read-only pages for hackathons organizers made public,
+// served without a session. Only published originals appear, minus the ones
+// organizers hid, and the leaderboard only once scoring has closed. Nothing
+// here may expose who wrote a submission or how individual judges scored it.
+
+export interface ShowcaseSubmission {
+  id: string;
+  title: string;
+  description: string;
+  submissionType: string;
+  language: string;
+  githubLink: string | null;
+  demoLink: string | null;
+  teamName: string | null;
+  submittedAt: Date | null;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  submissionId: string;
+  title: string;
+  teamName: string | null;
+  score: number;
+}
+
+export interface Showcase {
+  hackathon: {
+    id: string;
+    name: string;
+    description: string | null;
+    prizePool: string | null;
+    rulesDescription: string | null;
+    startDate: Date | null;
+    endDate: Date | null;
+    submissionDeadline: Date | null;
+    isPublic: boolean;
+  };
+  submissions: ShowcaseSubmission[];
+  leaderboard: LeaderboardEntry[] | null; // null until scoring closes, or when organizers turned it off
+}
+
+export function isShowcased(submission: Script): boolean {
+  return submission.isOriginal !== false
+    && !submission.hiddenFromShowcase
+    && normalizeSubmissionStatus(submission.status) === "Published";
+}
+
+function toShowcaseSubmission(submission: Script, teams: Map<string, Episode>): ShowcaseSubmission {
+  return {
+    id: submission.id,
+    title: submission.title,
+    description: submission.description,
+    submissionType: submission.submissionType,
+    language: submission.language,
+    githubLink: submission.githubLink,
+    demoLink: submission.demoLink,
+    teamName: submission.teamId ? teams.get(submission.teamId)?.title ?? null : null,
+    submittedAt: submission.submittedAt,
+  };
+}
+
+// Ranks come from every judged submission, so hiding one leaves a gap rather
+// than promoting the ones below it. Equal scores share a rank (1, 2, 2, 4).
+export function buildLeaderboard(submissions: Script[], teams: Map<string, Episode>): LeaderboardEntry[] {
+  const scored = submissions
+    .filter((submission) => isJudgeable(submission) && submission.evaluationScore !== null)
+    .map((submission) => ({ submission, score: Number(submission.evaluationScore) }))
+    .sort((a, b) => b.score - a.score);
+
+  const ranks: number[] = [];
+  scored.forEach((entry, index) => {
+    ranks.push(index > 0 && scored[index - 1].score === entry.score ? ranks[index - 1] : index + 1);
+  });
+  return scored.flatMap((entry, index) => (isShowcased(entry.submission)
+    ? [{
+        rank: ranks[index],
+        submissionId: entry.submission.id,
+        title: entry.submission.title,
+        teamName: entry.submission.teamId ? teams.get(entry.submission.teamId)?.title ?? null : null,
+        score: entry.score,
+      }]
+    : []));
+}
+
+export async function buildShowcase(hackathon: Project): Promise<Showcase> {
+  const submissions = await storage.getScriptsByProject(hackathon.id);
+  const teams = new Map((await storage.getEpisodesByProject(hackathon.id)).map((team) => [team.id, team] as const));
+  return {
+    hackathon: {
+      id: hackathon.id,
+      name: hackathon.name,
+      description: hackathon.description,
+      prizePool: hackathon.prizePool,
+      rulesDescription: hackathon.rulesDescription,
+      startDate: hackathon.startDate,
+      endDate: hackathon.endDate,
+      submissionDeadline: hackathon.submissionDeadline,
+      isPublic: hackathon.isPublic,
+    },
+    submissions: submissions.filter(isShowcased).map((submission) => toShowcaseSubmission(submission, teams)),
+    leaderboard: hackathon.scoringClosedAt && hackathon.showLeaderboard ? buildLeaderboard(submissions, teams) : null,
+  };
+}
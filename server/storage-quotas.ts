@@ -0,0 +1,142 @@
+import type { QuotaScope, User } from "@shared/schema";
+import { can } from "@shared/permissions";
+import { storage } from "./storage";
+
+// Storage quotas per user, team and hackathon. Usage is the sum of
+// files.file_size for everything outside the trash counted against the scope
+// (see STORAGE_SCOPE_ID in storage.ts). Each scope has a default limit from
+// STORAGE_QUOTA_USER_MB / STORAGE_QUOTA_TEAM_MB / STORAGE_QUOTA_HACKATHON_MB
+// (unset or 0 = unlimited) that organizers can override per entity in
+// `storage_quotas`. An upload is refused with 413 if it would take any of
+// its scopes over the limit.
+
+export const QUOTA_SCOPES: QuotaScope[] = ["user", "team", "hackathon"];
+
+const DEFAULT_LIMIT_ENV: Record<QuotaScope, string> = {
+  user: "STORAGE_QUOTA_USER_MB",
+  team: "STORAGE_QUOTA_TEAM_MB",
+  hackathon: "STORAGE_QUOTA_HACKATHON_MB",
+};
+
+export interface QuotaTarget {
+  scope: QuotaScope;
+  scopeId: string;
+}
+
+export interface QuotaUsage extends QuotaTarget {
+  name: string;
+  usedBytes: number;
+  fileCount: number;
+  limitBytes: number | null; // null = unlimited
+  isOverride: boolean; // limit comes from storage_quotas rather than the default
+}
+
+export type QuotaCheck =
+  | { allowed: true; usage: QuotaUsage[] }
+  | { allowed: false; usage: QuotaUsage[]; exceeded: QuotaUsage; message: string };
+
+export function getDefaultQuota(scope: QuotaScope): number | null {
+  const megabytes = parseFloat(process.env[DEFAULT_LIMIT_ENV[scope]] || "");
+  return megabytes > 0 ? Math.round(megabytes * 1024 * 1024) : null;
+}
+
+export function isQuotaScope(value: unknown): value is QuotaScope {
+  return QUOTA_SCOPES.includes(value as QuotaScope);
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB", "TB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${parseFloat(value.toFixed(1))} ${units[unit]}`;
+}
+
+// The scopes an upload counts towards: the uploader, plus the team and
+// hackathon the target entity belongs to
+export async function resolveQuotaTargets(
+  userId: string | null | undefined,
+  entityType: string,
+  entityId: string | null | undefined,
+): Promise<QuotaTarget[]> {
+  const targets: QuotaTarget[] = [];
+  if (userId) targets.push({ scope: "user", scopeId: userId });
+  if (!entityId) return targets;
+
+  let teamId: string | null = null;
+  let hackathonId: string | null = null;
+  if (entityType === "hackathons" || entityType === "projects") {
+    hackathonId = entityId;
+  } else if (entityType === "teams" || entityType === "episodes") {
+    teamId = entityId;
+    hackathonId = (await storage.getEpisode(entityId))?.hackathonId ?? null;
+  } else if (entityType === "submissions" || entityType === "scripts") {
+    const submission = await storage.getScript(entityId);
+    teamId = submission?.teamId ?? null;
+    hackathonId = submission?.hackathonId ?? null;
+  }
+
+  if (teamId) targets.push({ scope: "team", scopeId: teamId });
+  if (hackathonId) targets.push({ scope: "hackathon", scopeId: hackathonId });
+  return targets;
+}
+
+export async function describeQuotaScope(scope: QuotaScope, scopeId: string): Promise<string> {
+  if (scope === "user") {
+    const user = await storage.getUser(scopeId);
+    return user?.name || user?.email || scopeId;
+  }
+  if (scope === "team") {
+    return (await storage.getEpisode(scopeId))?.title ?? "Deleted team";
+  }
+  return (await storage.getProject(scopeId))?.name ?? "Deleted hackathon";
+}
+
+export async function getQuotaUsage(targets: QuotaTarget[]): Promise<QuotaUsage[]> {
+  const usage: QuotaUsage[] = [];
+  for (const target of targets) {
+    const [current, [override], name] = await Promise.all([
+      storage.getStorageUsage(target.scope, target.scopeId),
+      storage.getStorageQuotas(target.scope, [target.scopeId]),
+      describeQuotaScope(target.scope, target.scopeId),
+    ]);
+    usage.push({
+      ...target,
+      ...current,
+      name,
+      limitBytes: override ? override.limitBytes : getDefaultQuota(target.scope),
+      isOverride: !!override,
+    });
+  }
+  return usage;
+}
+
+// Whether `incomingBytes` more fit under every quota the upload counts towards
+export async function checkStorageQuota(
+  user: User | undefined,
+  upload: { entityType: string; entityId: string | null | undefined },
+  incomingBytes: number,
+): Promise<QuotaCheck> {
+  if (can(user, "files.ignoreQuota")) {
+    return { allowed: true, usage: [] };
+  }
+
+  const usage = await getQuotaUsage(await resolveQuotaTargets(user?.id, upload.entityType, upload.entityId));
+  const exceeded = usage.find((scope) => scope.limitBytes !== null && scope.usedBytes + incomingBytes > scope.limitBytes);
+  if (!exceeded) {
+    return { allowed: true, usage };
+  }
+
+  const owner = exceeded.scope === "user" ? "your" : `${exceeded.scope} "${exceeded.name}"'s`;
+  const remaining = Math.max(0, exceeded.limitBytes! - exceeded.usedBytes);
+  return {
+    allowed: false,
+    usage,
+    exceeded,
+    message: `This ${formatBytes(incomingBytes)} upload would exceed ${owner} storage quota of ${formatBytes(exceeded.limitBytes!)} (${formatBytes(remaining)} left)`,
+  };
+}
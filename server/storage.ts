@@ -10,7 +10,22 @@ import {
   freeProjectAccess,
   files,
   fileFolders,
+  uploadSessions,
+  fileShareLinks,
+  downloadLogs,
   notifications,
+  searchDocuments,
+  backgroundJobs,
+  storageQuotas,
+  trashEntries,
+  submissionReviewers,
+  submissionStatusHistory,
+  submissionRevisions,
+  rubricCriteria,
+  hackathonJudges,
+  judgeScores,
+  teamMembers,
+  teamInvitations,
   type User,
   type InsertUser,
   type UpsertUser,
@@ -23,6 +38,19 @@ import {
   type Script,
   type InsertScript,
   type Topic,
+  type SubmissionReviewer,
+  type SubmissionStatusChange,
+  type InsertSubmissionStatusChange,
+  type SubmissionRevision,
+  type RubricCriterion,
+  type InsertRubricCriterion,
+  type HackathonJudge,
+  type JudgeScore,
+  type TeamMember,
+  type TeamMemberRole,
+  type TeamInvitation,
+  type InsertTeamInvitation,
+  type TeamInvitationStatus,
   type InsertTopic,
   type RadioStation,
   type InsertRadioStation,
@@ -32,11 +60,291 @@ import {
   type InsertFile,
   type FileFolder,
   type InsertFileFolder,
+  type UploadSession,
+  type InsertUploadSession,
+  type FileShareLink,
+  type InsertFileShareLink,
+  type InsertDownloadLog,
   type Notification,
   type InsertNotification,
+  type InsertSearchDocument,
+  type BackgroundJob,
+  type InsertBackgroundJob,
+  type JobStatus,
+  type StorageQuota,
+  type QuotaScope,
+  type TrashEntry,
+  type TrashEntityType,
+  type TrashItemCounts,
 } from "@shared/schema";
 import { getDb, isDatabaseAvailable, requireDatabase } from "./db";
-import { eq, desc, and, sql, like, or, asc } from "drizzle-orm";
+import { getBlobStore, generateStorageKey, deleteFileContent, createFileContentStream } from "./blob-storage";
+import { extractFileText, stripHtml } from "./text-extraction";
+import { isMediaProcessable, processMedia } from "./media-processing";
+import { resolveFolderSegments, toFolderPath, getFolderSubtreeIds } from "@shared/file-folders";
+import type { RegistrationStatus } from "@shared/registration";
+import type { AccessScope } from "@shared/permissions";
+import { eq, desc, and, sql, like, or, asc, lt, lte, gt, inArray, notInArray, isNull, isNotNull, getTableColumns } from "drizzle-orm";
+import type { Readable } from "stream";
+import { createHash } from "crypto";
+
+// Bulk move of files and folders into one folder (null = entity root)
+export interface FileMoveRequest {
+  entityType: string;
+  entityId: string;
+  fileIds: string[];
+  folderIds: string[];
+  targetFolderId: string | null;
+}
+
+export interface FileMoveResult {
+  movedFiles: number;
+  movedFolders: number;
+}
+
+// New order for an entity's files. Positions restart at 1 in every folder;
+// folderIds moves files to another folder (null = root) in the same write.
+export interface FileReorderRequest {
+  entityType: string;
+  entityId: string | null;
+  fileIds: string[];
+  folderIds?: Record<string, string | null>;
+  orderToken: string;
+}
+
+// One page of the files an access scope may see, without legacy inline data
+export interface AccessibleFilePage {
+  files: Omit<File, "fileData">[];
+  totalCount: number;
+}
+
+export interface FileReorderResult {
+  applied: boolean; // false when orderToken was stale; nothing was written
+  orderToken: string;
+}
+
+// Optimistic-concurrency token for the order of an entity's current files.
+// Any reorder, move, upload or delete changes it.
+export function getFileOrderToken(rows: Pick<File, "id" | "folderId" | "sortOrder">[]): string {
+  const state = rows
+    .map((row) => `${row.id}:${row.folderId ?? ""}:${row.sortOrder ?? 0}`)
+    .sort()
+    .join(",");
+  return createHash("sha256").update(state).digest("hex").slice(0, 32);
+}
+
+type DbTransaction = Parameters<Parameters<ReturnType<typeof requireDatabase>["transaction"]>[0]>[0];
+
+// Bytes stored under one quota scope
+export interface StorageUsage {
+  usedBytes: number;
+  fileCount: number;
+}
+
+export interface StorageConsumer extends StorageUsage {
+  scopeId: string;
+}
+
+// Which user, team or hackathon each file row counts towards. Team and
+// hackathon usage includes the files of their submissions (and teams).
+// Callers filter out trashed rows, which no longer count.
+const STORAGE_SCOPE_FROM = sql`
+  files f
+  LEFT JOIN submissions s ON f.entity_type IN ('submissions', 'scripts') AND s.id = f.entity_id
+  LEFT JOIN teams t ON t.id = CASE WHEN f.entity_type IN ('teams', 'episodes') THEN f.entity_id ELSE s.team_id END
+`;
+
+const STORAGE_SCOPE_ID: Record<QuotaScope, ReturnType<typeof sql>> = {
+  user: sql`f.uploaded_by`,
+  team: sql`t.id::text`,
+  hackathon: sql`coalesce(CASE WHEN f.entity_type IN ('hackathons', 'projects') THEN f.entity_id END, t.hackathon_id, s.hackathon_id)::text`,
+};
+
+export interface TrashOptions {
+  deletedBy: string | null;
+  expiresAt: Date;
+}
+
+export type TrashRestoreResult =
+  | { restored: true; entry: TrashEntry }
+  | { restored: false; reason: string };
+
+// What deleting a hackathon, team or submission would take with it, shown
+// before the delete is confirmed. Free access grants and share links are
+// only removed once the trash is purged, but stop applying right away.
+export interface DeletionImpact extends TrashItemCounts {
+  name: string;
+  fileBytes: number;
+  freeAccessGrants: number;
+  activeShareLinks: number;
+}
+
+export interface SubmissionReviewerUpdate {
+  reviewers: SubmissionReviewer[];
+  added: string[]; // Reviewer ids that weren't assigned before
+}
+
+export interface SubmissionStatusChangeResult {
+  submission: Script;
+  change: SubmissionStatusChange;
+}
+
+// "full" when the team already has maxSize members; "invitationUsed" when the
+// email invitation being accepted was answered in the meantime
+export type TeamJoinResult =
+  | { status: "joined" | "alreadyMember"; member: TeamMember }
+  | { status: "full" | "invitationUsed" | "missing" };
+
+// Which parts of a hackathon the public showcase shows
+export type ShowcaseSettings = Partial<Pick<Project, "isPublic" | "showLeaderboard">>;
+
+// Set by the create-translation action only (server/translations.ts)
+export type ScriptTranslationLink = Partial<Pick<Script, "submissionGroup" | "originalSubmissionId" | "isOriginal" | "basedOnRevision">>;
+
+// A rubric criterion as organizers edit it; without an id it is new
+export type RubricCriterionInput = Omit<InsertRubricCriterion, "hackathonId"> & { id?: string };
+
+export interface HackathonJudgeUpdate {
+  judges: HackathonJudge[];
+  added: string[]; // Judge ids that weren't assigned before
+}
+
+export interface ScoreEntry {
+  criterionId: string;
+  score: number;
+  comment?: string | null;
+}
+
+// Hackathons, teams and submissions that are deleted for good together
+interface OwnerIds {
+  hackathonIds: string[];
+  teamIds: string[];
+  submissionIds: string[];
+}
+
+type RemovedFile = Pick<File, "id" | "storageKey" | "storageBackend" | "thumbnailStorageKey">;
+
+// Enough of a deleted file row to remove its stored contents afterwards
+const removedFileColumns = {
+  id: files.id,
+  storageKey: files.storageKey,
+  storageBackend: files.storageBackend,
+  thumbnailStorageKey: files.thumbnailStorageKey,
+};
+
+// Rows one delete puts in the trash, gathered before anything is marked
+interface TrashContents extends OwnerIds {
+  name: string;
+  folderIds: string[];
+  files: { id: string; fileSize: number; versionGroupId: string | null }[];
+}
+
+function countTrashContents(contents: TrashContents): TrashItemCounts {
+  return {
+    hackathons: contents.hackathonIds.length,
+    teams: contents.teamIds.length,
+    submissions: contents.submissionIds.length,
+    folders: contents.folderIds.length,
+    // Versions of one file count once
+    files: new Set(contents.files.map((file) => file.versionGroupId || file.id)).size,
+  };
+}
+
+// The entityType values files and folders use for each kind of owner
+const ENTITY_TYPE_ALIASES: Record<"hackathons" | "teams" | "submissions", string[]> = {
+  hackathons: ["hackathons", "projects"],
+  teams: ["teams", "episodes"],
+  submissions: ["submissions", "scripts"],
+};
+
+function getTrashOwnerKind(entityType: string): "hackathon" | "team" | "submission" | null {
+  if (ENTITY_TYPE_ALIASES.hackathons.includes(entityType)) return "hackathon";
+  if (ENTITY_TYPE_ALIASES.teams.includes(entityType)) return "team";
+  if (ENTITY_TYPE_ALIASES.submissions.includes(entityType)) return "submission";
+  return null;
+}
+
+// Files and folders owned by any of the given hackathons, teams or
+// submissions; undefined when there are none
+function ownedByCondition(table: typeof files | typeof fileFolders, owners: OwnerIds) {
+  const conditions = ([
+    [ENTITY_TYPE_ALIASES.hackathons, owners.hackathonIds],
+    [ENTITY_TYPE_ALIASES.teams, owners.teamIds],
+    [ENTITY_TYPE_ALIASES.submissions, owners.submissionIds],
+  ] as [string[], string[]][])
+    .filter(([, ids]) => ids.length > 0)
+    .map(([types, ids]) => and(inArray(table.entityType, types), inArray(table.entityId, ids)));
+  return conditions.length > 0 ? or(...conditions) : undefined;
+}
+
+export interface JobListFilter {
+  statuses?: JobStatus[];
+  type?: string;
+  limit?: number;
+}
+
+// Files sharing a checksum; every copy after the first is wasted storage
+export interface DuplicateFileCluster {
+  checksum: string;
+  fileSize: number;
+  copies: number;
+  wastedBytes: number;
+  files: File[];
+}
+
+export type SearchEntityType = "submissions" | "files";
+
+export interface SearchParams {
+  query: string;
+  scope: AccessScope; // Only hits the caller may see are returned and counted
+  types?: SearchEntityType[];
+  categoryId?: string;
+  language?: string;
+  limit: number;
+  offset: number;
+}
+
+// A run of highlighted or plain text, so clients never render markup from the index
+export interface HighlightSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchHit {
+  entityType: SearchEntityType;
+  entityId: string;
+  hackathonId: string | null;
+  categoryId: string | null;
+  language: string | null;
+  title: string;
+  rank: number;
+  titleHighlight: HighlightSegment[];
+  snippet: HighlightSegment[];
+}
+
+export interface SearchResults {
+  total: number;
+  results: SearchHit[];
+}
+
+// ts_headline wraps matches in these; private-use characters never appear in real text
+const HIGHLIGHT_START = "\uE000";
+const HIGHLIGHT_END = "\uE001";
+
+function toHighlightSegments(headline: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  for (const part of headline.split(HIGHLIGHT_START)) {
+    const end = part.indexOf(HIGHLIGHT_END);
+    if (end === -1) {
+      if (part) segments.push({ text: part, highlight: false });
+      continue;
+    }
+    if (end > 0) segments.push({ text: part.slice(0, end), highlight: true });
+    const rest = part.slice(end + HIGHLIGHT_END.length);
+    if (rest) segments.push({ text: rest, highlight: false });
+  }
+  return segments;
+}
 
 export interface IStorage {
   // Users
@@ -52,6 +360,8 @@ export interface IStorage {
   suspendUser(id: string): Promise<User>;
   activateUser(id: string): Promise<User>;
   getAdminUsers(): Promise<User[]>;
+  getUsersByRoles(roles: readonly string[]): Promise<User[]>;
+  getUserByEmail(email: string): Promise<User | undefined>;
 
   // Themes
   getTheme(id: string): Promise<Theme | undefined>;
@@ -77,17 +387,38 @@ export interface IStorage {
   getAllEpisodes(): Promise<Episode[]>;
   getEpisodesByProject(projectId: string): Promise<Episode[]>;
 
+  // Team members and invitations
+  getTeamMembers(teamId: string): Promise<TeamMember[]>;
+  getTeamMembership(teamId: string, userId: string): Promise<TeamMember | undefined>;
+  addTeamMember(teamId: string, userId: string, options: { maxSize: number | null; invitationId?: string }): Promise<TeamJoinResult>;
+  removeTeamMember(teamId: string, userId: string): Promise<boolean>;
+  transferTeamLeadership(teamId: string, userId: string): Promise<Episode | undefined>;
+  backfillTeamLeaders(): Promise<number>;
+  createTeamInvitation(invitation: InsertTeamInvitation): Promise<TeamInvitation>;
+  getTeamInvitation(id: string): Promise<TeamInvitation | undefined>;
+  getTeamInvitationByToken(token: string): Promise<TeamInvitation | undefined>;
+  getTeamInvitations(teamId: string): Promise<TeamInvitation[]>;
+  getPendingInvitationsForEmail(email: string): Promise<TeamInvitation[]>;
+  updateTeamInvitationStatus(id: string, status: TeamInvitationStatus, respondedBy: string): Promise<TeamInvitation | undefined>;
+
+  // Team registration and deadline extensions
+  setTeamRegistration(teamId: string, decision: { status: RegistrationStatus; note: string | null; decidedBy: string }): Promise<Episode | undefined>;
+  setTeamDeadlineExtension(teamId: string, until: Date | null, grantedBy: string): Promise<Episode | undefined>;
+
   // Scripts
   getScript(id: string): Promise<Script | undefined>;
-  createScript(script: InsertScript): Promise<Script>;
-  updateScript(id: string, script: Partial<InsertScript>): Promise<Script>;
+  createScript(script: InsertScript & { authorId: string } & ScriptTranslationLink): Promise<Script>;
+  updateScript(id: string, script: Partial<InsertScript> & ScriptTranslationLink): Promise<Script>;
   deleteScript(id: string): Promise<void>;
   getAllScripts(): Promise<Script[]>;
   getScriptsByLanguage(language: string): Promise<Script[]>;
   getScriptsByProject(projectId: string): Promise<Script[]>;
-  getScriptsByLanguageGroup(languageGroup: string): Promise<Script[]>;
+  getScriptsByLanguageGroup(submissionGroup: string): Promise<Script[]>;
   getTranslationsForScript(scriptId: string): Promise<Script[]>;
   getScriptWithTranslations(scriptId: string): Promise<{ script: Script; translations: Script[] } | undefined>;
+  reviseScript(id: string, changes: Partial<InsertScript>, replacedBy: string): Promise<Script | undefined>;
+  getSubmissionRevision(submissionId: string, revision: number): Promise<SubmissionRevision | undefined>;
+  setTranslationBasedOnRevision(id: string, revision: number): Promise<Script | undefined>;
 
   // Topics
   getTopic(id: string): Promise<Topic | undefined>;
@@ -96,6 +427,28 @@ export interface IStorage {
   deleteTopic(id: string): Promise<void>;
   getAllTopics(): Promise<Topic[]>;
 
+  // Submission review
+  getSubmissionReviewers(submissionId: string): Promise<SubmissionReviewer[]>;
+  setSubmissionReviewers(submissionId: string, reviewerIds: string[], assignedBy: string): Promise<SubmissionReviewerUpdate>;
+  getSubmissionStatusHistory(submissionId: string): Promise<SubmissionStatusChange[]>;
+  changeSubmissionStatus(id: string, change: Omit<InsertSubmissionStatusChange, "submissionId">): Promise<SubmissionStatusChangeResult | undefined>;
+
+  // Judging
+  getRubricCriteria(hackathonId: string): Promise<RubricCriterion[]>;
+  replaceRubricCriteria(hackathonId: string, criteria: RubricCriterionInput[]): Promise<RubricCriterion[]>;
+  getHackathonJudges(hackathonId: string): Promise<HackathonJudge[]>;
+  getJudgeAssignments(judgeId: string): Promise<HackathonJudge[]>;
+  setHackathonJudges(hackathonId: string, judgeIds: string[], assignedBy: string): Promise<HackathonJudgeUpdate>;
+  getJudgeScores(hackathonId: string, judgeId?: string): Promise<JudgeScore[]>;
+  saveJudgeScores(submissionId: string, judgeId: string, scores: ScoreEntry[]): Promise<JudgeScore[]>;
+  closeScoring(hackathonId: string, evaluationScores: Map<string, number>): Promise<Project | undefined>;
+  reopenScoring(hackathonId: string): Promise<Project | undefined>;
+
+  // Public showcase
+  getPublicProjects(): Promise<Project[]>;
+  setProjectShowcase(hackathonId: string, settings: ShowcaseSettings): Promise<Project | undefined>;
+  setScriptHiddenFromShowcase(submissionId: string, hidden: boolean): Promise<Script | undefined>;
+
   // Radio Stations
   getRadioStation(id: string): Promise<RadioStation | undefined>;
   createRadioStation(station: InsertRadioStation): Promise<RadioStation>;
@@ -110,25 +463,84 @@ export interface IStorage {
   deleteFreeProjectAccess(id: string): Promise<void>;
   getAllFreeProjectAccess(): Promise<FreeProjectAccess[]>;
 
+  // Access control lookups
+  getRadioStationsByUser(userId: string): Promise<RadioStation[]>;
+  getFreeProjectAccessByRadioStations(stationIds: string[]): Promise<FreeProjectAccess[]>;
+  getEpisodesForUser(userId: string): Promise<Episode[]>;
+  getEpisodesByRadioStations(stationIds: string[]): Promise<Episode[]>;
+  getScriptsByAuthor(userId: string): Promise<Script[]>;
+  getScriptsByEpisodes(episodeIds: string[]): Promise<Script[]>;
+
   // Files
   getFile(id: string): Promise<File | undefined>;
-  createFile(file: InsertFile): Promise<File>;
+  createFile(file: InsertFile, content?: Buffer | Readable): Promise<File>;
   updateFile(id: string, file: Partial<InsertFile>): Promise<File>;
   deleteFile(id: string): Promise<void>;
   getAllFiles(limit?: number, offset?: number): Promise<File[]>;
   getFilesByEntity(entityType: string, entityId: string): Promise<File[]>;
   getFileCount(): Promise<number>;
-  reorderFiles(entityType: string, entityId: string | null, fileIds: string[]): Promise<void>;
+  getAccessibleFiles(scope: AccessScope, limit: number, offset: number): Promise<AccessibleFilePage>;
+  reorderFiles(request: FileReorderRequest): Promise<FileReorderResult>;
   searchFiles(query: string, entityType?: string, entityId?: string): Promise<File[]>;
+  getFilesByChecksum(checksum: string): Promise<File[]>;
+  getDuplicateFileClusters(): Promise<DuplicateFileCluster[]>;
+  getFileVersions(fileId: string): Promise<File[]>;
+  replaceFile(fileId: string, file: InsertFile, content: Buffer | Readable): Promise<File>;
+  restoreFileVersion(fileId: string, version: number, restoredBy?: string): Promise<File>;
+  processFileMedia(id: string): Promise<void>;
+  queueFileMediaProcessing(id: string): Promise<File | undefined>;
+  getQuarantinedFiles(): Promise<File[]>;
+  releaseQuarantinedFile(id: string, reviewedBy: string): Promise<File | undefined>;
 
   // File Folders
   getFileFolder(id: string): Promise<FileFolder | undefined>;
   createFileFolder(folder: InsertFileFolder): Promise<FileFolder>;
   updateFileFolder(id: string, folder: Partial<InsertFileFolder>): Promise<FileFolder>;
-  deleteFileFolder(id: string): Promise<void>;
+  deleteFileFolder(id: string, options?: { recursive?: boolean }): Promise<void>;
+  moveFiles(request: FileMoveRequest): Promise<FileMoveResult>;
   getFoldersByEntity(entityType: string, entityId: string): Promise<FileFolder[]>;
   getFoldersByParent(parentFolderId?: string): Promise<FileFolder[]>;
 
+  // Upload Sessions
+  getUploadSession(id: string): Promise<UploadSession | undefined>;
+  createUploadSession(session: InsertUploadSession): Promise<UploadSession>;
+  updateUploadSession(id: string, session: Partial<InsertUploadSession>): Promise<UploadSession>;
+  deleteUploadSession(id: string): Promise<void>;
+  getExpiredUploadSessions(): Promise<UploadSession[]>;
+
+  // Share Links
+  getShareLink(id: string): Promise<FileShareLink | undefined>;
+  getShareLinksByFile(fileId: string): Promise<FileShareLink[]>;
+  createShareLink(link: InsertFileShareLink): Promise<FileShareLink>;
+  revokeShareLink(id: string, revokedBy: string): Promise<FileShareLink | undefined>;
+  claimShareLinkDownload(id: string): Promise<FileShareLink | undefined>;
+  releaseShareLinkDownload(id: string): Promise<void>;
+  createDownloadLog(log: InsertDownloadLog): Promise<void>;
+  recordFileDownload(fileId: string): Promise<void>;
+
+  // Storage Quotas
+  getStorageUsage(scope: QuotaScope, scopeId: string): Promise<StorageUsage>;
+  getTopStorageConsumers(scope: QuotaScope, limit: number): Promise<StorageConsumer[]>;
+  getStorageQuotas(scope: QuotaScope, scopeIds: string[]): Promise<StorageQuota[]>;
+  setStorageQuota(scope: QuotaScope, scopeId: string, limitBytes: number, updatedBy: string): Promise<StorageQuota>;
+  deleteStorageQuota(scope: QuotaScope, scopeId: string): Promise<void>;
+
+  // Trash
+  getDeletionImpact(entityType: TrashEntityType, id: string): Promise<DeletionImpact | undefined>;
+  moveToTrash(entityType: TrashEntityType, id: string, options: TrashOptions): Promise<TrashEntry | undefined>;
+  getTrashEntries(): Promise<TrashEntry[]>;
+  getTrashEntry(id: string): Promise<TrashEntry | undefined>;
+  getExpiredTrashEntries(now: Date): Promise<TrashEntry[]>;
+  restoreTrashEntry(id: string): Promise<TrashRestoreResult | undefined>;
+  purgeTrashEntry(id: string): Promise<boolean>;
+
+  // Search
+  search(params: SearchParams): Promise<SearchResults>;
+  indexSubmission(id: string): Promise<void>;
+  indexFile(id: string): Promise<void>;
+  removeFromSearchIndex(entityType: SearchEntityType, entityIds: string[]): Promise<void>;
+  rebuildSearchIndex(): Promise<{ submissions: number; files: number }>;
+
   // Notifications
   getNotification(id: string): Promise<Notification | undefined>;
   createNotification(notification: InsertNotification): Promise<Notification>;
@@ -139,10 +551,25 @@ export interface IStorage {
   markNotificationAsRead(id: string): Promise<Notification>;
   markAllNotificationsAsRead(userId: string): Promise<void>;
 
+  // Background Jobs
+  enqueueJob(job: InsertBackgroundJob): Promise<BackgroundJob>;
+  getJob(id: string): Promise<BackgroundJob | undefined>;
+  listJobs(filter?: JobListFilter): Promise<BackgroundJob[]>;
+  getJobCounts(): Promise<Record<JobStatus, number>>;
+  getLatestCompletedJob(type: string): Promise<BackgroundJob | undefined>;
+  claimNextJob(workerId: string, types: string[]): Promise<BackgroundJob | undefined>;
+  updateJobProgress(id: string, workerId: string, progress: number, message?: string): Promise<void>;
+  completeJob(id: string, workerId: string, result: unknown): Promise<void>;
+  failJob(id: string, workerId: string, error: string, retryAt: Date | null): Promise<void>;
+  retryJob(id: string): Promise<BackgroundJob | undefined>;
+  cancelJob(id: string): Promise<BackgroundJob | undefined>;
+  requeueStaleJobs(lockedBefore: Date): Promise<number>;
+  deleteFinishedJobs(finishedBefore: Date): Promise<number>;
+
   // User Management
   getUserById(id: string): Promise<User | undefined>;
   updateUserRole(id: string, role: string): Promise<void>;
-  cleanupDownloadLogs(): Promise<void>;
+  cleanupDownloadLogs(): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -251,6 +678,22 @@ export class DatabaseStorage implements IStorage {
     return await dbInstance.select().from(users).where(eq(users.role, "admin"));
   }
 
+  async getUsersByRoles(roles: readonly string[]): Promise<User[]> {
+    if (roles.length === 0) return [];
+    const dbInstance = requireDatabase();
+    return await dbInstance
+      .select()
+      .from(users)
+      .where(and(inArray(users.role, [...roles]), eq(users.isActive, true)))
+      .orderBy(asc(users.name));
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const dbInstance = requireDatabase();
+    const [user] = await dbInstance.select().from(users).where(sql`lower(${users.email}) = ${email.toLowerCase()}`);
+    return user || undefined;
+  }
+
   // Themes
   async getTheme(id: string): Promise<Theme | undefined> {
     const dbInstance = requireDatabase();
@@ -291,13 +734,13 @@ export class DatabaseStorage implements IStorage {
 
   async getProjectsByTheme(themeId: string): Promise<Project[]> {
     const dbInstance = requireDatabase();
-    return await dbInstance.select().from(projects).where(eq(projects.themeId, themeId));
+    return await dbInstance.select().from(projects).where(and(eq(projects.themeId, themeId), isNull(projects.deletedAt)));
   }
 
   // Projects
   async getProject(id: string): Promise<Project | undefined> {
     const dbInstance = requireDatabase();
-    const [project] = await dbInstance.select().from(projects).where(eq(projects.id, id));
+    const [project] = await dbInstance.select().from(projects).where(and(eq(projects.id, id), isNull(projects.deletedAt)));
     return project || undefined;
   }
 
@@ -317,27 +760,38 @@ export class DatabaseStorage implements IStorage {
     return project;
   }
 
+  // Gone for good with its teams, submissions and files; the routes use the
+  // trash instead
   async deleteProject(id: string): Promise<void> {
-    const dbInstance = requireDatabase();
-    await dbInstance.delete(projects).where(eq(projects.id, id));
+    await this.deleteOwnersForGood({ hackathonIds: [id], teamIds: [], submissionIds: [] });
   }
 
   async getAllProjects(): Promise<Project[]> {
     const dbInstance = requireDatabase();
-    return await dbInstance.select().from(projects).orderBy(desc(projects.createdAt));
+    return await dbInstance.select().from(projects).where(isNull(projects.deletedAt)).orderBy(desc(projects.createdAt));
   }
 
   // Episodes
   async getEpisode(id: string): Promise<Episode | undefined> {
     const dbInstance = requireDatabase();
-    const [episode] = await dbInstance.select().from(episodes).where(eq(episodes.id, id));
+    const [episode] = await dbInstance.select().from(episodes).where(and(eq(episodes.id, id), isNull(episodes.deletedAt)));
     return episode || undefined;
   }
 
+  // The leader, if given, becomes the team's first member
   async createEpisode(episodeData: InsertEpisode): Promise<Episode> {
     const dbInstance = requireDatabase();
-    const [episode] = await dbInstance.insert(episodes).values(episodeData).returning();
-    return episode;
+    return await dbInstance.transaction(async (tx) => {
+      const leaderId = episodeData.teamLeaderId;
+      const [episode] = await tx
+        .insert(episodes)
+        .values({ ...episodeData, teamSize: leaderId ? 1 : 0 })
+        .returning();
+      if (leaderId) {
+        await tx.insert(teamMembers).values({ teamId: episode.id, userId: leaderId, role: "leader" });
+      }
+      return episode;
+    });
   }
 
   async updateEpisode(id: string, episodeData: Partial<InsertEpisode>): Promise<Episode> {
@@ -351,33 +805,258 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteEpisode(id: string): Promise<void> {
-    const dbInstance = requireDatabase();
-    await dbInstance.delete(episodes).where(eq(episodes.id, id));
+    await this.deleteOwnersForGood({ hackathonIds: [], teamIds: [id], submissionIds: [] });
   }
 
   async getAllEpisodes(): Promise<Episode[]> {
     const dbInstance = requireDatabase();
-    return await dbInstance.select().from(episodes).orderBy(desc(episodes.createdAt));
+    return await dbInstance.select().from(episodes).where(isNull(episodes.deletedAt)).orderBy(desc(episodes.createdAt));
   }
 
   async getEpisodesByProject(projectId: string): Promise<Episode[]> {
     const dbInstance = requireDatabase();
     return await dbInstance.select().from(episodes)
-      .where(eq(episodes.projectId, projectId))
+      .where(and(eq(episodes.hackathonId, projectId), isNull(episodes.deletedAt)))
       .orderBy(asc(episodes.title));
   }
 
+  // Team members and invitations
+  async getTeamMembers(teamId: string): Promise<TeamMember[]> {
+    const dbInstance = requireDatabase();
+    return await dbInstance
+      .select()
+      .from(teamMembers)
+      .where(eq(teamMembers.teamId, teamId))
+      .orderBy(asc(teamMembers.joinedAt));
+  }
+
+  async getTeamMembership(teamId: string, userId: string): Promise<TeamMember | undefined> {
+    const dbInstance = requireDatabase();
+    const [member] = await dbInstance
+      .select()
+      .from(teamMembers)
+      .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, userId)));
+    return member || undefined;
+  }
+
+  // Locks the team row so two people can't both take its last place. A team
+  // without a leader gets its first member as leader.
+  async addTeamMember(
+    teamId: string,
+    userId: string,
+    options: { maxSize: number | null; invitationId?: string },
+  ): Promise<TeamJoinResult> {
+    const dbInstance = requireDatabase();
+    return await dbInstance.transaction(async (tx) => {
+      const [team] = await tx
+        .select()
+        .from(episodes)
+        .where(and(eq(episodes.id, teamId), isNull(episodes.deletedAt)))
+        .for("update");
+      if (!team) return { status: "missing" };
+
+      const [existing] = await tx
+        .select()
+        .from(teamMembers)
+        .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, userId)));
+      if (existing) return { status: "alreadyMember", member: existing };
+
+      const [{ count }] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(teamMembers)
+        .where(eq(teamMembers.teamId, teamId));
+      if (options.maxSize !== null && count >= options.maxSize) return { status: "full" };
+
+      if (options.invitationId) {
+        const [invitation] = await tx
+          .update(teamInvitations)
+          .set({ status: "accepted", respondedBy: userId, respondedAt: new Date() })
+          .where(and(eq(teamInvitations.id, options.invitationId), eq(teamInvitations.status, "pending")))
+          .returning();
+        if (!invitation) return { status: "invitationUsed" };
+      }
+
+      const role: TeamMemberRole = team.teamLeaderId ? "member" : "leader";
+      const [member] = await tx.insert(teamMembers).values({ teamId, userId, role }).returning();
+      await tx
+        .update(episodes)
+        .set({ teamSize: count + 1, ...(role === "leader" ? { teamLeaderId: userId } : {}), updatedAt: new Date() })
+        .where(eq(episodes.id, teamId));
+      return { status: "joined", member };
+    });
+  }
+
+  async removeTeamMember(teamId: string, userId: string): Promise<boolean> {
+    const dbInstance = requireDatabase();
+    return await dbInstance.transaction(async (tx) => {
+      const [removed] = await tx
+        .delete(teamMembers)
+        .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, userId)))
+        .returning();
+      if (!removed) return false;
+
+      const [{ count }] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(teamMembers)
+        .where(eq(teamMembers.teamId, teamId));
+      await tx
+        .update(episodes)
+        .set({ teamSize: count, ...(removed.role === "leader" ? { teamLeaderId: null } : {}), updatedAt: new Date() })
+        .where(eq(episodes.id, teamId));
+      return true;
+    });
+  }
+
+  // undefined when the new leader isn't on the team
+  async transferTeamLeadership(teamId: string, userId: string): Promise<Episode | undefined> {
+    const dbInstance = requireDatabase();
+    return await dbInstance.transaction(async (tx) => {
+      const [member] = await tx
+        .select()
+        .from(teamMembers)
+        .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, userId)));
+      if (!member) return undefined;
+
+      await tx
+        .update(teamMembers)
+        .set({ role: "member" })
+        .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.role, "leader")));
+      await tx
+        .update(teamMembers)
+        .set({ role: "leader" })
+        .where(eq(teamMembers.id, member.id));
+      const [team] = await tx
+        .update(episodes)
+        .set({ teamLeaderId: userId, updatedAt: new Date() })
+        .where(eq(episodes.id, teamId))
+        .returning();
+      return team;
+    });
+  }
+
+  // Teams from before team_members only know their leader: give each leader
+  // their membership row and recount team sizes. Returns the rows added.
+  async backfillTeamLeaders(): Promise<number> {
+    const dbInstance = requireDatabase();
+    return await dbInstance.transaction(async (tx) => {
+      const result = await tx.execute(sql`
+        INSERT INTO ${teamMembers} (team_id, user_id, role)
+        SELECT id, team_leader_id, 'leader' FROM ${episodes}
+        WHERE team_leader_id IS NOT NULL
+        ON CONFLICT (team_id, user_id) DO NOTHING
+      `);
+      await tx.execute(sql`
+        UPDATE ${episodes} SET team_size = (
+          SELECT count(*)::int FROM ${teamMembers} WHERE ${teamMembers.teamId} = ${episodes.id}
+        )
+      `);
+      return result.rowCount ?? 0;
+    });
+  }
+
+  async createTeamInvitation(invitation: InsertTeamInvitation): Promise<TeamInvitation> {
+    const dbInstance = requireDatabase();
+    const [created] = await dbInstance.insert(teamInvitations).values(invitation).returning();
+    return created;
+  }
+
+  async getTeamInvitation(id: string): Promise<TeamInvitation | undefined> {
+    const dbInstance = requireDatabase();
+    const [invitation] = await dbInstance.select().from(teamInvitations).where(eq(teamInvitations.id, id));
+    return invitation || undefined;
+  }
+
+  async getTeamInvitationByToken(token: string): Promise<TeamInvitation | undefined> {
+    const dbInstance = requireDatabase();
+    const [invitation] = await dbInstance.select().from(teamInvitations).where(eq(teamInvitations.token, token));
+    return invitation || undefined;
+  }
+
+  // Pending invitations that haven't expired
+  async getTeamInvitations(teamId: string): Promise<TeamInvitation[]> {
+    const dbInstance = requireDatabase();
+    return await dbInstance
+      .select()
+      .from(teamInvitations)
+      .where(and(
+        eq(teamInvitations.teamId, teamId),
+        eq(teamInvitations.status, "pending"),
+        gt(teamInvitations.expiresAt, new Date()),
+      ))
+      .orderBy(desc(teamInvitations.createdAt));
+  }
+
+  async getPendingInvitationsForEmail(email: string): Promise<TeamInvitation[]> {
+    const dbInstance = requireDatabase();
+    const rows = await dbInstance
+      .select({ invitation: teamInvitations })
+      .from(teamInvitations)
+      .innerJoin(episodes, eq(teamInvitations.teamId, episodes.id))
+      .where(and(
+        sql`lower(${teamInvitations.email}) = ${email.toLowerCase()}`,
+        eq(teamInvitations.status, "pending"),
+        gt(teamInvitations.expiresAt, new Date()),
+        isNull(episodes.deletedAt),
+      ))
+      .orderBy(desc(teamInvitations.createdAt));
+    return rows.map((row) => row.invitation);
+  }
+
+  // Only answers a pending invitation; undefined when it was already answered
+  async updateTeamInvitationStatus(id: string, status: TeamInvitationStatus, respondedBy: string): Promise<TeamInvitation | undefined> {
+    const dbInstance = requireDatabase();
+    const [invitation] = await dbInstance
+      .update(teamInvitations)
+      .set({ status, respondedBy, respondedAt: new Date() })
+      .where(and(eq(teamInvitations.id, id), eq(teamInvitations.status, "pending")))
+      .returning();
+    return invitation || undefined;
+  }
+
+  // Team registration and deadline extensions
+  async setTeamRegistration(
+    teamId: string,
+    decision: { status: RegistrationStatus; note: string | null; decidedBy: string },
+  ): Promise<Episode | undefined> {
+    const dbInstance = requireDatabase();
+    const now = new Date();
+    const [team] = await dbInstance
+      .update(episodes)
+      .set({
+        registrationStatus: decision.status,
+        registrationNote: decision.note,
+        registrationDecidedBy: decision.decidedBy,
+        registrationDecidedAt: now,
+        updatedAt: now,
+      })
+      .where(and(eq(episodes.id, teamId), isNull(episodes.deletedAt)))
+      .returning();
+    return team;
+  }
+
+  async setTeamDeadlineExtension(teamId: string, until: Date | null, grantedBy: string): Promise<Episode | undefined> {
+    const dbInstance = requireDatabase();
+    const [team] = await dbInstance
+      .update(episodes)
+      .set({ deadlineExtendedUntil: until, deadlineExtendedBy: until ? grantedBy : null, updatedAt: new Date() })
+      .where(and(eq(episodes.id, teamId), isNull(episodes.deletedAt)))
+      .returning();
+    return team;
+  }
+
+
   // Scripts
   async getScript(id: string): Promise<Script | undefined> {
     const dbInstance = requireDatabase();
-    const [script] = await dbInstance.select().from(scripts).where(eq(scripts.id, id));
+    const [script] = await dbInstance.select().from(scripts).where(and(eq(scripts.id, id), isNull(scripts.deletedAt)));
     return script || undefined;
   }
 
-  async createScript(scriptData: InsertScript): Promise<Script> {
+  async createScript(scriptData: InsertScript & { authorId: string } & ScriptTranslationLink): Promise<Script> {
     const dbInstance = requireDatabase();
     try {
       const [script] = await dbInstance.insert(scripts).values(scriptData).returning();
+      this.refreshSearchIndex(() => this.indexSubmission(script.id));
       return script;
     } catch (error) {
       console.error('Error creating script:', error);
@@ -385,24 +1064,24 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async updateScript(id: string, scriptData: Partial<InsertScript>): Promise<Script> {
+  async updateScript(id: string, scriptData: Partial<InsertScript> & ScriptTranslationLink): Promise<Script> {
     const dbInstance = requireDatabase();
     const [script] = await dbInstance
       .update(scripts)
       .set({ ...scriptData, updatedAt: new Date() })
       .where(eq(scripts.id, id))
       .returning();
+    this.refreshSearchIndex(() => this.indexSubmission(id));
     return script;
   }
 
   async deleteScript(id: string): Promise<void> {
-    const dbInstance = requireDatabase();
-    await dbInstance.delete(scripts).where(eq(scripts.id, id));
+    await this.deleteOwnersForGood({ hackathonIds: [], teamIds: [], submissionIds: [id] });
   }
 
   async getAllScripts(): Promise<Script[]> {
     const dbInstance = requireDatabase();
-    return await dbInstance.select().from(scripts).orderBy(desc(scripts.createdAt));
+    return await dbInstance.select().from(scripts).where(isNull(scripts.deletedAt)).orderBy(desc(scripts.createdAt));
   }
 
   async getScriptsByLanguage(language: string): Promise<Script[]> {
@@ -410,7 +1089,7 @@ export class DatabaseStorage implements IStorage {
     return await dbInstance
       .select()
       .from(scripts)
-      .where(eq(scripts.language, language))
+      .where(and(eq(scripts.language, language), isNull(scripts.deletedAt)))
       .orderBy(desc(scripts.createdAt));
   }
 
@@ -419,16 +1098,17 @@ export class DatabaseStorage implements IStorage {
     return await dbInstance
       .select()
       .from(scripts)
-      .where(eq(scripts.projectId, projectId))
+      .where(and(eq(scripts.hackathonId, projectId), isNull(scripts.deletedAt)))
       .orderBy(desc(scripts.createdAt));
   }
 
-  async getScriptsByLanguageGroup(languageGroup: string): Promise<Script[]> {
+  // Translations share their original's submissionGroup
+  async getScriptsByLanguageGroup(submissionGroup: string): Promise<Script[]> {
     const dbInstance = requireDatabase();
     return await dbInstance
       .select()
       .from(scripts)
-      .where(eq(scripts.languageGroup, languageGroup))
+      .where(and(eq(scripts.submissionGroup, submissionGroup), isNull(scripts.deletedAt)))
       .orderBy(desc(scripts.createdAt));
   }
 
@@ -437,7 +1117,7 @@ export class DatabaseStorage implements IStorage {
     return await dbInstance
       .select()
       .from(scripts)
-      .where(eq(scripts.originalScriptId, scriptId))
+      .where(and(eq(scripts.originalSubmissionId, scriptId), isNull(scripts.deletedAt)))
       .orderBy(desc(scripts.createdAt));
   }
 
@@ -454,6 +1134,59 @@ export class DatabaseStorage implements IStorage {
     return { script, translations };
   }
 
+  // Keeps the text being replaced as a revision of its own and moves the
+  // submission on to the next one
+  async reviseScript(id: string, changes: Partial<InsertScript>, replacedBy: string): Promise<Script | undefined> {
+    const dbInstance = requireDatabase();
+    const script = await dbInstance.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(scripts)
+        .where(and(eq(scripts.id, id), isNull(scripts.deletedAt)))
+        .for("update");
+      if (!current) return undefined;
+
+      await tx
+        .insert(submissionRevisions)
+        .values({
+          submissionId: id,
+          revision: current.revision,
+          title: current.title,
+          description: current.description,
+          content: current.content,
+          replacedBy,
+        })
+        .onConflictDoNothing();
+      const [revised] = await tx
+        .update(scripts)
+        .set({ ...changes, revision: current.revision + 1, updatedAt: new Date() })
+        .where(eq(scripts.id, id))
+        .returning();
+      return revised;
+    });
+    if (script) this.refreshSearchIndex(() => this.indexSubmission(id));
+    return script;
+  }
+
+  async getSubmissionRevision(submissionId: string, revision: number): Promise<SubmissionRevision | undefined> {
+    const dbInstance = requireDatabase();
+    const [entry] = await dbInstance
+      .select()
+      .from(submissionRevisions)
+      .where(and(eq(submissionRevisions.submissionId, submissionId), eq(submissionRevisions.revision, revision)));
+    return entry;
+  }
+
+  async setTranslationBasedOnRevision(id: string, revision: number): Promise<Script | undefined> {
+    const dbInstance = requireDatabase();
+    const [translation] = await dbInstance
+      .update(scripts)
+      .set({ basedOnRevision: revision, updatedAt: new Date() })
+      .where(and(eq(scripts.id, id), isNull(scripts.deletedAt)))
+      .returning();
+    return translation;
+  }
+
   // Topics
   async getTopic(id: string): Promise<Topic | undefined> {
     const dbInstance = requireDatabase();
@@ -487,6 +1220,297 @@ export class DatabaseStorage implements IStorage {
     return await dbInstance.select().from(topics).orderBy(asc(topics.name));
   }
 
+  // Submission review
+  async getSubmissionReviewers(submissionId: string): Promise<SubmissionReviewer[]> {
+    const dbInstance = requireDatabase();
+    return await dbInstance
+      .select()
+      .from(submissionReviewers)
+      .where(eq(submissionReviewers.submissionId, submissionId))
+      .orderBy(asc(submissionReviewers.assignedAt));
+  }
+
+  // Replaces the assignment with exactly these reviewers; ones already
+  // assigned keep their original assignedAt
+  async setSubmissionReviewers(submissionId: string, reviewerIds: string[], assignedBy: string): Promise<SubmissionReviewerUpdate> {
+    const dbInstance = requireDatabase();
+    return await dbInstance.transaction(async (tx) => {
+      const current = await tx
+        .select({ reviewerId: submissionReviewers.reviewerId })
+        .from(submissionReviewers)
+        .where(eq(submissionReviewers.submissionId, submissionId));
+      const currentIds = new Set(current.map((row) => row.reviewerId));
+      const removed = Array.from(currentIds).filter((id) => !reviewerIds.includes(id));
+      const added = reviewerIds.filter((id) => !currentIds.has(id));
+
+      if (removed.length > 0) {
+        await tx
+          .delete(submissionReviewers)
+          .where(and(eq(submissionReviewers.submissionId, submissionId), inArray(submissionReviewers.reviewerId, removed)));
+      }
+      if (added.length > 0) {
+        await tx
+          .insert(submissionReviewers)
+          .values(added.map((reviewerId) => ({ submissionId, reviewerId, assignedBy })))
+          .onConflictDoNothing();
+      }
+
+      const reviewers = await tx
+        .select()
+        .from(submissionReviewers)
+        .where(eq(submissionReviewers.submissionId, submissionId))
+        .orderBy(asc(submissionReviewers.assignedAt));
+      return { reviewers, added };
+    });
+  }
+
+  async getSubmissionStatusHistory(submissionId: string): Promise<SubmissionStatusChange[]> {
+    const dbInstance = requireDatabase();
+    return await dbInstance
+      .select()
+      .from(submissionStatusHistory)
+      .where(eq(submissionStatusHistory.submissionId, submissionId))
+      .orderBy(asc(submissionStatusHistory.createdAt));
+  }
+
+  // Only moves on from change.fromStatus, so two reviewers acting at once
+  // can't both succeed; undefined when the status had already changed
+  async changeSubmissionStatus(
+    id: string,
+    change: Omit<InsertSubmissionStatusChange, "submissionId">,
+  ): Promise<SubmissionStatusChangeResult | undefined> {
+    const dbInstance = requireDatabase();
+    return await dbInstance.transaction(async (tx) => {
+      const now = new Date();
+      const [submission] = await tx
+        .update(scripts)
+        .set({
+          status: change.toStatus,
+          updatedAt: now,
+          ...(change.toStatus === "Under Review" && change.fromStatus !== "Approved" ? { submittedAt: now } : {}),
+        })
+        .where(and(eq(scripts.id, id), eq(scripts.status, change.fromStatus), isNull(scripts.deletedAt)))
+        .returning();
+      if (!submission) return undefined;
+
+      const [entry] = await tx
+        .insert(submissionStatusHistory)
+        .values({ ...change, submissionId: id })
+        .returning();
+      return { submission, change: entry };
+    });
+  }
+
+  // Judging
+  async getRubricCriteria(hackathonId: string): Promise<RubricCriterion[]> {
+    const dbInstance = requireDatabase();
+    return await dbInstance
+      .select()
+      .from(rubricCriteria)
+      .where(eq(rubricCriteria.hackathonId, hackathonId))
+      .orderBy(asc(rubricCriteria.sortOrder), asc(rubricCriteria.createdAt));
+  }
+
+  // Makes the rubric exactly this list, in this order: criteria with an id
+  // are updated, the rest are added and missing ones are deleted with their
+  // scores
+  async replaceRubricCriteria(hackathonId: string, criteria: RubricCriterionInput[]): Promise<RubricCriterion[]> {
+    const dbInstance = requireDatabase();
+    return await dbInstance.transaction(async (tx) => {
+      const keptIds = criteria.flatMap((criterion) => (criterion.id ? [criterion.id] : []));
+      await tx
+        .delete(rubricCriteria)
+        .where(and(
+          eq(rubricCriteria.hackathonId, hackathonId),
+          keptIds.length > 0 ? notInArray(rubricCriteria.id, keptIds) : undefined,
+        ));
+
+      const now = new Date();
+      for (const [sortOrder, { id, ...criterion }] of Array.from(criteria.entries())) {
+        if (id) {
+          await tx
+            .update(rubricCriteria)
+            .set({ ...criterion, sortOrder, updatedAt: now })
+            .where(and(eq(rubricCriteria.id, id), eq(rubricCriteria.hackathonId, hackathonId)));
+        } else {
+          await tx.insert(rubricCriteria).values({ ...criterion, sortOrder, hackathonId });
+        }
+      }
+
+      return await tx
+        .select()
+        .from(rubricCriteria)
+        .where(eq(rubricCriteria.hackathonId, hackathonId))
+        .orderBy(asc(rubricCriteria.sortOrder), asc(rubricCriteria.createdAt));
+    });
+  }
+
+  async getHackathonJudges(hackathonId: string): Promise<HackathonJudge[]> {
+    const dbInstance = requireDatabase();
+    return await dbInstance
+      .select()
+      .from(hackathonJudges)
+      .where(eq(hackathonJudges.hackathonId, hackathonId))
+      .orderBy(asc(hackathonJudges.assignedAt));
+  }
+
+  async getJudgeAssignments(judgeId: string): Promise<HackathonJudge[]> {
+    const dbInstance = requireDatabase();
+    return await dbInstance
+      .select()
+      .from(hackathonJudges)
+      .where(eq(hackathonJudges.judgeId, judgeId))
+      .orderBy(desc(hackathonJudges.assignedAt));
+  }
+
+  // Same as setSubmissionReviewers: judges already assigned keep their
+  // assignedAt; scores of removed judges stay and count again if they return
+  async setHackathonJudges(hackathonId: string, judgeIds: string[], assignedBy: string): Promise<HackathonJudgeUpdate> {
+    const dbInstance = requireDatabase();
+    return await dbInstance.transaction(async (tx) => {
+      const current = await tx
+        .select({ judgeId: hackathonJudges.judgeId })
+        .from(hackathonJudges)
+        .where(eq(hackathonJudges.hackathonId, hackathonId));
+      const currentIds = new Set(current.map((row) => row.judgeId));
+      const removed = Array.from(currentIds).filter((id) => !judgeIds.includes(id));
+      const added = judgeIds.filter((id) => !currentIds.has(id));
+
+      if (removed.length > 0) {
+        await tx
+          .delete(hackathonJudges)
+          .where(and(eq(hackathonJudges.hackathonId, hackathonId), inArray(hackathonJudges.judgeId, removed)));
+      }
+      if (added.length > 0) {
+        await tx
+          .insert(hackathonJudges)
+          .values(added.map((judgeId) => ({ hackathonId, judgeId, assignedBy })))
+          .onConflictDoNothing();
+      }
+
+      const judges = await tx
+        .select()
+        .from(hackathonJudges)
+        .where(eq(hackathonJudges.hackathonId, hackathonId))
+        .orderBy(asc(hackathonJudges.assignedAt));
+      return { judges, added };
+    });
+  }
+
+  // Scores on the hackathon's live submissions, of one judge or all of them
+  async getJudgeScores(hackathonId: string, judgeId?: string): Promise<JudgeScore[]> {
+    const dbInstance = requireDatabase();
+    const rows = await dbInstance
+      .select({ score: judgeScores })
+      .from(judgeScores)
+      .innerJoin(scripts, eq(judgeScores.submissionId, scripts.id))
+      .where(and(
+        eq(scripts.hackathonId, hackathonId),
+        isNull(scripts.deletedAt),
+        judgeId ? eq(judgeScores.judgeId, judgeId) : undefined,
+      ))
+      .orderBy(asc(judgeScores.createdAt));
+    return rows.map((row) => row.score);
+  }
+
+  async saveJudgeScores(submissionId: string, judgeId: string, scores: ScoreEntry[]): Promise<JudgeScore[]> {
+    const dbInstance = requireDatabase();
+    return await dbInstance.transaction(async (tx) => {
+      const now = new Date();
+      for (const entry of scores) {
+        const values = { score: entry.score.toString(), comment: entry.comment ?? null, updatedAt: now };
+        await tx
+          .insert(judgeScores)
+          .values({ ...values, submissionId, judgeId, criterionId: entry.criterionId })
+          .onConflictDoUpdate({
+            target: [judgeScores.submissionId, judgeScores.judgeId, judgeScores.criterionId],
+            set: values,
+          });
+      }
+      return await tx
+        .select()
+        .from(judgeScores)
+        .where(and(eq(judgeScores.submissionId, submissionId), eq(judgeScores.judgeId, judgeId)));
+    });
+  }
+
+  // Stamps the hackathon closed and stores each submission's combined score;
+  // undefined when scoring was already closed
+  async closeScoring(hackathonId: string, evaluationScores: Map<string, number>): Promise<Project | undefined> {
+    const dbInstance = requireDatabase();
+    return await dbInstance.transaction(async (tx) => {
+      const now = new Date();
+      const [hackathon] = await tx
+        .update(projects)
+        .set({ scoringClosedAt: now, updatedAt: now })
+        .where(and(eq(projects.id, hackathonId), isNull(projects.scoringClosedAt)))
+        .returning();
+      if (!hackathon) return undefined;
+
+      await tx
+        .update(scripts)
+        .set({ evaluationScore: null })
+        .where(eq(scripts.hackathonId, hackathonId));
+      for (const [submissionId, score] of Array.from(evaluationScores)) {
+        await tx
+          .update(scripts)
+          .set({ evaluationScore: score.toFixed(2) })
+          .where(and(eq(scripts.id, submissionId), eq(scripts.hackathonId, hackathonId)));
+      }
+      return hackathon;
+    });
+  }
+
+  // Judges can change their scores again; the combined scores are cleared
+  // until the next close
+  async reopenScoring(hackathonId: string): Promise<Project | undefined> {
+    const dbInstance = requireDatabase();
+    return await dbInstance.transaction(async (tx) => {
+      const [hackathon] = await tx
+        .update(projects)
+        .set({ scoringClosedAt: null, updatedAt: new Date() })
+        .where(and(eq(projects.id, hackathonId), isNotNull(projects.scoringClosedAt)))
+        .returning();
+      if (!hackathon) return undefined;
+
+      await tx
+        .update(scripts)
+        .set({ evaluationScore: null })
+        .where(eq(scripts.hackathonId, hackathonId));
+      return hackathon;
+    });
+  }
+
+  // Public showcase
+  async getPublicProjects(): Promise<Project[]> {
+    const dbInstance = requireDatabase();
+    return await dbInstance
+      .select()
+      .from(projects)
+      .where(and(eq(projects.isPublic, true), isNull(projects.deletedAt)))
+      .orderBy(desc(projects.startDate), asc(projects.name));
+  }
+
+  async setProjectShowcase(hackathonId: string, settings: ShowcaseSettings): Promise<Project | undefined> {
+    const dbInstance = requireDatabase();
+    const [hackathon] = await dbInstance
+      .update(projects)
+      .set({ ...settings, updatedAt: new Date() })
+      .where(and(eq(projects.id, hackathonId), isNull(projects.deletedAt)))
+      .returning();
+    return hackathon;
+  }
+
+  async setScriptHiddenFromShowcase(submissionId: string, hidden: boolean): Promise<Script | undefined> {
+    const dbInstance = requireDatabase();
+    const [submission] = await dbInstance
+      .update(scripts)
+      .set({ hiddenFromShowcase: hidden, updatedAt: new Date() })
+      .where(and(eq(scripts.id, submissionId), isNull(scripts.deletedAt)))
+      .returning();
+    return submission;
+  }
+
   // Radio Stations
   async getRadioStation(id: string): Promise<RadioStation | undefined> {
     const dbInstance = requireDatabase();
@@ -560,17 +1584,103 @@ export class DatabaseStorage implements IStorage {
     return await dbInstance.select().from(freeProjectAccess).orderBy(desc(freeProjectAccess.createdAt));
   }
 
+  // Access control lookups
+  async getRadioStationsByUser(userId: string): Promise<RadioStation[]> {
+    const dbInstance = requireDatabase();
+    return await dbInstance.select().from(radioStations).where(eq(radioStations.userId, userId));
+  }
+
+  async getFreeProjectAccessByRadioStations(stationIds: string[]): Promise<FreeProjectAccess[]> {
+    if (stationIds.length === 0) return [];
+    const dbInstance = requireDatabase();
+    return await dbInstance
+      .select()
+      .from(freeProjectAccess)
+      .where(and(inArray(freeProjectAccess.collegeId, stationIds), eq(freeProjectAccess.isActive, true)));
+  }
+
+  // Teams a user is on, or leads from before team_members existed
+  async getEpisodesForUser(userId: string): Promise<Episode[]> {
+    const dbInstance = requireDatabase();
+    return await dbInstance
+      .select()
+      .from(episodes)
+      .where(and(
+        or(
+          eq(episodes.teamLeaderId, userId),
+          inArray(
+            episodes.id,
+            dbInstance.select({ teamId: teamMembers.teamId }).from(teamMembers).where(eq(teamMembers.userId, userId))
+          )
+        ),
+        isNull(episodes.deletedAt)
+      ));
+  }
+
+  async getEpisodesByRadioStations(stationIds: string[]): Promise<Episode[]> {
+    if (stationIds.length === 0) return [];
+    const dbInstance = requireDatabase();
+    return await dbInstance.select().from(episodes).where(and(inArray(episodes.collegeId, stationIds), isNull(episodes.deletedAt)));
+  }
+
+  async getScriptsByAuthor(userId: string): Promise<Script[]> {
+    const dbInstance = requireDatabase();
+    return await dbInstance
+      .select()
+      .from(scripts)
+      .where(and(eq(scripts.authorId, userId), isNull(scripts.deletedAt)))
+      .orderBy(desc(scripts.createdAt));
+  }
+
+  async getScriptsByEpisodes(episodeIds: string[]): Promise<Script[]> {
+    if (episodeIds.length === 0) return [];
+    const dbInstance = requireDatabase();
+    return await dbInstance
+      .select()
+      .from(scripts)
+      .where(and(inArray(scripts.teamId, episodeIds), isNull(scripts.deletedAt)))
+      .orderBy(desc(scripts.createdAt));
+  }
+
   // Files
   async getFile(id: string): Promise<File | undefined> {
     const dbInstance = requireDatabase();
-    const [file] = await dbInstance.select().from(files).where(eq(files.id, id));
+    const [file] = await dbInstance.select().from(files).where(and(eq(files.id, id), isNull(files.deletedAt)));
     return file || undefined;
   }
 
-  async createFile(fileData: InsertFile): Promise<File> {
+  async createFile(fileData: InsertFile, content?: Buffer | Readable): Promise<File> {
     const dbInstance = requireDatabase();
-    const [file] = await dbInstance.insert(files).values(fileData).returning();
-    return file;
+    // Quarantined uploads are not opened by the media pipeline until released
+    const processingStatus = isMediaProcessable(fileData) && !fileData.quarantinedAt ? "pending" : null;
+    if (!content) {
+      const [file] = await dbInstance.insert(files).values({ ...fileData, processingStatus }).returning();
+      this.refreshSearchIndex(() => this.indexFile(file.id));
+      this.scheduleMediaProcessing(file);
+      return file;
+    }
+
+    if (!fileData.checksum && Buffer.isBuffer(content)) {
+      fileData = { ...fileData, checksum: createHash("sha256").update(content).digest("hex") };
+    }
+
+    // Write the contents to the blob store first, then record where they went
+    const blobStore = getBlobStore();
+    const storageKey = generateStorageKey(fileData.entityType);
+    await blobStore.put(storageKey, content, fileData.mimeType);
+
+    try {
+      const [file] = await dbInstance
+        .insert(files)
+        .values({ ...fileData, fileData: null, storageKey, storageBackend: blobStore.name, processingStatus })
+        .returning();
+      this.refreshSearchIndex(() => this.indexFile(file.id));
+      this.scheduleMediaProcessing(file);
+      return file;
+    } catch (error) {
+      await blobStore.delete(storageKey).catch(() => {});
+      throw error;
+    }
   }
 
   async updateFile(id: string, fileData: Partial<InsertFile>): Promise<File> {
@@ -580,17 +1690,44 @@ export class DatabaseStorage implements IStorage {
       .set({ ...fileData, updatedAt: new Date() })
       .where(eq(files.id, id))
       .returning();
+    this.refreshSearchIndex(() => this.indexFile(id));
     return file;
   }
 
   async deleteFile(id: string): Promise<void> {
     const dbInstance = requireDatabase();
-    await dbInstance.delete(files).where(eq(files.id, id));
+    const [file] = await dbInstance.delete(files).where(eq(files.id, id)).returning();
+    if (!file) return;
+
+    // Deleting the current version takes its archived history with it
+    const removed = [file];
+    if (!file.isArchived) {
+      const groupId = file.versionGroupId || file.id;
+      removed.push(...await dbInstance.delete(files).where(eq(files.versionGroupId, groupId)).returning());
+    }
+    this.refreshSearchIndex(() => this.removeFromSearchIndex("files", removed.map((f) => f.id)));
+    await this.removeStoredFileContents(removed);
+  }
+
+  private async removeStoredFileContents(removed: RemovedFile[]): Promise<void> {
+    for (const removedFile of removed) {
+      await deleteFileContent(removedFile).catch((error) => {
+        console.error(`Failed to remove stored contents for file ${removedFile.id}:`, error);
+      });
+      if (removedFile.thumbnailStorageKey) {
+        await deleteFileContent({ storageKey: removedFile.thumbnailStorageKey, storageBackend: removedFile.storageBackend })
+          .catch((error) => console.error(`Failed to remove thumbnail for file ${removedFile.id}:`, error));
+      }
+    }
   }
 
   async getAllFiles(limit?: number, offset?: number): Promise<File[]> {
     const dbInstance = requireDatabase();
-    let query = dbInstance.select().from(files).orderBy(desc(files.createdAt));
+    let query = dbInstance
+      .select()
+      .from(files)
+      .where(and(eq(files.isArchived, false), isNull(files.deletedAt)))
+      .orderBy(desc(files.createdAt));
     if (limit) {
       query = query.limit(limit);
     }
@@ -605,25 +1742,123 @@ export class DatabaseStorage implements IStorage {
     return await dbInstance
       .select()
       .from(files)
-      .where(and(eq(files.entityType, entityType), eq(files.entityId, entityId)))
+      .where(and(
+        eq(files.entityType, entityType),
+        eq(files.entityId, entityId),
+        eq(files.isArchived, false),
+        isNull(files.deletedAt)
+      ))
       .orderBy(asc(files.sortOrder), desc(files.createdAt));
   }
 
   async getFileCount(): Promise<number> {
     const dbInstance = requireDatabase();
-    const [result] = await dbInstance.select({ count: sql<number>`count(*)` }).from(files);
+    const [result] = await dbInstance
+      .select({ count: sql<number>`count(*)` })
+      .from(files)
+      .where(and(eq(files.isArchived, false), isNull(files.deletedAt)));
     return result.count;
   }
 
-  async reorderFiles(entityType: string, entityId: string | null, fileIds: string[]): Promise<void> {
+  // canAccessFile (shared/permissions.ts) as a WHERE clause on files, so
+  // restricted users page and search without loading everyone else's files
+  private fileAccessCondition(scope: AccessScope) {
+    const entityIn = (types: string[], ids: string[]) =>
+      ids.length > 0 ? and(inArray(files.entityType, types), inArray(files.entityId, ids)) : undefined;
+    const scopedTypes = ['hackathons', 'projects', 'teams', 'episodes', 'submissions', 'scripts', 'colleges', 'radio-stations', 'users'];
+    const entityAccess = scope.fullAccess ? undefined : or(
+      scope.hackathonIds === null
+        ? inArray(files.entityType, ['hackathons', 'projects'])
+        : entityIn(['hackathons', 'projects'], scope.hackathonIds),
+      entityIn(['teams', 'episodes'], scope.teamIds),
+      entityIn(['submissions', 'scripts'], scope.submissionIds),
+      entityIn(['colleges', 'radio-stations'], scope.collegeIds),
+      // User ids are not uuids, so compare the entity id as text
+      and(eq(files.entityType, 'users'), sql`${files.entityId}::text = ${scope.userId}`),
+      notInArray(files.entityType, scopedTypes)
+    );
+    const uploaders = scope.userEmail ? [scope.userId, scope.userEmail] : [scope.userId];
+
+    return and(
+      eq(files.isArchived, false),
+      isNull(files.deletedAt),
+      scope.isOrganizer ? undefined : isNull(files.quarantinedAt),
+      or(
+        inArray(files.uploadedBy, uploaders),
+        and(
+          scope.isOrganizer ? undefined : sql`${files.accessLevel} IS DISTINCT FROM 'private'`,
+          or(eq(files.accessLevel, 'public'), isNull(files.entityId), entityAccess)
+        )
+      )
+    );
+  }
+
+  async getAccessibleFiles(scope: AccessScope, limit: number, offset: number): Promise<AccessibleFilePage> {
     const dbInstance = requireDatabase();
+    const where = this.fileAccessCondition(scope);
+    const { fileData, ...listColumns } = getTableColumns(files);
+    const page = await dbInstance
+      .select(listColumns)
+      .from(files)
+      .where(where)
+      .orderBy(desc(files.createdAt))
+      .limit(limit)
+      .offset(offset);
+    const [result] = await dbInstance
+      .select({ count: sql<number>`count(*)::int` })
+      .from(files)
+      .where(where);
+    return { files: page, totalCount: result.count };
+  }
+
+  // The whole new order is written by one UPDATE. The entity's rows are
+  // locked first, so a concurrent reorder waits and then sees a stale token.
+  async reorderFiles({ entityType, entityId, fileIds, folderIds = {}, orderToken }: FileReorderRequest): Promise<FileReorderResult> {
+    const dbInstance = requireDatabase();
+    const entityFiles = and(
+      eq(files.entityType, entityType),
+      entityId ? eq(files.entityId, entityId) : isNull(files.entityId),
+      eq(files.isArchived, false),
+      isNull(files.deletedAt)
+    );
+    const orderColumns = { id: files.id, folderId: files.folderId, sortOrder: files.sortOrder };
+
+    return await dbInstance.transaction(async (tx) => {
+      const current = await tx.select(orderColumns).from(files).where(entityFiles).for("update");
+      const currentToken = getFileOrderToken(current);
+      if (currentToken !== orderToken) {
+        return { applied: false, orderToken: currentToken };
+      }
 
-    for (let i = 0; i < fileIds.length; i++) {
-      await dbInstance
-        .update(files)
-        .set({ sortOrder: i + 1 })
-        .where(eq(files.id, fileIds[i]));
-    }
+      const currentById = new Map(current.map((file) => [file.id, file]));
+      const ordered = Array.from(new Set(fileIds)).filter((id) => currentById.has(id));
+      if (ordered.length === 0) {
+        return { applied: true, orderToken: currentToken };
+      }
+      const targetFolders = ordered.map((id) => (id in folderIds ? folderIds[id] : currentById.get(id)!.folderId));
+
+      // The rest of every folder the listed files leave or land in follows
+      // them in its existing order, so no two files share a position
+      const listed = new Set(ordered);
+      const touchedFolders = new Set([...targetFolders, ...ordered.map((id) => currentById.get(id)!.folderId)]);
+      const rest = current
+        .filter((file) => !listed.has(file.id) && touchedFolders.has(file.folderId))
+        .sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0) || a.id.localeCompare(b.id));
+      const renumbered = [...ordered, ...rest.map((file) => file.id)];
+      const renumberedFolders = [...targetFolders, ...rest.map((file) => file.folderId)];
+
+      await tx.execute(sql`
+        UPDATE ${files} SET folder_id = reordered.folder_id, sort_order = reordered.position
+        FROM (
+          SELECT id, folder_id, row_number() OVER (PARTITION BY folder_id ORDER BY ordinality) AS position
+          FROM unnest(${this.uuidArray(renumbered)}, ${this.uuidArray(renumberedFolders)}) WITH ORDINALITY AS t(id, folder_id, ordinality)
+        ) AS reordered
+        WHERE ${files.id} = reordered.id
+      `);
+
+      const reordered = await tx.select(orderColumns).from(files).where(entityFiles);
+      return { applied: true, orderToken: getFileOrderToken(reordered) };
+    });
   }
 
   async searchFiles(query: string, entityType?: string, entityId?: string): Promise<File[]> {
@@ -632,7 +1867,9 @@ export class DatabaseStorage implements IStorage {
       or(
         like(files.filename, `%${query}%`),
         like(files.originalName, `%${query}%`)
-      )
+      ),
+      eq(files.isArchived, false),
+      isNull(files.deletedAt)
     ];
 
     if (entityType) {
@@ -649,55 +1886,1231 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(files.createdAt));
   }
 
-  // File Folders
-  async getFileFolder(id: string): Promise<FileFolder | undefined> {
+  async getFilesByChecksum(checksum: string): Promise<File[]> {
     const dbInstance = requireDatabase();
-    const [folder] = await dbInstance.select().from(fileFolders).where(eq(fileFolders.id, id));
-    return folder || undefined;
+    return await dbInstance
+      .select()
+      .from(files)
+      .where(and(eq(files.checksum, checksum), eq(files.isArchived, false), isNull(files.deletedAt)))
+      .orderBy(asc(files.createdAt));
   }
 
-  async createFileFolder(folderData: InsertFileFolder): Promise<FileFolder> {
+  async getDuplicateFileClusters(): Promise<DuplicateFileCluster[]> {
     const dbInstance = requireDatabase();
-    const [folder] = await dbInstance.insert(fileFolders).values(folderData).returning();
-    return folder;
-  }
+    const duplicateFiles = await dbInstance
+      .select()
+      .from(files)
+      .where(and(
+        eq(files.isArchived, false),
+        isNull(files.deletedAt),
+        sql`${files.checksum} IN (
+          SELECT checksum FROM files
+          WHERE checksum IS NOT NULL AND is_archived = false AND deleted_at IS NULL
+          GROUP BY checksum HAVING count(*) > 1
+        )`
+      ))
+      .orderBy(asc(files.checksum), asc(files.createdAt));
+
+    const clusters = new Map<string, File[]>();
+    for (const file of duplicateFiles) {
+      const cluster = clusters.get(file.checksum!) || [];
+      cluster.push(file);
+      clusters.set(file.checksum!, cluster);
+    }
 
-  async updateFileFolder(id: string, folderData: Partial<InsertFileFolder>): Promise<FileFolder> {
-    const dbInstance = requireDatabase();
-    const [folder] = await dbInstance
-      .update(fileFolders)
-      .set({ ...folderData, updatedAt: new Date() })
-      .where(eq(fileFolders.id, id))
-      .returning();
-    return folder;
+    return Array.from(clusters.entries())
+      .map(([checksum, clusterFiles]) => ({
+        checksum,
+        fileSize: clusterFiles[0].fileSize,
+        copies: clusterFiles.length,
+        wastedBytes: clusterFiles[0].fileSize * (clusterFiles.length - 1),
+        files: clusterFiles,
+      }))
+      .sort((a, b) => b.wastedBytes - a.wastedBytes);
   }
 
-  async deleteFileFolder(id: string): Promise<void> {
+  // File versions share a versionGroupId (the first version's id); only the
+  // newest version is left un-archived and shows up in file listings
+  async getFileVersions(fileId: string): Promise<File[]> {
     const dbInstance = requireDatabase();
-    await dbInstance.delete(fileFolders).where(eq(fileFolders.id, id));
-  }
+    const file = await this.getFile(fileId);
+    if (!file) return [];
 
-  async getFoldersByEntity(entityType: string, entityId: string): Promise<FileFolder[]> {
-    const dbInstance = requireDatabase();
+    const groupId = file.versionGroupId || file.id;
     return await dbInstance
       .select()
-      .from(fileFolders)
-      .where(and(eq(fileFolders.entityType, entityType), eq(fileFolders.entityId, entityId)))
-      .orderBy(asc(fileFolders.name));
+      .from(files)
+      .where(and(or(eq(files.id, groupId), eq(files.versionGroupId, groupId)), isNull(files.deletedAt)))
+      .orderBy(desc(files.version));
   }
 
-  async getFoldersByParent(parentFolderId?: string): Promise<FileFolder[]> {
+  async replaceFile(fileId: string, fileData: InsertFile, content: Buffer | Readable): Promise<File> {
     const dbInstance = requireDatabase();
-    const condition = parentFolderId 
-      ? eq(fileFolders.parentFolderId, parentFolderId)
-      : eq(fileFolders.parentFolderId, sql`null`);
-    return await dbInstance
-      .select()
-      .from(fileFolders)
-      .where(condition)
+    const current = await this.getFile(fileId);
+    if (!current) {
+      throw new Error("File not found");
+    }
+    if (current.isArchived) {
+      throw new Error("Only the current version of a file can be replaced");
+    }
+
+    const blobStore = getBlobStore();
+    const storageKey = generateStorageKey(current.entityType);
+    await blobStore.put(storageKey, content, fileData.mimeType);
+
+    const groupId = current.versionGroupId || current.id;
+    try {
+      const replacement = await dbInstance.transaction(async (tx) => {
+        // Guard on isArchived so two concurrent replaces can't both win
+        const [archived] = await tx
+          .update(files)
+          .set({ isArchived: true, versionGroupId: groupId, updatedAt: new Date() })
+          .where(and(eq(files.id, current.id), eq(files.isArchived, false)))
+          .returning();
+        if (!archived) {
+          throw new Error("File was replaced by someone else");
+        }
+
+        const [file] = await tx
+          .insert(files)
+          .values({
+            ...fileData,
+            entityType: current.entityType,
+            entityId: current.entityId,
+            folderId: current.folderId,
+            sortOrder: current.sortOrder,
+            tags: fileData.tags ?? current.tags,
+            description: fileData.description ?? current.description,
+            accessLevel: current.accessLevel,
+            filePath: current.filePath,
+            version: (current.version || 1) + 1,
+            versionGroupId: groupId,
+            previousVersionId: current.id,
+            isArchived: false,
+            fileData: null,
+            storageKey,
+            storageBackend: blobStore.name,
+            processingStatus: isMediaProcessable(fileData) && !fileData.quarantinedAt ? "pending" : null,
+          })
+          .returning();
+        return file;
+      });
+      this.refreshSearchIndex(async () => {
+        await this.removeFromSearchIndex("files", [current.id]);
+        await this.indexFile(replacement.id);
+      });
+      this.scheduleMediaProcessing(replacement);
+      return replacement;
+    } catch (error) {
+      await blobStore.delete(storageKey).catch(() => {});
+      throw error;
+    }
+  }
+
+  // Restoring copies an old version's contents into a new, current version so
+  // the history stays linear and nothing is lost
+  async restoreFileVersion(fileId: string, version: number, restoredBy?: string): Promise<File> {
+    const versions = await this.getFileVersions(fileId);
+    const target = versions.find((v) => v.version === version);
+    const current = versions.find((v) => !v.isArchived);
+    if (!target || !current) {
+      throw new Error("File version not found");
+    }
+    if (target.id === current.id) {
+      return current;
+    }
+
+    const content = await createFileContentStream(target);
+    return await this.replaceFile(current.id, {
+      filename: target.filename,
+      originalName: target.originalName,
+      mimeType: target.mimeType,
+      fileSize: target.fileSize,
+      entityType: target.entityType,
+      checksum: target.checksum,
+      tags: target.tags,
+      description: target.description,
+      uploadedBy: restoredBy ?? target.uploadedBy,
+      versionNote: `Restored from version ${version}`,
+      detectedMimeType: target.detectedMimeType,
+      scanStatus: target.scanStatus,
+      quarantinedAt: target.quarantinedAt,
+      quarantineReason: target.quarantineReason,
+    }, content);
+  }
+
+  // Media pipeline: metadata, thumbnail and waveform, written back to the row.
+  // Runs as a 'media.process' background job. Failures are recorded on the
+  // file rather than thrown, so a corrupt upload isn't retried over and over.
+  async processFileMedia(id: string): Promise<void> {
+    const dbInstance = requireDatabase();
+    const file = await this.getFile(id);
+    if (!file) return;
+    if (!isMediaProcessable(file)) {
+      await dbInstance
+        .update(files)
+        .set({ processingStatus: "skipped", processingError: "Unsupported type or too large", processedAt: new Date() })
+        .where(eq(files.id, id));
+      return;
+    }
+
+    await dbInstance.update(files).set({ processingStatus: "processing", processingError: null }).where(eq(files.id, id));
+    const blobStore = getBlobStore(file.storageBackend || undefined);
+    try {
+      const result = await processMedia(file);
+
+      // One thumbnail per file; reprocessing overwrites it
+      let thumbnailStorageKey: string | null = null;
+      if (result.thumbnail) {
+        thumbnailStorageKey = `thumbnails/${file.id}.webp`;
+        await blobStore.put(thumbnailStorageKey, result.thumbnail, "image/webp");
+      } else if (file.thumbnailStorageKey) {
+        await blobStore.delete(file.thumbnailStorageKey).catch(() => {});
+      }
+
+      await dbInstance
+        .update(files)
+        .set({
+          mediaMetadata: result.metadata,
+          thumbnailStorageKey,
+          waveformPeaks: result.waveformPeaks ?? null,
+          processingStatus: result.status,
+          processingError: result.note ?? null,
+          processedAt: new Date(),
+        })
+        .where(eq(files.id, id));
+    } catch (error) {
+      console.error(`Media processing failed for file ${id}:`, error);
+      await dbInstance
+        .update(files)
+        .set({
+          processingStatus: "failed",
+          processingError: ((error as Error).message || "Processing failed").slice(0, 1000),
+          processedAt: new Date(),
+        })
+        .where(eq(files.id, id));
+    }
+  }
+
+  async queueFileMediaProcessing(id: string): Promise<File | undefined> {
+    const dbInstance = requireDatabase();
+    const [file] = await dbInstance
+      .update(files)
+      .set({ processingStatus: "pending", processingError: null })
+      .where(eq(files.id, id))
+      .returning();
+    if (file) this.scheduleMediaProcessing(file);
+    return file || undefined;
+  }
+
+  async getQuarantinedFiles(): Promise<File[]> {
+    const dbInstance = requireDatabase();
+    return await dbInstance
+      .select()
+      .from(files)
+      .where(and(isNotNull(files.quarantinedAt), isNull(files.deletedAt)))
+      .orderBy(desc(files.quarantinedAt));
+  }
+
+  // An organizer decided the scanner was wrong: the file becomes visible,
+  // searchable and gets its preview like any other upload
+  async releaseQuarantinedFile(id: string, reviewedBy: string): Promise<File | undefined> {
+    const dbInstance = requireDatabase();
+    const [file] = await dbInstance
+      .update(files)
+      .set({
+        quarantinedAt: null,
+        scanStatus: "released",
+        quarantineReviewedBy: reviewedBy,
+        quarantineReviewedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(files.id, id), isNotNull(files.quarantinedAt)))
+      .returning();
+    if (!file) return undefined;
+
+    this.refreshSearchIndex(() => this.indexFile(file.id));
+    if (isMediaProcessable(file)) {
+      return await this.queueFileMediaProcessing(file.id);
+    }
+    return file;
+  }
+
+  // The worker picks the job up on its next poll
+  private scheduleMediaProcessing(file: File): void {
+    if (file.processingStatus !== "pending") return;
+    this.enqueueJob({ type: "media.process", payload: { fileId: file.id }, dedupeKey: `media.process:${file.id}` })
+      .catch((error) => console.error(`Failed to queue media processing for file ${file.id}:`, error));
+  }
+
+  // File Folders
+  async getFileFolder(id: string): Promise<FileFolder | undefined> {
+    const dbInstance = requireDatabase();
+    const [folder] = await dbInstance.select().from(fileFolders).where(and(eq(fileFolders.id, id), isNull(fileFolders.deletedAt)));
+    return folder || undefined;
+  }
+
+  async createFileFolder(folderData: InsertFileFolder): Promise<FileFolder> {
+    const dbInstance = requireDatabase();
+    return await dbInstance.transaction(async (tx) => {
+      const [folder] = await tx.insert(fileFolders).values(folderData).returning();
+      const synced = await this.syncFolderPaths(tx, folder.entityType, folder.entityId);
+      return synced.get(folder.id) ?? folder;
+    });
+  }
+
+  async updateFileFolder(id: string, folderData: Partial<InsertFileFolder>): Promise<FileFolder> {
+    const dbInstance = requireDatabase();
+    return await dbInstance.transaction(async (tx) => {
+      const [folder] = await tx
+        .update(fileFolders)
+        .set({ ...folderData, updatedAt: new Date() })
+        .where(eq(fileFolders.id, id))
+        .returning();
+      if (!folder || (folderData.name === undefined && folderData.parentFolderId === undefined)) {
+        return folder;
+      }
+      // A rename or move changes the path of everything below the folder too
+      const synced = await this.syncFolderPaths(tx, folder.entityType, folder.entityId);
+      return synced.get(folder.id) ?? folder;
+    });
+  }
+
+  // By default the folder's contents move up into its parent; with recursive
+  // the whole subtree goes, files included
+  async deleteFileFolder(id: string, options: { recursive?: boolean } = {}): Promise<void> {
+    const dbInstance = requireDatabase();
+    const folder = await this.getFileFolder(id);
+    if (!folder) return;
+
+    const removedFileIds = await dbInstance.transaction(async (tx) => {
+      if (options.recursive) {
+        const entityFolders = await tx
+          .select()
+          .from(fileFolders)
+          .where(and(eq(fileFolders.entityType, folder.entityType), eq(fileFolders.entityId, folder.entityId)));
+        const subtree = Array.from(getFolderSubtreeIds(entityFolders, id));
+        const contained = await tx
+          .select({ id: files.id })
+          .from(files)
+          .where(and(inArray(files.folderId, subtree), eq(files.isArchived, false)));
+        await tx.delete(fileFolders).where(inArray(fileFolders.id, subtree));
+        return contained.map((file) => file.id);
+      }
+
+      await tx
+        .update(fileFolders)
+        .set({ parentFolderId: folder.parentFolderId, updatedAt: new Date() })
+        .where(eq(fileFolders.parentFolderId, id));
+      const contained = await tx
+        .select({ id: files.id })
+        .from(files)
+        .where(and(eq(files.folderId, id), eq(files.isArchived, false), isNull(files.deletedAt)))
+        .orderBy(asc(files.sortOrder), desc(files.createdAt));
+      await this.appendFilesToFolder(tx, folder.entityType, folder.entityId, folder.parentFolderId, contained.map((file) => file.id));
+      // Archived versions follow so a later restore lands in the same place
+      await tx.update(files).set({ folderId: folder.parentFolderId }).where(eq(files.folderId, id));
+      await tx.delete(fileFolders).where(eq(fileFolders.id, id));
+      await this.syncFolderPaths(tx, folder.entityType, folder.entityId);
+      return [];
+    });
+
+    for (const fileId of removedFileIds) {
+      await this.deleteFile(fileId);
+    }
+  }
+
+  // Moved items go to the end of the target, in the order given, and the
+  // folders they left are renumbered so sortOrder stays 1..n everywhere
+  async moveFiles({ entityType, entityId, fileIds, folderIds, targetFolderId }: FileMoveRequest): Promise<FileMoveResult> {
+    const dbInstance = requireDatabase();
+    return await dbInstance.transaction(async (tx) => {
+      let movedFiles = 0;
+      if (fileIds.length > 0) {
+        const moving = await tx
+          .select({ id: files.id, folderId: files.folderId })
+          .from(files)
+          .where(and(
+            inArray(files.id, fileIds),
+            eq(files.entityType, entityType),
+            eq(files.entityId, entityId),
+            eq(files.isArchived, false),
+            isNull(files.deletedAt)
+          ));
+        const movingIds = fileIds.filter((id) => moving.some((file) => file.id === id));
+        const sourceFolderIds = new Set(moving.map((file) => file.folderId));
+        sourceFolderIds.delete(targetFolderId);
+
+        await this.appendFilesToFolder(tx, entityType, entityId, targetFolderId, movingIds);
+        for (const sourceFolderId of Array.from(sourceFolderIds)) {
+          await this.renumberFolderFiles(tx, entityType, entityId, sourceFolderId);
+        }
+        movedFiles = movingIds.length;
+      }
+
+      let movedFolders = 0;
+      if (folderIds.length > 0) {
+        const [{ maxOrder }] = await tx
+          .select({ maxOrder: sql<number>`coalesce(max(${fileFolders.sortOrder}), 0)` })
+          .from(fileFolders)
+          .where(and(
+            eq(fileFolders.entityType, entityType),
+            eq(fileFolders.entityId, entityId),
+            targetFolderId ? eq(fileFolders.parentFolderId, targetFolderId) : isNull(fileFolders.parentFolderId)
+          ));
+        for (let i = 0; i < folderIds.length; i++) {
+          const updated = await tx
+            .update(fileFolders)
+            .set({ parentFolderId: targetFolderId, sortOrder: Number(maxOrder) + i + 1, updatedAt: new Date() })
+            .where(and(
+              eq(fileFolders.id, folderIds[i]),
+              eq(fileFolders.entityType, entityType),
+              eq(fileFolders.entityId, entityId)
+            ))
+            .returning({ id: fileFolders.id });
+          movedFolders += updated.length;
+        }
+        await this.syncFolderPaths(tx, entityType, entityId);
+      }
+
+      return { movedFiles, movedFolders };
+    });
+  }
+
+  // Recomputes folderPath for every folder of an entity from the parent links
+  // and writes the ones that changed. Returns the rewritten rows by id.
+  private async syncFolderPaths(tx: DbTransaction, entityType: string, entityId: string): Promise<Map<string, FileFolder>> {
+    const entityFolders = await tx
+      .select()
+      .from(fileFolders)
+      .where(and(eq(fileFolders.entityType, entityType), eq(fileFolders.entityId, entityId)));
+    const segments = resolveFolderSegments(entityFolders);
+
+    const updated = new Map<string, FileFolder>();
+    for (const folder of entityFolders) {
+      const folderPath = toFolderPath(segments.get(folder.id) ?? [folder.name]);
+      if (folder.folderPath === folderPath) continue;
+      const [row] = await tx
+        .update(fileFolders)
+        .set({ folderPath })
+        .where(eq(fileFolders.id, folder.id))
+        .returning();
+      updated.set(row.id, row);
+    }
+    return updated;
+  }
+
+  private async appendFilesToFolder(
+    tx: DbTransaction,
+    entityType: string,
+    entityId: string,
+    folderId: string | null,
+    fileIds: string[],
+  ): Promise<void> {
+    if (fileIds.length === 0) return;
+    const [{ maxOrder }] = await tx
+      .select({ maxOrder: sql<number>`coalesce(max(${files.sortOrder}), 0)` })
+      .from(files)
+      .where(and(
+        eq(files.entityType, entityType),
+        eq(files.entityId, entityId),
+        folderId ? eq(files.folderId, folderId) : isNull(files.folderId),
+        eq(files.isArchived, false),
+        isNull(files.deletedAt),
+        sql`${files.id} <> all(${this.uuidArray(fileIds)})`
+      ));
+    await tx
+      .update(files)
+      .set({
+        folderId,
+        sortOrder: sql`${Number(maxOrder)} + array_position(${this.uuidArray(fileIds)}, ${files.id})`,
+        updatedAt: new Date(),
+      })
+      .where(inArray(files.id, fileIds));
+  }
+
+  // Closes the gaps a move leaves behind, keeping the existing order
+  private async renumberFolderFiles(tx: DbTransaction, entityType: string, entityId: string, folderId: string | null): Promise<void> {
+    await tx.execute(sql`
+      UPDATE ${files} SET sort_order = ranked.position
+      FROM (
+        SELECT id, row_number() OVER (ORDER BY sort_order, created_at DESC) AS position
+        FROM ${files}
+        WHERE entity_type = ${entityType}
+          AND entity_id = ${entityId}
+          AND folder_id IS NOT DISTINCT FROM ${folderId}::uuid
+          AND is_archived = false
+          AND deleted_at IS NULL
+      ) AS ranked
+      WHERE ${files.id} = ranked.id AND ${files.sortOrder} IS DISTINCT FROM ranked.position
+    `);
+  }
+
+  private uuidArray(ids: (string | null)[]) {
+    return sql`ARRAY[${sql.join(ids.map((id) => sql`${id}`), sql`, `)}]::uuid[]`;
+  }
+
+  async getFoldersByEntity(entityType: string, entityId: string): Promise<FileFolder[]> {
+    const dbInstance = requireDatabase();
+    return await dbInstance
+      .select()
+      .from(fileFolders)
+      .where(and(eq(fileFolders.entityType, entityType), eq(fileFolders.entityId, entityId), isNull(fileFolders.deletedAt)))
       .orderBy(asc(fileFolders.name));
   }
 
+  async getFoldersByParent(parentFolderId?: string): Promise<FileFolder[]> {
+    const dbInstance = requireDatabase();
+    const condition = parentFolderId 
+      ? eq(fileFolders.parentFolderId, parentFolderId)
+      : eq(fileFolders.parentFolderId, sql`null`);
+    return await dbInstance
+      .select()
+      .from(fileFolders)
+      .where(and(condition, isNull(fileFolders.deletedAt)))
+      .orderBy(asc(fileFolders.name));
+  }
+
+  // Upload Sessions
+  async getUploadSession(id: string): Promise<UploadSession | undefined> {
+    const dbInstance = requireDatabase();
+    const [session] = await dbInstance.select().from(uploadSessions).where(eq(uploadSessions.id, id));
+    return session || undefined;
+  }
+
+  async createUploadSession(sessionData: InsertUploadSession): Promise<UploadSession> {
+    const dbInstance = requireDatabase();
+    const [session] = await dbInstance.insert(uploadSessions).values(sessionData).returning();
+    return session;
+  }
+
+  async updateUploadSession(id: string, sessionData: Partial<InsertUploadSession>): Promise<UploadSession> {
+    const dbInstance = requireDatabase();
+    const [session] = await dbInstance
+      .update(uploadSessions)
+      .set({ ...sessionData, updatedAt: new Date() })
+      .where(eq(uploadSessions.id, id))
+      .returning();
+    return session;
+  }
+
+  async deleteUploadSession(id: string): Promise<void> {
+    const dbInstance = requireDatabase();
+    await dbInstance.delete(uploadSessions).where(eq(uploadSessions.id, id));
+  }
+
+  async getExpiredUploadSessions(): Promise<UploadSession[]> {
+    const dbInstance = requireDatabase();
+    return await dbInstance
+      .select()
+      .from(uploadSessions)
+      .where(lt(uploadSessions.expiresAt, new Date()));
+  }
+
+  // Share Links
+  async getShareLink(id: string): Promise<FileShareLink | undefined> {
+    const dbInstance = requireDatabase();
+    const [link] = await dbInstance.select().from(fileShareLinks).where(eq(fileShareLinks.id, id));
+    return link;
+  }
+
+  async getShareLinksByFile(fileId: string): Promise<FileShareLink[]> {
+    const dbInstance = requireDatabase();
+    return await dbInstance
+      .select()
+      .from(fileShareLinks)
+      .where(eq(fileShareLinks.fileId, fileId))
+      .orderBy(desc(fileShareLinks.createdAt));
+  }
+
+  async createShareLink(linkData: InsertFileShareLink): Promise<FileShareLink> {
+    const dbInstance = requireDatabase();
+    const [link] = await dbInstance.insert(fileShareLinks).values(linkData).returning();
+    return link;
+  }
+
+  async revokeShareLink(id: string, revokedBy: string): Promise<FileShareLink | undefined> {
+    const dbInstance = requireDatabase();
+    const [link] = await dbInstance
+      .update(fileShareLinks)
+      .set({ revokedAt: new Date(), revokedBy })
+      .where(and(eq(fileShareLinks.id, id), sql`${fileShareLinks.revokedAt} IS NULL`))
+      .returning();
+    return link;
+  }
+
+  // Takes one download off the link in a single statement, so two people
+  // racing for the last download can't both get it. Returns undefined when
+  // the link is revoked, expired or used up.
+  async claimShareLinkDownload(id: string): Promise<FileShareLink | undefined> {
+    const dbInstance = requireDatabase();
+    const [link] = await dbInstance
+      .update(fileShareLinks)
+      .set({
+        downloadCount: sql`${fileShareLinks.downloadCount} + 1`,
+        lastAccessedAt: new Date(),
+      })
+      .where(and(
+        eq(fileShareLinks.id, id),
+        sql`${fileShareLinks.revokedAt} IS NULL`,
+        sql`${fileShareLinks.expiresAt} > NOW()`,
+        sql`(${fileShareLinks.maxDownloads} IS NULL OR ${fileShareLinks.downloadCount} < ${fileShareLinks.maxDownloads})`
+      ))
+      .returning();
+    return link;
+  }
+
+  // Gives a claimed download back when the file could not be sent at all
+  async releaseShareLinkDownload(id: string): Promise<void> {
+    const dbInstance = requireDatabase();
+    await dbInstance
+      .update(fileShareLinks)
+      .set({ downloadCount: sql`GREATEST(${fileShareLinks.downloadCount} - 1, 0)` })
+      .where(eq(fileShareLinks.id, id));
+  }
+
+  async createDownloadLog(log: InsertDownloadLog): Promise<void> {
+    const dbInstance = requireDatabase();
+    await dbInstance.insert(downloadLogs).values(log);
+  }
+
+  async recordFileDownload(fileId: string): Promise<void> {
+    const dbInstance = requireDatabase();
+    await dbInstance
+      .update(files)
+      .set({ downloadCount: sql`COALESCE(${files.downloadCount}, 0) + 1`, lastAccessedAt: new Date() })
+      .where(eq(files.id, fileId));
+  }
+
+  // Storage Quotas
+  async getStorageUsage(scope: QuotaScope, scopeId: string): Promise<StorageUsage> {
+    const dbInstance = requireDatabase();
+    const result = await dbInstance.execute(sql`
+      SELECT coalesce(sum(f.file_size), 0)::bigint AS used_bytes, count(*)::int AS file_count
+      FROM ${STORAGE_SCOPE_FROM}
+      WHERE ${STORAGE_SCOPE_ID[scope]} = ${scopeId} AND f.deleted_at IS NULL
+    `);
+    const row = result.rows[0] as Record<string, any> | undefined;
+    return { usedBytes: Number(row?.used_bytes ?? 0), fileCount: row?.file_count ?? 0 };
+  }
+
+  async getTopStorageConsumers(scope: QuotaScope, limit: number): Promise<StorageConsumer[]> {
+    const dbInstance = requireDatabase();
+    const result = await dbInstance.execute(sql`
+      SELECT ${STORAGE_SCOPE_ID[scope]} AS scope_id,
+             sum(f.file_size)::bigint AS used_bytes,
+             count(*)::int AS file_count
+      FROM ${STORAGE_SCOPE_FROM}
+      WHERE ${STORAGE_SCOPE_ID[scope]} IS NOT NULL AND f.deleted_at IS NULL
+      GROUP BY 1
+      ORDER BY used_bytes DESC
+      LIMIT ${limit}
+    `);
+    return (result.rows as Record<string, any>[]).map((row) => ({
+      scopeId: row.scope_id,
+      usedBytes: Number(row.used_bytes),
+      fileCount: row.file_count,
+    }));
+  }
+
+  async getStorageQuotas(scope: QuotaScope, scopeIds: string[]): Promise<StorageQuota[]> {
+    if (scopeIds.length === 0) return [];
+    const dbInstance = requireDatabase();
+    return await dbInstance
+      .select()
+      .from(storageQuotas)
+      .where(and(eq(storageQuotas.scopeType, scope), inArray(storageQuotas.scopeId, scopeIds)));
+  }
+
+  async setStorageQuota(scope: QuotaScope, scopeId: string, limitBytes: number, updatedBy: string): Promise<StorageQuota> {
+    const dbInstance = requireDatabase();
+    const [quota] = await dbInstance
+      .insert(storageQuotas)
+      .values({ scopeType: scope, scopeId, limitBytes, updatedBy })
+      .onConflictDoUpdate({
+        target: [storageQuotas.scopeType, storageQuotas.scopeId],
+        set: { limitBytes, updatedBy, updatedAt: new Date() },
+      })
+      .returning();
+    return quota;
+  }
+
+  async deleteStorageQuota(scope: QuotaScope, scopeId: string): Promise<void> {
+    const dbInstance = requireDatabase();
+    await dbInstance
+      .delete(storageQuotas)
+      .where(and(eq(storageQuotas.scopeType, scope), eq(storageQuotas.scopeId, scopeId)));
+  }
+
+  // Trash
+  async getDeletionImpact(entityType: TrashEntityType, id: string): Promise<DeletionImpact | undefined> {
+    const dbInstance = requireDatabase();
+    return await dbInstance.transaction(async (tx) => {
+      const contents = await this.collectTrashContents(tx, entityType, id);
+      if (!contents) return undefined;
+
+      const fileIds = contents.files.map((file) => file.id);
+      const [grants] = contents.hackathonIds.length > 0
+        ? await tx
+          .select({ count: sql<number>`count(*)::int` })
+          .from(freeProjectAccess)
+          .where(inArray(freeProjectAccess.hackathonId, contents.hackathonIds))
+        : [{ count: 0 }];
+      const [links] = fileIds.length > 0
+        ? await tx
+          .select({ count: sql<number>`count(*)::int` })
+          .from(fileShareLinks)
+          .where(and(
+            inArray(fileShareLinks.fileId, fileIds),
+            isNull(fileShareLinks.revokedAt),
+            gt(fileShareLinks.expiresAt, new Date())
+          ))
+        : [{ count: 0 }];
+
+      return {
+        name: contents.name,
+        ...countTrashContents(contents),
+        fileBytes: contents.files.reduce((total, file) => total + file.fileSize, 0),
+        freeAccessGrants: Number(grants.count),
+        activeShareLinks: Number(links.count),
+      };
+    });
+  }
+
+  async moveToTrash(entityType: TrashEntityType, id: string, options: TrashOptions): Promise<TrashEntry | undefined> {
+    const dbInstance = requireDatabase();
+    const trashed = await dbInstance.transaction(async (tx) => {
+      const contents = await this.collectTrashContents(tx, entityType, id);
+      if (!contents) return undefined;
+
+      const fileIds = contents.files.map((file) => file.id);
+      const [entry] = await tx
+        .insert(trashEntries)
+        .values({
+          entityType,
+          entityId: id,
+          name: contents.name.slice(0, 255),
+          itemCounts: countTrashContents(contents),
+          fileBytes: contents.files.reduce((total, file) => total + file.fileSize, 0),
+          deletedBy: options.deletedBy,
+          expiresAt: options.expiresAt,
+        })
+        .returning();
+
+      const mark = { deletedAt: entry.deletedAt, trashId: entry.id };
+      if (contents.hackathonIds.length > 0) {
+        await tx.update(projects).set(mark).where(inArray(projects.id, contents.hackathonIds));
+      }
+      if (contents.teamIds.length > 0) {
+        await tx.update(episodes).set(mark).where(inArray(episodes.id, contents.teamIds));
+      }
+      if (contents.submissionIds.length > 0) {
+        await tx.update(scripts).set(mark).where(inArray(scripts.id, contents.submissionIds));
+      }
+      if (contents.folderIds.length > 0) {
+        await tx.update(fileFolders).set({ ...mark, isActive: false }).where(inArray(fileFolders.id, contents.folderIds));
+      }
+      if (fileIds.length > 0) {
+        await tx.update(files).set({ ...mark, isActive: false }).where(inArray(files.id, fileIds));
+      }
+      return { entry, submissionIds: contents.submissionIds, fileIds };
+    });
+    if (!trashed) return undefined;
+
+    this.refreshSearchIndex(async () => {
+      await this.removeFromSearchIndex("submissions", trashed.submissionIds);
+      await this.removeFromSearchIndex("files", trashed.fileIds);
+    });
+    return trashed.entry;
+  }
+
+  // The live rows a delete takes with it: a hackathon takes its teams and
+  // submissions, a team its submissions, and each of those its folders and
+  // files. Rows already in the trash keep their own entry.
+  private async collectTrashContents(tx: DbTransaction, entityType: TrashEntityType, id: string): Promise<TrashContents | undefined> {
+    const fileColumns = { id: files.id, fileSize: files.fileSize, versionGroupId: files.versionGroupId };
+
+    if (entityType === "folders") {
+      const [folder] = await tx.select().from(fileFolders).where(and(eq(fileFolders.id, id), isNull(fileFolders.deletedAt)));
+      if (!folder) return undefined;
+      const entityFolders = await tx
+        .select()
+        .from(fileFolders)
+        .where(and(
+          eq(fileFolders.entityType, folder.entityType),
+          eq(fileFolders.entityId, folder.entityId),
+          isNull(fileFolders.deletedAt)
+        ));
+      const folderIds = Array.from(getFolderSubtreeIds(entityFolders, id));
+      const folderFiles = await tx
+        .select(fileColumns)
+        .from(files)
+        .where(and(inArray(files.folderId, folderIds), isNull(files.deletedAt)));
+      return { name: folder.name, hackathonIds: [], teamIds: [], submissionIds: [], folderIds, files: folderFiles };
+    }
+
+    if (entityType === "files") {
+      const [file] = await tx
+        .select({ ...fileColumns, isArchived: files.isArchived, originalName: files.originalName })
+        .from(files)
+        .where(and(eq(files.id, id), isNull(files.deletedAt)));
+      if (!file) return undefined;
+      // Deleting the current version takes its archived history with it
+      const groupId = file.versionGroupId || file.id;
+      const versions = file.isArchived
+        ? [file]
+        : await tx
+          .select(fileColumns)
+          .from(files)
+          .where(and(or(eq(files.id, groupId), eq(files.versionGroupId, groupId)), isNull(files.deletedAt)));
+      return { name: file.originalName, hackathonIds: [], teamIds: [], submissionIds: [], folderIds: [], files: versions };
+    }
+
+    let name: string;
+    let hackathonIds: string[] = [];
+    let teamIds: string[] = [];
+    let submissionIds: string[] = [];
+    if (entityType === "hackathons") {
+      const [hackathon] = await tx.select({ name: projects.name }).from(projects).where(and(eq(projects.id, id), isNull(projects.deletedAt)));
+      if (!hackathon) return undefined;
+      name = hackathon.name;
+      hackathonIds = [id];
+      teamIds = (await tx.select({ id: episodes.id }).from(episodes).where(and(eq(episodes.hackathonId, id), isNull(episodes.deletedAt))))
+        .map((team) => team.id);
+      submissionIds = (await tx.select({ id: scripts.id }).from(scripts).where(and(eq(scripts.hackathonId, id), isNull(scripts.deletedAt))))
+        .map((submission) => submission.id);
+    } else if (entityType === "teams") {
+      const [team] = await tx.select({ title: episodes.title }).from(episodes).where(and(eq(episodes.id, id), isNull(episodes.deletedAt)));
+      if (!team) return undefined;
+      name = team.title;
+      teamIds = [id];
+      submissionIds = (await tx.select({ id: scripts.id }).from(scripts).where(and(eq(scripts.teamId, id), isNull(scripts.deletedAt))))
+        .map((submission) => submission.id);
+    } else {
+      const [submission] = await tx.select({ title: scripts.title }).from(scripts).where(and(eq(scripts.id, id), isNull(scripts.deletedAt)));
+      if (!submission) return undefined;
+      name = submission.title;
+      submissionIds = [id];
+    }
+
+    // Files and folders name their owner by entityType, legacy aliases included
+    const owners = { hackathonIds, teamIds, submissionIds };
+    const ownedFolders = await tx
+      .select({ id: fileFolders.id })
+      .from(fileFolders)
+      .where(and(ownedByCondition(fileFolders, owners), isNull(fileFolders.deletedAt)));
+    const ownedFiles = await tx
+      .select(fileColumns)
+      .from(files)
+      .where(and(ownedByCondition(files, owners), isNull(files.deletedAt)));
+    return {
+      name,
+      hackathonIds,
+      teamIds,
+      submissionIds,
+      folderIds: ownedFolders.map((folder) => folder.id),
+      files: ownedFiles,
+    };
+  }
+
+  async getTrashEntries(): Promise<TrashEntry[]> {
+    const dbInstance = requireDatabase();
+    return await dbInstance.select().from(trashEntries).orderBy(desc(trashEntries.deletedAt));
+  }
+
+  async getTrashEntry(id: string): Promise<TrashEntry | undefined> {
+    const dbInstance = requireDatabase();
+    const [entry] = await dbInstance.select().from(trashEntries).where(eq(trashEntries.id, id));
+    return entry || undefined;
+  }
+
+  async getExpiredTrashEntries(now: Date): Promise<TrashEntry[]> {
+    const dbInstance = requireDatabase();
+    return await dbInstance
+      .select()
+      .from(trashEntries)
+      .where(lte(trashEntries.expiresAt, now))
+      .orderBy(asc(trashEntries.expiresAt));
+  }
+
+  // Everything in the entry comes back at once. Something whose owner is
+  // itself in the trash (or gone) can't come back on its own; a folder or
+  // file whose parent folder is missing lands at the top level instead.
+  async restoreTrashEntry(id: string): Promise<TrashRestoreResult | undefined> {
+    const dbInstance = requireDatabase();
+    const result = await dbInstance.transaction(async (tx) => {
+      const [entry] = await tx.select().from(trashEntries).where(eq(trashEntries.id, id)).for("update");
+      if (!entry) return undefined;
+
+      const blocker = await this.findRestoreBlocker(tx, entry);
+      if (blocker) {
+        return { restored: false as const, reason: blocker };
+      }
+
+      const live = { deletedAt: null, trashId: null };
+      await tx.update(projects).set(live).where(eq(projects.trashId, id));
+      await tx.update(episodes).set(live).where(eq(episodes.trashId, id));
+      const restoredSubmissions = await tx
+        .update(scripts)
+        .set(live)
+        .where(eq(scripts.trashId, id))
+        .returning({ id: scripts.id });
+      const restoredFolders = await tx
+        .update(fileFolders)
+        .set({ ...live, isActive: true })
+        .where(eq(fileFolders.trashId, id))
+        .returning();
+      const restoredFiles = await tx
+        .update(files)
+        .set({ ...live, isActive: true })
+        .where(eq(files.trashId, id))
+        .returning({
+          id: files.id,
+          entityType: files.entityType,
+          entityId: files.entityId,
+          folderId: files.folderId,
+          isArchived: files.isArchived,
+        });
+      await tx.delete(trashEntries).where(eq(trashEntries.id, id));
+
+      if (entry.entityType === "folders") {
+        const root = restoredFolders.find((folder) => folder.id === entry.entityId);
+        if (root?.parentFolderId && !(await this.isFolderLive(tx, root.parentFolderId))) {
+          await tx.update(fileFolders).set({ parentFolderId: null }).where(eq(fileFolders.id, root.id));
+        }
+        if (root) await this.syncFolderPaths(tx, root.entityType, root.entityId);
+      } else if (entry.entityType === "files") {
+        const current = restoredFiles.filter((file) => !file.isArchived);
+        const [first] = restoredFiles;
+        if (first?.entityId) {
+          const folderId = first.folderId && (await this.isFolderLive(tx, first.folderId)) ? first.folderId : null;
+          if (folderId !== first.folderId) {
+            await tx.update(files).set({ folderId }).where(inArray(files.id, restoredFiles.map((file) => file.id)));
+          }
+          // Back at the end of its folder rather than colliding with what moved up
+          await this.appendFilesToFolder(tx, first.entityType, first.entityId, folderId, current.map((file) => file.id));
+        }
+      }
+
+      return {
+        restored: true as const,
+        entry,
+        submissionIds: restoredSubmissions.map((submission) => submission.id),
+        fileIds: restoredFiles.filter((file) => !file.isArchived).map((file) => file.id),
+      };
+    });
+    if (!result?.restored) return result;
+
+    this.refreshSearchIndex(async () => {
+      for (const submissionId of result.submissionIds) await this.indexSubmission(submissionId);
+      for (const fileId of result.fileIds) await this.indexFile(fileId);
+    });
+    return { restored: true, entry: result.entry };
+  }
+
+  // Why the entry can't come back yet, or null when it can
+  private async findRestoreBlocker(tx: DbTransaction, entry: TrashEntry): Promise<string | null> {
+    let owners: { entityType: string; entityId: string | null }[] = [];
+    if (entry.entityType === "teams") {
+      const [team] = await tx.select({ hackathonId: episodes.hackathonId }).from(episodes).where(eq(episodes.id, entry.entityId));
+      if (team) owners = [{ entityType: "hackathons", entityId: team.hackathonId }];
+    } else if (entry.entityType === "submissions") {
+      const [submission] = await tx
+        .select({ hackathonId: scripts.hackathonId, teamId: scripts.teamId })
+        .from(scripts)
+        .where(eq(scripts.id, entry.entityId));
+      if (submission) {
+        owners = [
+          { entityType: "hackathons", entityId: submission.hackathonId },
+          { entityType: "teams", entityId: submission.teamId },
+        ];
+      }
+    } else if (entry.entityType === "folders") {
+      const [folder] = await tx
+        .select({ entityType: fileFolders.entityType, entityId: fileFolders.entityId })
+        .from(fileFolders)
+        .where(eq(fileFolders.id, entry.entityId));
+      if (folder) owners = [folder];
+    } else if (entry.entityType === "files") {
+      const [file] = await tx
+        .select({ entityType: files.entityType, entityId: files.entityId })
+        .from(files)
+        .where(eq(files.id, entry.entityId));
+      if (file) owners = [file];
+    }
+
+    for (const owner of owners) {
+      if (!owner.entityId) continue;
+      const kind = getTrashOwnerKind(owner.entityType);
+      if (!kind) continue;
+      const [row] = kind === "hackathon"
+        ? await tx.select({ deletedAt: projects.deletedAt }).from(projects).where(eq(projects.id, owner.entityId))
+        : kind === "team"
+          ? await tx.select({ deletedAt: episodes.deletedAt }).from(episodes).where(eq(episodes.id, owner.entityId))
+          : await tx.select({ deletedAt: scripts.deletedAt }).from(scripts).where(eq(scripts.id, owner.entityId));
+      if (!row) {
+        return `The ${kind} it belonged to has been deleted permanently`;
+      }
+      if (row.deletedAt) {
+        return `The ${kind} it belongs to is in the trash; restore that first`;
+      }
+    }
+    return null;
+  }
+
+  private async isFolderLive(tx: DbTransaction, folderId: string): Promise<boolean> {
+    const [folder] = await tx
+      .select({ id: fileFolders.id })
+      .from(fileFolders)
+      .where(and(eq(fileFolders.id, folderId), isNull(fileFolders.deletedAt)));
+    return !!folder;
+  }
+
+  // Deletes the entry and everything in it for good, stored contents included
+  async purgeTrashEntry(id: string): Promise<boolean> {
+    const dbInstance = requireDatabase();
+    const removedFiles = await dbInstance.transaction(async (tx) => {
+      const [entry] = await tx.delete(trashEntries).where(eq(trashEntries.id, id)).returning({ id: trashEntries.id });
+      if (!entry) return undefined;
+
+      const removed = await tx.delete(files).where(eq(files.trashId, id)).returning(removedFileColumns);
+      await tx.delete(fileFolders).where(eq(fileFolders.trashId, id));
+      const owners = await this.deleteOwnedRows(tx, {
+        hackathonIds: (await tx.select({ id: projects.id }).from(projects).where(eq(projects.trashId, id))).map((row) => row.id),
+        teamIds: (await tx.select({ id: episodes.id }).from(episodes).where(eq(episodes.trashId, id))).map((row) => row.id),
+        submissionIds: (await tx.select({ id: scripts.id }).from(scripts).where(eq(scripts.trashId, id))).map((row) => row.id),
+      });
+      return [...removed, ...owners.files];
+    });
+    if (!removedFiles) return false;
+
+    await this.removeStoredFileContents(removedFiles);
+    return true;
+  }
+
+  private async deleteOwnersForGood(owners: OwnerIds): Promise<void> {
+    const dbInstance = requireDatabase();
+    const deleted = await dbInstance.transaction((tx) => this.deleteOwnedRows(tx, owners));
+    this.refreshSearchIndex(async () => {
+      await this.removeFromSearchIndex("submissions", deleted.submissionIds);
+      await this.removeFromSearchIndex("files", deleted.files.map((file) => file.id));
+    });
+    await this.removeStoredFileContents(deleted.files);
+  }
+
+  // Deletes hackathons, teams and submissions along with everything under
+  // them, live or in the trash. Files and folders name their owner by
+  // entityType, so they have no foreign key and are deleted here; topics,
+  // free access grants and share links follow their rows through the
+  // foreign keys. Trash entries for anything removed go as well, so nothing
+  // can be restored without its owner.
+  private async deleteOwnedRows(tx: DbTransaction, owners: OwnerIds): Promise<{ submissionIds: string[]; files: RemovedFile[] }> {
+    const { hackathonIds } = owners;
+    const teamIds = new Set(owners.teamIds);
+    const submissionIds = new Set(owners.submissionIds);
+    if (hackathonIds.length > 0) {
+      for (const team of await tx.select({ id: episodes.id }).from(episodes).where(inArray(episodes.hackathonId, hackathonIds))) {
+        teamIds.add(team.id);
+      }
+    }
+    const submissionOwners = [
+      ...(hackathonIds.length > 0 ? [inArray(scripts.hackathonId, hackathonIds)] : []),
+      ...(teamIds.size > 0 ? [inArray(scripts.teamId, Array.from(teamIds))] : []),
+    ];
+    if (submissionOwners.length > 0) {
+      for (const submission of await tx.select({ id: scripts.id }).from(scripts).where(or(...submissionOwners))) {
+        submissionIds.add(submission.id);
+      }
+    }
+
+    const all = { hackathonIds, teamIds: Array.from(teamIds), submissionIds: Array.from(submissionIds) };
+    const ownedFiles = ownedByCondition(files, all);
+    const ownedFolders = ownedByCondition(fileFolders, all);
+    if (!ownedFiles || !ownedFolders) return { submissionIds: [], files: [] };
+
+    const removedFiles = await tx.delete(files).where(ownedFiles).returning(removedFileColumns);
+    const removedFolders = await tx.delete(fileFolders).where(ownedFolders).returning({ id: fileFolders.id });
+    if (all.submissionIds.length > 0) await tx.delete(scripts).where(inArray(scripts.id, all.submissionIds));
+    if (all.teamIds.length > 0) await tx.delete(episodes).where(inArray(episodes.id, all.teamIds));
+    if (hackathonIds.length > 0) await tx.delete(projects).where(inArray(projects.id, hackathonIds));
+
+    const removedIds = [
+      ...hackathonIds,
+      ...all.teamIds,
+      ...all.submissionIds,
+      ...removedFolders.map((folder) => folder.id),
+      ...removedFiles.map((file) => file.id),
+    ];
+    await tx.delete(trashEntries).where(inArray(trashEntries.entityId, removedIds));
+    return { submissionIds: all.submissionIds, files: removedFiles };
+  }
+
+  // Search
+  async search(params: SearchParams): Promise<SearchResults> {
+    const dbInstance = requireDatabase();
+    const tsQuery = sql`websearch_to_tsquery('simple', ${params.query})`;
+    const headlineOptions = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, HighlightAll=true`;
+    const snippetOptions = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxFragments=2, MaxWords=25, MinWords=10, FragmentDelimiter=" … "`;
+
+    const conditions = [sql`${searchDocuments.searchVector} @@ ${tsQuery}`];
+    if (params.types && params.types.length > 0) {
+      conditions.push(inArray(searchDocuments.entityType, params.types));
+    }
+    if (params.categoryId) {
+      conditions.push(eq(projects.categoryId, params.categoryId));
+    }
+    if (params.language) {
+      conditions.push(eq(searchDocuments.language, params.language));
+    }
+    // canAccessSubmission and canAccessFile, so pages are full and the total
+    // counts only what the caller may see
+    const { scope } = params;
+    const submissionAccess = scope.fullAccess
+      ? undefined
+      : scope.submissionIds.length > 0 ? inArray(searchDocuments.entityId, scope.submissionIds) : sql`false`;
+    conditions.push(or(
+      and(eq(searchDocuments.entityType, "submissions"), submissionAccess),
+      and(eq(searchDocuments.entityType, "files"), this.fileAccessCondition(scope))
+    )!);
+
+    const rank = sql<number>`ts_rank(${searchDocuments.searchVector}, ${tsQuery})`;
+    const rows = await dbInstance
+      .select({
+        entityType: searchDocuments.entityType,
+        entityId: searchDocuments.entityId,
+        hackathonId: searchDocuments.hackathonId,
+        categoryId: projects.categoryId,
+        language: searchDocuments.language,
+        title: searchDocuments.title,
+        rank,
+        titleHeadline: sql<string>`ts_headline('simple', ${searchDocuments.title}, ${tsQuery}, ${headlineOptions})`,
+        snippetHeadline: sql<string>`ts_headline('simple', coalesce(${searchDocuments.body}, ''), ${tsQuery}, ${snippetOptions})`,
+        total: sql<number>`count(*) over()`,
+      })
+      .from(searchDocuments)
+      .leftJoin(projects, eq(projects.id, searchDocuments.hackathonId))
+      .leftJoin(files, and(eq(searchDocuments.entityType, "files"), eq(files.id, searchDocuments.entityId)))
+      .where(and(...conditions))
+      .orderBy(desc(rank), desc(searchDocuments.updatedAt))
+      .limit(params.limit)
+      .offset(params.offset);
+
+    return {
+      total: rows.length > 0 ? Number(rows[0].total) : 0,
+      results: rows.map((row) => ({
+        entityType: row.entityType as SearchEntityType,
+        entityId: row.entityId,
+        hackathonId: row.hackathonId,
+        categoryId: row.categoryId,
+        language: row.language,
+        title: row.title,
+        rank: Number(row.rank),
+        titleHighlight: toHighlightSegments(row.titleHeadline),
+        snippet: toHighlightSegments(row.snippetHeadline),
+      })),
+    };
+  }
+
+  async indexSubmission(id: string): Promise<void> {
+    const script = await this.getScript(id);
+    if (!script) {
+      return await this.removeFromSearchIndex("submissions", [id]);
+    }
+
+    await this.upsertSearchDocument({
+      entityType: "submissions",
+      entityId: script.id,
+      hackathonId: script.hackathonId,
+      language: script.language,
+      title: script.title,
+      body: [script.description, script.content ? stripHtml(script.content) : null]
+        .filter(Boolean)
+        .join("\n"),
+    });
+  }
+
+  async indexFile(id: string): Promise<void> {
+    const file = await this.getFile(id);
+    if (!file || file.isArchived || file.quarantinedAt) {
+      return await this.removeFromSearchIndex("files", [id]);
+    }
+
+    let hackathonId: string | null = null;
+    let language: string | null = null;
+    if (file.entityId) {
+      if (file.entityType === "hackathons" || file.entityType === "projects") {
+        hackathonId = file.entityId;
+      } else if (file.entityType === "teams" || file.entityType === "episodes") {
+        hackathonId = (await this.getEpisode(file.entityId))?.hackathonId ?? null;
+      } else if (file.entityType === "submissions" || file.entityType === "scripts") {
+        const script = await this.getScript(file.entityId);
+        hackathonId = script?.hackathonId ?? null;
+        language = script?.language ?? null;
+      }
+    }
+
+    const extractedText = await extractFileText(file);
+    await this.upsertSearchDocument({
+      entityType: "files",
+      entityId: file.id,
+      hackathonId,
+      language,
+      title: file.originalName,
+      body: [file.description, file.tags?.join(" "), extractedText]
+        .filter(Boolean)
+        .join("\n"),
+    });
+  }
+
+  async removeFromSearchIndex(entityType: SearchEntityType, entityIds: string[]): Promise<void> {
+    if (entityIds.length === 0) return;
+    const dbInstance = requireDatabase();
+    await dbInstance
+      .delete(searchDocuments)
+      .where(and(eq(searchDocuments.entityType, entityType), inArray(searchDocuments.entityId, entityIds)));
+  }
+
+  // Re-indexes everything from scratch; used after schema changes or to
+  // pick up rows written before the index existed
+  async rebuildSearchIndex(): Promise<{ submissions: number; files: number }> {
+    const dbInstance = requireDatabase();
+    await dbInstance.delete(searchDocuments);
+
+    const allScripts = await this.getAllScripts();
+    for (const script of allScripts) {
+      await this.indexSubmission(script.id);
+    }
+
+    const currentFiles = await dbInstance
+      .select({ id: files.id })
+      .from(files)
+      .where(and(eq(files.isArchived, false), isNull(files.deletedAt)));
+    for (const file of currentFiles) {
+      await this.indexFile(file.id);
+    }
+
+    return { submissions: allScripts.length, files: currentFiles.length };
+  }
+
+  private async upsertSearchDocument(document: InsertSearchDocument): Promise<void> {
+    const dbInstance = requireDatabase();
+    await dbInstance
+      .insert(searchDocuments)
+      .values(document)
+      .onConflictDoUpdate({
+        target: [searchDocuments.entityType, searchDocuments.entityId],
+        set: { ...document, updatedAt: new Date() },
+      });
+  }
+
+  // Index maintenance runs in the background so a slow PDF extraction never
+  // holds up the request that changed the data
+  private refreshSearchIndex(task: () => Promise<void>): void {
+    task().catch((error) => {
+      console.error("Failed to update search index:", error);
+    });
+  }
+
   // Notifications
   async getNotification(id: string): Promise<Notification | undefined> {
     const dbInstance = requireDatabase();
@@ -762,6 +3175,180 @@ export class DatabaseStorage implements IStorage {
       .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false)));
   }
 
+  // Background Jobs
+  // With a dedupeKey, an already queued or running job with the same key is
+  // returned instead of adding another; the advisory lock closes the race
+  // between two requests enqueueing at once.
+  async enqueueJob(job: InsertBackgroundJob): Promise<BackgroundJob> {
+    const dbInstance = requireDatabase();
+    const { dedupeKey } = job;
+    if (!dedupeKey) {
+      const [created] = await dbInstance.insert(backgroundJobs).values(job).returning();
+      return created;
+    }
+    return await dbInstance.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${dedupeKey}))`);
+      const [existing] = await tx
+        .select()
+        .from(backgroundJobs)
+        .where(and(eq(backgroundJobs.dedupeKey, dedupeKey), inArray(backgroundJobs.status, ["queued", "running"])))
+        .limit(1);
+      if (existing) return existing;
+      const [created] = await tx.insert(backgroundJobs).values(job).returning();
+      return created;
+    });
+  }
+
+  async getJob(id: string): Promise<BackgroundJob | undefined> {
+    const dbInstance = requireDatabase();
+    const [job] = await dbInstance.select().from(backgroundJobs).where(eq(backgroundJobs.id, id));
+    return job || undefined;
+  }
+
+  async listJobs(filter: JobListFilter = {}): Promise<BackgroundJob[]> {
+    const dbInstance = requireDatabase();
+    const conditions = [];
+    if (filter.statuses?.length) conditions.push(inArray(backgroundJobs.status, filter.statuses));
+    if (filter.type) conditions.push(eq(backgroundJobs.type, filter.type));
+    return await dbInstance
+      .select()
+      .from(backgroundJobs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(backgroundJobs.createdAt))
+      .limit(Math.min(filter.limit ?? 100, 500));
+  }
+
+  async getJobCounts(): Promise<Record<JobStatus, number>> {
+    const dbInstance = requireDatabase();
+    const rows = await dbInstance
+      .select({ status: backgroundJobs.status, count: sql<number>`count(*)::int` })
+      .from(backgroundJobs)
+      .groupBy(backgroundJobs.status);
+    const counts: Record<JobStatus, number> = { queued: 0, running: 0, completed: 0, failed: 0, cancelled: 0 };
+    for (const row of rows) counts[row.status as JobStatus] = row.count;
+    return counts;
+  }
+
+  async getLatestCompletedJob(type: string): Promise<BackgroundJob | undefined> {
+    const dbInstance = requireDatabase();
+    const [job] = await dbInstance
+      .select()
+      .from(backgroundJobs)
+      .where(and(eq(backgroundJobs.type, type), eq(backgroundJobs.status, "completed")))
+      .orderBy(desc(backgroundJobs.finishedAt))
+      .limit(1);
+    return job || undefined;
+  }
+
+  // SKIP LOCKED lets concurrent workers each take a different job without waiting
+  async claimNextJob(workerId: string, types: string[]): Promise<BackgroundJob | undefined> {
+    const dbInstance = requireDatabase();
+    if (types.length === 0) return undefined;
+    const result = await dbInstance.execute(sql`
+      UPDATE background_jobs
+      SET status = 'running', attempts = attempts + 1, locked_at = NOW(), locked_by = ${workerId},
+          started_at = COALESCE(started_at, NOW()), last_error = NULL
+      WHERE id = (
+        SELECT id FROM background_jobs
+        WHERE status = 'queued' AND run_at <= NOW()
+          AND type IN (${sql.join(types.map((type) => sql`${type}`), sql`, `)})
+        ORDER BY run_at, created_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id
+    `);
+    const claimed = result.rows[0] as { id: string } | undefined;
+    return claimed ? await this.getJob(claimed.id) : undefined;
+  }
+
+  // Also serves as the heartbeat that keeps a long job from being requeued as stale
+  async updateJobProgress(id: string, workerId: string, progress: number, message?: string): Promise<void> {
+    const dbInstance = requireDatabase();
+    await dbInstance
+      .update(backgroundJobs)
+      .set({
+        progress: Math.max(0, Math.min(100, Math.round(progress))),
+        ...(message !== undefined && { progressMessage: message }),
+        lockedAt: new Date(),
+      })
+      .where(and(eq(backgroundJobs.id, id), eq(backgroundJobs.lockedBy, workerId), eq(backgroundJobs.status, "running")));
+  }
+
+  async completeJob(id: string, workerId: string, result: unknown): Promise<void> {
+    const dbInstance = requireDatabase();
+    await dbInstance
+      .update(backgroundJobs)
+      .set({ status: "completed", progress: 100, result: result ?? null, lockedAt: null, lockedBy: null, finishedAt: new Date() })
+      .where(and(eq(backgroundJobs.id, id), eq(backgroundJobs.lockedBy, workerId), eq(backgroundJobs.status, "running")));
+  }
+
+  // retryAt null = out of attempts, the job stays failed until retried by hand
+  async failJob(id: string, workerId: string, error: string, retryAt: Date | null): Promise<void> {
+    const dbInstance = requireDatabase();
+    await dbInstance
+      .update(backgroundJobs)
+      .set({
+        status: retryAt ? "queued" : "failed",
+        runAt: retryAt ?? undefined,
+        lastError: error.slice(0, 4000),
+        lockedAt: null,
+        lockedBy: null,
+        finishedAt: retryAt ? null : new Date(),
+      })
+      .where(and(eq(backgroundJobs.id, id), eq(backgroundJobs.lockedBy, workerId), eq(backgroundJobs.status, "running")));
+  }
+
+  async retryJob(id: string): Promise<BackgroundJob | undefined> {
+    const dbInstance = requireDatabase();
+    const [job] = await dbInstance
+      .update(backgroundJobs)
+      .set({ status: "queued", attempts: 0, progress: 0, progressMessage: null, runAt: new Date(), finishedAt: null })
+      .where(and(eq(backgroundJobs.id, id), inArray(backgroundJobs.status, ["failed", "cancelled"])))
+      .returning();
+    return job || undefined;
+  }
+
+  // Only jobs that haven't started; a running handler can't be interrupted
+  async cancelJob(id: string): Promise<BackgroundJob | undefined> {
+    const dbInstance = requireDatabase();
+    const [job] = await dbInstance
+      .update(backgroundJobs)
+      .set({ status: "cancelled", finishedAt: new Date() })
+      .where(and(eq(backgroundJobs.id, id), eq(backgroundJobs.status, "queued")))
+      .returning();
+    return job || undefined;
+  }
+
+  // Jobs whose worker died mid-run (crash, redeploy) go back in the queue.
+  // The lost run still counts as an attempt.
+  async requeueStaleJobs(lockedBefore: Date): Promise<number> {
+    const dbInstance = requireDatabase();
+    const requeued = await dbInstance
+      .update(backgroundJobs)
+      .set({
+        status: sql`CASE WHEN ${backgroundJobs.attempts} >= ${backgroundJobs.maxAttempts} THEN 'failed' ELSE 'queued' END`,
+        lastError: "Worker stopped before the job finished",
+        lockedAt: null,
+        lockedBy: null,
+        runAt: new Date(),
+        finishedAt: sql`CASE WHEN ${backgroundJobs.attempts} >= ${backgroundJobs.maxAttempts} THEN NOW() END`,
+      })
+      .where(and(eq(backgroundJobs.status, "running"), lt(backgroundJobs.lockedAt, lockedBefore)))
+      .returning({ id: backgroundJobs.id });
+    return requeued.length;
+  }
+
+  // Failed jobs are kept so they stay visible on the admin page until retried
+  async deleteFinishedJobs(finishedBefore: Date): Promise<number> {
+    const dbInstance = requireDatabase();
+    const deleted = await dbInstance
+      .delete(backgroundJobs)
+      .where(and(inArray(backgroundJobs.status, ["completed", "cancelled"]), lt(backgroundJobs.finishedAt, finishedBefore)))
+      .returning({ id: backgroundJobs.id });
+    return deleted.length;
+  }
+
   // User Management Methods
   async getUserById(id: string): Promise<User | undefined> {
     return this.getUser(id);
@@ -775,10 +3362,11 @@ export class DatabaseStorage implements IStorage {
       .where(eq(users.id, id));
   }
 
-  async cleanupDownloadLogs(): Promise<void> {
+  // Returns the number of log rows corrected
+  async cleanupDownloadLogs(): Promise<number> {
     const dbInstance = requireDatabase();
     // Update download logs with correct user information from users table
-    await dbInstance.execute(sql`
+    const result = await dbInstance.execute(sql`
       UPDATE download_logs 
       SET user_email = u.email, 
           user_name = COALESCE(u.name, u.email),
@@ -787,6 +3375,7 @@ export class DatabaseStorage implements IStorage {
       WHERE download_logs.user_id = u.id 
       AND (download_logs.user_email = 'temp-user@example.com' OR download_logs.user_email != u.email)
     `);
+    return result.rowCount ?? 0;
   }
 }
 
@@ -835,6 +3424,10 @@ export class FallbackStorage implements IStorage {
   async suspendUser(id: string): Promise<User> { return this.throwDatabaseError(); }
   async activateUser(id: string): Promise<User> { return this.throwDatabaseError(); }
   async getAdminUsers(): Promise<User[]> { return this.throwDatabaseError(); }
+  async getUsersByRoles(roles: readonly string[]): Promise<User[]> { return this.throwDatabaseError(); }
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return this.tempUsers.find(u => u.email?.toLowerCase() === email.toLowerCase());
+  }
 
   // Themes - provide demo data
   async getTheme(id: string): Promise<Theme | undefined> { 
@@ -947,44 +3540,88 @@ export class FallbackStorage implements IStorage {
   }
   async getEpisodesByProject(projectId: string): Promise<Episode[]> { 
     const episodes = await this.getAllEpisodes();
-    return episodes.filter(e => e.projectId === projectId);
-  }
+    return episodes.filter(e => e.hackathonId === projectId);
+  }
+
+  // Team members and invitations
+  async getTeamMembers(teamId: string): Promise<TeamMember[]> { return []; }
+  async getTeamMembership(teamId: string, userId: string): Promise<TeamMember | undefined> { return undefined; }
+  async addTeamMember(teamId: string, userId: string, options: { maxSize: number | null; invitationId?: string }): Promise<TeamJoinResult> { return this.throwDatabaseError(); }
+  async removeTeamMember(teamId: string, userId: string): Promise<boolean> { return this.throwDatabaseError(); }
+  async transferTeamLeadership(teamId: string, userId: string): Promise<Episode | undefined> { return this.throwDatabaseError(); }
+  async backfillTeamLeaders(): Promise<number> { return this.throwDatabaseError(); }
+  async createTeamInvitation(invitation: InsertTeamInvitation): Promise<TeamInvitation> { return this.throwDatabaseError(); }
+  async getTeamInvitation(id: string): Promise<TeamInvitation | undefined> { return undefined; }
+  async getTeamInvitationByToken(token: string): Promise<TeamInvitation | undefined> { return undefined; }
+  async getTeamInvitations(teamId: string): Promise<TeamInvitation[]> { return []; }
+  async getPendingInvitationsForEmail(email: string): Promise<TeamInvitation[]> { return []; }
+  async updateTeamInvitationStatus(id: string, status: TeamInvitationStatus, respondedBy: string): Promise<TeamInvitation | undefined> { return this.throwDatabaseError(); }
+  async setTeamRegistration(teamId: string, decision: { status: RegistrationStatus; note: string | null; decidedBy: string }): Promise<Episode | undefined> { return this.throwDatabaseError(); }
+  async setTeamDeadlineExtension(teamId: string, until: Date | null, grantedBy: string): Promise<Episode | undefined> { return this.throwDatabaseError(); }
 
   // Scripts - provide demo data
   async getScript(id: string): Promise<Script | undefined> { 
     const scripts = await this.getAllScripts();
     return scripts.find(s => s.id === id);
   }
-  async createScript(script: InsertScript): Promise<Script> { return this.throwDatabaseError(); }
-  async updateScript(id: string, script: Partial<InsertScript>): Promise<Script> { return this.throwDatabaseError(); }
+  async createScript(script: InsertScript & { authorId: string } & ScriptTranslationLink): Promise<Script> { return this.throwDatabaseError(); }
+  async updateScript(id: string, script: Partial<InsertScript> & ScriptTranslationLink): Promise<Script> { return this.throwDatabaseError(); }
   async deleteScript(id: string): Promise<void> { return this.throwDatabaseError(); }
   async getAllScripts(): Promise<Script[]> { 
     return [
       {
         id: "demo-script-1",
-        projectId: "demo-project-1",
+        hackathonId: "demo-project-1",
+        teamId: null,
         authorId: "temp-admin-001",
         title: "Diabetes Prevention Script",
+        description: "",
         content: "Welcome to our health awareness program focusing on diabetes prevention...",
-        status: "Published",
         language: "en",
-        originalScriptId: null,
-        languageGroup: "diabetes-prevention",
+        status: "Published",
+        submissionType: "documentation",
+        originalSubmissionId: null,
+        submissionGroup: "diabetes-prevention",
         isOriginal: true,
+        revision: 1,
+        basedOnRevision: null,
+        githubLink: null,
+        demoLink: null,
+        evaluationScore: null,
+        evaluatorId: null,
+        evaluationComments: null,
+        hiddenFromShowcase: false,
+        submittedAt: null,
+        deletedAt: null,
+        trashId: null,
         createdAt: new Date('2024-08-01'),
         updatedAt: new Date(),
       },
       {
         id: "demo-script-2",
-        projectId: "demo-project-2",
+        hackathonId: "demo-project-2",
+        teamId: null,
         authorId: "temp-admin-001",
         title: "Digital Skills for Youth",
+        description: "",
         content: "Today we'll explore essential digital skills every student should know...",
-        status: "Draft",
         language: "en",
-        originalScriptId: null,
-        languageGroup: "digital-literacy",
+        status: "Draft",
+        submissionType: "documentation",
+        originalSubmissionId: null,
+        submissionGroup: "digital-literacy",
         isOriginal: true,
+        revision: 1,
+        basedOnRevision: null,
+        githubLink: null,
+        demoLink: null,
+        evaluationScore: null,
+        evaluatorId: null,
+        evaluationComments: null,
+        hiddenFromShowcase: false,
+        submittedAt: null,
+        deletedAt: null,
+        trashId: null,
         createdAt: new Date('2024-08-05'),
         updatedAt: new Date(),
       }
@@ -996,17 +3633,15 @@ export class FallbackStorage implements IStorage {
   }
   async getScriptsByProject(projectId: string): Promise<Script[]> { 
     const scripts = await this.getAllScripts();
-    return scripts.filter(s => s.projectId === projectId);
+    return scripts.filter(s => s.hackathonId === projectId);
   }
-  async getScriptsByLanguageGroup(languageGroup: string): Promise<Script[]> { 
+  async getScriptsByLanguageGroup(submissionGroup: string): Promise<Script[]> { 
     const scripts = await this.getAllScripts();
-    return scripts.filter(s => s.languageGroup === languageGroup);
+    return scripts.filter(s => s.submissionGroup === submissionGroup);
   }
   async getTranslationsForScript(scriptId: string): Promise<Script[]> { 
     const scripts = await this.getAllScripts();
-    const originalScript = scripts.find(s => s.id === scriptId);
-    if (!originalScript) return [];
-    return scripts.filter(s => s.languageGroup === originalScript.languageGroup && s.id !== scriptId);
+    return scripts.filter(s => s.originalSubmissionId === scriptId);
   }
   async getScriptWithTranslations(scriptId: string): Promise<{ script: Script; translations: Script[] } | undefined> { 
     const script = await this.getScript(scriptId);
@@ -1014,6 +3649,9 @@ export class FallbackStorage implements IStorage {
     const translations = await this.getTranslationsForScript(scriptId);
     return { script, translations };
   }
+  async reviseScript(id: string, changes: Partial<InsertScript>, replacedBy: string): Promise<Script | undefined> { return this.throwDatabaseError(); }
+  async getSubmissionRevision(submissionId: string, revision: number): Promise<SubmissionRevision | undefined> { return undefined; }
+  async setTranslationBasedOnRevision(id: string, revision: number): Promise<Script | undefined> { return this.throwDatabaseError(); }
 
   // Topics
   async getTopic(id: string): Promise<Topic | undefined> { return this.throwDatabaseError(); }
@@ -1022,6 +3660,28 @@ export class FallbackStorage implements IStorage {
   async deleteTopic(id: string): Promise<void> { return this.throwDatabaseError(); }
   async getAllTopics(): Promise<Topic[]> { return this.throwDatabaseError(); }
 
+  // Submission review
+  async getSubmissionReviewers(submissionId: string): Promise<SubmissionReviewer[]> { return []; }
+  async setSubmissionReviewers(submissionId: string, reviewerIds: string[], assignedBy: string): Promise<SubmissionReviewerUpdate> { return this.throwDatabaseError(); }
+  async getSubmissionStatusHistory(submissionId: string): Promise<SubmissionStatusChange[]> { return []; }
+  async changeSubmissionStatus(id: string, change: Omit<InsertSubmissionStatusChange, "submissionId">): Promise<SubmissionStatusChangeResult | undefined> { return this.throwDatabaseError(); }
+
+  // Judging
+  async getRubricCriteria(hackathonId: string): Promise<RubricCriterion[]> { return []; }
+  async replaceRubricCriteria(hackathonId: string, criteria: RubricCriterionInput[]): Promise<RubricCriterion[]> { return this.throwDatabaseError(); }
+  async getHackathonJudges(hackathonId: string): Promise<HackathonJudge[]> { return []; }
+  async getJudgeAssignments(judgeId: string): Promise<HackathonJudge[]> { return []; }
+  async setHackathonJudges(hackathonId: string, judgeIds: string[], assignedBy: string): Promise<HackathonJudgeUpdate> { return this.throwDatabaseError(); }
+  async getJudgeScores(hackathonId: string, judgeId?: string): Promise<JudgeScore[]> { return []; }
+  async saveJudgeScores(submissionId: string, judgeId: string, scores: ScoreEntry[]): Promise<JudgeScore[]> { return this.throwDatabaseError(); }
+  async closeScoring(hackathonId: string, evaluationScores: Map<string, number>): Promise<Project | undefined> { return this.throwDatabaseError(); }
+  async reopenScoring(hackathonId: string): Promise<Project | undefined> { return this.throwDatabaseError(); }
+
+  // Public showcase
+  async getPublicProjects(): Promise<Project[]> { return []; }
+  async setProjectShowcase(hackathonId: string, settings: ShowcaseSettings): Promise<Project | undefined> { return this.throwDatabaseError(); }
+  async setScriptHiddenFromShowcase(submissionId: string, hidden: boolean): Promise<Script | undefined> { return this.throwDatabaseError(); }
+
   // Radio Stations
   async getRadioStation(id: string): Promise<RadioStation | undefined> { return this.throwDatabaseError(); }
   async createRadioStation(station: InsertRadioStation): Promise<RadioStation> { return this.throwDatabaseError(); }
@@ -1036,25 +3696,84 @@ export class FallbackStorage implements IStorage {
   async deleteFreeProjectAccess(id: string): Promise<void> { return this.throwDatabaseError(); }
   async getAllFreeProjectAccess(): Promise<FreeProjectAccess[]> { return this.throwDatabaseError(); }
 
+  // Access control lookups
+  async getRadioStationsByUser(userId: string): Promise<RadioStation[]> { return []; }
+  async getFreeProjectAccessByRadioStations(stationIds: string[]): Promise<FreeProjectAccess[]> { return []; }
+  async getEpisodesForUser(userId: string): Promise<Episode[]> { return []; }
+  async getEpisodesByRadioStations(stationIds: string[]): Promise<Episode[]> { return []; }
+  async getScriptsByAuthor(userId: string): Promise<Script[]> { return []; }
+  async getScriptsByEpisodes(episodeIds: string[]): Promise<Script[]> { return []; }
+
   // Files
   async getFile(id: string): Promise<File | undefined> { return this.throwDatabaseError(); }
-  async createFile(file: InsertFile): Promise<File> { return this.throwDatabaseError(); }
+  async createFile(file: InsertFile, content?: Buffer | Readable): Promise<File> { return this.throwDatabaseError(); }
   async updateFile(id: string, file: Partial<InsertFile>): Promise<File> { return this.throwDatabaseError(); }
   async deleteFile(id: string): Promise<void> { return this.throwDatabaseError(); }
   async getAllFiles(limit?: number, offset?: number): Promise<File[]> { return this.throwDatabaseError(); }
   async getFilesByEntity(entityType: string, entityId: string): Promise<File[]> { return this.throwDatabaseError(); }
   async getFileCount(): Promise<number> { return this.throwDatabaseError(); }
-  async reorderFiles(entityType: string, entityId: string | null, fileIds: string[]): Promise<void> { return this.throwDatabaseError(); }
+  async getAccessibleFiles(scope: AccessScope, limit: number, offset: number): Promise<AccessibleFilePage> { return this.throwDatabaseError(); }
+  async reorderFiles(request: FileReorderRequest): Promise<FileReorderResult> { return this.throwDatabaseError(); }
   async searchFiles(query: string, entityType?: string, entityId?: string): Promise<File[]> { return this.throwDatabaseError(); }
+  async getFilesByChecksum(checksum: string): Promise<File[]> { return this.throwDatabaseError(); }
+  async getDuplicateFileClusters(): Promise<DuplicateFileCluster[]> { return this.throwDatabaseError(); }
+  async getFileVersions(fileId: string): Promise<File[]> { return this.throwDatabaseError(); }
+  async replaceFile(fileId: string, file: InsertFile, content: Buffer | Readable): Promise<File> { return this.throwDatabaseError(); }
+  async processFileMedia(id: string): Promise<void> { return this.throwDatabaseError(); }
+  async queueFileMediaProcessing(id: string): Promise<File | undefined> { return this.throwDatabaseError(); }
+  async getQuarantinedFiles(): Promise<File[]> { return []; }
+  async releaseQuarantinedFile(id: string, reviewedBy: string): Promise<File | undefined> { return this.throwDatabaseError(); }
+  async restoreFileVersion(fileId: string, version: number, restoredBy?: string): Promise<File> { return this.throwDatabaseError(); }
 
   // File Folders
   async getFileFolder(id: string): Promise<FileFolder | undefined> { return this.throwDatabaseError(); }
   async createFileFolder(folder: InsertFileFolder): Promise<FileFolder> { return this.throwDatabaseError(); }
   async updateFileFolder(id: string, folder: Partial<InsertFileFolder>): Promise<FileFolder> { return this.throwDatabaseError(); }
-  async deleteFileFolder(id: string): Promise<void> { return this.throwDatabaseError(); }
+  async deleteFileFolder(id: string, options?: { recursive?: boolean }): Promise<void> { return this.throwDatabaseError(); }
+  async moveFiles(request: FileMoveRequest): Promise<FileMoveResult> { return this.throwDatabaseError(); }
   async getFoldersByEntity(entityType: string, entityId: string): Promise<FileFolder[]> { return this.throwDatabaseError(); }
   async getFoldersByParent(parentFolderId?: string): Promise<FileFolder[]> { return this.throwDatabaseError(); }
 
+  // Upload Sessions
+  async getUploadSession(id: string): Promise<UploadSession | undefined> { return this.throwDatabaseError(); }
+  async createUploadSession(session: InsertUploadSession): Promise<UploadSession> { return this.throwDatabaseError(); }
+  async updateUploadSession(id: string, session: Partial<InsertUploadSession>): Promise<UploadSession> { return this.throwDatabaseError(); }
+  async deleteUploadSession(id: string): Promise<void> { return this.throwDatabaseError(); }
+  async getExpiredUploadSessions(): Promise<UploadSession[]> { return []; }
+
+  // Share Links
+  async getShareLink(id: string): Promise<FileShareLink | undefined> { return this.throwDatabaseError(); }
+  async getShareLinksByFile(fileId: string): Promise<FileShareLink[]> { return []; }
+  async createShareLink(link: InsertFileShareLink): Promise<FileShareLink> { return this.throwDatabaseError(); }
+  async revokeShareLink(id: string, revokedBy: string): Promise<FileShareLink | undefined> { return this.throwDatabaseError(); }
+  async claimShareLinkDownload(id: string): Promise<FileShareLink | undefined> { return this.throwDatabaseError(); }
+  async releaseShareLinkDownload(id: string): Promise<void> { return this.throwDatabaseError(); }
+  async createDownloadLog(log: InsertDownloadLog): Promise<void> { return this.throwDatabaseError(); }
+  async recordFileDownload(fileId: string): Promise<void> { return this.throwDatabaseError(); }
+
+  // Storage Quotas
+  async getStorageUsage(scope: QuotaScope, scopeId: string): Promise<StorageUsage> { return { usedBytes: 0, fileCount: 0 }; }
+  async getTopStorageConsumers(scope: QuotaScope, limit: number): Promise<StorageConsumer[]> { return []; }
+  async getStorageQuotas(scope: QuotaScope, scopeIds: string[]): Promise<StorageQuota[]> { return []; }
+  async setStorageQuota(scope: QuotaScope, scopeId: string, limitBytes: number, updatedBy: string): Promise<StorageQuota> { return this.throwDatabaseError(); }
+  async deleteStorageQuota(scope: QuotaScope, scopeId: string): Promise<void> { return this.throwDatabaseError(); }
+
+  // Trash
+  async getDeletionImpact(entityType: TrashEntityType, id: string): Promise<DeletionImpact | undefined> { return this.throwDatabaseError(); }
+  async moveToTrash(entityType: TrashEntityType, id: string, options: TrashOptions): Promise<TrashEntry | undefined> { return this.throwDatabaseError(); }
+  async getTrashEntries(): Promise<TrashEntry[]> { return []; }
+  async getTrashEntry(id: string): Promise<TrashEntry | undefined> { return undefined; }
+  async getExpiredTrashEntries(now: Date): Promise<TrashEntry[]> { return []; }
+  async restoreTrashEntry(id: string): Promise<TrashRestoreResult | undefined> { return this.throwDatabaseError(); }
+  async purgeTrashEntry(id: string): Promise<boolean> { return this.throwDatabaseError(); }
+
+  // Search
+  async search(params: SearchParams): Promise<SearchResults> { return this.throwDatabaseError(); }
+  async indexSubmission(id: string): Promise<void> { return this.throwDatabaseError(); }
+  async indexFile(id: string): Promise<void> { return this.throwDatabaseError(); }
+  async removeFromSearchIndex(entityType: SearchEntityType, entityIds: string[]): Promise<void> { return this.throwDatabaseError(); }
+  async rebuildSearchIndex(): Promise<{ submissions: number; files: number }> { return this.throwDatabaseError(); }
+
   // Notifications
   async getNotification(id: string): Promise<Notification | undefined> { return this.throwDatabaseError(); }
   async createNotification(notification: InsertNotification): Promise<Notification> { return this.throwDatabaseError(); }
@@ -1068,7 +3787,22 @@ export class FallbackStorage implements IStorage {
   // User Management (fallback mode doesn't support these operations)
   async getUserById(id: string): Promise<User | undefined> { return this.getUser(id); }
   async updateUserRole(id: string, role: string): Promise<void> { return this.throwDatabaseError(); }
-  async cleanupDownloadLogs(): Promise<void> { return this.throwDatabaseError(); }
+  async cleanupDownloadLogs(): Promise<number> { return this.throwDatabaseError(); }
+
+  // Background Jobs (the worker doesn't run without a database)
+  async enqueueJob(job: InsertBackgroundJob): Promise<BackgroundJob> { return this.throwDatabaseError(); }
+  async getJob(id: string): Promise<BackgroundJob | undefined> { return undefined; }
+  async listJobs(filter?: JobListFilter): Promise<BackgroundJob[]> { return []; }
+  async getJobCounts(): Promise<Record<JobStatus, number>> { return { queued: 0, running: 0, completed: 0, failed: 0, cancelled: 0 }; }
+  async getLatestCompletedJob(type: string): Promise<BackgroundJob | undefined> { return undefined; }
+  async claimNextJob(workerId: string, types: string[]): Promise<BackgroundJob | undefined> { return undefined; }
+  async updateJobProgress(id: string, workerId: string, progress: number, message?: string): Promise<void> { return this.throwDatabaseError(); }
+  async completeJob(id: string, workerId: string, result: unknown): Promise<void> { return this.throwDatabaseError(); }
+  async failJob(id: string, workerId: string, error: string, retryAt: Date | null): Promise<void> { return this.throwDatabaseError(); }
+  async retryJob(id: string): Promise<BackgroundJob | undefined> { return this.throwDatabaseError(); }
+  async cancelJob(id: string): Promise<BackgroundJob | undefined> { return this.throwDatabaseError(); }
+  async requeueStaleJobs(lockedBefore: Date): Promise<number> { return 0; }
+  async deleteFinishedJobs(finishedBefore: Date): Promise<number> { return 0; }
 }
 
 // Storage will be initialized after database check
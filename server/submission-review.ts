@@ -0,0 +1,152 @@
+import type { Script, SubmissionReviewer, SubmissionStatusChange, User } from "@shared/schema";
+import { ROLES, can } from "@shared/permissions";
+import {
+  canTakeTransition,
+  getSubmissionTransition,
+  normalizeSubmissionStatus,
+  type ReviewParticipants,
+  type SubmissionTransition,
+} from "@shared/submission-review";
+import { storage } from "./storage";
+import { createUserNotifications } from "./routes-notifications";
+import { checkTeamCanSubmit } from "./team-membership";
+import { checkSubmissionWindow, checkTeamRegistration } from "./registration";
+
+// Submission review workflow: the only way submissions.status changes. The
+// state machine and who may take each transition live in
+// shared/submission-review.ts; this applies it, records the change and
+// notifies the author, their team and the assigned reviewers.
+
+export type ReviewOutcome<T> =
+  | { ok: true; value: T }
+  | { ok: false; status: 400 | 403 | 409; message: string };
+
+export async function getReviewParticipants(submission: Script): Promise<ReviewParticipants> {
+  const reviewers = await storage.getSubmissionReviewers(submission.id);
+  const members = submission.teamId ? await storage.getTeamMembers(submission.teamId) : [];
+  return {
+    authorId: submission.authorId,
+    teamMemberIds: members.map((member) => member.userId),
+    reviewerIds: reviewers.map((reviewer) => reviewer.reviewerId),
+  };
+}
+
+// Roles that may be assigned as reviewers
+export function getReviewerRoles(): string[] {
+  return ROLES.filter((role) => can({ role }, "submissions.review"));
+}
+
+export async function transitionSubmission(
+  submission: Script,
+  transitionId: string,
+  actor: User,
+  comment?: string | null,
+): Promise<ReviewOutcome<{ submission: Script; change: SubmissionStatusChange }>> {
+  const transition = getSubmissionTransition(transitionId);
+  if (!transition) {
+    return { ok: false, status: 400, message: `Unknown transition "${transitionId}"` };
+  }
+  const status = normalizeSubmissionStatus(submission.status);
+  if (!transition.from.includes(status)) {
+    return { ok: false, status: 409, message: `A submission that is ${status} can't be moved to ${transition.to}` };
+  }
+  const participants = await getReviewParticipants(submission);
+  if (!canTakeTransition(actor, transition, submission.status, participants)) {
+    return { ok: false, status: 403, message: `You are not allowed to ${transition.label.toLowerCase()} this submission` };
+  }
+  const note = comment?.trim() || null;
+  if (transition.requiresComment && !note) {
+    return { ok: false, status: 400, message: "Add a comment saying what needs to change" };
+  }
+  if (transition.id === "submit") {
+    const closed = await checkSubmissionWindow(actor, submission);
+    if (closed) {
+      return { ok: false, status: 403, message: closed };
+    }
+    const blocked = submission.teamId
+      ? (await checkTeamRegistration(submission.teamId)) ?? (await checkTeamCanSubmit(submission.teamId))
+      : null;
+    if (blocked) {
+      return { ok: false, status: 409, message: blocked };
+    }
+  }
+
+  const result = await storage.changeSubmissionStatus(submission.id, {
+    transition: transition.id,
+    fromStatus: submission.status,
+    toStatus: transition.to,
+    actorId: actor.id,
+    comment: note,
+  });
+  if (!result) {
+    return { ok: false, status: 409, message: "The submission's status changed in the meantime; reload and try again" };
+  }
+
+  await notifyStatusChange(result.submission, transition, actor, note, participants);
+  return { ok: true, value: result };
+}
+
+// Only users whose role can review may be assigned
+export async function assignReviewers(
+  submission: Script,
+  reviewerIds: string[],
+  actor: User,
+): Promise<ReviewOutcome<SubmissionReviewer[]>> {
+  const ids = Array.from(new Set(reviewerIds));
+  for (const reviewerId of ids) {
+    const reviewer = await storage.getUser(reviewerId);
+    if (!reviewer || !can(reviewer, "submissions.review")) {
+      return { ok: false, status: 400, message: `User ${reviewerId} can't review submissions` };
+    }
+  }
+
+  const { reviewers, added } = await storage.setSubmissionReviewers(submission.id, ids, actor.id);
+  if (added.length > 0) {
+    await createUserNotifications(added.filter((id) => id !== actor.id), {
+      type: "submission_review",
+      title: "Review requested",
+      message: `${describeUser(actor)} asked you to review "${submission.title}"`,
+      ...relatedUser(actor),
+      actionUrl: "/scripts",
+      priority: "normal",
+      metadata: { submissionId: submission.id },
+    });
+  }
+  return { ok: true, value: reviewers };
+}
+
+// Everyone involved hears about it, except whoever made the change
+async function notifyStatusChange(
+  submission: Script,
+  transition: SubmissionTransition,
+  actor: User,
+  comment: string | null,
+  participants: ReviewParticipants,
+): Promise<void> {
+  const recipients = Array.from(new Set([participants.authorId, ...participants.teamMemberIds, ...participants.reviewerIds]))
+    .filter((id) => id !== actor.id);
+  if (recipients.length === 0) return;
+
+  const action = `${describeUser(actor)} moved "${submission.title}" to ${transition.to}`;
+  await createUserNotifications(recipients, {
+    type: "submission_review",
+    title: `Submission ${transition.to.toLowerCase()}`,
+    message: comment ? `${action}: ${comment}` : action,
+    ...relatedUser(actor),
+    actionUrl: "/scripts",
+    priority: transition.id === "requestChanges" ? "high" : "normal",
+    metadata: { submissionId: submission.id, transition: transition.id, toStatus: transition.to },
+  });
+}
+
+function describeUser(user: User): string {
+  return user.name || user.email || "Someone";
+}
+
+function relatedUser(user: User) {
+  return {
+    relatedUserId: user.id,
+    relatedUserEmail: user.email ?? undefined,
+    relatedUserName: user.name ?? undefined,
+  };
+}
@@ -0,0 +1,295 @@
+import { randomBytes } from "crypto";
+import type { Episode, TeamInvitation, TeamMember, User } from "@shared/schema";
+import { can } from "@shared/permissions";
+import { storage } from "./storage";
+import { createUserNotifications } from "./routes-notifications";
+
+// Team rosters: who is on a team, invitations to join it and who leads it.
+// teams.team_size mirrors the number of members. The hackathon's
+// maxTeamSize caps joining; its minTeamSize is checked when the team submits
+// (server/submission-review.ts).
+
+export type TeamOutcome<T> =
+  | { ok: true; value: T }
+  | { ok: false; status: 400 | 403 | 404 | 409 | 410; message: string };
+
+const INVITATION_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+export interface TeamSizeLimits {
+  min: number;
+  max: number | null;
+}
+
+export async function getTeamSizeLimits(team: Episode): Promise<TeamSizeLimits> {
+  const hackathon = await storage.getProject(team.hackathonId);
+  return { min: hackathon?.minTeamSize ?? 1, max: hackathon?.maxTeamSize ?? null };
+}
+
+// Leaders run their own roster; staff with teams.manage run every roster
+export function canManageRoster(user: User | undefined, team: Episode): boolean {
+  return !!user && (can(user, "teams.manage") || team.teamLeaderId === user.id);
+}
+
+// Message explaining why the team can't submit yet, or null when it can
+export async function checkTeamCanSubmit(teamId: string): Promise<string | null> {
+  const team = await storage.getEpisode(teamId);
+  if (!team) return null;
+  const { min } = await getTeamSizeLimits(team);
+  const members = await storage.getTeamMembers(team.id);
+  if (members.length < min) {
+    return `"${team.title}" needs at least ${min} members to submit; it has ${members.length}`;
+  }
+  return null;
+}
+
+function describeUser(user: User): string {
+  return user.name || user.email || "Someone";
+}
+
+function isExpired(invitation: TeamInvitation): boolean {
+  return invitation.expiresAt.getTime() <= Date.now();
+}
+
+// A user is on at most one team per hackathon
+async function findOtherTeamInHackathon(team: Episode, userId: string): Promise<Episode | undefined> {
+  const teams = await storage.getEpisodesForUser(userId);
+  return teams.find((other) => other.hackathonId === team.hackathonId && other.id !== team.id);
+}
+
+// With an email the invitation is for that address only, and its owner is
+// notified if they have an account; without one it is a shareable link
+export async function inviteToTeam(
+  team: Episode,
+  actor: User,
+  email: string | null,
+): Promise<TeamOutcome<TeamInvitation>> {
+  if (!canManageRoster(actor, team)) {
+    return { ok: false, status: 403, message: "Only the team leader can invite members" };
+  }
+  const { max } = await getTeamSizeLimits(team);
+  const members = await storage.getTeamMembers(team.id);
+  if (max !== null && members.length >= max) {
+    return { ok: false, status: 409, message: `The team is full (at most ${max} members)` };
+  }
+
+  const address = email?.trim().toLowerCase() || null;
+  const invitee = address ? await storage.getUserByEmail(address) : undefined;
+  if (address) {
+    if (invitee && members.some((member) => member.userId === invitee.id)) {
+      return { ok: false, status: 409, message: `${address} is already on the team` };
+    }
+    const pending = await storage.getTeamInvitations(team.id);
+    if (pending.some((invitation) => invitation.email?.toLowerCase() === address)) {
+      return { ok: false, status: 409, message: `${address} has already been invited` };
+    }
+  }
+
+  const invitation = await storage.createTeamInvitation({
+    teamId: team.id,
+    email: address,
+    token: randomBytes(24).toString("base64url"),
+    invitedBy: actor.id,
+    expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+  });
+
+  if (invitee) {
+    await createUserNotifications([invitee.id], {
+      type: "team_invitation",
+      title: "Team invitation",
+      message: `${describeUser(actor)} invited you to join "${team.title}"`,
+      relatedUserId: actor.id,
+      actionUrl: `/join/${invitation.token}`,
+      priority: "normal",
+      metadata: { teamId: team.id, invitationId: invitation.id },
+    });
+  }
+  return { ok: true, value: invitation };
+}
+
+// Whether this user may answer this invitation at all
+export function checkInvitation(invitation: TeamInvitation, user: User): TeamOutcome<TeamInvitation> {
+  if (invitation.status !== "pending") {
+    return { ok: false, status: 410, message: `This invitation was already ${invitation.status}` };
+  }
+  if (isExpired(invitation)) {
+    return { ok: false, status: 410, message: "This invitation has expired" };
+  }
+  if (invitation.email && invitation.email.toLowerCase() !== user.email?.toLowerCase()) {
+    return { ok: false, status: 403, message: "This invitation is for a different email address" };
+  }
+  return { ok: true, value: invitation };
+}
+
+export async function acceptInvitation(invitation: TeamInvitation, user: User): Promise<TeamOutcome<TeamMember>> {
+  const check = checkInvitation(invitation, user);
+  if (!check.ok) return check;
+  const team = await storage.getEpisode(invitation.teamId);
+  if (!team) {
+    return { ok: false, status: 404, message: "The team no longer exists" };
+  }
+  const otherTeam = await findOtherTeamInHackathon(team, user.id);
+  if (otherTeam) {
+    return { ok: false, status: 409, message: `You are already on "${otherTeam.title}" in this hackathon` };
+  }
+
+  const { max } = await getTeamSizeLimits(team);
+  // Link invitations stay open for the next person
+  const result = await storage.addTeamMember(team.id, user.id, {
+    maxSize: max,
+    invitationId: invitation.email ? invitation.id : undefined,
+  });
+  if (!("member" in result)) {
+    if (result.status === "missing") {
+      return { ok: false, status: 404, message: "The team no longer exists" };
+    }
+    if (result.status === "full") {
+      return { ok: false, status: 409, message: `The team is full (at most ${max} members)` };
+    }
+    return { ok: false, status: 410, message: "This invitation was already answered" };
+  }
+  if (result.status === "alreadyMember") {
+    return { ok: true, value: result.member };
+  }
+
+  await notifyLeader(team, user, {
+    title: "New team member",
+    message: `${describeUser(user)} joined "${team.title}"`,
+  });
+  return { ok: true, value: result.member };
+}
+
+// Declining a link invitation only matters to the person declining, so
+// only email invitations are marked
+export async function declineInvitation(invitation: TeamInvitation, user: User): Promise<TeamOutcome<TeamInvitation>> {
+  const check = checkInvitation(invitation, user);
+  if (!check.ok || !invitation.email) return check;
+  const declined = await storage.updateTeamInvitationStatus(invitation.id, "declined", user.id);
+  if (!declined) {
+    return { ok: false, status: 410, message: "This invitation was already answered" };
+  }
+
+  const team = await storage.getEpisode(invitation.teamId);
+  if (team) {
+    await notifyLeader(team, user, {
+      title: "Invitation declined",
+      message: `${describeUser(user)} declined to join "${team.title}"`,
+    });
+  }
+  return { ok: true, value: declined };
+}
+
+export async function revokeInvitation(team: Episode, actor: User, invitationId: string): Promise<TeamOutcome<TeamInvitation>> {
+  if (!canManageRoster(actor, team)) {
+    return { ok: false, status: 403, message: "Only the team leader can revoke invitations" };
+  }
+  const invitation = await storage.getTeamInvitation(invitationId);
+  if (!invitation || invitation.teamId !== team.id) {
+    return { ok: false, status: 404, message: "Invitation not found" };
+  }
+  const revoked = await storage.updateTeamInvitationStatus(invitation.id, "revoked", actor.id);
+  if (!revoked) {
+    return { ok: false, status: 410, message: `This invitation was already ${invitation.status}` };
+  }
+  return { ok: true, value: revoked };
+}
+
+// Staff add people directly, without an invitation
+export async function addMember(team: Episode, actor: User, email: string): Promise<TeamOutcome<TeamMember>> {
+  if (!can(actor, "teams.manage")) {
+    return { ok: false, status: 403, message: "Insufficient permissions to add team members" };
+  }
+  const user = await storage.getUserByEmail(email.trim());
+  if (!user) {
+    return { ok: false, status: 400, message: `No account uses ${email.trim()}` };
+  }
+  const otherTeam = await findOtherTeamInHackathon(team, user.id);
+  if (otherTeam) {
+    return { ok: false, status: 409, message: `${describeUser(user)} is already on "${otherTeam.title}" in this hackathon` };
+  }
+
+  const { max } = await getTeamSizeLimits(team);
+  const result = await storage.addTeamMember(team.id, user.id, { maxSize: max });
+  if (!("member" in result)) {
+    return result.status === "missing"
+      ? { ok: false, status: 404, message: "Team not found" }
+      : { ok: false, status: 409, message: `The team is full (at most ${max} members)` };
+  }
+  if (result.status === "joined" && user.id !== actor.id) {
+    await createUserNotifications([user.id], {
+      type: "team_invitation",
+      title: "Added to a team",
+      message: `${describeUser(actor)} added you to "${team.title}"`,
+      relatedUserId: actor.id,
+      actionUrl: "/episodes",
+      priority: "normal",
+      metadata: { teamId: team.id },
+    });
+  }
+  return { ok: true, value: result.member };
+}
+
+// Members may leave; the leader removes others. The leader can only leave a
+// team they are alone on, otherwise they hand over leadership first.
+export async function removeMember(team: Episode, actor: User, userId: string): Promise<TeamOutcome<null>> {
+  const leaving = actor.id === userId;
+  if (!leaving && !canManageRoster(actor, team)) {
+    return { ok: false, status: 403, message: "Only the team leader can remove members" };
+  }
+  const members = await storage.getTeamMembers(team.id);
+  const member = members.find((candidate) => candidate.userId === userId);
+  if (!member) {
+    return { ok: false, status: 404, message: "That user is not on this team" };
+  }
+  if (member.role === "leader" && members.length > 1) {
+    return { ok: false, status: 409, message: "Make someone else the leader before the leader leaves" };
+  }
+
+  if (!(await storage.removeTeamMember(team.id, userId))) {
+    return { ok: false, status: 404, message: "That user is not on this team" };
+  }
+  if (!leaving) {
+    await createUserNotifications([userId], {
+      type: "team_invitation",
+      title: "Removed from a team",
+      message: `${describeUser(actor)} removed you from "${team.title}"`,
+      relatedUserId: actor.id,
+      priority: "normal",
+      metadata: { teamId: team.id },
+    });
+  }
+  return { ok: true, value: null };
+}
+
+export async function transferLeadership(team: Episode, actor: User, userId: string): Promise<TeamOutcome<Episode>> {
+  if (!canManageRoster(actor, team)) {
+    return { ok: false, status: 403, message: "Only the team leader can hand over leadership" };
+  }
+  const updated = await storage.transferTeamLeadership(team.id, userId);
+  if (!updated) {
+    return { ok: false, status: 400, message: "The new leader has to be on the team" };
+  }
+  if (userId !== actor.id) {
+    await createUserNotifications([userId], {
+      type: "team_invitation",
+      title: "You lead a team",
+      message: `${describeUser(actor)} made you the leader of "${team.title}"`,
+      relatedUserId: actor.id,
+      actionUrl: "/episodes",
+      priority: "normal",
+      metadata: { teamId: team.id },
+    });
+  }
+  return { ok: true, value: updated };
+}
+
+async function notifyLeader(team: Episode, actor: User, notification: { title: string; message: string }): Promise<void> {
+  if (!team.teamLeaderId || team.teamLeaderId === actor.id) return;
+  await createUserNotifications([team.teamLeaderId], {
+    type: "team_invitation",
+    ...notification,
+    relatedUserId: actor.id,
+    actionUrl: "/episodes",
+    priority: "normal",
+    metadata: { teamId: team.id },
+  });
+}
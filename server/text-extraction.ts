@@ -0,0 +1,91 @@
+import path from "path";
+import { readFileContent } from "./blob-storage";
+import type { File } from "@shared/schema";
+
+// Plain-text extraction for the search index. Only formats people actually
+// write submissions in are supported; everything else is indexed by name,
+// tags and description alone.
+
+// Keeps one huge document from dominating the index and the tsvector limit (1MB)
+const MAX_EXTRACTED_CHARS = 200_000;
+
+// Files larger than this are not downloaded for extraction
+const MAX_EXTRACTABLE_BYTES = 25 * 1024 * 1024;
+
+const DOCX_MIME = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+type ExtractableKind = "pdf" | "docx" | "text";
+
+function getExtractableKind(file: Pick<File, "mimeType" | "originalName">): ExtractableKind | null {
+  const extension = path.extname(file.originalName).toLowerCase();
+  if (file.mimeType === "application/pdf" || extension === ".pdf") return "pdf";
+  if (file.mimeType === DOCX_MIME || extension === ".docx") return "docx";
+  if (file.mimeType.startsWith("text/") || [".txt", ".md", ".csv"].includes(extension)) return "text";
+  return null;
+}
+
+export function isTextExtractable(file: Pick<File, "mimeType" | "originalName" | "fileSize">): boolean {
+  return file.fileSize <= MAX_EXTRACTABLE_BYTES && getExtractableKind(file) !== null;
+}
+
+async function extractPdfText(content: Buffer): Promise<string> {
+  const { PDFParse } = await import("pdf-parse");
+  const parser = new PDFParse({ data: content });
+  try {
+    const result = await parser.getText();
+    return result.text;
+  } finally {
+    await parser.destroy();
+  }
+}
+
+async function extractDocxText(content: Buffer): Promise<string> {
+  const mammoth = await import("mammoth");
+  const result = await mammoth.extractRawText({ buffer: content });
+  return result.value;
+}
+
+// Returns null when the file type isn't supported or extraction fails, so a
+// corrupt upload never blocks indexing of the file's metadata
+export async function extractFileText(file: File): Promise<string | null> {
+  if (!isTextExtractable(file)) return null;
+
+  try {
+    const content = await readFileContent(file);
+    let text: string;
+    switch (getExtractableKind(file)) {
+      case "pdf":
+        text = await extractPdfText(content);
+        break;
+      case "docx":
+        text = await extractDocxText(content);
+        break;
+      default:
+        text = content.toString("utf8");
+    }
+    return normalizeText(text);
+  } catch (error) {
+    console.error(`Failed to extract text from file ${file.id}:`, error);
+    return null;
+  }
+}
+
+// Submission content is HTML from the rich-text editor
+export function stripHtml(html: string): string {
+  return normalizeText(
+    html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+      .replace(/<[^>]+>/g, " ")
+      .replace(/&nbsp;/g, " ")
+      .replace(/&amp;/g, "&")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+  );
+}
+
+function normalizeText(text: string): string {
+  // NUL bytes are rejected by Postgres text columns
+  return text.replace(/\u0000/g, "").replace(/\s+/g, " ").trim().slice(0, MAX_EXTRACTED_CHARS);
+}
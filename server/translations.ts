@@ -0,0 +1,239 @@
+import type { InsertScript, Script, User } from "@shared/schema";
+import { SUPPORTED_LANGUAGES, getLanguageName, isSupportedLanguage, type LanguageCode } from "@shared/languages";
+import { can } from "@shared/permissions";
+import { diffLines, hasTextChanges, htmlToLines, isTranslationOutdated, type DiffLine } from "@shared/translations";
+import { storage } from "./storage";
+import { createUserNotifications } from "./routes-notifications";
+
+// Submission translations. An original and its translations share a
+// submissionGroup; each translation points at the original through
+// originalSubmissionId and is never an original itself, so judging and the
+// showcase only see the original. A group has at most one submission per
+// language. Translations record the original's revision they are based on,
+// so edits to the original mark them outdated (shared/translations.ts).
+
+export type TranslationOutcome<T> =
+  | { ok: true; value: T }
+  | { ok: false; status: 400 | 404 | 409; message: string };
+
+export interface LanguageMatrixCell {
+  submissionId: string;
+  title: string;
+  status: string;
+  isOriginal: boolean;
+  outdated: boolean;
+}
+
+// What changed in the original since the revision a translation is based on;
+// the diffs are null when that revision's text wasn't kept
+export interface OriginalChanges {
+  originalId: string;
+  basedOnRevision: number;
+  currentRevision: number;
+  outdated: boolean;
+  title: DiffLine[] | null;
+  description: DiffLine[] | null;
+  content: DiffLine[] | null;
+}
+
+export interface LanguageMatrixRow {
+  submissionGroup: string;
+  originalId: string | null; // null when the original is in the trash
+  title: string;
+  languages: Partial<Record<string, LanguageMatrixCell>>;
+}
+
+export interface LanguageMatrix {
+  languages: string[]; // Columns: every language in use, in shared/languages.ts order
+  rows: LanguageMatrixRow[];
+}
+
+// The author and their team translate a submission; so does staff who manage submissions
+export async function canTranslate(user: User | undefined, submission: Script): Promise<boolean> {
+  if (!user) return false;
+  if (can(user, "submissions.manage") || submission.authorId === user.id) return true;
+  if (!submission.teamId) return false;
+  const members = await storage.getTeamMembers(submission.teamId);
+  return members.some((member) => member.userId === user.id);
+}
+
+// Another submission of the same group already in this language, if any
+export async function findLanguageConflict(submission: Script, language: string): Promise<Script | undefined> {
+  if (!submission.submissionGroup) return undefined;
+  const group = await storage.getScriptsByLanguageGroup(submission.submissionGroup);
+  return group.find((other) => other.id !== submission.id && other.language === language);
+}
+
+// The submission a translation was made from; originals are their own
+export async function getTranslationOriginal(submission: Script): Promise<Script | undefined> {
+  if (submission.isOriginal !== false || !submission.originalSubmissionId) return submission;
+  return storage.getScript(submission.originalSubmissionId);
+}
+
+// Translating a translation translates its original. The new submission
+// starts as a copy of the original for the translator to work over.
+export async function createTranslation(
+  source: Script,
+  actor: User,
+  input: { language: string; title?: string | null },
+): Promise<TranslationOutcome<Script>> {
+  if (!isSupportedLanguage(input.language)) {
+    return { ok: false, status: 400, message: `"${input.language}" is not a supported language` };
+  }
+  const original = await getTranslationOriginal(source);
+  if (!original) {
+    return { ok: false, status: 404, message: "The original of this translation no longer exists" };
+  }
+
+  // Submissions from before translation groups may have none yet
+  let submissionGroup = original.submissionGroup;
+  if (!submissionGroup) {
+    submissionGroup = original.id;
+    await storage.updateScript(original.id, { submissionGroup });
+  }
+
+  const existing = await findLanguageConflict({ ...original, submissionGroup }, input.language);
+  if (existing || original.language === input.language) {
+    return {
+      ok: false,
+      status: 409,
+      message: `"${original.title}" already has a ${getLanguageName(input.language)} version: "${(existing ?? original).title}"`,
+    };
+  }
+
+  const translation = await storage.createScript({
+    hackathonId: original.hackathonId,
+    teamId: original.teamId,
+    authorId: actor.id,
+    title: input.title?.trim() || original.title,
+    description: original.description,
+    content: original.content,
+    language: input.language,
+    submissionType: original.submissionType,
+    githubLink: original.githubLink,
+    demoLink: original.demoLink,
+    submissionGroup,
+    originalSubmissionId: original.id,
+    isOriginal: false,
+    basedOnRevision: original.revision,
+  });
+  return { ok: true, value: translation };
+}
+
+// Saves an edit to a submission. Text changes to an original that has
+// translations start a new revision, and whoever wrote a translation that
+// was up to date hears that it no longer is.
+export async function saveSubmissionChanges(
+  existing: Script,
+  changes: Partial<InsertScript>,
+  actor: User,
+): Promise<Script | undefined> {
+  if (existing.isOriginal === false || !hasTextChanges(existing, changes)) {
+    return storage.updateScript(existing.id, changes);
+  }
+  const translations = await storage.getTranslationsForScript(existing.id);
+  if (translations.length === 0) {
+    return storage.updateScript(existing.id, changes);
+  }
+
+  const revised = await storage.reviseScript(existing.id, changes, actor.id);
+  if (revised) {
+    await notifyOutdatedTranslations(revised, translations.filter((translation) => !isTranslationOutdated(translation, existing)), actor);
+  }
+  return revised;
+}
+
+async function notifyOutdatedTranslations(original: Script, translations: Script[], actor: User): Promise<void> {
+  for (const translation of translations) {
+    if (translation.authorId === actor.id) continue;
+    await createUserNotifications([translation.authorId], {
+      type: "translation_outdated",
+      title: "Translation out of date",
+      message: `"${original.title}" changed; the ${getLanguageName(translation.language)} translation "${translation.title}" needs updating`,
+      relatedUserId: actor.id,
+      actionUrl: "/scripts",
+      priority: "normal",
+      metadata: { submissionId: translation.id, originalId: original.id, revision: original.revision },
+    });
+  }
+}
+
+export async function getOriginalChanges(translation: Script): Promise<TranslationOutcome<OriginalChanges>> {
+  if (translation.isOriginal !== false) {
+    return { ok: false, status: 400, message: "This submission is not a translation" };
+  }
+  const original = await getTranslationOriginal(translation);
+  if (!original) {
+    return { ok: false, status: 404, message: "The original of this translation no longer exists" };
+  }
+
+  const basedOnRevision = translation.basedOnRevision ?? 1;
+  const outdated = isTranslationOutdated(translation, original);
+  const before = outdated ? await storage.getSubmissionRevision(original.id, basedOnRevision) : undefined;
+  return {
+    ok: true,
+    value: {
+      originalId: original.id,
+      basedOnRevision,
+      currentRevision: original.revision,
+      outdated,
+      title: before ? diffLines([before.title], [original.title]) : null,
+      description: before ? diffLines(before.description.split("\n"), original.description.split("\n")) : null,
+      content: before ? diffLines(htmlToLines(before.content), htmlToLines(original.content)) : null,
+    },
+  };
+}
+
+// The translator has caught up with the original's current revision
+export async function markTranslationUpToDate(translation: Script): Promise<TranslationOutcome<Script>> {
+  if (translation.isOriginal !== false) {
+    return { ok: false, status: 400, message: "This submission is not a translation" };
+  }
+  const original = await getTranslationOriginal(translation);
+  if (!original) {
+    return { ok: false, status: 404, message: "The original of this translation no longer exists" };
+  }
+  const updated = await storage.setTranslationBasedOnRevision(translation.id, original.revision);
+  if (!updated) {
+    return { ok: false, status: 404, message: "Script not found" };
+  }
+  return { ok: true, value: updated };
+}
+
+// Which languages each submission group of a hackathon exists in
+export function buildLanguageMatrix(submissions: Script[]): LanguageMatrix {
+  const rows = new Map<string, LanguageMatrixRow>();
+  const revisions = new Map<string, number>(); // Each group's original revision
+  const used = new Set<string>();
+
+  // Originals first, so each row is titled after its original
+  const ordered = [...submissions].sort((a, b) => Number(b.isOriginal !== false) - Number(a.isOriginal !== false));
+  for (const submission of ordered) {
+    const key = submission.submissionGroup ?? submission.id;
+    const isOriginal = submission.isOriginal !== false;
+    if (isOriginal) revisions.set(key, submission.revision);
+    let row = rows.get(key);
+    if (!row) {
+      row = { submissionGroup: key, originalId: isOriginal ? submission.id : null, title: submission.title, languages: {} };
+      rows.set(key, row);
+    }
+    used.add(submission.language);
+    row.languages[submission.language] ??= {
+      submissionId: submission.id,
+      title: submission.title,
+      status: submission.status,
+      isOriginal,
+      outdated: !isOriginal && revisions.has(key) && isTranslationOutdated(submission, { revision: revisions.get(key)! }),
+    };
+  }
+
+  const order = Object.keys(SUPPORTED_LANGUAGES) as LanguageCode[];
+  const languages = Array.from(used).sort((a, b) => {
+    const rank = (code: string) => (order.includes(code as LanguageCode) ? order.indexOf(code as LanguageCode) : order.length);
+    return rank(a) - rank(b) || a.localeCompare(b);
+  });
+  return {
+    languages,
+    rows: Array.from(rows.values()).sort((a, b) => a.title.localeCompare(b.title)),
+  };
+}
@@ -0,0 +1,45 @@
+import type { TrashEntityType, TrashEntry } from "@shared/schema";
+import { storage } from "./storage";
+
+// Trash bin for hackathons, teams, submissions, folders and files. A delete
+// marks the row and everything under it with one trash entry (see
+// moveToTrash in storage.ts); organizers can restore the entry for
+// TRASH_RETENTION_DAYS (default 30), after which the trash.purge job deletes
+// it for good.
+
+export function getTrashRetentionDays(): number {
+  const days = parseFloat(process.env.TRASH_RETENTION_DAYS || "");
+  return days > 0 ? days : 30;
+}
+
+export async function moveToTrash(
+  entityType: TrashEntityType,
+  id: string,
+  deletedBy: string | null | undefined,
+): Promise<TrashEntry | undefined> {
+  const expiresAt = new Date(Date.now() + getTrashRetentionDays() * 24 * 60 * 60 * 1000);
+  const entry = await storage.moveToTrash(entityType, id, { deletedBy: deletedBy ?? null, expiresAt });
+  if (entry) {
+    console.log(`Moved ${entityType} ${id} to the trash (entry ${entry.id}, ${JSON.stringify(entry.itemCounts)})`);
+  }
+  return entry;
+}
+
+// One failed entry doesn't stop the rest; it is retried on the next run
+export async function purgeExpiredTrash(
+  onProgress?: (processed: number, total: number) => Promise<void>,
+): Promise<{ purged: number; failed: number }> {
+  const expired = await storage.getExpiredTrashEntries(new Date());
+  let purged = 0;
+  let failed = 0;
+  for (const entry of expired) {
+    try {
+      if (await storage.purgeTrashEntry(entry.id)) purged++;
+    } catch (error) {
+      failed++;
+      console.error(`Failed to purge trash entry ${entry.id} (${entry.entityType} ${entry.entityId}):`, error);
+    }
+    await onProgress?.(purged + failed, expired.length);
+  }
+  return { purged, failed };
+}
@@ -0,0 +1,67 @@
+import type { File, User } from "@shared/schema";
+import { storage } from "./storage";
+import { checkDuplicateUpload, type DuplicateCheck } from "./file-duplicates";
+import { screenUpload, notifyQuarantine, QUARANTINE_MESSAGE } from "./upload-screening";
+import { checkStorageQuota } from "./storage-quotas";
+
+// What every single-request upload route does once it knows the caller may
+// upload here (membership, upload-once and deadline checks stay in the route):
+//   1. the uploader, team and hackathon quotas must have room (413)
+//   2. the same content already in the hub warns, or refuses if policy says so (409)
+//   3. screenUpload checks the content matches its type, is allowed here and
+//      passes the scan
+//   4. the file is stored; a quarantined file is kept but the upload is
+//      refused (422) and organizers are notified
+
+export interface UploadTarget {
+  entityType: string; // What the file is stored under
+  entityId: string | null;
+  filenamePrefix: string; // Stored as `${filenamePrefix}_${timestamp}_${originalName}`
+  originalName?: string; // Defaults to what the client sent
+  quota?: { entityType: string; entityId: string | null }; // Defaults to entityType and entityId
+}
+
+export type IncomingUpload = Pick<Express.Multer.File, "buffer" | "size" | "mimetype" | "originalname">;
+
+export type UploadAcceptance =
+  | { ok: true; file: File; duplicateCheck: DuplicateCheck }
+  | { ok: false; status: number; body: Record<string, unknown> };
+
+export async function acceptUpload(
+  user: User | undefined,
+  target: UploadTarget,
+  upload: IncomingUpload,
+): Promise<UploadAcceptance> {
+  const quotaCheck = await checkStorageQuota(user, target.quota ?? target, upload.size);
+  if (!quotaCheck.allowed) {
+    return { ok: false, status: 413, body: { message: quotaCheck.message, quota: quotaCheck.exceeded } };
+  }
+
+  const duplicateCheck = await checkDuplicateUpload(upload.buffer);
+  if (duplicateCheck.blocked) {
+    return { ok: false, status: 409, body: { message: duplicateCheck.message, duplicates: duplicateCheck.duplicates } };
+  }
+
+  const originalName = target.originalName ?? upload.originalname;
+  const screening = await screenUpload(upload.buffer, { originalName, mimeType: upload.mimetype, entityType: target.entityType });
+  if (!screening.allowed) {
+    return { ok: false, status: screening.status, body: { message: screening.message } };
+  }
+
+  const file = await storage.createFile({
+    filename: `${target.filenamePrefix}_${Date.now()}_${originalName}`,
+    originalName,
+    fileSize: upload.size,
+    entityType: target.entityType,
+    entityId: target.entityId,
+    uploadedBy: user?.id ?? null,
+    checksum: duplicateCheck.checksum,
+    ...screening.fileFields,
+  }, upload.buffer);
+
+  if (file.quarantinedAt) {
+    await notifyQuarantine(file, user);
+    return { ok: false, status: 422, body: { message: QUARANTINE_MESSAGE, file } };
+  }
+  return { ok: true, file, duplicateCheck };
+}
@@ -0,0 +1,141 @@
+import net from "net";
+import { Readable } from "stream";
+
+// Malware scanning for uploads. UPLOAD_SCANNER picks the implementation:
+//   clamav  clamd over CLAMAV_SOCKET (unix socket) or CLAMAV_HOST/CLAMAV_PORT
+//   stub    in-process check for the EICAR test signature only
+//   none    no scanning
+// Without UPLOAD_SCANNER, clamav is used when a clamd address is configured
+// and the stub otherwise. Other scanners can be plugged in with
+// registerUploadScanner().
+
+export type ScanVerdict =
+  | { verdict: "clean" }
+  | { verdict: "infected"; threat: string }
+  | { verdict: "skipped"; reason: string };
+
+export interface UploadScanner {
+  name: string;
+  scan(content: Buffer | Readable): Promise<ScanVerdict>;
+}
+
+const scanners = new Map<string, () => UploadScanner>();
+
+export function registerUploadScanner(name: string, create: () => UploadScanner) {
+  scanners.set(name, create);
+}
+
+let activeScanner: UploadScanner | null | undefined;
+
+export function getUploadScanner(): UploadScanner | null {
+  if (activeScanner !== undefined) return activeScanner;
+
+  const name = process.env.UPLOAD_SCANNER || (process.env.CLAMAV_SOCKET || process.env.CLAMAV_HOST ? "clamav" : "stub");
+  if (name === "none") {
+    activeScanner = null;
+  } else {
+    const create = scanners.get(name);
+    if (!create) {
+      throw new Error(`Unknown UPLOAD_SCANNER "${name}"`);
+    }
+    activeScanner = create();
+    console.log(`Upload scanning with ${activeScanner.name}`);
+  }
+  return activeScanner;
+}
+
+const CHUNK_SIZE = 64 * 1024;
+
+function toStream(content: Buffer | Readable): Readable {
+  return Buffer.isBuffer(content) ? Readable.from([content]) : content;
+}
+
+// clamd's INSTREAM command: length-prefixed chunks, ended by a zero-length one
+function createClamAvScanner(): UploadScanner {
+  const timeoutMs = parseInt(process.env.CLAMAV_TIMEOUT_MS || "") || 60_000;
+
+  const connect = () =>
+    process.env.CLAMAV_SOCKET
+      ? net.createConnection({ path: process.env.CLAMAV_SOCKET })
+      : net.createConnection({ host: process.env.CLAMAV_HOST || "127.0.0.1", port: parseInt(process.env.CLAMAV_PORT || "") || 3310 });
+
+  return {
+    name: "ClamAV",
+    scan: (content) =>
+      new Promise<ScanVerdict>((resolve, reject) => {
+        const socket = connect();
+        const input = toStream(content);
+        let reply = "";
+        let settled = false;
+
+        const finish = (error: Error | null, verdict?: ScanVerdict) => {
+          if (settled) return;
+          settled = true;
+          socket.destroy();
+          input.destroy();
+          if (error) reject(error);
+          else resolve(verdict!);
+        };
+
+        socket.setTimeout(timeoutMs, () => finish(new Error("ClamAV scan timed out")));
+        socket.on("error", (error) => finish(error));
+        socket.on("data", (data) => {
+          reply += data.toString("utf8");
+        });
+        socket.on("end", () => {
+          const line = reply.replace(/\0/g, "").trim();
+          if (line.endsWith("OK")) return finish(null, { verdict: "clean" });
+          const found = line.match(/:\s*(.+)\s+FOUND$/);
+          if (found) return finish(null, { verdict: "infected", threat: found[1] });
+          if (/size limit exceeded/i.test(line)) return finish(null, { verdict: "skipped", reason: "File exceeds the scanner's size limit" });
+          finish(new Error(`Unexpected ClamAV reply: ${line || "(empty)"}`));
+        });
+
+        socket.on("connect", async () => {
+          try {
+            socket.write("zINSTREAM\0");
+            for await (const data of input) {
+              const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
+              for (let offset = 0; offset < buffer.length; offset += CHUNK_SIZE) {
+                const chunk = buffer.subarray(offset, offset + CHUNK_SIZE);
+                const length = Buffer.alloc(4);
+                length.writeUInt32BE(chunk.length);
+                if (!socket.write(Buffer.concat([length, chunk]))) {
+                  await new Promise((drained) => socket.once("drain", drained));
+                }
+                if (settled) return;
+              }
+            }
+            socket.end(Buffer.alloc(4));
+          } catch (error) {
+            finish(error as Error);
+          }
+        });
+      }),
+  };
+}
+
+// The industry-standard antivirus test file, so quarantine can be exercised
+// without a real scanner
+const EICAR = Buffer.from("X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*", "latin1");
+
+function createStubScanner(): UploadScanner {
+  return {
+    name: "test-signature stub",
+    scan: async (content) => {
+      let tail = Buffer.alloc(0);
+      for await (const data of toStream(content)) {
+        const window = Buffer.concat([tail, Buffer.isBuffer(data) ? data : Buffer.from(data)]);
+        if (window.includes(EICAR)) {
+          return { verdict: "infected", threat: "Eicar-Test-Signature" };
+        }
+        // Keep enough of the end to catch a signature split across chunks
+        tail = window.subarray(Math.max(0, window.length - EICAR.length + 1));
+      }
+      return { verdict: "clean" };
+    },
+  };
+}
+
+registerUploadScanner("clamav", createClamAvScanner);
+registerUploadScanner("stub", createStubScanner);
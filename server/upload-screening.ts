@@ -0,0 +1,186 @@
+import fs from "fs";
+import path from "path";
+import type { File, User } from "@shared/schema";
+import { SNIFF_BYTES, sniffContentType, isCompatibleMimeType, isGenericMimeType, normalizeMimeType, requiresSignature } from "./content-sniffing";
+import { getUploadScanner } from "./upload-scanner";
+import { createAdminNotification } from "./routes-notifications";
+
+// Every upload path runs screenUpload() before the file is stored:
+//   1. the first bytes are sniffed and must agree with the declared mimeType
+//   2. the per-entity allow/deny policy is applied
+//   3. the configured scanner (server/upload-scanner.ts) checks the content
+// A file the scanner flags is still stored, but quarantined: hidden from
+// everyone except organizers, who are notified and can release it.
+//
+// The policy comes from UPLOAD_CONTENT_POLICY, a JSON object keyed by entity
+// type ("*" applies to all of them), for example
+//   {"*": {"deny": [".exe"]}, "users": {"allow": ["image/*"]}}
+// Patterns are a mime type, a "type/*" wildcard or a ".ext" file extension.
+// Set UPLOAD_SCAN_FAIL_OPEN=true to accept uploads while the scanner is down.
+
+export interface ContentPolicy {
+  allow?: string[];
+  deny?: string[];
+}
+
+export type ScanStatus = "clean" | "infected" | "skipped" | "error" | "released";
+
+export interface ScreeningFields {
+  mimeType: string;
+  detectedMimeType: string | null;
+  scanStatus: ScanStatus | null;
+  quarantinedAt?: Date;
+  quarantineReason?: string;
+}
+
+export type UploadScreening =
+  | { allowed: true; fileFields: ScreeningFields }
+  | { allowed: false; status: number; message: string };
+
+const EXECUTABLE_TYPES = ["application/x-msdownload", "application/x-executable", "application/x-mach-binary"];
+
+const DEFAULT_POLICY: Record<string, ContentPolicy> = {
+  "*": {
+    deny: [...EXECUTABLE_TYPES, ".exe", ".dll", ".com", ".scr", ".msi", ".bat", ".cmd", ".vbs", ".vbe", ".ps1"],
+  },
+};
+
+// Uploads are filed under the current entity name or the legacy one
+const ENTITY_KINDS: Record<string, string> = {
+  projects: "hackathons",
+  episodes: "teams",
+  scripts: "submissions",
+  "radio-stations": "colleges",
+};
+
+let contentPolicy: Record<string, ContentPolicy> | undefined;
+
+function getContentPolicy(): Record<string, ContentPolicy> {
+  if (contentPolicy) return contentPolicy;
+  contentPolicy = { ...DEFAULT_POLICY };
+  if (process.env.UPLOAD_CONTENT_POLICY) {
+    try {
+      const configured = JSON.parse(process.env.UPLOAD_CONTENT_POLICY) as Record<string, ContentPolicy>;
+      for (const [entityType, policy] of Object.entries(configured)) {
+        contentPolicy[ENTITY_KINDS[entityType] ?? entityType] = policy;
+      }
+    } catch (error) {
+      console.error("Ignoring invalid UPLOAD_CONTENT_POLICY:", error);
+    }
+  }
+  return contentPolicy;
+}
+
+function matchesPattern(pattern: string, mimeTypes: string[], extension: string): boolean {
+  const normalized = pattern.trim().toLowerCase();
+  if (normalized.startsWith(".")) return normalized === extension;
+  if (normalized.endsWith("/*")) return mimeTypes.some((type) => type.startsWith(normalized.slice(0, -1)));
+  return mimeTypes.includes(normalizeMimeType(normalized));
+}
+
+function checkContentPolicy(entityType: string, originalName: string, mimeTypes: string[]): string | null {
+  const policies = getContentPolicy();
+  const extension = path.extname(originalName).toLowerCase();
+  const applicable = [policies["*"], policies[ENTITY_KINDS[entityType] ?? entityType]].filter(
+    (policy): policy is ContentPolicy => !!policy,
+  );
+
+  for (const policy of applicable) {
+    if (policy.deny?.some((pattern) => matchesPattern(pattern, mimeTypes, extension))) {
+      return `Files of this type can't be uploaded here`;
+    }
+    if (policy.allow && !policy.allow.some((pattern) => matchesPattern(pattern, mimeTypes, extension))) {
+      return `Only ${policy.allow.join(", ")} files can be uploaded here`;
+    }
+  }
+  return null;
+}
+
+async function readHead(content: Buffer | string): Promise<Buffer> {
+  if (Buffer.isBuffer(content)) return content.subarray(0, SNIFF_BYTES);
+  const handle = await fs.promises.open(content, "r");
+  try {
+    const buffer = Buffer.alloc(SNIFF_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, SNIFF_BYTES, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+// `content` is the uploaded bytes, or the path of a file already on disk
+export async function screenUpload(
+  content: Buffer | string,
+  upload: { originalName: string; mimeType: string; entityType: string },
+): Promise<UploadScreening> {
+  const detectedMimeType = sniffContentType(await readHead(content));
+  const declared = upload.mimeType || "application/octet-stream";
+
+  if (detectedMimeType && !isCompatibleMimeType(declared, detectedMimeType)) {
+    return {
+      allowed: false,
+      status: 415,
+      message: `"${upload.originalName}" looks like ${detectedMimeType}, not ${declared}`,
+    };
+  }
+  if (!detectedMimeType && requiresSignature(declared)) {
+    return {
+      allowed: false,
+      status: 415,
+      message: `"${upload.originalName}" is not a valid ${declared} file`,
+    };
+  }
+
+  // A generic declared type gets the sniffed one, so previews and downloads
+  // are served with the right Content-Type
+  const mimeType = detectedMimeType && isGenericMimeType(declared) ? detectedMimeType : declared;
+  const policyError = checkContentPolicy(
+    upload.entityType,
+    upload.originalName,
+    [normalizeMimeType(mimeType), ...(detectedMimeType ? [detectedMimeType] : [])],
+  );
+  if (policyError) {
+    return { allowed: false, status: 415, message: policyError };
+  }
+
+  const fileFields: ScreeningFields = { mimeType, detectedMimeType, scanStatus: null };
+  const scanner = getUploadScanner();
+  if (!scanner) {
+    return { allowed: true, fileFields };
+  }
+
+  try {
+    const result = await scanner.scan(Buffer.isBuffer(content) ? content : fs.createReadStream(content));
+    if (result.verdict === "infected") {
+      console.warn(`Quarantining upload "${upload.originalName}": ${result.threat}`);
+      fileFields.scanStatus = "infected";
+      fileFields.quarantinedAt = new Date();
+      fileFields.quarantineReason = result.threat;
+    } else {
+      fileFields.scanStatus = result.verdict;
+    }
+  } catch (error) {
+    console.error(`Error scanning upload "${upload.originalName}":`, error);
+    if (process.env.UPLOAD_SCAN_FAIL_OPEN !== "true") {
+      return { allowed: false, status: 503, message: "Uploads can't be checked right now. Please try again shortly." };
+    }
+    fileFields.scanStatus = "error";
+  }
+  return { allowed: true, fileFields };
+}
+
+export const QUARANTINE_MESSAGE =
+  "This file was flagged by the security scan and has been quarantined. An organizer will review it.";
+
+export async function notifyQuarantine(file: File, uploader?: User) {
+  await createAdminNotification(
+    "file_quarantined",
+    "File quarantined",
+    `"${file.originalName}" was flagged by the upload scan (${file.quarantineReason ?? "unknown threat"}) and is hidden until reviewed`,
+    uploader?.id,
+    uploader?.email ?? undefined,
+    uploader?.name ?? undefined,
+    "/quarantine",
+    "high",
+  );
+}
@@ -0,0 +1,57 @@
+// Tree helpers for file_folders. parentFolderId is the source of truth;
+// folderPath ("/Parent/Child") is derived from it and rewritten by storage
+// whenever a folder is created, renamed, moved or deleted. Shared so the
+// file manager can apply the same rules before calling the API.
+
+// Structural so both FileFolder rows and client-side folder shapes fit
+interface FolderNode {
+  id: string;
+  name: string;
+  parentFolderId?: string | null;
+}
+
+// Each folder's name segments from the root down. A missing or cyclic parent
+// puts the folder at the root.
+export function resolveFolderSegments(folders: FolderNode[]): Map<string, string[]> {
+  const byId = new Map(folders.map((folder) => [folder.id, folder]));
+  const segments = new Map<string, string[]>();
+
+  const resolve = (folder: FolderNode, seen: Set<string>): string[] => {
+    const cached = segments.get(folder.id);
+    if (cached) return cached;
+    const parent = folder.parentFolderId ? byId.get(folder.parentFolderId) : undefined;
+    const path = parent && !seen.has(parent.id)
+      ? [...resolve(parent, new Set(seen).add(parent.id)), folder.name]
+      : [folder.name];
+    segments.set(folder.id, path);
+    return path;
+  };
+
+  folders.forEach((folder) => resolve(folder, new Set([folder.id])));
+  return segments;
+}
+
+export function toFolderPath(segments: string[]): string {
+  return `/${segments.join("/")}`;
+}
+
+// The folder itself plus everything nested under it
+export function getFolderSubtreeIds(folders: FolderNode[], folderId: string): Set<string> {
+  const subtree = new Set([folderId]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const folder of folders) {
+      if (folder.parentFolderId && subtree.has(folder.parentFolderId) && !subtree.has(folder.id)) {
+        subtree.add(folder.id);
+        grew = true;
+      }
+    }
+  }
+  return subtree;
+}
+
+// Moving a folder into itself or one of its descendants would detach the subtree
+export function wouldCreateCycle(folders: FolderNode[], folderId: string, newParentId: string | null): boolean {
+  return !!newParentId && getFolderSubtreeIds(folders, folderId).has(newParentId);
+}
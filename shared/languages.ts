@@ -42,4 +42,7 @@ export const getLanguageName = (code: string): string => {
 
 export const getLanguageFlag = (code: string): string => {
   return SUPPORTED_LANGUAGES[code as LanguageCode]?.flag || '🌐';
-};
\ No newline at end of file
+};
+export const isSupportedLanguage = (code: string): code is LanguageCode => {
+  return Object.prototype.hasOwnProperty.call(SUPPORTED_LANGUAGES, code);
+};
@@ -0,0 +1,207 @@
+// Permission policy shared by the server and the client. Every role check in
+// the app should go through `can()` so the UI never offers an action the API
+// would refuse. Roles from before the hackathon rename (admin, editor, member,
+// contributor) are kept alongside their current equivalents.
+
+export const ROLES = [
+  'admin',
+  'organizer',
+  'analyzer',
+  'editor',
+  'participant',
+  'member',
+  'contributor',
+] as const;
+
+export type Role = typeof ROLES[number];
+
+// Roles that run hackathons
+const ORGANIZERS: readonly Role[] = ['admin', 'organizer'];
+// Organizers plus the staff who review and curate content
+const STAFF: readonly Role[] = ['admin', 'organizer', 'analyzer', 'editor'];
+// Everyone who takes part
+const PARTICIPANTS: readonly Role[] = [...STAFF, 'participant', 'member', 'contributor'];
+
+// "any" means any signed-in user, whatever their role
+export const POLICY = {
+  // Files
+  'files.view': 'any',
+  'files.download': 'any',
+  'files.upload': PARTICIPANTS,
+  'files.edit': STAFF,
+  'files.delete': STAFF,
+  'files.uploadUnlimited': STAFF, // Participants may upload only once per entity
+  'files.viewPrivate': ORGANIZERS,
+  'files.share': ORGANIZERS, // Share links for people without an account
+  'files.reviewQuarantine': ORGANIZERS, // See and release files the upload scanner flagged
+  'files.ignoreQuota': ORGANIZERS, // Uploads not held to user, team or hackathon storage quotas
+  'folders.manage': STAFF,
+
+  // Entities
+  'entities.viewAll': STAFF, // Bypass per-hackathon/team/submission ACLs
+  'hackathons.create': STAFF,
+  'hackathons.edit': STAFF,
+  'hackathons.delete': STAFF,
+  'teams.manage': STAFF,
+  'teams.register': ORGANIZERS, // Approve, waitlist or reject team registrations and extend a team's submission deadline
+  'teams.join': PARTICIPANTS, // Answer team invitations and run the roster of teams they lead
+  'submissions.create': PARTICIPANTS,
+  'submissions.manage': STAFF,
+  'submissions.evaluate': STAFF, // Score the hackathons they are assigned to judge
+  'submissions.review': STAFF, // Approve or request changes on submissions assigned to them
+  'submissions.assignReviewers': ORGANIZERS, // Also review any submission without being assigned
+  'submissions.publish': ORGANIZERS,
+  'judging.manage': ORGANIZERS, // Rubrics, judges, and closing or reopening scoring
+  'showcase.manage': ORGANIZERS, // Which hackathons and submissions the public showcase pages show
+  'categories.manage': STAFF,
+  'colleges.manage': STAFF,
+
+  // Administration
+  'access.grant': ORGANIZERS, // Free hackathon access for colleges
+  'forms.manage': ORGANIZERS, // Onboarding form configuration
+  'users.manage': ORGANIZERS,
+  'analytics.view': ORGANIZERS,
+  'jobs.manage': ORGANIZERS, // Background job queue and maintenance jobs
+  'storage.manage': ORGANIZERS, // Storage usage ranking and quota overrides
+  'trash.manage': ORGANIZERS, // Restore or permanently delete what is in the trash
+} as const satisfies Record<string, readonly Role[] | 'any'>;
+
+export type Action = keyof typeof POLICY;
+
+export const ACTIONS = Object.keys(POLICY) as Action[];
+
+type RoleHolder = { role?: string | null } | null | undefined;
+
+export function can(user: RoleHolder, action: Action): boolean {
+  if (!user) return false;
+  const allowed: readonly Role[] | 'any' = POLICY[action];
+  if (allowed === 'any') return true;
+  return !!user.role && allowed.includes(user.role as Role);
+}
+
+export type PermissionMap = Record<Action, boolean>;
+
+export function getPermissionMap(user: RoleHolder): PermissionMap {
+  return Object.fromEntries(ACTIONS.map((action) => [action, can(user, action)])) as PermissionMap;
+}
+
+// The original file-centric permission flags, still used by most file components
+export interface FilePermissions {
+  canView: boolean;
+  canDownload: boolean;
+  canUpload: boolean;
+  canEdit: boolean;
+  canDelete: boolean;
+  canCreate: boolean;
+}
+
+export function getFilePermissions(user: RoleHolder): FilePermissions {
+  return {
+    canView: can(user, 'files.view'),
+    canDownload: can(user, 'files.download'),
+    canUpload: can(user, 'files.upload'),
+    canEdit: can(user, 'files.edit'),
+    canDelete: can(user, 'files.delete'),
+    canCreate: can(user, 'folders.manage'),
+  };
+}
+
+export function requireFilePermission(permission: keyof FilePermissions, user: RoleHolder): boolean {
+  return getFilePermissions(user)[permission];
+}
+
+// The /api/auth/permissions response
+export interface UserPermissions extends FilePermissions {
+  role: string | null;
+  actions: PermissionMap;
+}
+
+export function getUserPermissions(user: RoleHolder): UserPermissions {
+  return {
+    role: user?.role ?? null,
+    ...getFilePermissions(user),
+    actions: getPermissionMap(user),
+  };
+}
+
+// Per-entity access control. The policy above decides what a user may do;
+// the access scope decides which hackathons, teams, submissions and files
+// they may do it to. The server builds the scope (see getAccessScope in
+// server/filePermissions.ts) and serves it from /api/auth/access.
+export interface AccessScope {
+  userId: string;
+  userEmail: string | null;
+  fullAccess: boolean; // entities.viewAll
+  isOrganizer: boolean; // files.viewPrivate
+  hackathonIds: string[] | null; // null = every hackathon
+  teamIds: string[];
+  submissionIds: string[];
+  collegeIds: string[];
+}
+
+export function canAccessHackathon(scope: AccessScope | null | undefined, hackathonId: string): boolean {
+  if (!scope) return false;
+  return scope.fullAccess || scope.hackathonIds === null || scope.hackathonIds.includes(hackathonId);
+}
+
+export function canAccessTeam(scope: AccessScope | null | undefined, teamId: string): boolean {
+  if (!scope) return false;
+  return scope.fullAccess || scope.teamIds.includes(teamId);
+}
+
+export function canAccessSubmission(scope: AccessScope | null | undefined, submissionId: string): boolean {
+  if (!scope) return false;
+  return scope.fullAccess || scope.submissionIds.includes(submissionId);
+}
+
+// Entities are addressed the way files and folders address them
+export function canAccessEntity(scope: AccessScope | null | undefined, entityType: string, entityId: string): boolean {
+  if (!scope) return false;
+  if (scope.fullAccess) return true;
+
+  switch (entityType) {
+    case 'hackathons':
+    case 'projects':
+      return canAccessHackathon(scope, entityId);
+    case 'teams':
+    case 'episodes':
+      return canAccessTeam(scope, entityId);
+    case 'submissions':
+    case 'scripts':
+      return canAccessSubmission(scope, entityId);
+    case 'colleges':
+    case 'radio-stations':
+      return scope.collegeIds.includes(entityId);
+    case 'users':
+      return entityId === scope.userId;
+    default:
+      return true;
+  }
+}
+
+export interface AccessControlledFile {
+  entityType: string;
+  entityId: string | null;
+  accessLevel: string | null;
+  uploadedBy: string | null;
+  quarantinedAt?: Date | string | null;
+}
+
+export function canAccessFile(scope: AccessScope | null | undefined, file: AccessControlledFile): boolean {
+  if (!scope) return false;
+  // Flagged by the upload scanner: organizers only, not even the uploader
+  if (file.quarantinedAt) return scope.isOrganizer;
+  if (file.uploadedBy && (file.uploadedBy === scope.userId || file.uploadedBy === scope.userEmail)) {
+    return true;
+  }
+  if (file.accessLevel === 'private') return scope.isOrganizer;
+  if (file.accessLevel === 'public' || !file.entityId) return true;
+  return canAccessEntity(scope, file.entityType, file.entityId);
+}
+
+export function filterAccessibleFiles<T extends AccessControlledFile>(
+  scope: AccessScope | null | undefined,
+  files: T[]
+): T[] {
+  return files.filter((file) => canAccessFile(scope, file));
+}
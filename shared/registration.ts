@@ -0,0 +1,46 @@
+// Team registration and submission deadlines, shared by the server and the
+// client. Organizers decide each team's registration (server/registration.ts);
+// the submission deadline is the hackathon's, pushed back for teams an
+// organizer granted an extension.
+
+export const REGISTRATION_STATUSES = [
+  'pending',
+  'approved',
+  'waitlisted',
+  'rejected',
+] as const;
+
+export type RegistrationStatus = typeof REGISTRATION_STATUSES[number];
+
+export const REGISTRATION_LABELS: Record<RegistrationStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  waitlisted: 'Waitlisted',
+  rejected: 'Rejected',
+};
+
+export function normalizeRegistrationStatus(status: string | null | undefined): RegistrationStatus {
+  return REGISTRATION_STATUSES.find((known) => known === status) ?? 'pending';
+}
+
+type DeadlineHackathon = { submissionDeadline?: Date | string | null };
+type DeadlineTeam = { deadlineExtendedUntil?: Date | string | null } | null | undefined;
+
+export interface SubmissionDeadline {
+  closesAt: Date | null; // null = no deadline
+  extended: boolean; // closesAt comes from the team's extension
+}
+
+// An extension only ever moves the deadline later
+export function getSubmissionDeadline(hackathon: DeadlineHackathon, team?: DeadlineTeam): SubmissionDeadline {
+  const deadline = hackathon.submissionDeadline ? new Date(hackathon.submissionDeadline) : null;
+  const extension = team?.deadlineExtendedUntil ? new Date(team.deadlineExtendedUntil) : null;
+  if (deadline && extension && extension > deadline) {
+    return { closesAt: extension, extended: true };
+  }
+  return { closesAt: deadline, extended: false };
+}
+
+export function isPastDeadline(deadline: SubmissionDeadline, now: Date = new Date()): boolean {
+  return !!deadline.closesAt && deadline.closesAt.getTime() <= now.getTime();
+}
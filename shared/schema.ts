@@ -9,9 +9,14 @@ import {
   decimal,
   jsonb,
   index,
+  uniqueIndex,
+  customType,
+  bigint,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
+import { isSupportedLanguage } from "./languages";
 
 // Session storage table.
 // (IMPORTANT) This table is mandatory for Replit Auth, don't drop it.
@@ -76,45 +81,98 @@ export const hackathons = pgTable("hackathons", {
   prizePool: varchar("prize_pool", { length: 255 }),
   rulesDescription: text("rules_description"),
   isActive: boolean("is_active").default(true),
+  scoringClosedAt: timestamp("scoring_closed_at"), // Judging finished and scores revealed; null = judges still scoring
+  isPublic: boolean("is_public").notNull().default(false), // Has a public showcase page at /showcase/:id
+  showLeaderboard: boolean("show_leaderboard").notNull().default(true), // The public page ranks submissions once scoring closes
+  deletedAt: timestamp("deleted_at"), // In the trash since; null = live
+  trashId: uuid("trash_id"), // trash_entries row that restores or purges it
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("idx_hackathons_trash").on(table.trashId),
+]);
 
 // Teams table (formerly Episodes)
 export const teams = pgTable("teams", {
   id: uuid("id").primaryKey().defaultRandom(),
-  hackathonId: uuid("hackathon_id").notNull(),
+  hackathonId: uuid("hackathon_id").notNull().references(() => hackathons.id, { onDelete: "cascade" }),
   title: varchar("title", { length: 255 }).notNull(),
-  teamLeaderId: varchar("team_leader_id"),
-  teamSize: integer("team_size").default(1),
-  registrationStatus: varchar("registration_status", { length: 50 }).default("pending"),
+  teamLeaderId: varchar("team_leader_id"), // Also the team_members row with role "leader"
+  teamSize: integer("team_size").default(1), // Number of team_members rows, kept in step by storage
+  registrationStatus: varchar("registration_status", { length: 50 }).default("pending"), // pending, approved, waitlisted, rejected (shared/registration.ts)
+  registrationNote: text("registration_note"), // The organizer's reason, shown to the team
+  registrationDecidedBy: varchar("registration_decided_by"),
+  registrationDecidedAt: timestamp("registration_decided_at"),
+  deadlineExtendedUntil: timestamp("deadline_extended_until"), // This team's submissions stay open until then; null = the hackathon's deadline
+  deadlineExtendedBy: varchar("deadline_extended_by"),
   collegeId: uuid("college_id"),
+  deletedAt: timestamp("deleted_at"), // In the trash since; null = live
+  trashId: uuid("trash_id"), // trash_entries row that restores or purges it
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
   index("idx_teams_hackathon").on(table.hackathonId),
   index("idx_teams_college").on(table.collegeId),
+  index("idx_teams_trash").on(table.trashId),
+]);
+
+// Who is on a team (server/team-membership.ts)
+export const teamMembers = pgTable("team_members", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  teamId: uuid("team_id").notNull().references(() => teams.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull(),
+  role: varchar("role", { length: 20 }).notNull().default("member"), // leader, member
+  joinedAt: timestamp("joined_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_team_members_unique").on(table.teamId, table.userId),
+  index("idx_team_members_user").on(table.userId),
+]);
+
+// Invitations to join a team. Email invitations are for one address and are
+// used up when answered; link invitations (no email) admit anyone with the
+// link until they expire or are revoked.
+export const teamInvitations = pgTable("team_invitations", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  teamId: uuid("team_id").notNull().references(() => teams.id, { onDelete: "cascade" }),
+  email: varchar("email", { length: 255 }),
+  token: varchar("token", { length: 64 }).notNull().unique(),
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, accepted, declined, revoked
+  invitedBy: varchar("invited_by"),
+  respondedBy: varchar("responded_by"),
+  respondedAt: timestamp("responded_at"),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_team_invitations_team").on(table.teamId, table.status),
+  index("idx_team_invitations_email").on(table.email, table.status),
 ]);
 
 // Submissions table (formerly Scripts)
 export const submissions = pgTable("submissions", {
   id: uuid("id").primaryKey().defaultRandom(),
-  hackathonId: uuid("hackathon_id").notNull(),
-  teamId: uuid("team_id"),
+  hackathonId: uuid("hackathon_id").notNull().references(() => hackathons.id, { onDelete: "cascade" }),
+  teamId: uuid("team_id").references(() => teams.id, { onDelete: "cascade" }),
   authorId: varchar("author_id").notNull(),
   title: varchar("title", { length: 255 }).notNull(),
   description: text("description").notNull(),
+  content: text("content"), // Rich-text (HTML) body written in the submission editor
+  language: varchar("language", { length: 10 }).notNull().default("en"), // Code from shared/languages.ts
   status: varchar("status", { length: 50 }).notNull().default("Draft"),
   submissionType: varchar("submission_type", { length: 10 }).notNull().default("code"), // code, documentation, presentation
   originalSubmissionId: uuid("original_submission_id"),
   submissionGroup: varchar("submission_group", { length: 100 }),
   isOriginal: boolean("is_original").default(true),
+  revision: integer("revision").notNull().default(1), // Goes up when an original's text changes while it has translations
+  basedOnRevision: integer("based_on_revision"), // Translations: the original's revision they were last brought up to date with
   githubLink: varchar("github_link", { length: 500 }),
   demoLink: varchar("demo_link", { length: 500 }),
-  evaluationScore: decimal("evaluation_score", { precision: 5, scale: 2 }),
-  evaluatorId: varchar("evaluator_id"),
+  evaluationScore: decimal("evaluation_score", { precision: 5, scale: 2 }), // Judges' combined rubric score, 0-100, set when scoring closes
+  evaluatorId: varchar("evaluator_id"), // Single-judge evaluation from before rubrics
   evaluationComments: text("evaluation_comments"),
+  hiddenFromShowcase: boolean("hidden_from_showcase").notNull().default(false), // Organizers keep a published submission off the public pages
   submittedAt: timestamp("submitted_at"),
+  deletedAt: timestamp("deleted_at"), // In the trash since; null = live
+  trashId: uuid("trash_id"), // trash_entries row that restores or purges it
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
@@ -123,6 +181,7 @@ export const submissions = pgTable("submissions", {
   index("idx_submissions_original").on(table.originalSubmissionId),
   index("idx_submissions_hackathon_type").on(table.hackathonId, table.submissionType),
   index("idx_submissions_team").on(table.teamId),
+  index("idx_submissions_trash").on(table.trashId),
 ]);
 
 // Topics table
@@ -135,10 +194,97 @@ export const topics = pgTable("topics", {
 // Submission-Topic junction table (formerly Script-Topic)
 export const submissionTopics = pgTable("submission_topics", {
   id: uuid("id").primaryKey().defaultRandom(),
-  submissionId: uuid("submission_id").notNull(),
-  topicId: uuid("topic_id").notNull(),
+  submissionId: uuid("submission_id").notNull().references(() => submissions.id, { onDelete: "cascade" }),
+  topicId: uuid("topic_id").notNull().references(() => topics.id, { onDelete: "cascade" }),
 });
 
+// Reviewers assigned to a submission; they may approve it or request changes
+// (shared/submission-review.ts)
+export const submissionReviewers = pgTable("submission_reviewers", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  submissionId: uuid("submission_id").notNull().references(() => submissions.id, { onDelete: "cascade" }),
+  reviewerId: varchar("reviewer_id").notNull(),
+  assignedBy: varchar("assigned_by"),
+  assignedAt: timestamp("assigned_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_submission_reviewers_unique").on(table.submissionId, table.reviewerId),
+  index("idx_submission_reviewers_reviewer").on(table.reviewerId),
+]);
+
+// Every status change of a submission, oldest first; the comment carries the
+// changes a reviewer asked for
+export const submissionStatusHistory = pgTable("submission_status_history", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  submissionId: uuid("submission_id").notNull().references(() => submissions.id, { onDelete: "cascade" }),
+  transition: varchar("transition", { length: 50 }).notNull(), // submit, approve, requestChanges, ...
+  fromStatus: varchar("from_status", { length: 50 }).notNull(),
+  toStatus: varchar("to_status", { length: 50 }).notNull(),
+  actorId: varchar("actor_id"),
+  comment: text("comment"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_submission_status_history_submission").on(table.submissionId, table.createdAt),
+]);
+
+// An original's title, description and content as they were before an edit,
+// so translators can see what changed since the revision they worked from
+// (server/translations.ts). The current revision lives on the submission.
+export const submissionRevisions = pgTable("submission_revisions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  submissionId: uuid("submission_id").notNull().references(() => submissions.id, { onDelete: "cascade" }),
+  revision: integer("revision").notNull(),
+  title: varchar("title", { length: 255 }).notNull(),
+  description: text("description").notNull(),
+  content: text("content"),
+  replacedBy: varchar("replaced_by"), // Who made the edit that ended this revision
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_submission_revisions_unique").on(table.submissionId, table.revision),
+]);
+
+// Criteria judges score a hackathon's submissions on; a criterion counts
+// towards the total in proportion to its weight (server/judging.ts)
+export const rubricCriteria = pgTable("rubric_criteria", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  hackathonId: uuid("hackathon_id").notNull().references(() => hackathons.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  weight: decimal("weight", { precision: 6, scale: 2 }).notNull().default("1"),
+  maxScore: integer("max_score").notNull().default(10), // Scores run from 0 to this
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_rubric_criteria_hackathon").on(table.hackathonId, table.sortOrder),
+]);
+
+// Judges assigned to score every submission of a hackathon
+export const hackathonJudges = pgTable("hackathon_judges", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  hackathonId: uuid("hackathon_id").notNull().references(() => hackathons.id, { onDelete: "cascade" }),
+  judgeId: varchar("judge_id").notNull(),
+  assignedBy: varchar("assigned_by"),
+  assignedAt: timestamp("assigned_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_hackathon_judges_unique").on(table.hackathonId, table.judgeId),
+  index("idx_hackathon_judges_judge").on(table.judgeId),
+]);
+
+// One judge's score on one criterion of one submission
+export const judgeScores = pgTable("judge_scores", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  submissionId: uuid("submission_id").notNull().references(() => submissions.id, { onDelete: "cascade" }),
+  criterionId: uuid("criterion_id").notNull().references(() => rubricCriteria.id, { onDelete: "cascade" }),
+  judgeId: varchar("judge_id").notNull(),
+  score: decimal("score", { precision: 6, scale: 2 }).notNull(),
+  comment: text("comment"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_judge_scores_unique").on(table.submissionId, table.judgeId, table.criterionId),
+  index("idx_judge_scores_judge").on(table.judgeId),
+]);
+
 // Colleges table (formerly Radio Stations)
 export const colleges = pgTable("colleges", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -156,8 +302,8 @@ export const colleges = pgTable("colleges", {
 // Free Hackathon Access table (formerly Free Project Access)
 export const freeHackathonAccess = pgTable("free_hackathon_access", {
   id: uuid("id").primaryKey().defaultRandom(),
-  collegeId: uuid("college_id").notNull(),
-  hackathonId: uuid("hackathon_id").notNull(),
+  collegeId: uuid("college_id").notNull().references(() => colleges.id, { onDelete: "cascade" }),
+  hackathonId: uuid("hackathon_id").notNull().references(() => hackathons.id, { onDelete: "cascade" }),
   grantedByUserId: uuid("granted_by_user_id"),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
@@ -168,20 +314,36 @@ export const fileFolders = pgTable("file_folders", {
   id: uuid("id").primaryKey().defaultRandom(),
   name: varchar("name", { length: 255 }).notNull(),
   description: text("description"),
-  parentFolderId: uuid("parent_folder_id"), // For nested folders
+  parentFolderId: uuid("parent_folder_id").references((): AnyPgColumn => fileFolders.id, { onDelete: "set null" }), // For nested folders
   entityType: varchar("entity_type", { length: 50 }).notNull(), // hackathons, teams, submissions
   entityId: uuid("entity_id").notNull(),
-  folderPath: text("folder_path"), // Full path for optimization
+  folderPath: text("folder_path"), // Full path ("/Parent/Child"), kept in sync by storage
   sortOrder: integer("sort_order").default(0),
   isActive: boolean("is_active").default(true),
+  deletedAt: timestamp("deleted_at"), // In the trash since; null = live
+  trashId: uuid("trash_id"), // trash_entries row that restores or purges it
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
   index("idx_folders_entity").on(table.entityType, table.entityId),
   index("idx_folders_parent").on(table.parentFolderId),
   index("idx_folders_path").on(table.folderPath),
+  index("idx_folders_trash").on(table.trashId),
 ]);
 
+// What the media pipeline could read from a file; every field is optional
+// because each format only has some of them
+export interface MediaMetadata {
+  durationSeconds?: number;
+  bitrate?: number; // bits per second
+  width?: number;
+  height?: number;
+  pageCount?: number;
+  codec?: string;
+  sampleRate?: number;
+  channels?: number;
+}
+
 // Enhanced Files table for storing uploaded files
 export const files = pgTable("files", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -189,32 +351,172 @@ export const files = pgTable("files", {
   originalName: varchar("original_name", { length: 255 }).notNull(),
   mimeType: varchar("mime_type", { length: 100 }).notNull(),
   fileSize: integer("file_size").notNull(),
-  fileData: text("file_data").notNull(), // Base64 encoded file data
+  fileData: text("file_data"), // Legacy Base64 encoded file data, null once moved to blob storage
+  storageKey: text("storage_key"), // Location of the file contents in the blob store
+  storageBackend: varchar("storage_backend", { length: 20 }), // local, s3
   entityType: varchar("entity_type", { length: 50 }).notNull(), // hackathons, teams, submissions, colleges
-  entityId: uuid("entity_id"), // Link to specific entity
-  folderId: uuid("folder_id"), // Optional: organize in folders
+  entityId: uuid("entity_id"), // Link to specific entity; no foreign key since the table depends on entityType
+  folderId: uuid("folder_id").references(() => fileFolders.id, { onDelete: "set null" }), // Optional: organize in folders
   uploadedBy: varchar("uploaded_by"), // User who uploaded (non-UUID user ID)
   sortOrder: integer("sort_order").default(0), // For manual reordering
   tags: text("tags").array(), // For better categorization and search
   description: text("description"), // Optional file description
   version: integer("version").default(1), // For file versioning
+  versionGroupId: uuid("version_group_id"), // Id of the first version, shared by all versions of a file
+  previousVersionId: uuid("previous_version_id"), // Version this row replaced
+  versionNote: text("version_note"), // Optional description of what changed in this version
   isArchived: boolean("is_archived").default(false), // For archiving old versions
-  isActive: boolean("is_active").default(true), // For soft delete
+  isActive: boolean("is_active").default(true), // For soft delete; false while in the trash
+  deletedAt: timestamp("deleted_at"), // In the trash since; null = live
+  trashId: uuid("trash_id"), // trash_entries row that restores or purges it
   filePath: text("file_path"), // Virtual file path for organization
   checksum: varchar("checksum", { length: 64 }), // For duplicate detection
   accessLevel: varchar("access_level", { length: 20 }).default("hackathon"), // hackathon, public, private
   downloadCount: integer("download_count").default(0),
   lastAccessedAt: timestamp("last_accessed_at"),
+  // Filled in by the background media pipeline (server/media-processing.ts)
+  mediaMetadata: jsonb("media_metadata").$type<MediaMetadata>(), // Duration, bitrate, dimensions, page count
+  thumbnailStorageKey: text("thumbnail_storage_key"), // Preview image in the same blob store as the file
+  waveformPeaks: jsonb("waveform_peaks").$type<number[]>(), // Audio only: peak per bucket, 0..1
+  processingStatus: varchar("processing_status", { length: 20 }), // pending, processing, ready, failed, skipped
+  processingError: text("processing_error"),
+  processedAt: timestamp("processed_at"),
+  // Upload screening (server/upload-screening.ts)
+  detectedMimeType: varchar("detected_mime_type", { length: 100 }), // From the file's magic bytes; null = not recognised
+  scanStatus: varchar("scan_status", { length: 20 }), // clean, infected, skipped, error, released; null = uploaded before scanning
+  quarantinedAt: timestamp("quarantined_at"), // Set = hidden from everyone but organizers
+  quarantineReason: text("quarantine_reason"), // e.g. the threat name reported by the scanner
+  quarantineReviewedBy: varchar("quarantine_reviewed_by"), // Organizer who released the file
+  quarantineReviewedAt: timestamp("quarantine_reviewed_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
   index("idx_files_entity").on(table.entityType, table.entityId),
+  index("idx_files_processing_status").on(table.processingStatus),
+  index("idx_files_quarantined").on(table.quarantinedAt),
+  index("idx_files_trash").on(table.trashId),
   index("idx_files_folder").on(table.folderId),
   index("idx_files_sort_order").on(table.entityType, table.entityId, table.sortOrder),
   index("idx_files_created_at").on(table.createdAt),
   index("idx_files_checksum").on(table.checksum),
   index("idx_files_path").on(table.filePath),
   index("idx_files_tags").on(table.tags),
+  index("idx_files_storage_key").on(table.storageKey),
+  index("idx_files_version_group").on(table.versionGroupId, table.version),
+]);
+
+// Upload Sessions table for chunked, resumable uploads still in progress
+export const uploadSessions = pgTable("upload_sessions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: varchar("user_id").notNull(), // User who started the upload
+  originalName: varchar("original_name", { length: 255 }).notNull(),
+  mimeType: varchar("mime_type", { length: 100 }).notNull(),
+  totalSize: integer("total_size").notNull(), // Final file size in bytes
+  uploadOffset: integer("upload_offset").notNull().default(0), // Bytes received and verified so far
+  chunkSize: integer("chunk_size").notNull(),
+  entityType: varchar("entity_type", { length: 50 }).notNull(), // Where the finished file will be filed
+  entityId: uuid("entity_id"),
+  folderId: uuid("folder_id"),
+  status: varchar("status", { length: 20 }).notNull().default("uploading"), // uploading, completed, cancelled
+  fileId: uuid("file_id"), // Set once the finished file lands in the files table
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_upload_sessions_user").on(table.userId),
+  index("idx_upload_sessions_expires").on(table.expiresAt),
+]);
+
+// Share links: expiring, signed URLs that let someone without an account
+// download a single file. The URL token is signed with the server secret and
+// carries the link id and expiry; the row holds the limits and revocation.
+export const fileShareLinks = pgTable("file_share_links", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  fileId: uuid("file_id").notNull().references(() => files.id, { onDelete: "cascade" }),
+  label: varchar("label", { length: 255 }), // Who the link was made for, e.g. a partner college
+  passwordHash: varchar("password_hash", { length: 255 }), // bcrypt; null = no password
+  expiresAt: timestamp("expires_at").notNull(),
+  maxDownloads: integer("max_downloads"), // null = unlimited until expiry
+  downloadCount: integer("download_count").notNull().default(0),
+  revokedAt: timestamp("revoked_at"),
+  revokedBy: varchar("revoked_by"),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastAccessedAt: timestamp("last_accessed_at"),
+}, (table) => [
+  index("idx_file_share_links_file").on(table.fileId),
+]);
+
+// Storage quota overrides. Usage is the sum of files.file_size (old versions
+// included, since they still take space; the trash is not counted); scopes
+// without a row fall back to the STORAGE_QUOTA_*_MB defaults in
+// server/storage-quotas.ts.
+export const storageQuotas = pgTable("storage_quotas", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  scopeType: varchar("scope_type", { length: 20 }).notNull(), // user, team, hackathon
+  scopeId: varchar("scope_id").notNull(), // users.id, teams.id or hackathons.id
+  limitBytes: bigint("limit_bytes", { mode: "number" }).notNull(),
+  updatedBy: varchar("updated_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_storage_quotas_scope").on(table.scopeType, table.scopeId),
+]);
+
+// What a trash entry took with it, by kind
+export interface TrashItemCounts {
+  hackathons: number;
+  teams: number;
+  submissions: number;
+  folders: number;
+  files: number;
+}
+
+// Trash bin: one row per delete. Every row the delete took with it (a
+// hackathon's teams, submissions, folders and files) carries the entry's id
+// in trash_id, so restore and purge act on the whole batch. Expired entries
+// are purged for good by the trash.purge job.
+export const trashEntries = pgTable("trash_entries", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  entityType: varchar("entity_type", { length: 20 }).notNull(), // hackathons, teams, submissions, folders, files
+  entityId: uuid("entity_id").notNull(), // The row that was deleted; the rest came along
+  name: varchar("name", { length: 255 }).notNull(),
+  itemCounts: jsonb("item_counts").$type<TrashItemCounts>().notNull(),
+  fileBytes: bigint("file_bytes", { mode: "number" }).notNull().default(0),
+  deletedBy: varchar("deleted_by"),
+  deletedAt: timestamp("deleted_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(), // Purged after this
+}, (table) => [
+  index("idx_trash_entries_expires").on(table.expiresAt),
+  index("idx_trash_entries_entity").on(table.entityType, table.entityId),
+]);
+
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+// Full-text search index: one row per searchable submission or file, kept in
+// sync by DatabaseStorage in server/storage.ts (indexSubmission, indexFile,
+// refreshSearchIndex). Uses the language-neutral 'simple' config because
+// content is written in many languages.
+export const searchDocuments = pgTable("search_documents", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  entityType: varchar("entity_type", { length: 50 }).notNull(), // submissions, files
+  entityId: uuid("entity_id").notNull(),
+  hackathonId: uuid("hackathon_id"), // For category filtering via hackathons.category_id
+  language: varchar("language", { length: 10 }),
+  title: text("title").notNull(),
+  body: text("body"), // Description, content, tags and extracted document text
+  searchVector: tsvector("search_vector").generatedAlwaysAs(
+    sql`setweight(to_tsvector('simple', coalesce(title, '')), 'A') || setweight(to_tsvector('simple', coalesce(body, '')), 'B')`
+  ),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_search_documents_entity").on(table.entityType, table.entityId),
+  index("idx_search_documents_vector").using("gin", table.searchVector),
+  index("idx_search_documents_hackathon").on(table.hackathonId),
 ]);
 
 // Download Logs table for tracking file downloads
@@ -229,10 +531,11 @@ export const downloadLogs = pgTable("download_logs", {
   userAgent: text("user_agent"), // Browser/device info
   downloadSize: integer("download_size"), // File size at time of download
   downloadDuration: integer("download_duration"), // Time taken in milliseconds
-  downloadStatus: varchar("download_status", { length: 20 }).default("completed"), // completed, failed, interrupted
+  downloadStatus: varchar("download_status", { length: 20 }).default("completed"), // completed, partial (range request), interrupted, failed
   entityType: varchar("entity_type", { length: 50 }), // context: hackathon, team, submission
   entityId: uuid("entity_id"), // context entity
   refererPage: text("referer_page"), // Which page initiated the download
+  shareLinkId: uuid("share_link_id"), // Set when downloaded through a share link rather than by a signed-in user
   downloadedAt: timestamp("downloaded_at").defaultNow(),
 }, (table) => [
   index("idx_downloads_file").on(table.fileId),
@@ -240,6 +543,7 @@ export const downloadLogs = pgTable("download_logs", {
   index("idx_downloads_date").on(table.downloadedAt),
   index("idx_downloads_entity").on(table.entityType, table.entityId),
   index("idx_downloads_status").on(table.downloadStatus),
+  index("idx_downloads_share_link").on(table.shareLinkId),
 ]);
 
 // Notifications table for organizer notifications
@@ -267,6 +571,34 @@ export const notifications = pgTable("notifications", {
   index("idx_notifications_priority").on(table.priority),
 ]);
 
+// Background jobs, run by the worker in server/job-queue.ts. Rows are claimed
+// with FOR UPDATE SKIP LOCKED, so several app instances can share the queue.
+export const backgroundJobs = pgTable("background_jobs", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  type: varchar("type", { length: 100 }).notNull(), // Handler name, e.g. 'media.process'
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull().default({}),
+  status: varchar("status", { length: 20 }).notNull().default("queued"), // queued, running, completed, failed, cancelled
+  dedupeKey: varchar("dedupe_key", { length: 255 }), // At most one queued or running job per key
+  progress: integer("progress").notNull().default(0), // 0-100
+  progressMessage: text("progress_message"),
+  result: jsonb("result").$type<unknown>(),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAt: timestamp("run_at").notNull().defaultNow(), // Not picked up before this; pushed back on retry
+  lockedAt: timestamp("locked_at"),
+  lockedBy: varchar("locked_by", { length: 100 }), // Worker id, for spotting jobs orphaned by a crash
+  lastError: text("last_error"),
+  createdBy: varchar("created_by"), // null = queued by the system
+  createdAt: timestamp("created_at").defaultNow(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [
+  index("idx_background_jobs_claim").on(table.status, table.runAt),
+  index("idx_background_jobs_type").on(table.type, table.status),
+  index("idx_background_jobs_dedupe").on(table.dedupeKey),
+  index("idx_background_jobs_created").on(table.createdAt),
+]);
+
 // Onboarding Form Configuration table
 export const onboardingFormConfig = pgTable("onboarding_form_config", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -491,21 +823,49 @@ export const insertCategorySchema = createInsertSchema(categories).omit({
 
 export const insertHackathonSchema = createInsertSchema(hackathons).omit({
   id: true,
+  scoringClosedAt: true, // Closed and reopened through judging only
+  isPublic: true, // Set through the showcase settings only
+  showLeaderboard: true,
+  deletedAt: true, // Set by the trash only
+  trashId: true,
   createdAt: true,
   updatedAt: true,
 });
 
 export const insertTeamSchema = createInsertSchema(teams).omit({
   id: true,
+  teamSize: true, // Counted from team_members
+  registrationStatus: true, // Decided by organizers through the registration routes
+  registrationNote: true,
+  registrationDecidedBy: true,
+  registrationDecidedAt: true,
+  deadlineExtendedUntil: true,
+  deadlineExtendedBy: true,
+  deletedAt: true, // Set by the trash only
+  trashId: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertSubmissionSchema = createInsertSchema(submissions).omit({
+export const insertSubmissionSchema = createInsertSchema(submissions, {
+  language: (schema) => schema.refine(isSupportedLanguage, "Unsupported language"),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
   authorId: true, // Remove author from form input - will be set server-side
+  status: true, // Changed through the review workflow only (shared/submission-review.ts)
+  evaluationScore: true, // Written when judging closes (server/judging.ts)
+  evaluatorId: true,
+  evaluationComments: true,
+  hiddenFromShowcase: true, // Set through the showcase settings only
+  originalSubmissionId: true, // Linked by the create-translation action only (server/translations.ts)
+  submissionGroup: true,
+  isOriginal: true,
+  revision: true, // Tracked by server/translations.ts
+  basedOnRevision: true,
+  deletedAt: true, // Set by the trash only
+  trashId: true,
 });
 
 export const insertTopicSchema = createInsertSchema(topics).omit({
@@ -524,14 +884,34 @@ export const insertFreeHackathonAccessSchema = createInsertSchema(freeHackathonA
   createdAt: true,
 });
 
+export const insertSearchDocumentSchema = createInsertSchema(searchDocuments).omit({
+  id: true,
+  updatedAt: true,
+});
+
 export const insertFileSchema = createInsertSchema(files).omit({
   id: true,
+  // Written by the media pipeline only
+  mediaMetadata: true,
+  thumbnailStorageKey: true,
+  waveformPeaks: true,
+  processingStatus: true,
+  processingError: true,
+  processedAt: true,
+  // Set when an organizer releases a quarantined file
+  quarantineReviewedBy: true,
+  quarantineReviewedAt: true,
+  deletedAt: true, // Set by the trash only
+  trashId: true,
   createdAt: true,
   updatedAt: true,
 });
 
 export const insertFileFolderSchema = createInsertSchema(fileFolders).omit({
   id: true,
+  folderPath: true, // Derived from parentFolderId by storage
+  deletedAt: true, // Set by the trash only
+  trashId: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -540,6 +920,19 @@ export const insertOtpVerificationSchema = createInsertSchema(otpVerifications).
   createdAt: true,
 });
 
+export const insertUploadSessionSchema = createInsertSchema(uploadSessions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertFileShareLinkSchema = createInsertSchema(fileShareLinks).omit({
+  id: true,
+  downloadCount: true,
+  createdAt: true,
+  lastAccessedAt: true,
+});
+
 export const insertDownloadLogSchema = createInsertSchema(downloadLogs).omit({
   id: true,
   downloadedAt: true,
@@ -551,6 +944,76 @@ export const insertNotificationSchema = createInsertSchema(notifications).omit({
   readAt: true,
 });
 
+export const insertStorageQuotaSchema = createInsertSchema(storageQuotas).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertTrashEntrySchema = createInsertSchema(trashEntries).omit({
+  id: true,
+});
+
+export const insertSubmissionReviewerSchema = createInsertSchema(submissionReviewers).omit({
+  id: true,
+  assignedAt: true,
+});
+
+export const insertSubmissionStatusChangeSchema = createInsertSchema(submissionStatusHistory).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSubmissionRevisionSchema = createInsertSchema(submissionRevisions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTeamMemberSchema = createInsertSchema(teamMembers).omit({
+  id: true,
+  joinedAt: true,
+});
+
+export const insertTeamInvitationSchema = createInsertSchema(teamInvitations).omit({
+  id: true,
+  status: true,
+  respondedBy: true,
+  respondedAt: true,
+  createdAt: true,
+});
+
+export const insertRubricCriterionSchema = createInsertSchema(rubricCriteria).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertHackathonJudgeSchema = createInsertSchema(hackathonJudges).omit({
+  id: true,
+  assignedAt: true,
+});
+
+export const insertJudgeScoreSchema = createInsertSchema(judgeScores).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertBackgroundJobSchema = createInsertSchema(backgroundJobs).omit({
+  id: true,
+  status: true,
+  progress: true,
+  progressMessage: true,
+  result: true,
+  attempts: true,
+  lockedAt: true,
+  lockedBy: true,
+  lastError: true,
+  createdAt: true,
+  startedAt: true,
+  finishedAt: true,
+});
+
 export const insertOnboardingFormConfigSchema = createInsertSchema(onboardingFormConfig).omit({
   id: true,
   createdAt: true,
@@ -590,6 +1053,8 @@ export type InsertFreeHackathonAccess = typeof insertFreeHackathonAccessSchema._
 
 export type File = typeof files.$inferSelect;
 export type InsertFile = typeof insertFileSchema._type;
+export type SearchDocument = typeof searchDocuments.$inferSelect;
+export type InsertSearchDocument = typeof insertSearchDocumentSchema._type;
 
 export type FileFolder = typeof fileFolders.$inferSelect;
 export type InsertFileFolder = typeof insertFileFolderSchema._type;
@@ -597,12 +1062,56 @@ export type InsertFileFolder = typeof insertFileFolderSchema._type;
 export type OtpVerification = typeof otpVerifications.$inferSelect;
 export type InsertOtpVerification = typeof insertOtpVerificationSchema._type;
 
+export type UploadSession = typeof uploadSessions.$inferSelect;
+export type InsertUploadSession = typeof insertUploadSessionSchema._type;
+
+export type FileShareLink = typeof fileShareLinks.$inferSelect;
+export type InsertFileShareLink = typeof insertFileShareLinkSchema._type;
+
 export type DownloadLog = typeof downloadLogs.$inferSelect;
 export type InsertDownloadLog = typeof insertDownloadLogSchema._type;
 
 export type Notification = typeof notifications.$inferSelect;
 export type InsertNotification = typeof insertNotificationSchema._type;
 
+export type StorageQuota = typeof storageQuotas.$inferSelect;
+export type InsertStorageQuota = typeof insertStorageQuotaSchema._type;
+export type QuotaScope = "user" | "team" | "hackathon";
+
+export type TrashEntry = typeof trashEntries.$inferSelect;
+export type InsertTrashEntry = typeof insertTrashEntrySchema._type;
+export type TrashEntityType = "hackathons" | "teams" | "submissions" | "folders" | "files";
+
+export type SubmissionReviewer = typeof submissionReviewers.$inferSelect;
+export type InsertSubmissionReviewer = typeof insertSubmissionReviewerSchema._type;
+
+export type SubmissionStatusChange = typeof submissionStatusHistory.$inferSelect;
+export type InsertSubmissionStatusChange = typeof insertSubmissionStatusChangeSchema._type;
+
+export type SubmissionRevision = typeof submissionRevisions.$inferSelect;
+export type InsertSubmissionRevision = typeof insertSubmissionRevisionSchema._type;
+
+export type TeamMember = typeof teamMembers.$inferSelect;
+export type InsertTeamMember = typeof insertTeamMemberSchema._type;
+export type TeamMemberRole = "leader" | "member";
+
+export type TeamInvitation = typeof teamInvitations.$inferSelect;
+export type InsertTeamInvitation = typeof insertTeamInvitationSchema._type;
+export type TeamInvitationStatus = "pending" | "accepted" | "declined" | "revoked";
+
+export type RubricCriterion = typeof rubricCriteria.$inferSelect;
+export type InsertRubricCriterion = typeof insertRubricCriterionSchema._type;
+
+export type HackathonJudge = typeof hackathonJudges.$inferSelect;
+export type InsertHackathonJudge = typeof insertHackathonJudgeSchema._type;
+
+export type JudgeScore = typeof judgeScores.$inferSelect;
+export type InsertJudgeScore = typeof insertJudgeScoreSchema._type;
+
+export type BackgroundJob = typeof backgroundJobs.$inferSelect;
+export type InsertBackgroundJob = typeof insertBackgroundJobSchema._type;
+export type JobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
 // Backward compatibility exports (deprecated - use new names)
 export const themes = categories;
 export const projects = hackathons;
@@ -0,0 +1,94 @@
+import { can } from './permissions';
+
+// Review workflow for submissions, shared by the server and the client.
+// submissions.status only changes through these transitions (see
+// server/submission-review.ts); each one is recorded in
+// submission_status_history.
+
+export const SUBMISSION_STATUSES = [
+  'Draft',
+  'Under Review',
+  'Needs Revision',
+  'Approved',
+  'Published',
+] as const;
+
+export type SubmissionStatus = typeof SUBMISSION_STATUSES[number];
+
+// Who may take a transition:
+//   author    - the submission's author or a member of its team, or staff
+//               who manage submissions
+//   reviewer  - an assigned reviewer, or anyone who assigns reviewers
+//   publisher - organizers who publish approved submissions
+type TransitionActor = 'author' | 'reviewer' | 'publisher';
+
+export interface SubmissionTransition {
+  id: string;
+  label: string;
+  from: readonly SubmissionStatus[];
+  to: SubmissionStatus;
+  actor: TransitionActor;
+  requiresComment?: boolean; // The comment tells the author what to change
+}
+
+export const SUBMISSION_TRANSITIONS = [
+  { id: 'submit', label: 'Submit for review', from: ['Draft', 'Needs Revision'], to: 'Under Review', actor: 'author' },
+  { id: 'withdraw', label: 'Withdraw', from: ['Under Review', 'Needs Revision'], to: 'Draft', actor: 'author' },
+  { id: 'requestChanges', label: 'Request changes', from: ['Under Review'], to: 'Needs Revision', actor: 'reviewer', requiresComment: true },
+  { id: 'approve', label: 'Approve', from: ['Under Review'], to: 'Approved', actor: 'reviewer' },
+  { id: 'reopen', label: 'Reopen review', from: ['Approved'], to: 'Under Review', actor: 'reviewer' },
+  { id: 'publish', label: 'Publish', from: ['Approved'], to: 'Published', actor: 'publisher' },
+  { id: 'unpublish', label: 'Unpublish', from: ['Published'], to: 'Approved', actor: 'publisher' },
+] as const satisfies readonly SubmissionTransition[];
+
+export type SubmissionTransitionId = typeof SUBMISSION_TRANSITIONS[number]['id'];
+
+export function getSubmissionTransition(id: string): SubmissionTransition | undefined {
+  return SUBMISSION_TRANSITIONS.find((transition) => transition.id === id);
+}
+
+// Statuses written before the workflow existed: "Submitted" was the old name
+// for Under Review, anything unknown starts over as a draft
+export function normalizeSubmissionStatus(status: string | null | undefined): SubmissionStatus {
+  if (status === 'Submitted') return 'Under Review';
+  return SUBMISSION_STATUSES.find((known) => known === status) ?? 'Draft';
+}
+
+type RoleHolder = { id?: string; role?: string | null } | null | undefined;
+
+export interface ReviewParticipants {
+  authorId: string;
+  teamMemberIds: string[];
+  reviewerIds: string[];
+}
+
+function canAct(user: RoleHolder, actor: TransitionActor, participants: ReviewParticipants): boolean {
+  if (!user) return false;
+  switch (actor) {
+    case 'author':
+      return (!!user.id && (user.id === participants.authorId || participants.teamMemberIds.includes(user.id)))
+        || can(user, 'submissions.manage');
+    case 'reviewer':
+      return can(user, 'submissions.review')
+        && ((!!user.id && participants.reviewerIds.includes(user.id)) || can(user, 'submissions.assignReviewers'));
+    case 'publisher':
+      return can(user, 'submissions.publish');
+  }
+}
+
+export function canTakeTransition(
+  user: RoleHolder,
+  transition: SubmissionTransition,
+  status: string,
+  participants: ReviewParticipants,
+): boolean {
+  return transition.from.includes(normalizeSubmissionStatus(status)) && canAct(user, transition.actor, participants);
+}
+
+export function getAvailableTransitions(
+  user: RoleHolder,
+  status: string,
+  participants: ReviewParticipants,
+): SubmissionTransition[] {
+  return SUBMISSION_TRANSITIONS.filter((transition) => canTakeTransition(user, transition, status, participants));
+}
@@ -0,0 +1,77 @@
+// Translation staleness, shared by the server (server/translations.ts) and
+// the side-by-side editor. An original's revision goes up whenever its text
+// changes while it has translations; each translation records the revision
+// it was last brought up to date with.
+
+export interface RevisionText {
+  title: string;
+  description: string;
+  content: string | null;
+}
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Translations from before revisions were tracked have no basedOnRevision;
+// every original was at revision 1 back then
+export function isTranslationOutdated(
+  translation: { basedOnRevision?: number | null },
+  original: { revision: number },
+): boolean {
+  return (translation.basedOnRevision ?? 1) < original.revision;
+}
+
+export function hasTextChanges(current: RevisionText, changes: Partial<RevisionText>): boolean {
+  return (changes.title !== undefined && changes.title !== current.title)
+    || (changes.description !== undefined && changes.description !== current.description)
+    || (changes.content !== undefined && (changes.content ?? null) !== (current.content ?? null));
+}
+
+// Submission content is editor HTML; compare it paragraph by paragraph
+export function htmlToLines(html: string | null | undefined): string[] {
+  if (!html) return [];
+  const text = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|blockquote|pre)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+  return text.split('\n').map((line) => line.trim()).filter((line) => line.length > 0);
+}
+
+// Line diff from the longest common subsequence; removed lines come before
+// the lines that replaced them
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+  const lengths: number[][] = Array.from({ length: before.length + 1 }, () => new Array(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      lines.push({ type: 'same', text: before[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: 'removed', text: before[i++] });
+    } else {
+      lines.push({ type: 'added', text: after[j++] });
+    }
+  }
+  while (i < before.length) lines.push({ type: 'removed', text: before[i++] });
+  while (j < after.length) lines.push({ type: 'added', text: after[j++] });
+  return lines;
+}